@@ -19,6 +19,7 @@ interface CalendarDay {
   date: number;
   dayOfWeek: string;
   hasShifts: boolean;
+  hasHolidayShifts: boolean;
   shifts: any[];
 }
 
@@ -70,6 +71,9 @@ export default function CalendarScreen() {
         end_time: shift.endTime || shift.end_time,
         location: shift.location || '',
         status: shift.status || 'pending',
+        series_id: shift.seriesId || shift.series_id || null,
+        is_series_exception: shift.isSeriesException || false,
+        public_holiday: shift.publicHoliday || null,
       }));
       
       setAllShifts(transformedShifts);
@@ -93,6 +97,7 @@ export default function CalendarScreen() {
           date: i,
           dayOfWeek: daysOfWeek[new Date(currentDate.getFullYear(), currentDate.getMonth(), i).getDay()],
           hasShifts: dayShifts.length > 0,
+          hasHolidayShifts: dayShifts.some((shift: any) => shift.public_holiday),
           shifts: dayShifts,
         });
       }
@@ -124,6 +129,16 @@ export default function CalendarScreen() {
         </Text>
         <Text style={styles.monthText}>{currentMonth}</Text>
       </View>
+      {userRole === 'support_worker' && (
+        <TouchableOpacity style={styles.refreshButton} onPress={() => router.push('/open-shifts')}>
+          <IconSymbol
+            ios_icon_name="calendar.badge.plus"
+            android_material_icon_name="event-available"
+            size={24}
+            color="#FFFFFF"
+          />
+        </TouchableOpacity>
+      )}
       <TouchableOpacity style={styles.refreshButton} onPress={handleRefresh}>
         <IconSymbol 
           ios_icon_name="arrow.clockwise" 
@@ -164,6 +179,7 @@ export default function CalendarScreen() {
           >
             {day.date}
           </Text>
+          {day.hasHolidayShifts && <View style={styles.holidayDot} />}
         </TouchableOpacity>
       ))}
     </View>
@@ -191,7 +207,26 @@ export default function CalendarScreen() {
                   style={styles.shiftCard}
                   onPress={() => router.push(`/shift/${shift.id}`)}
                 >
-                  <Text style={styles.shiftTitle}>{shift.title}</Text>
+                  <View style={styles.shiftTitleRow}>
+                    <Text style={[styles.shiftTitle, shift.status === 'cancelled' && styles.cancelledText]}>
+                      {shift.title}
+                    </Text>
+                    {shift.series_id && (
+                      <IconSymbol
+                        ios_icon_name="repeat"
+                        android_material_icon_name="repeat"
+                        size={16}
+                        color={colors.textSecondary}
+                      />
+                    )}
+                  </View>
+                  {shift.status === 'cancelled' && <Text style={styles.shiftStatus}>Cancelled</Text>}
+                  {shift.public_holiday && (
+                    <Text style={styles.holidayText}>Public holiday: {shift.public_holiday}</Text>
+                  )}
+                  {shift.series_id && shift.is_series_exception && (
+                    <Text style={styles.shiftStatus}>Changed from series</Text>
+                  )}
                   <Text style={styles.shiftTime}>
                     {new Date(shift.start_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - 
                     {new Date(shift.end_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
@@ -289,6 +324,13 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '700',
   },
+  holidayDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.warning,
+    marginTop: 2,
+  },
   scheduleContainer: {
     flex: 1,
     backgroundColor: colors.background,
@@ -331,12 +373,34 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border,
   },
+  shiftTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   shiftTitle: {
     fontSize: 16,
     fontWeight: '600',
     color: colors.text,
     marginBottom: 4,
   },
+  cancelledText: {
+    textDecorationLine: 'line-through',
+    color: colors.textSecondary,
+  },
+  shiftStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  holidayText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.warning,
+    marginBottom: 4,
+  },
   shiftTime: {
     fontSize: 14,
     color: colors.textSecondary,
@@ -14,6 +14,7 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { authenticatedGet, BACKEND_URL } from '@/utils/api';
+import { CalendarFeedSettings } from '@/components/CalendarFeedSettings';
 
 interface UserProfile {
   id: string;
@@ -137,6 +138,21 @@ export default function ProfileScreen() {
       label: 'My Documents',
       route: '/(tabs)/documents',
     },
+    {
+      icon: 'calendar.badge.checkmark',
+      label: 'Availability & Leave',
+      route: '/availability',
+    },
+    {
+      icon: 'receipt',
+      label: 'Expense Claims',
+      route: '/expense-claims',
+    },
+    {
+      icon: 'doc.plaintext',
+      label: 'My Payslips',
+      route: '/payslips',
+    },
     {
       icon: 'briefcase',
       label: 'Job Board',
@@ -234,6 +250,11 @@ export default function ProfileScreen() {
           {menuItems.map(renderMenuItem)}
         </View>
 
+        <View style={styles.menuSection}>
+          <Text style={styles.sectionTitle}>Calendar</Text>
+          <CalendarFeedSettings />
+        </View>
+
         <TouchableOpacity 
           style={[styles.logoutButton, loggingOut && styles.logoutButtonDisabled]} 
           onPress={handleLogout}
@@ -18,6 +18,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { authenticatedGet, BACKEND_URL } from '@/utils/api';
 import { PushNotificationSettings } from '@/components/PushNotificationSettings';
 import { SupabaseStatus } from '@/components/SupabaseStatus';
+import { CalendarFeedSettings } from '@/components/CalendarFeedSettings';
 
 interface UserProfile {
   user: {
@@ -93,7 +94,28 @@ export default function ProfileScreen() {
     );
   };
 
+  const isSupportWorker = profile?.roles?.includes('support_worker') ?? false;
+
   const menuItems = [
+    ...(isSupportWorker ? [{
+      id: 'availability',
+      icon: 'event-available',
+      label: 'Availability & Leave',
+      onPress: () => router.push('/availability'),
+      danger: false,
+    }, {
+      id: 'expense-claims',
+      icon: 'receipt',
+      label: 'Expense Claims',
+      onPress: () => router.push('/expense-claims'),
+      danger: false,
+    }, {
+      id: 'payslips',
+      icon: 'receipt-long',
+      label: 'My Payslips',
+      onPress: () => router.push('/payslips'),
+      danger: false,
+    }] : []),
     {
       id: 'notifications',
       icon: 'notifications',
@@ -199,6 +221,11 @@ export default function ProfileScreen() {
           </View>
         )}
 
+        <View style={styles.menuSection}>
+          <Text style={styles.sectionTitle}>Calendar</Text>
+          <CalendarFeedSettings />
+        </View>
+
         <View style={styles.menuSection}>
           <Text style={styles.sectionTitle}>Account</Text>
           <View style={styles.menuList}>
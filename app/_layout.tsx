@@ -19,6 +19,7 @@ import { WidgetProvider } from "@/contexts/WidgetContext";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import Constants from "expo-constants";
 import { initializePushNotifications, registerDevice, addNotificationReceivedListener, addNotificationResponseListener } from "@/utils/pushNotifications";
+import { processQueue } from "@/utils/offlineQueue";
 
 console.log('[App] Backend URL:', Constants.expoConfig?.extra?.backendUrl);
 console.log('[App] Supabase URL:', Constants.expoConfig?.extra?.supabaseUrl);
@@ -66,6 +67,23 @@ function PushNotificationSetup() {
   return null;
 }
 
+function OfflineSync() {
+  const { user } = useAuth();
+  const networkState = useNetworkState();
+  const online = !!networkState.isConnected && networkState.isInternetReachable !== false;
+
+  useEffect(() => {
+    if (user?.id && online) {
+      console.log('[App] Online, replaying queued offline actions');
+      processQueue().catch((error) => {
+        console.error('[App] Failed to sync offline actions:', error);
+      });
+    }
+  }, [user?.id, online]);
+
+  return null;
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const networkState = useNetworkState();
@@ -127,6 +145,7 @@ export default function RootLayout() {
         >
           <AuthProvider>
             <PushNotificationSetup />
+            <OfflineSync />
             <WidgetProvider>
               <GestureHandlerRootView>
               <Stack>
@@ -145,6 +164,15 @@ export default function RootLayout() {
                 <Stack.Screen name="clients" options={{ headerShown: false }} />
                 <Stack.Screen name="clients-map" options={{ headerShown: false }} />
                 <Stack.Screen name="shift/[id]" options={{ headerShown: false }} />
+                <Stack.Screen name="open-shifts" options={{ headerShown: false }} />
+                <Stack.Screen name="availability" options={{ headerShown: false }} />
+                <Stack.Screen name="roster-import" options={{ headerShown: false }} />
+                <Stack.Screen name="timesheet-review" options={{ headerShown: false }} />
+                <Stack.Screen name="timesheet-approvals" options={{ headerShown: false }} />
+                <Stack.Screen name="expense-claims" options={{ headerShown: false }} />
+                <Stack.Screen name="public-holidays" options={{ headerShown: false }} />
+                <Stack.Screen name="pay-runs" options={{ headerShown: false }} />
+                <Stack.Screen name="payslips" options={{ headerShown: false }} />
                 <Stack.Screen name="reports" options={{ headerShown: false }} />
 
                 <Stack.Screen
@@ -0,0 +1,537 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, authenticatedPost, authenticatedPut, BACKEND_URL } from '@/utils/api';
+
+interface AvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+interface LeaveRequest {
+  id: string;
+  leaveType: 'annual' | 'sick' | 'personal' | 'unavailable';
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  status: 'pending' | 'approved' | 'declined' | 'cancelled';
+  providerComment: string | null;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const LEAVE_TYPES: { value: LeaveRequest['leaveType']; label: string }[] = [
+  { value: 'annual', label: 'Annual' },
+  { value: 'sick', label: 'Sick' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'unavailable', label: 'Unavailable' },
+];
+
+export default function AvailabilityScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [leaveType, setLeaveType] = useState<LeaveRequest['leaveType']>('annual');
+  const [leaveStart, setLeaveStart] = useState(new Date());
+  const [leaveEnd, setLeaveEnd] = useState(new Date());
+  const [leaveReason, setLeaveReason] = useState('');
+  const [showStartPicker, setShowStartPicker] = useState(false);
+  const [showEndPicker, setShowEndPicker] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadAvailability();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading]);
+
+  const loadAvailability = async () => {
+    try {
+      setLoading(true);
+      console.log('[Availability] Loading availability from:', BACKEND_URL);
+
+      // GET /api/availability - Current worker's weekly availability
+      const windowsResponse = await authenticatedGet<AvailabilityWindow[]>('/api/availability');
+      console.log('[Availability] Windows response:', windowsResponse);
+      setWindows((windowsResponse || []).map((window) => ({
+        dayOfWeek: window.dayOfWeek,
+        startTime: window.startTime,
+        endTime: window.endTime,
+      })));
+
+      // GET /api/leave-requests - Current worker's leave requests
+      const leaveResponse = await authenticatedGet<LeaveRequest[]>('/api/leave-requests');
+      console.log('[Availability] Leave response:', leaveResponse);
+      setLeaveRequests(leaveResponse || []);
+    } catch (error) {
+      console.error('[Availability] Error loading availability:', error);
+      Alert.alert('Error', 'Failed to load availability. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateWindow = (index: number, field: 'startTime' | 'endTime', value: string) => {
+    setWindows(windows.map((window, i) => (i === index ? { ...window, [field]: value } : window)));
+  };
+
+  const addWindow = (dayOfWeek: number) => {
+    setWindows([...windows, { dayOfWeek, startTime: '09:00', endTime: '17:00' }]);
+  };
+
+  const removeWindow = (index: number) => {
+    setWindows(windows.filter((_, i) => i !== index));
+  };
+
+  const handleSaveWindows = async () => {
+    try {
+      setSaving(true);
+      console.log('[Availability] Saving windows:', windows);
+
+      // PUT /api/availability - Replace weekly availability
+      await authenticatedPut('/api/availability', { windows });
+      Alert.alert('Saved', 'Your weekly availability has been updated.');
+      loadAvailability();
+    } catch (error) {
+      console.error('[Availability] Error saving windows:', error);
+      Alert.alert('Error', 'Failed to save availability. Check times use HH:MM and end after they start.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRequestLeave = async () => {
+    // Leave covers whole days: from the start of the first day to the end of the last
+    const startDate = new Date(leaveStart);
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(leaveEnd);
+    endDate.setHours(23, 59, 59, 999);
+
+    if (endDate <= startDate) {
+      Alert.alert('Error', 'Leave must end on or after the day it starts');
+      return;
+    }
+
+    try {
+      console.log('[Availability] Requesting leave:', { leaveType, startDate, endDate });
+
+      // POST /api/leave-requests - Submit leave to active providers
+      await authenticatedPost('/api/leave-requests', {
+        leaveType,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        reason: leaveReason || undefined,
+      });
+
+      Alert.alert('Leave Requested', 'Your provider will review your request.');
+      setLeaveReason('');
+      loadAvailability();
+    } catch (error) {
+      console.error('[Availability] Error requesting leave:', error);
+      Alert.alert('Error', 'Failed to request leave. Please try again.');
+    }
+  };
+
+  const handleCancelLeave = async (leaveRequest: LeaveRequest) => {
+    try {
+      console.log('[Availability] Cancelling leave request:', leaveRequest.id);
+
+      // POST /api/leave-requests/:id/cancel - Cancel a leave request
+      await authenticatedPost(`/api/leave-requests/${leaveRequest.id}/cancel`, {});
+      loadAvailability();
+    } catch (error) {
+      console.error('[Availability] Error cancelling leave:', error);
+      Alert.alert('Error', 'Failed to cancel leave. Please try again.');
+    }
+  };
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  const getStatusColor = (status: LeaveRequest['status']) => {
+    switch (status) {
+      case 'approved':
+        return colors.success;
+      case 'declined':
+        return colors.danger;
+      default:
+        return colors.textSecondary;
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Availability & Leave',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            <Text style={styles.sectionTitle}>Weekly Availability</Text>
+            <Text style={styles.sectionHint}>
+              Leave every day empty if you can work any time. Times use 24-hour HH:MM.
+            </Text>
+
+            <View style={styles.card}>
+              {DAY_NAMES.map((dayName, dayOfWeek) => (
+                <View key={dayName} style={styles.dayRow}>
+                  <View style={styles.dayHeader}>
+                    <Text style={styles.dayName}>{dayName}</Text>
+                    <TouchableOpacity onPress={() => addWindow(dayOfWeek)}>
+                      <IconSymbol
+                        ios_icon_name="plus.circle"
+                        android_material_icon_name="add-circle-outline"
+                        size={22}
+                        color={colors.primary}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                  {windows.map((window, index) => window.dayOfWeek === dayOfWeek && (
+                    <View key={index} style={styles.windowRow}>
+                      <TextInput
+                        style={styles.timeInput}
+                        value={window.startTime}
+                        onChangeText={(value) => updateWindow(index, 'startTime', value)}
+                        placeholder="09:00"
+                        placeholderTextColor={colors.textSecondary}
+                      />
+                      <Text style={styles.windowSeparator}>to</Text>
+                      <TextInput
+                        style={styles.timeInput}
+                        value={window.endTime}
+                        onChangeText={(value) => updateWindow(index, 'endTime', value)}
+                        placeholder="17:00"
+                        placeholderTextColor={colors.textSecondary}
+                      />
+                      <TouchableOpacity onPress={() => removeWindow(index)}>
+                        <IconSymbol
+                          ios_icon_name="minus.circle"
+                          android_material_icon_name="remove-circle-outline"
+                          size={22}
+                          color={colors.danger}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              ))}
+
+              <TouchableOpacity style={styles.primaryButton} onPress={handleSaveWindows} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Save Availability</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.sectionTitle}>Request Leave</Text>
+            <View style={styles.card}>
+              <View style={styles.leaveTypeRow}>
+                {LEAVE_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type.value}
+                    style={[styles.leaveTypeChip, leaveType === type.value && styles.leaveTypeChipActive]}
+                    onPress={() => setLeaveType(type.value)}
+                  >
+                    <Text style={[styles.leaveTypeText, leaveType === type.value && styles.leaveTypeTextActive]}>
+                      {type.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity style={styles.dateButton} onPress={() => setShowStartPicker(true)}>
+                <Text style={styles.dateLabel}>From</Text>
+                <Text style={styles.dateValue}>{formatDate(leaveStart)}</Text>
+              </TouchableOpacity>
+              {showStartPicker && (
+                <DateTimePicker
+                  value={leaveStart}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={(event, selectedDate) => {
+                    setShowStartPicker(Platform.OS === 'ios');
+                    if (selectedDate) {
+                      setLeaveStart(selectedDate);
+                      if (selectedDate > leaveEnd) setLeaveEnd(selectedDate);
+                    }
+                  }}
+                />
+              )}
+
+              <TouchableOpacity style={styles.dateButton} onPress={() => setShowEndPicker(true)}>
+                <Text style={styles.dateLabel}>To</Text>
+                <Text style={styles.dateValue}>{formatDate(leaveEnd)}</Text>
+              </TouchableOpacity>
+              {showEndPicker && (
+                <DateTimePicker
+                  value={leaveEnd}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={(event, selectedDate) => {
+                    setShowEndPicker(Platform.OS === 'ios');
+                    if (selectedDate) setLeaveEnd(selectedDate);
+                  }}
+                  minimumDate={leaveStart}
+                />
+              )}
+
+              <TextInput
+                style={styles.reasonInput}
+                value={leaveReason}
+                onChangeText={setLeaveReason}
+                placeholder="Reason (optional)"
+                placeholderTextColor={colors.textSecondary}
+                multiline
+              />
+
+              <TouchableOpacity style={styles.primaryButton} onPress={handleRequestLeave}>
+                <Text style={styles.primaryButtonText}>Submit Request</Text>
+              </TouchableOpacity>
+            </View>
+
+            {leaveRequests.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>My Leave</Text>
+                {leaveRequests.map((leaveRequest) => (
+                  <View key={leaveRequest.id} style={styles.leaveCard}>
+                    <View style={styles.leaveHeader}>
+                      <Text style={styles.leaveTitle}>
+                        {LEAVE_TYPES.find((type) => type.value === leaveRequest.leaveType)?.label} leave
+                      </Text>
+                      <Text style={[styles.leaveStatus, { color: getStatusColor(leaveRequest.status) }]}>
+                        {leaveRequest.status}
+                      </Text>
+                    </View>
+                    <Text style={styles.leaveDates}>
+                      {formatDate(leaveRequest.startDate)} - {formatDate(leaveRequest.endDate)}
+                    </Text>
+                    {leaveRequest.providerComment && (
+                      <Text style={styles.leaveComment}>{leaveRequest.providerComment}</Text>
+                    )}
+                    {(leaveRequest.status === 'pending' || leaveRequest.status === 'approved') && (
+                      <TouchableOpacity onPress={() => handleCancelLeave(leaveRequest)}>
+                        <Text style={styles.cancelText}>Cancel</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dayRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dayName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  timeInput: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+    width: 80,
+    textAlign: 'center',
+  },
+  windowSeparator: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  leaveTypeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  leaveTypeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  leaveTypeChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  leaveTypeText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  leaveTypeTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  dateLabel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  dateValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  reasonInput: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: colors.text,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  leaveCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  leaveHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  leaveTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  leaveStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  leaveDates: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  leaveComment: {
+    fontSize: 14,
+    color: colors.text,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.danger,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,551 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import * as ImagePicker from 'expo-image-picker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, authenticatedPost, BACKEND_URL, getBearerToken } from '@/utils/api';
+
+type ExpenseCategory = 'client_activities' | 'meals' | 'parking_tolls' | 'public_transport' | 'supplies' | 'other';
+
+interface ExpenseClaim {
+  id: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: string;
+  gstAmount: string;
+  expenseDate: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNote: string | null;
+  payslipId: string | null;
+  workerName: string;
+  shiftTitle: string | null;
+  receiptUrl: string | null;
+}
+
+interface ProviderLink {
+  serviceProviderId: string;
+  status: 'active' | 'inactive';
+}
+
+const CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'client_activities', label: 'Client activities' },
+  { value: 'meals', label: 'Meals' },
+  { value: 'parking_tolls', label: 'Parking & tolls' },
+  { value: 'public_transport', label: 'Public transport' },
+  { value: 'supplies', label: 'Supplies' },
+  { value: 'other', label: 'Other' },
+];
+
+const STATUS_COLORS: Record<ExpenseClaim['status'], string> = {
+  pending: colors.warning,
+  approved: colors.success,
+  rejected: colors.danger,
+};
+
+export default function ExpenseClaimsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [isProvider, setIsProvider] = useState(false);
+  const [claims, setClaims] = useState<ExpenseClaim[]>([]);
+  const [providerId, setProviderId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [category, setCategory] = useState<ExpenseCategory>('client_activities');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [gstAmount, setGstAmount] = useState('');
+  const [expenseDate, setExpenseDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadClaims();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading]);
+
+  const loadClaims = async () => {
+    try {
+      setLoading(true);
+      console.log('[ExpenseClaims] Loading claims from:', BACKEND_URL);
+
+      // GET /api/users/me - Providers review claims, workers make them
+      const me = await authenticatedGet<{ user: any; roles: { role: string }[] }>('/api/users/me');
+      const provider = (me?.roles || []).some((r) => r.role === 'service_provider');
+      setIsProvider(provider);
+
+      // GET /api/expense-claims - Own claims for workers, claims to review for providers
+      const claimsResponse = await authenticatedGet<ExpenseClaim[]>('/api/expense-claims');
+      console.log('[ExpenseClaims] Claims response:', claimsResponse);
+      setClaims(claimsResponse || []);
+
+      if (!provider) {
+        // GET /api/support-workers/providers - Claims not tied to a shift go to the worker's provider
+        const links = await authenticatedGet<ProviderLink[]>('/api/support-workers/providers?status=active');
+        setProviderId(links?.[0]?.serviceProviderId || null);
+      }
+    } catch (error) {
+      console.error('[ExpenseClaims] Error loading claims:', error);
+      Alert.alert('Error', 'Failed to load expense claims.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmitClaim = async () => {
+    if (!description.trim() || !(parseFloat(amount) > 0)) {
+      Alert.alert('Missing Details', 'Enter what the expense was for and how much it cost.');
+      return;
+    }
+    if (!providerId) {
+      Alert.alert('No Provider', 'You need to be linked to a provider to claim expenses.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      console.log('[ExpenseClaims] Submitting claim:', { category, amount, gstAmount });
+
+      // POST /api/expense-claims - Claim an out-of-pocket expense
+      const created = await authenticatedPost<ExpenseClaim>('/api/expense-claims', {
+        serviceProviderId: providerId,
+        category,
+        description: description.trim(),
+        amount,
+        gstAmount: gstAmount || '0',
+        expenseDate: expenseDate.toISOString(),
+      });
+
+      setDescription('');
+      setAmount('');
+      setGstAmount('');
+      Alert.alert('Claim Submitted', 'Attach the receipt so your provider can approve it.', [
+        { text: 'Later', style: 'cancel' },
+        { text: 'Attach Receipt', onPress: () => handleAttachReceipt(created) },
+      ]);
+      loadClaims();
+    } catch (error) {
+      console.error('[ExpenseClaims] Error submitting claim:', error);
+      Alert.alert('Error', 'Failed to submit claim. Check the amount and GST and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAttachReceipt = async (claim: ExpenseClaim) => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: false,
+        quality: 0.8,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      console.log('[ExpenseClaims] Uploading receipt for claim:', claim.id);
+      const formData = new FormData();
+      const uri = result.assets[0].uri;
+      const filename = uri.split('/').pop() || 'receipt';
+      const match = /\.(\w+)$/.exec(filename);
+      const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+      formData.append('file', {
+        uri,
+        name: filename,
+        type,
+      } as any);
+
+      // POST /api/expense-claims/:id/receipt - Attach the receipt to the claim
+      const token = await getBearerToken();
+      const response = await fetch(`${BACKEND_URL}/api/expense-claims/${claim.id}/receipt`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[ExpenseClaims] Upload error:', response.status, errorText);
+        throw new Error(`Upload failed: ${response.status}`);
+      }
+
+      Alert.alert('Receipt Attached', 'Your provider can now review the claim.');
+      loadClaims();
+    } catch (error) {
+      console.error('[ExpenseClaims] Error attaching receipt:', error);
+      Alert.alert('Error', 'Failed to upload receipt. Please try again.');
+    }
+  };
+
+  const handleReview = async (claim: ExpenseClaim, approve: boolean) => {
+    try {
+      console.log('[ExpenseClaims] Reviewing claim:', claim.id, { approve });
+
+      // POST /api/expense-claims/:id/approve or /reject
+      if (approve) {
+        await authenticatedPost(`/api/expense-claims/${claim.id}/approve`, {});
+      } else {
+        await authenticatedPost(`/api/expense-claims/${claim.id}/reject`, {
+          note: 'Not a reimbursable expense',
+        });
+      }
+      loadClaims();
+    } catch (error) {
+      console.error('[ExpenseClaims] Error reviewing claim:', error);
+      Alert.alert('Error', 'Failed to review claim. A receipt must be attached before approving.');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    CATEGORIES.find((c) => c.value === value)?.label || value;
+
+  const renderClaim = (claim: ExpenseClaim) => (
+    <View key={claim.id} style={styles.claimCard}>
+      <View style={styles.claimHeader}>
+        <Text style={styles.claimAmount}>${parseFloat(claim.amount).toFixed(2)}</Text>
+        <Text style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[claim.status] }]}>
+          {claim.status}
+        </Text>
+      </View>
+      <Text style={styles.claimTitle}>{claim.description}</Text>
+      <Text style={styles.claimMeta}>
+        {categoryLabel(claim.category)} · {formatDate(claim.expenseDate)}
+        {parseFloat(claim.gstAmount) > 0 ? ` · GST $${parseFloat(claim.gstAmount).toFixed(2)}` : ''}
+      </Text>
+      {isProvider && <Text style={styles.claimMeta}>{claim.workerName}</Text>}
+      {claim.shiftTitle && <Text style={styles.claimMeta}>Shift: {claim.shiftTitle}</Text>}
+      {claim.payslipId && <Text style={styles.claimMeta}>Reimbursed on a payslip</Text>}
+      {claim.reviewNote && <Text style={styles.reviewNote}>{claim.reviewNote}</Text>}
+
+      <View style={styles.actions}>
+        {claim.receiptUrl ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => Linking.openURL(claim.receiptUrl!)}>
+            <Text style={styles.secondaryButtonText}>View Receipt</Text>
+          </TouchableOpacity>
+        ) : !isProvider && claim.status === 'pending' ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => handleAttachReceipt(claim)}>
+            <Text style={styles.secondaryButtonText}>Attach Receipt</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.claimMeta}>No receipt attached</Text>
+        )}
+        {isProvider && claim.status === 'pending' && (
+          <>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleReview(claim, false)}>
+              <Text style={styles.secondaryButtonText}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !claim.receiptUrl && styles.buttonDisabled]}
+              onPress={() => handleReview(claim, true)}
+              disabled={!claim.receiptUrl}
+            >
+              <Text style={styles.primaryButtonText}>Approve</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: isProvider ? 'Expense Claims' : 'My Expenses',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            {!isProvider && (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>New Claim</Text>
+                <View style={styles.chipRow}>
+                  {CATEGORIES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.chip, category === option.value && styles.chipActive]}
+                      onPress={() => setCategory(option.value)}
+                    >
+                      <Text style={[styles.chipText, category === option.value && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="What was it for?"
+                  placeholderTextColor={colors.textSecondary}
+                  value={description}
+                  onChangeText={setDescription}
+                />
+                <View style={styles.row}>
+                  <TextInput
+                    style={[styles.input, styles.rowInput]}
+                    placeholder="Amount incl. GST"
+                    placeholderTextColor={colors.textSecondary}
+                    value={amount}
+                    onChangeText={setAmount}
+                    keyboardType="decimal-pad"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.rowInput]}
+                    placeholder="GST"
+                    placeholderTextColor={colors.textSecondary}
+                    value={gstAmount}
+                    onChangeText={setGstAmount}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+                  <IconSymbol
+                    ios_icon_name="calendar"
+                    android_material_icon_name="event"
+                    size={20}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.dateText}>{formatDate(expenseDate.toISOString())}</Text>
+                </TouchableOpacity>
+                {showDatePicker && (
+                  <DateTimePicker
+                    value={expenseDate}
+                    mode="date"
+                    maximumDate={new Date()}
+                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                    onChange={(event, selectedDate) => {
+                      setShowDatePicker(Platform.OS === 'ios');
+                      if (selectedDate) setExpenseDate(selectedDate);
+                    }}
+                  />
+                )}
+                <TouchableOpacity
+                  style={[styles.submitButton, saving && styles.buttonDisabled]}
+                  onPress={handleSubmitClaim}
+                  disabled={saving}
+                >
+                  <Text style={styles.primaryButtonText}>{saving ? 'Submitting...' : 'Submit Claim'}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <Text style={styles.sectionTitle}>{isProvider ? 'Claims to Review' : 'My Claims'}</Text>
+            {claims.length === 0 ? (
+              <Text style={styles.emptyText}>No expense claims yet.</Text>
+            ) : (
+              claims.map(renderClaim)
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  dateText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  claimCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  claimHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  claimAmount: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  statusBadge: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+    textTransform: 'capitalize',
+  },
+  claimTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  claimMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  reviewNote: {
+    fontSize: 13,
+    color: colors.text,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: colors.success,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
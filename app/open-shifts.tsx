@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, authenticatedPost, BACKEND_URL } from '@/utils/api';
+
+interface OpenShift {
+  id: string;
+  title: string;
+  description: string | null;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+  clientName: string | null;
+  taskDescription: string | null;
+  claimMode: 'first_claim' | 'provider_select';
+  claimStatus: 'claimed' | 'accepted' | 'declined' | null;
+}
+
+interface SwapOffer {
+  id: string;
+  offeredBy: string;
+  offeredByName: string;
+  requestType: 'cover' | 'swap';
+  status: 'open' | 'accepted' | 'approved' | 'declined' | 'cancelled';
+  reason: string | null;
+  shift: {
+    id: string;
+    title: string;
+    startTime: string;
+    endTime: string;
+    location: string | null;
+    serviceProviderId: string;
+  };
+}
+
+export default function OpenShiftsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [shifts, setShifts] = useState<OpenShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [swapOffers, setSwapOffers] = useState<SwapOffer[]>([]);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  const loadOpenShifts = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log('[OpenShifts] Loading open shifts from:', BACKEND_URL);
+
+      // GET /api/open-shifts - Open shifts published to this worker
+      const response = await authenticatedGet<OpenShift[]>('/api/open-shifts');
+      console.log('[OpenShifts] Open shifts response:', response);
+      setShifts(response || []);
+
+      // GET /api/shift-swaps?status=open - Shifts colleagues are offering
+      const swapResponse = await authenticatedGet<SwapOffer[]>('/api/shift-swaps?status=open');
+      console.log('[OpenShifts] Swap offers response:', swapResponse);
+      setSwapOffers((swapResponse || []).filter((offer) => offer.offeredBy !== user?.id));
+    } catch (error) {
+      console.error('[OpenShifts] Error loading open shifts:', error);
+      Alert.alert('Error', 'Failed to load open shifts. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadOpenShifts();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading, loadOpenShifts]);
+
+  const handleClaim = async (shift: OpenShift) => {
+    try {
+      setClaimingId(shift.id);
+      console.log('[OpenShifts] Claiming shift:', shift.id);
+
+      // POST /api/open-shifts/:id/claim - Claim an open shift
+      const response = await authenticatedPost<any>(`/api/open-shifts/${shift.id}/claim`, {});
+      console.log('[OpenShifts] Claim response:', response);
+
+      if (response.claim?.status === 'accepted') {
+        Alert.alert('Shift Confirmed', 'The shift is now in your calendar.');
+      } else {
+        Alert.alert('Claim Sent', 'Your provider will confirm who gets this shift.');
+      }
+      loadOpenShifts();
+    } catch (error) {
+      console.error('[OpenShifts] Error claiming shift:', error);
+      const message = error instanceof Error && error.message.includes('409')
+        ? 'This shift overlaps your roster or has already been filled.'
+        : 'Failed to claim shift. Please try again.';
+      Alert.alert('Error', message);
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const acceptSwapOffer = async (offer: SwapOffer, swapShiftId?: string) => {
+    try {
+      setClaimingId(offer.id);
+      console.log('[OpenShifts] Accepting swap offer:', offer.id, swapShiftId);
+
+      // POST /api/shift-swaps/:id/accept - Accept a colleague's offered shift
+      const response = await authenticatedPost<any>(`/api/shift-swaps/${offer.id}/accept`, { swapShiftId });
+      console.log('[OpenShifts] Accept swap response:', response);
+
+      Alert.alert('Accepted', 'Your provider will approve the change before it appears in your calendar.');
+      loadOpenShifts();
+    } catch (error) {
+      console.error('[OpenShifts] Error accepting swap offer:', error);
+      const message = error instanceof Error && error.message.includes('409')
+        ? 'This shift overlaps one of your existing shifts.'
+        : 'Failed to accept shift. Please try again.';
+      Alert.alert('Error', message);
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const handleAcceptSwapOffer = async (offer: SwapOffer) => {
+    if (offer.requestType === 'cover') {
+      acceptSwapOffer(offer);
+      return;
+    }
+
+    try {
+      // GET /api/shifts - Your upcoming shifts with the same provider to give in exchange
+      const myShifts = await authenticatedGet<any[]>(`/api/shifts?userId=${user?.id}&role=support_worker&status=scheduled`);
+      const exchangeable = (myShifts || [])
+        .filter((shift) =>
+          shift.serviceProviderId === offer.shift.serviceProviderId && new Date(shift.startTime) > new Date()
+        )
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+        .slice(0, 3);
+
+      if (exchangeable.length === 0) {
+        Alert.alert('No Shifts to Swap', 'You need an upcoming shift with this provider to offer in exchange.');
+        return;
+      }
+
+      Alert.alert('Choose a Shift to Swap', `Which of your shifts will ${offer.offeredByName} take?`, [
+        ...exchangeable.map((shift) => ({
+          text: `${shift.title} - ${formatShiftTime(shift)}`,
+          onPress: () => acceptSwapOffer(offer, shift.id),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]);
+    } catch (error) {
+      console.error('[OpenShifts] Error loading shifts to swap:', error);
+      Alert.alert('Error', 'Failed to load your shifts. Please try again.');
+    }
+  };
+
+  const formatShiftTime = (shift: { startTime: string; endTime: string }) => {
+    const start = new Date(shift.startTime);
+    const end = new Date(shift.endTime);
+    const date = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+    const startTime = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    const endTime = end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    return `${date}, ${startTime} - ${endTime}`;
+  };
+
+  const renderClaimAction = (shift: OpenShift) => {
+    if (shift.claimStatus === 'claimed') {
+      return <Text style={styles.claimedText}>Claimed - awaiting confirmation</Text>;
+    }
+
+    if (shift.claimStatus === 'declined') {
+      return <Text style={styles.claimedText}>Given to another worker</Text>;
+    }
+
+    return (
+      <TouchableOpacity
+        style={styles.claimButton}
+        onPress={() => handleClaim(shift)}
+        disabled={claimingId === shift.id}
+      >
+        {claimingId === shift.id ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.claimButtonText}>
+            {shift.claimMode === 'first_claim' ? 'Take Shift' : 'Claim Shift'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Open Shifts',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text style={styles.loadingText}>Loading open shifts...</Text>
+          </View>
+        ) : shifts.length === 0 && swapOffers.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <IconSymbol
+              ios_icon_name="calendar.badge.plus"
+              android_material_icon_name="event-available"
+              size={64}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.emptyTitle}>No Open Shifts</Text>
+            <Text style={styles.emptyText}>
+              You&apos;ll get a notification when your providers publish a shift you can pick up.
+            </Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {shifts.map((shift) => (
+              <View key={shift.id} style={styles.shiftCard}>
+                <Text style={styles.shiftTitle}>{shift.title}</Text>
+                <Text style={styles.shiftDetail}>{formatShiftTime(shift)}</Text>
+                {shift.clientName && <Text style={styles.shiftDetail}>{shift.clientName}</Text>}
+                {shift.location && <Text style={styles.shiftDetail}>{shift.location}</Text>}
+                {shift.taskDescription && <Text style={styles.shiftTasks}>{shift.taskDescription}</Text>}
+                {renderClaimAction(shift)}
+              </View>
+            ))}
+
+            {swapOffers.length > 0 && (
+              <Text style={styles.sectionTitle}>Offered by Colleagues</Text>
+            )}
+            {swapOffers.map((offer) => (
+              <View key={offer.id} style={styles.shiftCard}>
+                <Text style={styles.shiftTitle}>{offer.shift.title}</Text>
+                <Text style={styles.shiftDetail}>{formatShiftTime(offer.shift)}</Text>
+                {offer.shift.location && <Text style={styles.shiftDetail}>{offer.shift.location}</Text>}
+                <Text style={styles.shiftTasks}>
+                  {offer.offeredByName} {offer.requestType === 'swap' ? 'wants to swap' : 'needs cover'}
+                  {offer.reason ? `: ${offer.reason}` : ''}
+                </Text>
+                <TouchableOpacity
+                  style={styles.claimButton}
+                  onPress={() => handleAcceptSwapOffer(offer)}
+                  disabled={claimingId === offer.id}
+                >
+                  {claimingId === offer.id ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.claimButtonText}>
+                      {offer.requestType === 'swap' ? 'Swap Shifts' : 'Cover Shift'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  shiftCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  shiftTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  shiftDetail: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  shiftTasks: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  claimButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  claimButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  claimedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,655 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Linking,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  authenticatedGet,
+  authenticatedPost,
+  authenticatedDelete,
+  BACKEND_URL,
+} from '@/utils/api';
+
+interface PayRunTotals {
+  workers: number;
+  totalHours: number;
+  grossPay: number;
+  tax: number;
+  deductions: number;
+  reimbursements: number;
+  netPay: number;
+  super: number;
+}
+
+interface PayRun {
+  id: string;
+  payPeriodStartDate: string;
+  payPeriodEndDate: string;
+  status: 'draft' | 'finalised' | 'exported';
+  finalisedAt: string | null;
+  exportedAt: string | null;
+  totals: PayRunTotals;
+}
+
+interface PayRunPayslip {
+  id: string;
+  workerName: string;
+  totalHours: string;
+  hourlyRate: string;
+  grossPay: string;
+  netPay: string;
+  tax: number;
+  super: number;
+}
+
+interface SkippedWorker {
+  supportWorkerId: string;
+  workerName: string;
+  timesheetCount: number;
+  reason: string;
+}
+
+interface PayRunSummary {
+  payRun: PayRun;
+  payslips: PayRunPayslip[];
+  totals: PayRunTotals;
+  skipped: SkippedWorker[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatMoney = (amount: number | string) => `$${parseFloat(amount.toString()).toFixed(2)}`;
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function PayRunsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [payRuns, setPayRuns] = useState<PayRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [startDate, setStartDate] = useState(new Date(Date.now() - 13 * DAY_MS));
+  const [endDate, setEndDate] = useState(new Date());
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const [selected, setSelected] = useState<PayRunSummary | null>(null);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadPayRuns();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading]);
+
+  const loadPayRuns = async () => {
+    try {
+      setLoading(true);
+      console.log('[PayRuns] Loading pay runs from:', BACKEND_URL);
+
+      // GET /api/pay-runs - The provider's pay runs with totals
+      const response = await authenticatedGet<PayRun[]>('/api/pay-runs');
+      setPayRuns(response || []);
+    } catch (error) {
+      console.error('[PayRuns] Error loading pay runs:', error);
+      Alert.alert('Error', 'Failed to load pay runs.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPayRun = async (id: string) => {
+    try {
+      console.log('[PayRuns] Loading pay run:', id);
+
+      // GET /api/pay-runs/:id - Payslips, totals and workers left out
+      const summary = await authenticatedGet<PayRunSummary>(`/api/pay-runs/${id}`);
+      setSelected(summary);
+    } catch (error) {
+      console.error('[PayRuns] Error loading pay run:', error);
+      Alert.alert('Error', 'Failed to load the pay run.');
+    }
+  };
+
+  const handleCreate = async () => {
+    const periodStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const periodEnd = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate(), 23, 59, 59, 999);
+
+    try {
+      setSaving(true);
+      console.log('[PayRuns] Creating pay run:', periodStart, 'to', periodEnd);
+
+      // POST /api/pay-runs - Draft payslips for every worker with approved timesheets
+      const summary = await authenticatedPost<PayRunSummary>('/api/pay-runs', {
+        payPeriodStartDate: periodStart.toISOString(),
+        payPeriodEndDate: periodEnd.toISOString(),
+      });
+      setSelected(summary);
+      loadPayRuns();
+
+      if (summary.skipped.length > 0) {
+        Alert.alert(
+          'Some Workers Skipped',
+          summary.skipped.map((worker) => `${worker.workerName}: ${worker.reason}`).join('\n'),
+        );
+      }
+    } catch (error) {
+      console.error('[PayRuns] Error creating pay run:', error);
+      const message = error instanceof Error && error.message.includes('400')
+        ? 'There are no approved timesheets to pay in this period for workers with an hourly rate.'
+        : 'Failed to create the pay run. Please try again.';
+      Alert.alert('Cannot Create Pay Run', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFinalise = (summary: PayRunSummary) => {
+    Alert.alert(
+      'Finalise Pay Run',
+      `Issue ${summary.payslips.length} payslips totalling ${formatMoney(summary.totals.netPay)} net? Finalised pay runs can't be reversed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Finalise',
+          onPress: async () => {
+            try {
+              setSaving(true);
+
+              // POST /api/pay-runs/:id/finalise - Issues every payslip in the run
+              await authenticatedPost(`/api/pay-runs/${summary.payRun.id}/finalise`, {});
+              loadPayRun(summary.payRun.id);
+              loadPayRuns();
+            } catch (error) {
+              console.error('[PayRuns] Error finalising pay run:', error);
+              Alert.alert('Error', 'Failed to finalise the pay run.');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleExport = async (summary: PayRunSummary) => {
+    try {
+      setSaving(true);
+      console.log('[PayRuns] Exporting ABA file for pay run:', summary.payRun.id);
+
+      // POST /api/pay-runs/:id/aba - Builds and stores the bank file, returning a signed URL
+      const file = await authenticatedPost<{ url: string; payments: number; total: number }>(
+        `/api/pay-runs/${summary.payRun.id}/aba`,
+        {}
+      );
+      await Linking.openURL(file.url);
+      Alert.alert(
+        'Bank File Exported',
+        `${file.payments} payment${file.payments === 1 ? '' : 's'} totalling ${formatMoney(file.total)}. Upload it to your internet banking, then mark the pay run as paid.`
+      );
+    } catch (error) {
+      console.error('[PayRuns] Error exporting ABA file:', error);
+      const match = error instanceof Error ? error.message.match(/"error":"([^"]+)"/) : null;
+      Alert.alert('Cannot Export Bank File', match ? match[1] : 'Failed to export the bank file. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMarkExported = (summary: PayRunSummary) => {
+    Alert.alert(
+      'Mark as Paid',
+      'Has your bank processed the payments? All payslips in this pay run will be marked as paid.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark as Paid',
+          onPress: async () => {
+            try {
+              setSaving(true);
+
+              // POST /api/pay-runs/:id/mark-exported - Marks every issued payslip paid
+              await authenticatedPost(`/api/pay-runs/${summary.payRun.id}/mark-exported`, {});
+              loadPayRun(summary.payRun.id);
+              loadPayRuns();
+            } catch (error) {
+              console.error('[PayRuns] Error marking pay run as paid:', error);
+              Alert.alert('Error', 'Failed to mark the pay run as paid.');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleReverse = (summary: PayRunSummary) => {
+    Alert.alert(
+      'Reverse Pay Run',
+      'Delete this pay run and its draft payslips? Their timesheets and claims will be available for the next pay run.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reverse',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSaving(true);
+
+              // DELETE /api/pay-runs/:id - Only while the run is a draft
+              await authenticatedDelete(`/api/pay-runs/${summary.payRun.id}`);
+              setSelected(null);
+              loadPayRuns();
+            } catch (error) {
+              console.error('[PayRuns] Error reversing pay run:', error);
+              Alert.alert('Error', 'Failed to reverse the pay run.');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderTotals = (totals: PayRunTotals) => (
+    <View style={styles.totalsGrid}>
+      {[
+        ['Workers', totals.workers.toString()],
+        ['Hours', totals.totalHours.toFixed(2)],
+        ['Gross', formatMoney(totals.grossPay)],
+        ['PAYG', formatMoney(totals.tax)],
+        ['Deductions', formatMoney(totals.deductions)],
+        ['Reimbursements', formatMoney(totals.reimbursements)],
+        ['Net', formatMoney(totals.netPay)],
+        ['Super', formatMoney(totals.super)],
+      ].map(([label, value]) => (
+        <View key={label} style={styles.totalCell}>
+          <Text style={styles.totalLabel}>{label}</Text>
+          <Text style={styles.totalValue}>{value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Pay Runs',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>New Pay Run</Text>
+            <Text style={styles.hint}>
+              Draft payslips are generated for every active worker with approved timesheets in the period, at their hourly rate.
+            </Text>
+            <View style={styles.row}>
+              <TouchableOpacity style={styles.dateButton} onPress={() => setShowStartDatePicker(true)}>
+                <IconSymbol
+                  ios_icon_name="calendar"
+                  android_material_icon_name="calendar-today"
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.dateButtonText}>{formatDate(startDate)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.dateButton} onPress={() => setShowEndDatePicker(true)}>
+                <IconSymbol
+                  ios_icon_name="calendar"
+                  android_material_icon_name="calendar-today"
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.dateButtonText}>{formatDate(endDate)}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {showStartDatePicker && (
+              <DateTimePicker
+                value={startDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowStartDatePicker(Platform.OS === 'ios');
+                  if (selectedDate) setStartDate(selectedDate);
+                }}
+                maximumDate={endDate}
+              />
+            )}
+
+            {showEndDatePicker && (
+              <DateTimePicker
+                value={endDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowEndDatePicker(Platform.OS === 'ios');
+                  if (selectedDate) setEndDate(selectedDate);
+                }}
+                minimumDate={startDate}
+              />
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleCreate}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>Generate Pay Run</Text>
+            </TouchableOpacity>
+          </View>
+
+          {selected && (
+            <View style={styles.card}>
+              <View style={styles.summaryHeader}>
+                <Text style={styles.sectionTitle}>
+                  {formatDate(selected.payRun.payPeriodStartDate)} – {formatDate(selected.payRun.payPeriodEndDate)}
+                </Text>
+                <TouchableOpacity onPress={() => setSelected(null)}>
+                  <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={20} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+
+              {renderTotals(selected.totals)}
+
+              {selected.payslips.map((payslip) => (
+                <View key={payslip.id} style={styles.payslipRow}>
+                  <View style={styles.payslipInfo}>
+                    <Text style={styles.workerName}>{payslip.workerName}</Text>
+                    <Text style={styles.meta}>
+                      {parseFloat(payslip.totalHours).toFixed(2)}h at {formatMoney(payslip.hourlyRate)} · Gross {formatMoney(payslip.grossPay)} · PAYG {formatMoney(payslip.tax)}
+                    </Text>
+                  </View>
+                  <Text style={styles.netPay}>{formatMoney(payslip.netPay)}</Text>
+                </View>
+              ))}
+
+              {selected.skipped.length > 0 && (
+                <View style={styles.skippedBox}>
+                  <Text style={styles.skippedTitle}>Not in this pay run</Text>
+                  {selected.skipped.map((worker) => (
+                    <Text key={worker.supportWorkerId} style={styles.meta}>
+                      {worker.workerName} ({worker.timesheetCount} timesheet{worker.timesheetCount === 1 ? '' : 's'}): {worker.reason}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {selected.payRun.status === 'draft' ? (
+                <View style={styles.row}>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                    onPress={() => handleFinalise(selected)}
+                    disabled={saving}
+                  >
+                    <Text style={styles.primaryButtonText}>Finalise & Issue</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.dangerButton, saving && styles.buttonDisabled]}
+                    onPress={() => handleReverse(selected)}
+                    disabled={saving}
+                  >
+                    <Text style={styles.dangerButtonText}>Reverse</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : selected.payRun.status === 'finalised' ? (
+                <>
+                  <Text style={styles.hint}>
+                    Finalised {selected.payRun.finalisedAt ? formatDate(selected.payRun.finalisedAt) : ''}; all payslips have been issued.
+                  </Text>
+                  <View style={styles.row}>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                      onPress={() => handleExport(selected)}
+                      disabled={saving}
+                    >
+                      <Text style={styles.primaryButtonText}>Export ABA File</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.secondaryButton, saving && styles.buttonDisabled]}
+                      onPress={() => handleMarkExported(selected)}
+                      disabled={saving}
+                    >
+                      <Text style={styles.secondaryButtonText}>Mark as Paid</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <Text style={styles.hint}>
+                  Exported {selected.payRun.exportedAt ? formatDate(selected.payRun.exportedAt) : ''}; all payslips have been paid.
+                </Text>
+              )}
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>Pay Runs</Text>
+          {loading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : payRuns.length === 0 ? (
+            <Text style={styles.emptyText}>No pay runs yet.</Text>
+          ) : (
+            payRuns.map((payRun) => (
+              <TouchableOpacity key={payRun.id} style={styles.payRunRow} onPress={() => loadPayRun(payRun.id)}>
+                <View style={styles.payslipInfo}>
+                  <Text style={styles.workerName}>
+                    {formatDate(payRun.payPeriodStartDate)} – {formatDate(payRun.payPeriodEndDate)}
+                  </Text>
+                  <Text style={styles.meta}>
+                    {payRun.totals.workers} worker{payRun.totals.workers === 1 ? '' : 's'} · Net {formatMoney(payRun.totals.netPay)}
+                  </Text>
+                </View>
+                <View style={[styles.statusBadge, payRun.status !== 'draft' && styles.statusBadgeFinal]}>
+                  <Text style={styles.statusText}>
+                    {payRun.status === 'draft' ? 'Draft' : payRun.status === 'finalised' ? 'Finalised' : 'Paid'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+  },
+  dateButtonText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    color: colors.danger,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  totalsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  totalCell: {
+    width: '25%',
+    paddingVertical: 6,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  payslipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  payslipInfo: {
+    flex: 1,
+  },
+  workerName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  netPay: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  skippedBox: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    padding: 12,
+    marginVertical: 12,
+  },
+  skippedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.warning,
+  },
+  payRunRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  statusBadge: {
+    backgroundColor: colors.warning,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusBadgeFinal: {
+    backgroundColor: colors.success,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, BACKEND_URL } from '@/utils/api';
+import { PayTotals, financialYearOf, financialYearLabel, formatMoney, openPaymentSummaryPdf, openPayslipPdf } from '@/utils/payroll';
+
+interface Payslip {
+  id: string;
+  serviceProviderId: string;
+  providerName: string;
+  payPeriodStartDate: string;
+  payPeriodEndDate: string;
+  status: 'draft' | 'issued' | 'paid';
+  grossPay: string;
+  netPay: string;
+  ytd: PayTotals;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function PayslipsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [payslips, setPayslips] = useState<Payslip[]>([]);
+  const [financialYear, setFinancialYear] = useState(financialYearOf());
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadPayslips();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading]);
+
+  const loadPayslips = async () => {
+    try {
+      setLoading(true);
+      console.log('[Payslips] Loading payslips from:', BACKEND_URL);
+
+      // GET /api/support-workers/payslips - Own payslips with year-to-date totals
+      const response = await authenticatedGet<Payslip[]>('/api/support-workers/payslips');
+      setPayslips(
+        (response || [])
+          .filter((payslip) => payslip.status !== 'draft')
+          .sort((a, b) => new Date(b.payPeriodEndDate).getTime() - new Date(a.payPeriodEndDate).getTime())
+      );
+    } catch (error) {
+      console.error('[Payslips] Error loading payslips:', error);
+      Alert.alert('Error', 'Failed to load payslips.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadSummary = async (providerId: string) => {
+    try {
+      setDownloading(providerId);
+      console.log('[Payslips] Downloading payment summary for', financialYear);
+      await openPaymentSummaryPdf({ providerId, financialYear });
+    } catch (error) {
+      console.error('[Payslips] Error downloading payment summary:', error);
+      Alert.alert('Error', 'Failed to generate the payment summary. Please try again.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadPayslip = async (payslipId: string) => {
+    try {
+      setDownloading(payslipId);
+      console.log('[Payslips] Downloading payslip PDF:', payslipId);
+      await openPayslipPdf(payslipId);
+    } catch (error) {
+      console.error('[Payslips] Error downloading payslip PDF:', error);
+      Alert.alert('Error', 'Failed to download the payslip. Please try again.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const yearPayslips = payslips.filter(
+    (payslip) => financialYearOf(new Date(payslip.payPeriodEndDate)) === financialYear
+  );
+
+  // Payslips are newest first, so each provider's first one carries the year's running totals
+  const providers = yearPayslips.filter((payslip, index) =>
+    yearPayslips.findIndex((other) => other.serviceProviderId === payslip.serviceProviderId) === index
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'My Payslips',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.yearRow}>
+            <TouchableOpacity onPress={() => setFinancialYear(financialYear - 1)}>
+              <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="chevron-left" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.sectionTitle}>Financial Year {financialYearLabel(financialYear)}</Text>
+            <TouchableOpacity onPress={() => setFinancialYear(financialYear + 1)}>
+              <IconSymbol ios_icon_name="chevron.right" android_material_icon_name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : yearPayslips.length === 0 ? (
+            <Text style={styles.emptyText}>No payslips in {financialYearLabel(financialYear)}.</Text>
+          ) : (
+            <>
+              {providers.map((latest) => (
+                <View key={latest.serviceProviderId} style={styles.card}>
+                  <Text style={styles.cardTitle}>{latest.providerName}</Text>
+                  <Text style={styles.meta}>
+                    Gross {formatMoney(latest.ytd.gross)} · Tax {formatMoney(latest.ytd.tax)} · Net {formatMoney(latest.ytd.net)}
+                  </Text>
+                  <Text style={styles.meta}>Super {formatMoney(latest.ytd.super)}</Text>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, downloading === latest.serviceProviderId && styles.buttonDisabled]}
+                    onPress={() => handleDownloadSummary(latest.serviceProviderId)}
+                    disabled={downloading !== null}
+                  >
+                    <Text style={styles.secondaryButtonText}>Payment Summary PDF</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {yearPayslips.map((payslip) => (
+                <TouchableOpacity
+                  key={payslip.id}
+                  style={[styles.payslipRow, downloading === payslip.id && styles.buttonDisabled]}
+                  onPress={() => handleDownloadPayslip(payslip.id)}
+                  disabled={downloading !== null}
+                >
+                  <View style={styles.payslipInfo}>
+                    <Text style={styles.payslipTitle}>
+                      {formatDate(payslip.payPeriodStartDate)} – {formatDate(payslip.payPeriodEndDate)}
+                    </Text>
+                    <Text style={styles.meta}>
+                      {payslip.providerName} · Gross {formatMoney(payslip.grossPay)} · {payslip.status === 'paid' ? 'Paid' : 'Issued'}
+                    </Text>
+                    <Text style={styles.meta}>
+                      YTD gross {formatMoney(payslip.ytd.gross)} · tax {formatMoney(payslip.ytd.tax)} · super {formatMoney(payslip.ytd.super)}
+                    </Text>
+                  </View>
+                  <Text style={styles.netPay}>{formatMoney(payslip.netPay)}</Text>
+                  <IconSymbol ios_icon_name="arrow.down.doc" android_material_icon_name="picture-as-pdf" size={20} color={colors.primary} />
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  payslipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  payslipInfo: {
+    flex: 1,
+  },
+  payslipTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  netPay: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+    marginRight: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,435 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  authenticatedGet,
+  authenticatedPost,
+  authenticatedPatch,
+  authenticatedDelete,
+  BACKEND_URL,
+  getBearerToken,
+} from '@/utils/api';
+
+type AuState = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
+
+interface PublicHoliday {
+  id: string | null;
+  date: string;
+  name: string;
+  source: 'bundled' | 'import' | 'manual';
+}
+
+const STATES: AuState[] = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+const SOURCE_LABELS: Record<PublicHoliday['source'], string> = {
+  bundled: 'Built in',
+  import: 'Imported',
+  manual: 'Local',
+};
+
+const CALENDAR_TYPES = ['text/calendar', 'text/csv', 'text/comma-separated-values'];
+
+export default function PublicHolidaysScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [state, setState] = useState<AuState | null>(null);
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const loadHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log('[PublicHolidays] Loading holidays for', year, 'from:', BACKEND_URL);
+
+      // GET /api/public-holidays - The provider's calendar for the year
+      const response = await authenticatedGet<{ state: AuState | null; holidays: PublicHoliday[] }>(
+        `/api/public-holidays?fromYear=${year}&toYear=${year}`
+      );
+      setState(response?.state ?? null);
+      setHolidays(response?.holidays || []);
+    } catch (error) {
+      console.error('[PublicHolidays] Error loading holidays:', error);
+      Alert.alert('Error', 'Failed to load public holidays.');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadHolidays();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [user, authLoading, loadHolidays]);
+
+  const handleSelectState = async (selected: AuState) => {
+    try {
+      console.log('[PublicHolidays] Setting state:', selected);
+
+      // PATCH /api/service-providers/profile - Which state's holidays apply
+      await authenticatedPatch('/api/service-providers/profile', { state: selected });
+      loadHolidays();
+    } catch (error) {
+      console.error('[PublicHolidays] Error setting state:', error);
+      Alert.alert('Error', 'Failed to update your state.');
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate.trim()) || !newName.trim()) {
+      Alert.alert('Missing Details', 'Enter the date as YYYY-MM-DD and a name for the holiday.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      console.log('[PublicHolidays] Adding local holiday:', newDate);
+
+      // POST /api/public-holidays - Add a local holiday
+      await authenticatedPost('/api/public-holidays', { date: newDate.trim(), name: newName.trim() });
+      setNewDate('');
+      setNewName('');
+      loadHolidays();
+    } catch (error) {
+      console.error('[PublicHolidays] Error adding holiday:', error);
+      Alert.alert('Error', 'Failed to add the holiday. Check the date and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: CALENDAR_TYPES,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      setSaving(true);
+      console.log('[PublicHolidays] Importing calendar:', asset.name);
+
+      const formData = new FormData();
+      if (Platform.OS === 'web' && asset.file) {
+        formData.append('file', asset.file);
+      } else {
+        formData.append('file', {
+          uri: asset.uri,
+          name: asset.name,
+          type: asset.mimeType || 'text/calendar',
+        } as any);
+      }
+
+      // POST /api/public-holidays/import - Replaces the calendar for the years in the file
+      const token = await getBearerToken();
+      const response = await fetch(`${BACKEND_URL}/api/public-holidays/import`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        Alert.alert('Cannot Import', body.error || 'Failed to read the holiday file.');
+        return;
+      }
+
+      Alert.alert('Imported', `${body.imported} holidays imported for ${body.years.join(', ')}.`);
+      loadHolidays();
+    } catch (error) {
+      console.error('[PublicHolidays] Error importing calendar:', error);
+      Alert.alert('Error', 'Failed to import holidays. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = (holiday: PublicHoliday) => {
+    Alert.alert('Remove Holiday', `Remove ${holiday.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            // DELETE /api/public-holidays/:id
+            await authenticatedDelete(`/api/public-holidays/${holiday.id}`);
+            loadHolidays();
+          } catch (error) {
+            console.error('[PublicHolidays] Error removing holiday:', error);
+            Alert.alert('Error', 'Failed to remove the holiday.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const formatDate = (date: string) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short' });
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Public Holidays',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>State</Text>
+            <Text style={styles.hint}>Penalty rates on payslips use this state's public holidays and time zone.</Text>
+            <View style={styles.chipRow}>
+              {STATES.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, state === option && styles.chipActive]}
+                  onPress={() => handleSelectState(option)}
+                >
+                  <Text style={[styles.chipText, state === option && styles.chipTextActive]}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {!state && <Text style={styles.hint}>No state selected, so only national holidays apply.</Text>}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Add Local Holiday</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.dateInput]}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={colors.textSecondary}
+                value={newDate}
+                onChangeText={setNewDate}
+              />
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="e.g. Show Day"
+                placeholderTextColor={colors.textSecondary}
+                value={newName}
+                onChangeText={setNewName}
+              />
+            </View>
+            <View style={styles.row}>
+              <TouchableOpacity
+                style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                onPress={handleAddHoliday}
+                disabled={saving}
+              >
+                <Text style={styles.primaryButtonText}>Add Holiday</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.secondaryButton, saving && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={saving}
+              >
+                <Text style={styles.secondaryButtonText}>Import ICS / CSV</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.yearRow}>
+            <TouchableOpacity onPress={() => setYear(year - 1)}>
+              <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="chevron-left" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.sectionTitle}>{year}</Text>
+            <TouchableOpacity onPress={() => setYear(year + 1)}>
+              <IconSymbol ios_icon_name="chevron.right" android_material_icon_name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : holidays.length === 0 ? (
+            <Text style={styles.emptyText}>No public holidays for {year}.</Text>
+          ) : (
+            holidays.map((holiday) => (
+              <View key={`${holiday.date}-${holiday.name}`} style={styles.holidayRow}>
+                <View style={styles.holidayInfo}>
+                  <Text style={styles.holidayName}>{holiday.name}</Text>
+                  <Text style={styles.holidayMeta}>
+                    {formatDate(holiday.date)} · {SOURCE_LABELS[holiday.source]}
+                  </Text>
+                </View>
+                {holiday.id && (
+                  <TouchableOpacity onPress={() => handleRemove(holiday)}>
+                    <IconSymbol ios_icon_name="trash" android_material_icon_name="delete" size={20} color={colors.danger} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  dateInput: {
+    width: 130,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  holidayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  holidayInfo: {
+    flex: 1,
+  },
+  holidayName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  holidayMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,449 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { BACKEND_URL, getBearerToken } from '@/utils/api';
+
+interface ImportRow {
+  rowNumber: number;
+  workerEmail: string;
+  clientName: string;
+  startTime: string | null;
+  endTime: string | null;
+  hourlyRate: string | null;
+  taskDescription: string | null;
+  title: string;
+  workerName: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+interface ImportValidation {
+  columns: Record<string, string>;
+  rows: ImportRow[];
+  summary: {
+    totalRows: number;
+    validRows: number;
+    errorRows: number;
+    warningRows: number;
+  };
+}
+
+const ROSTER_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+export default function RosterImportScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [file, setFile] = useState<DocumentPicker.DocumentPickerAsset | null>(null);
+  const [validation, setValidation] = useState<ImportValidation | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace('/auth');
+    }
+  }, [user, authLoading]);
+
+  /**
+   * Upload the roster to an import endpoint. The file is sent again for the real import
+   * so the server validates what it saves.
+   */
+  const uploadRoster = async (asset: DocumentPicker.DocumentPickerAsset, endpoint: string, params: Record<string, string> = {}) => {
+    const formData = new FormData();
+    if (Platform.OS === 'web' && asset.file) {
+      formData.append('file', asset.file);
+    } else {
+      formData.append('file', {
+        uri: asset.uri,
+        name: asset.name,
+        type: asset.mimeType || 'text/csv',
+      } as any);
+    }
+
+    const query = new URLSearchParams({
+      timezoneOffset: String(new Date().getTimezoneOffset()),
+      ...params,
+    });
+
+    const token = await getBearerToken();
+    const response = await fetch(`${BACKEND_URL}${endpoint}?${query.toString()}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+
+    const body = await response.json().catch(() => ({}));
+    return { status: response.status, ok: response.ok, body };
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ROSTER_TYPES,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      setFile(asset);
+      setValidation(null);
+      setValidating(true);
+      console.log('[RosterImport] Validating roster:', asset.name);
+
+      // POST /api/shifts/import/validate - Dry run with per-row errors
+      const { ok, body } = await uploadRoster(asset, '/api/shifts/import/validate');
+      if (!ok) {
+        Alert.alert('Cannot Read Roster', body.error || 'Failed to read the roster file.');
+        return;
+      }
+
+      console.log('[RosterImport] Validation summary:', body.summary);
+      setValidation(body);
+    } catch (error) {
+      console.error('[RosterImport] Error validating roster:', error);
+      Alert.alert('Error', 'Failed to validate roster. Please try again.');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const runImport = async (force: boolean) => {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      console.log('[RosterImport] Importing roster:', file.name, { force });
+
+      // POST /api/shifts/import - Create every shift in a single transaction
+      const { status, ok, body } = await uploadRoster(file, '/api/shifts/import', force ? { force: 'true' } : {});
+
+      if (!ok) {
+        if (body.rows) setValidation(body);
+        Alert.alert(
+          'Roster Not Imported',
+          status === 422
+            ? 'Some rows now have errors. Review them and try again.'
+            : body.error || 'Failed to import roster.',
+        );
+        return;
+      }
+
+      Alert.alert('Roster Imported', `${body.imported} shifts were created.`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('[RosterImport] Error importing roster:', error);
+      Alert.alert('Error', 'Failed to import roster. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!validation) return;
+
+    if (validation.summary.warningRows > 0) {
+      Alert.alert(
+        'Import With Warnings',
+        `${validation.summary.warningRows} shifts have rostering or availability warnings. Import anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import', onPress: () => runImport(true) },
+        ]
+      );
+      return;
+    }
+
+    runImport(false);
+  };
+
+  const formatDateTime = (value: string | null) => {
+    if (!value) return '—';
+    return new Date(value).toLocaleString('en-AU', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const renderRow = (row: ImportRow) => {
+    const hasErrors = row.errors.length > 0;
+    const hasWarnings = row.warnings.length > 0;
+    const statusColor = hasErrors ? colors.danger : hasWarnings ? colors.warning : colors.success;
+
+    return (
+      <View key={row.rowNumber} style={[styles.rowCard, { borderLeftColor: statusColor }]}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle}>Row {row.rowNumber}</Text>
+          <Text style={[styles.rowStatus, { color: statusColor }]}>
+            {hasErrors ? 'Error' : hasWarnings ? 'Warning' : 'Ready'}
+          </Text>
+        </View>
+        <Text style={styles.rowDetail}>
+          {row.workerName || row.workerEmail || 'No worker'} with {row.clientName || 'no client'}
+        </Text>
+        <Text style={styles.rowDetail}>
+          {formatDateTime(row.startTime)} – {formatDateTime(row.endTime)}
+          {row.hourlyRate ? `  ·  $${row.hourlyRate}/hr` : ''}
+        </Text>
+        {row.taskDescription && <Text style={styles.rowTasks}>{row.taskDescription}</Text>}
+        {row.errors.map((message, index) => (
+          <Text key={`error-${index}`} style={[styles.rowMessage, { color: colors.danger }]}>• {message}</Text>
+        ))}
+        {row.warnings.map((message, index) => (
+          <Text key={`warning-${index}`} style={[styles.rowMessage, { color: colors.warning }]}>• {message}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  const canImport = !!validation && validation.summary.errorRows === 0 && !importing;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Import Roster',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <Text style={styles.sectionTitle}>Roster Spreadsheet</Text>
+          <Text style={styles.sectionHint}>
+            Upload a CSV or XLSX file with a header row. Required columns: Worker Email, Client, Start and End.
+            Optional columns: Date, Rate, Tasks, Title and Special Requirements. Dates are day first (e.g. 1/7/2025 9:00 am).
+          </Text>
+
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile} disabled={validating || importing}>
+            <IconSymbol
+              ios_icon_name="doc.badge.plus"
+              android_material_icon_name="upload-file"
+              size={22}
+              color={colors.primary}
+            />
+            <Text style={styles.pickButtonText}>{file ? file.name : 'Choose Roster File'}</Text>
+          </TouchableOpacity>
+
+          {validating && (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={colors.primary} />
+              <Text style={styles.sectionHint}>Checking workers, clients and conflicts...</Text>
+            </View>
+          )}
+
+          {validation && (
+            <>
+              <View style={styles.summaryRow}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryValue}>{validation.summary.totalRows}</Text>
+                  <Text style={styles.summaryLabel}>Shifts</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={[styles.summaryValue, { color: colors.success }]}>{validation.summary.validRows}</Text>
+                  <Text style={styles.summaryLabel}>Ready</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={[styles.summaryValue, { color: colors.warning }]}>{validation.summary.warningRows}</Text>
+                  <Text style={styles.summaryLabel}>Warnings</Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={[styles.summaryValue, { color: colors.danger }]}>{validation.summary.errorRows}</Text>
+                  <Text style={styles.summaryLabel}>Errors</Text>
+                </View>
+              </View>
+
+              {validation.summary.errorRows > 0 && (
+                <Text style={styles.errorBanner}>
+                  Fix the rows with errors in your spreadsheet and choose the file again. Nothing is imported until every row is valid.
+                </Text>
+              )}
+
+              {[...validation.rows]
+                .sort((a, b) => (b.errors.length - a.errors.length) || (b.warnings.length - a.warnings.length) || (a.rowNumber - b.rowNumber))
+                .map(renderRow)}
+            </>
+          )}
+        </ScrollView>
+
+        {validation && (
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.primaryButton, !canImport && styles.primaryButtonDisabled]}
+              onPress={handleImport}
+              disabled={!canImport}
+            >
+              {importing ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Import {validation.summary.totalRows} Shifts
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 12,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+    paddingVertical: 16,
+    marginBottom: 16,
+  },
+  pickButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  errorBanner: {
+    fontSize: 14,
+    color: colors.danger,
+    marginBottom: 12,
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderLeftWidth: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  rowTasks: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  rowMessage: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -96,6 +96,54 @@ export default function ServiceProviderDashboardScreen() {
       route: '/clients',
       color: '#F59E0B',
     },
+    {
+      id: 'roster-import',
+      title: 'Import Roster',
+      description: 'Create shifts from a CSV or XLSX roster',
+      icon: 'upload-file',
+      route: '/roster-import',
+      color: '#0EA5E9',
+    },
+    {
+      id: 'timesheet-approvals',
+      title: 'Approve Timesheets',
+      description: 'Review submitted timesheets in bulk',
+      icon: 'fact-check',
+      route: '/timesheet-approvals',
+      color: '#10B981',
+    },
+    {
+      id: 'expense-claims',
+      title: 'Expense Claims',
+      description: 'Review worker expenses and receipts',
+      icon: 'receipt',
+      route: '/expense-claims',
+      color: '#F97316',
+    },
+    {
+      id: 'public-holidays',
+      title: 'Public Holidays',
+      description: 'State calendar, imports and local holidays',
+      icon: 'event-busy',
+      route: '/public-holidays',
+      color: '#14B8A6',
+    },
+    {
+      id: 'pay-runs',
+      title: 'Pay Runs',
+      description: 'Generate and issue payslips for all workers',
+      icon: 'payments',
+      route: '/pay-runs',
+      color: '#22C55E',
+    },
+    {
+      id: 'timesheet-review',
+      title: 'Timesheet Review',
+      description: 'Late starts, early finishes, overtime and no-shows',
+      icon: 'schedule',
+      route: '/timesheet-review',
+      color: '#EF4444',
+    },
     {
       id: 'reports',
       title: 'Pull Reports',
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,12 +9,17 @@ import {
   Platform,
   TextInput,
   Alert,
+  Modal,
 } from 'react-native';
 import { Stack, useLocalSearchParams, router } from 'expo-router';
+import * as Location from 'expo-location';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { useAuth } from '@/contexts/AuthContext';
 import { authenticatedGet, authenticatedPost, BACKEND_URL } from '@/utils/api';
+import { submitAction } from '@/utils/offlineQueue';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 import { sendShiftNotification } from '@/utils/pushNotifications';
 
 interface Shift {
@@ -36,6 +41,143 @@ interface Shift {
     name: string;
     phone: string;
   };
+  supportWorkerId: string | null;
+  serviceProviderId: string;
+  shift_type: 'standard' | 'sleepover' | 'active_overnight' | 'split';
+  segments: { segmentType: 'work' | 'sleepover'; startTime: string; endTime: string }[];
+}
+
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: string;
+  toStatus: string;
+  event: 'clock_in' | 'clock_out' | 'cancel';
+  reasonCode: string | null;
+  reason: string | null;
+  changedByName: string;
+  createdAt: string;
+}
+
+interface TimesheetAmendment {
+  id: string;
+  proposedStartTime: string;
+  proposedEndTime: string;
+  proposedBreakMinutes: number;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requestedByName: string;
+  reviewedByName: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+interface TravelEntry {
+  id: string;
+  travelType: 'between_clients' | 'client_transport';
+  fromClientName: string | null;
+  clientName: string | null;
+  suggestedKilometres: number | null;
+  kilometres: string;
+  travelMinutes: number;
+  overrideReason: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewNote: string | null;
+}
+
+interface TravelSuggestion {
+  fromClientName: string | null;
+  clientName: string | null;
+  suggestedKilometres: number | null;
+  suggestedMinutes: number | null;
+}
+
+const QUEUED_ACTION_LABELS: Record<string, string> = {
+  clock_in: 'Clock in',
+  clock_out: 'Clock out',
+  break_start: 'Break start',
+  break_end: 'Break end',
+  note: 'Note',
+};
+
+const TRAVEL_TYPES: { value: TravelEntry['travelType']; label: string }[] = [
+  { value: 'between_clients', label: 'Between clients' },
+  { value: 'client_transport', label: 'Transporting client' },
+];
+
+interface TimesheetChange {
+  field: 'startTime' | 'endTime' | 'breakMinutes' | 'totalHours';
+  original: string | number | null;
+  current: string | number | null;
+}
+
+const CHANGE_LABELS: Record<TimesheetChange['field'], string> = {
+  startTime: 'Start',
+  endTime: 'Finish',
+  breakMinutes: 'Break (min)',
+  totalHours: 'Hours',
+};
+
+const CANCELLATION_REASONS: { value: string; label: string }[] = [
+  { value: 'client_cancelled', label: 'Client cancelled' },
+  { value: 'client_unwell', label: 'Client unwell' },
+  { value: 'client_hospitalised', label: 'Client in hospital' },
+  { value: 'worker_unavailable', label: 'Worker unavailable' },
+  { value: 'provider_cancelled', label: 'Provider cancelled' },
+  { value: 'rostering_error', label: 'Rostering error' },
+  { value: 'other', label: 'Other' },
+];
+
+const STATUS_EVENT_LABELS: Record<StatusHistoryEntry['event'], string> = {
+  clock_in: 'Started',
+  clock_out: 'Completed',
+  cancel: 'Cancelled',
+};
+
+const LOCATION_TIMEOUT_MS = 15000;
+
+/**
+ * Current device location for a clock-in/out punch, or null if permission is denied
+ * or no fix arrives in time. The server flags punches without a location for review.
+ */
+async function capturePunchLocation(): Promise<{ latitude: number; longitude: number; accuracy: number | null } | null> {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      console.log('[ShiftDetails] Location permission not granted');
+      return null;
+    }
+
+    const position = await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+    ]);
+    if (!position) return null;
+
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+    };
+  } catch (error) {
+    console.error('[ShiftDetails] Error getting location:', error);
+    return null;
+  }
+}
+
+const SHIFT_TYPE_LABELS: Record<Shift['shift_type'], string> = {
+  standard: 'Standard shift',
+  sleepover: 'Sleepover',
+  active_overnight: 'Active overnight',
+  split: 'Split shift',
+};
+
+interface SwapRequest {
+  id: string;
+  shiftId: string;
+  offeredBy: string;
+  requestType: 'cover' | 'swap';
+  status: 'open' | 'accepted' | 'approved' | 'declined' | 'cancelled';
+  acceptedByName: string | null;
 }
 
 interface ShiftNote {
@@ -58,18 +200,34 @@ export default function ShiftDetailsScreen() {
   const [noteType, setNoteType] = useState<'progress' | 'medication' | 'incident' | 'general'>('progress');
   const [loading, setLoading] = useState(true);
   const [activeTimesheet, setActiveTimesheet] = useState<any>(null);
+  const [onBreak, setOnBreak] = useState(false);
+  const [closedTimesheet, setClosedTimesheet] = useState<any>(null);
+  const [amendments, setAmendments] = useState<TimesheetAmendment[]>([]);
+  const [timesheetChanges, setTimesheetChanges] = useState<TimesheetChange[]>([]);
+  const [timesheetLocked, setTimesheetLocked] = useState(false);
+  const [showAmendModal, setShowAmendModal] = useState(false);
+  const [amendStart, setAmendStart] = useState(new Date());
+  const [amendEnd, setAmendEnd] = useState(new Date());
+  const [amendBreak, setAmendBreak] = useState('0');
+  const [amendReason, setAmendReason] = useState('');
+  const [showAmendStartPicker, setShowAmendStartPicker] = useState(false);
+  const [showAmendEndPicker, setShowAmendEndPicker] = useState(false);
+  const [travelEntries, setTravelEntries] = useState<TravelEntry[]>([]);
+  const [showTravelModal, setShowTravelModal] = useState(false);
+  const [travelType, setTravelType] = useState<TravelEntry['travelType']>('between_clients');
+  const [travelSuggestion, setTravelSuggestion] = useState<TravelSuggestion | null>(null);
+  const [travelKm, setTravelKm] = useState('');
+  const [travelMinutes, setTravelMinutes] = useState('');
+  const [travelReason, setTravelReason] = useState('');
+  const [swapRequest, setSwapRequest] = useState<SwapRequest | null>(null);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [cancelReasonCode, setCancelReasonCode] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const { actions: queuedActions, pendingCount, failedActions, syncing, syncNow, discard } = useOfflineQueue(id as string);
+  const previousPendingCount = useRef(pendingCount);
 
-  useEffect(() => {
-    if (!authLoading) {
-      if (user) {
-        loadShiftDetails();
-      } else {
-        router.replace('/auth');
-      }
-    }
-  }, [id, user, authLoading]);
-
-  const loadShiftDetails = async () => {
+  const loadShiftDetails = useCallback(async () => {
     try {
       setLoading(true);
       console.log('[ShiftDetails] Loading shift details for:', id, 'from:', BACKEND_URL);
@@ -103,30 +261,86 @@ export default function ShiftDetailsScreen() {
           name: shiftResponse.worker.name,
           phone: shiftResponse.worker.phone || '',
         } : undefined,
+        supportWorkerId: shiftResponse.supportWorkerId || null,
+        serviceProviderId: shiftResponse.serviceProviderId,
+        shift_type: shiftResponse.shiftType || 'standard',
+        segments: shiftResponse.segments || [],
       };
       
       setShift(transformedShift);
 
-      // GET /api/timesheets?shiftId=:shiftId&userId=:userId - Get active timesheet for this shift
-      const timesheetsResponse = await authenticatedGet<any[]>(`/api/timesheets?shiftId=${id}&userId=${user.id}`);
-      console.log('[ShiftDetails] Timesheets response:', timesheetsResponse);
-      
-      if (timesheetsResponse && timesheetsResponse.length > 0) {
-        const activeTs = timesheetsResponse.find((ts: any) => 
-          ts.status === 'draft' || !ts.endTime && !ts.end_time
-        );
-        setActiveTimesheet(activeTs);
+      // GET /api/shifts/:id/timesheet - Open timesheet and break state for this shift
+      const clockingResponse = await authenticatedGet<any>(`/api/shifts/${id}/timesheet`);
+      console.log('[ShiftDetails] Clocking state response:', clockingResponse);
+
+      const openTimesheet = clockingResponse?.timesheet && !clockingResponse.timesheet.endTime
+        ? clockingResponse.timesheet
+        : null;
+      setActiveTimesheet(openTimesheet);
+      setOnBreak(!!openTimesheet && !!clockingResponse.onBreak);
+
+      const finishedTimesheet = clockingResponse?.timesheet?.endTime ? clockingResponse.timesheet : null;
+      setClosedTimesheet(finishedTimesheet);
+      if (finishedTimesheet) {
+        // GET /api/timesheets/:id/amendments, /versions and /travel - Corrections, the original times and travel claims
+        const [amendmentsResponse, versionsResponse, travelResponse] = await Promise.all([
+          authenticatedGet<TimesheetAmendment[]>(`/api/timesheets/${finishedTimesheet.id}/amendments`),
+          authenticatedGet<{ changes: TimesheetChange[]; locked: boolean }>(`/api/timesheets/${finishedTimesheet.id}/versions`),
+          authenticatedGet<TravelEntry[]>(`/api/timesheets/${finishedTimesheet.id}/travel`),
+        ]);
+        setAmendments(amendmentsResponse || []);
+        setTravelEntries(travelResponse || []);
+        setTimesheetChanges(versionsResponse?.changes || []);
+        setTimesheetLocked(!!versionsResponse?.locked);
       }
 
-      // Note: The API doesn't have a notes endpoint, so we'll skip loading notes for now
-      setNotes([]);
+      // GET /api/shift-swaps - Pending swap request for this shift, if any
+      const swapResponse = await authenticatedGet<SwapRequest[]>('/api/shift-swaps');
+      console.log('[ShiftDetails] Swap requests response:', swapResponse);
+      const pendingSwap = (swapResponse || []).find((request) =>
+        request.shiftId === id && (request.status === 'open' || request.status === 'accepted')
+      );
+      setSwapRequest(pendingSwap || null);
+
+      // GET /api/shifts/:id/status-history - Who started, completed or cancelled the shift
+      const historyResponse = await authenticatedGet<StatusHistoryEntry[]>(`/api/shifts/${id}/status-history`);
+      setStatusHistory(historyResponse || []);
+
+      // GET /api/shifts/:id/note-entries - Timestamped notes written during the shift
+      const notesResponse = await authenticatedGet<any[]>(`/api/shifts/${id}/note-entries`);
+      setNotes((notesResponse || []).map((entry) => ({
+        id: entry.id,
+        note_type: entry.noteType,
+        content: entry.content,
+        voice_note_url: null,
+        worker: { name: entry.authorName },
+        created_at: entry.recordedAt,
+      })));
     } catch (error) {
       console.error('[ShiftDetails] Error loading shift details:', error);
       Alert.alert('Error', 'Failed to load shift details. Please try again.');
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (user) {
+        loadShiftDetails();
+      } else {
+        router.replace('/auth');
+      }
+    }
+  }, [id, user, authLoading, loadShiftDetails]);
+
+  // Show the server's copy once queued actions for this shift have synced
+  useEffect(() => {
+    if (previousPendingCount.current > 0 && pendingCount === 0 && user) {
+      loadShiftDetails();
+    }
+    previousPendingCount.current = pendingCount;
+  }, [pendingCount, user, loadShiftDetails]);
 
   const handleAddNote = async () => {
     if (!newNote.trim()) {
@@ -136,10 +350,16 @@ export default function ShiftDetailsScreen() {
 
     try {
       console.log('[ShiftDetails] Adding note:', { noteType, content: newNote });
-      // Note: The API doesn't have a notes endpoint in the OpenAPI spec
-      // This would need to be implemented on the backend
-      Alert.alert('Info', 'Note functionality is not yet available in the backend API.');
+
+      // POST /api/shifts/:id/note-entries - Queued on the device while offline
+      const result = await submitAction('note', id as string, `/api/shifts/${id}/note-entries`, {
+        noteType,
+        content: newNote.trim(),
+      });
       setNewNote('');
+      if (!result.queued) {
+        loadShiftDetails();
+      }
     } catch (error) {
       console.error('[ShiftDetails] Error adding note:', error);
       Alert.alert('Error', 'Failed to add note. Please try again.');
@@ -155,19 +375,23 @@ export default function ShiftDetailsScreen() {
         return;
       }
 
-      // POST /api/timesheets - Create a new timesheet with clock-in time
-      const timesheetData = {
-        shiftId: id,
-        supportWorkerId: user.id,
-        startTime: new Date().toISOString(),
-        breakMinutes: 0,
-        notes: '',
-      };
+      const location = await capturePunchLocation();
 
-      const response = await authenticatedPost('/api/timesheets', timesheetData);
-      console.log('[ShiftDetails] Clock in response:', response);
-      
-      Alert.alert('Success', 'Clocked in successfully!');
+      // POST /api/shifts/:id/clock-in - Queued with the device time while offline
+      const { queued, data: response } = await submitAction<any>('clock_in', id as string, `/api/shifts/${id}/clock-in`, {
+        location: location || undefined,
+      });
+      console.log('[ShiftDetails] Clock in response:', { queued, response });
+
+      if (queued) {
+        Alert.alert('Saved Offline', 'Your clock-in time has been saved and will sync when you\'re back online.');
+        return;
+      }
+      if (response?.locationFlagged) {
+        Alert.alert('Clocked In', `Your clock-in has been flagged for your provider to review: ${response.locationFlagReason}`);
+      } else {
+        Alert.alert('Success', 'Clocked in successfully!');
+      }
       loadShiftDetails();
     } catch (error) {
       console.error('[ShiftDetails] Error clocking in:', error);
@@ -179,22 +403,28 @@ export default function ShiftDetailsScreen() {
     try {
       console.log('[ShiftDetails] Clocking out from shift:', id);
       
-      if (!activeTimesheet) {
+      if (!clockedIn) {
         Alert.alert('Error', 'No active timesheet found');
         return;
       }
 
-      // PATCH /api/timesheets/:id - Update the timesheet with clock-out time
-      const updateData = {
-        endTime: new Date().toISOString(),
-        status: 'pending',
-      };
+      const location = await capturePunchLocation();
 
-      const { authenticatedPatch } = await import('@/utils/api');
-      const response = await authenticatedPatch(`/api/timesheets/${activeTimesheet.id}`, updateData);
-      console.log('[ShiftDetails] Clock out response:', response);
-      
-      Alert.alert('Success', 'Clocked out successfully!');
+      // POST /api/shifts/:id/clock-out - Ends any break; queued with the device time while offline
+      const { queued, data: response } = await submitAction<any>('clock_out', id as string, `/api/shifts/${id}/clock-out`, {
+        location: location || undefined,
+      });
+      console.log('[ShiftDetails] Clock out response:', { queued, response });
+
+      if (queued) {
+        Alert.alert('Saved Offline', 'Your clock-out time has been saved and will sync when you\'re back online.');
+        return;
+      }
+      if (response?.locationFlagged) {
+        Alert.alert('Clocked Out', `This timesheet has been flagged for your provider to review: ${response.locationFlagReason}`);
+      } else {
+        Alert.alert('Success', 'Clocked out successfully!');
+      }
       router.back();
     } catch (error) {
       console.error('[ShiftDetails] Error clocking out:', error);
@@ -202,6 +432,259 @@ export default function ShiftDetailsScreen() {
     }
   };
 
+  const handleBreak = async () => {
+    try {
+      const action = onBreakNow ? 'end' : 'start';
+      console.log('[ShiftDetails] Break', action, 'for shift:', id);
+
+      // POST /api/shifts/:id/break/start or /break/end - Queued with the device time while offline
+      const { queued } = await submitAction(
+        action === 'start' ? 'break_start' : 'break_end',
+        id as string,
+        `/api/shifts/${id}/break/${action}`,
+      );
+      if (!queued) {
+        setOnBreak(!onBreakNow);
+      }
+    } catch (error) {
+      console.error('[ShiftDetails] Error updating break:', error);
+      Alert.alert('Error', 'Failed to update break. Please try again.');
+    }
+  };
+
+  const submitSwapRequest = async (requestType: 'cover' | 'swap') => {
+    try {
+      console.log('[ShiftDetails] Offering shift:', id, requestType);
+
+      // POST /api/shifts/:id/swap-requests - Offer this shift to colleagues
+      const response = await authenticatedPost(`/api/shifts/${id}/swap-requests`, { requestType });
+      console.log('[ShiftDetails] Swap request response:', response);
+
+      Alert.alert('Shift Offered', 'Your colleagues have been notified. Your provider will approve any change.');
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error offering shift:', error);
+      Alert.alert('Error', 'Failed to offer shift. Please try again.');
+    }
+  };
+
+  const handleOfferShift = () => {
+    Alert.alert('Offer Shift', 'Do you need someone to cover this shift, or do you want to swap it for one of theirs?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Ask for Cover', onPress: () => submitSwapRequest('cover') },
+      { text: 'Offer Swap', onPress: () => submitSwapRequest('swap') },
+    ]);
+  };
+
+  const handleWithdrawOffer = async () => {
+    if (!swapRequest) return;
+
+    try {
+      console.log('[ShiftDetails] Withdrawing swap request:', swapRequest.id);
+
+      // POST /api/shift-swaps/:id/cancel - Withdraw the swap request
+      await authenticatedPost(`/api/shift-swaps/${swapRequest.id}/cancel`, {});
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error withdrawing swap request:', error);
+      Alert.alert('Error', 'Failed to withdraw offer. Please try again.');
+    }
+  };
+
+  const handleCancelShift = async () => {
+    if (!cancelReasonCode) {
+      Alert.alert('Reason Required', 'Choose why the shift is being cancelled.');
+      return;
+    }
+    if (cancelReasonCode === 'other' && !cancelReason.trim()) {
+      Alert.alert('Reason Required', 'Describe why the shift is being cancelled.');
+      return;
+    }
+
+    try {
+      console.log('[ShiftDetails] Cancelling shift:', id, cancelReasonCode);
+
+      // POST /api/shifts/:id/cancel - Cancel with a reason code
+      await authenticatedPost(`/api/shifts/${id}/cancel`, {
+        reasonCode: cancelReasonCode,
+        reason: cancelReason.trim() || undefined,
+      });
+
+      setShowCancelModal(false);
+      setCancelReasonCode(null);
+      setCancelReason('');
+      Alert.alert('Shift Cancelled', 'The worker has been notified.');
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error cancelling shift:', error);
+      Alert.alert('Error', 'Failed to cancel shift. Shifts that have started cannot be cancelled.');
+    }
+  };
+
+  const openAmendModal = () => {
+    if (!closedTimesheet) return;
+    setAmendStart(new Date(closedTimesheet.startTime));
+    setAmendEnd(new Date(closedTimesheet.endTime));
+    setAmendBreak(String(closedTimesheet.breakMinutes || 0));
+    setAmendReason('');
+    setShowAmendModal(true);
+  };
+
+  const handleRequestAmendment = async () => {
+    if (!closedTimesheet) return;
+    if (!amendReason.trim()) {
+      Alert.alert('Reason Required', 'Explain why the times need correcting.');
+      return;
+    }
+    if (amendEnd <= amendStart) {
+      Alert.alert('Invalid Times', 'The finish time must be after the start time.');
+      return;
+    }
+
+    try {
+      console.log('[ShiftDetails] Requesting amendment for timesheet:', closedTimesheet.id);
+
+      // POST /api/timesheets/:id/amendments - Propose corrected times for the provider to review
+      await authenticatedPost(`/api/timesheets/${closedTimesheet.id}/amendments`, {
+        startTime: amendStart.toISOString(),
+        endTime: amendEnd.toISOString(),
+        breakMinutes: parseInt(amendBreak, 10) || 0,
+        reason: amendReason.trim(),
+      });
+
+      setShowAmendModal(false);
+      Alert.alert('Amendment Requested', 'Your provider will review the corrected times.');
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error requesting amendment:', error);
+      Alert.alert('Error', 'Failed to request amendment. Please try again.');
+    }
+  };
+
+  const handleReviewAmendment = async (amendment: TimesheetAmendment, approve: boolean) => {
+    try {
+      console.log('[ShiftDetails] Reviewing amendment:', amendment.id, { approve });
+
+      // POST /api/timesheet-amendments/:id/approve or /reject
+      if (approve) {
+        await authenticatedPost(`/api/timesheet-amendments/${amendment.id}/approve`, {});
+      } else {
+        await authenticatedPost(`/api/timesheet-amendments/${amendment.id}/reject`, {
+          note: 'The recorded times stand',
+        });
+      }
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error reviewing amendment:', error);
+      Alert.alert('Error', 'Failed to review amendment. Paid timesheets can no longer be changed.');
+    }
+  };
+
+  const loadTravelSuggestion = async (type: TravelEntry['travelType']) => {
+    if (!closedTimesheet) return;
+    setTravelType(type);
+    try {
+      // GET /api/timesheets/:id/travel/suggestion - Distance between clients and time since the last shift
+      const suggestion = await authenticatedGet<TravelSuggestion>(
+        `/api/timesheets/${closedTimesheet.id}/travel/suggestion?travelType=${type}`
+      );
+      console.log('[ShiftDetails] Travel suggestion:', suggestion);
+      setTravelSuggestion(suggestion);
+      setTravelKm(suggestion?.suggestedKilometres != null ? String(suggestion.suggestedKilometres) : '');
+      setTravelMinutes(type === 'between_clients' && suggestion?.suggestedMinutes != null ? String(suggestion.suggestedMinutes) : '');
+    } catch (error) {
+      console.error('[ShiftDetails] Error loading travel suggestion:', error);
+      setTravelSuggestion(null);
+    }
+  };
+
+  const openTravelModal = () => {
+    setTravelSuggestion(null);
+    setTravelKm('');
+    setTravelMinutes('');
+    setTravelReason('');
+    setShowTravelModal(true);
+    loadTravelSuggestion('between_clients');
+  };
+
+  const travelKmOverridden = () => {
+    const suggested = travelSuggestion?.suggestedKilometres;
+    if (suggested == null) return false;
+    return Math.abs((parseFloat(travelKm) || 0) - suggested) >= 0.05;
+  };
+
+  const handleClaimTravel = async () => {
+    if (!closedTimesheet) return;
+    const kilometres = parseFloat(travelKm) || 0;
+    const minutes = parseInt(travelMinutes, 10) || 0;
+    if (kilometres === 0 && minutes === 0) {
+      Alert.alert('Nothing to Claim', 'Enter the kilometres driven or the travel time.');
+      return;
+    }
+    if (travelKmOverridden() && !travelReason.trim()) {
+      Alert.alert('Reason Required', 'Explain why the kilometres differ from the suggested distance.');
+      return;
+    }
+
+    try {
+      console.log('[ShiftDetails] Claiming travel for timesheet:', closedTimesheet.id, { travelType, kilometres, minutes });
+
+      // POST /api/timesheets/:id/travel - Claim kilometres and travel time for the provider to review
+      await authenticatedPost(`/api/timesheets/${closedTimesheet.id}/travel`, {
+        travelType,
+        kilometres,
+        travelMinutes: minutes,
+        overrideReason: travelReason.trim() || undefined,
+      });
+
+      setShowTravelModal(false);
+      Alert.alert('Travel Claimed', 'Your provider will review the claim.');
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error claiming travel:', error);
+      Alert.alert('Error', 'Failed to claim travel. Please try again.');
+    }
+  };
+
+  const handleReviewTravel = async (entry: TravelEntry, approve: boolean) => {
+    try {
+      console.log('[ShiftDetails] Reviewing travel entry:', entry.id, { approve });
+
+      // POST /api/travel-entries/:id/approve or /reject
+      if (approve) {
+        await authenticatedPost(`/api/travel-entries/${entry.id}/approve`, {});
+      } else {
+        await authenticatedPost(`/api/travel-entries/${entry.id}/reject`, {
+          note: 'Travel not approved',
+        });
+      }
+      loadShiftDetails();
+    } catch (error) {
+      console.error('[ShiftDetails] Error reviewing travel:', error);
+      Alert.alert('Error', 'Failed to review travel claim. Please try again.');
+    }
+  };
+
+  const formatChangeValue = (change: TimesheetChange, value: string | number | null) => {
+    if (value === null) return '—';
+    if (change.field === 'startTime' || change.field === 'endTime') return formatTime(String(value));
+    return String(value);
+  };
+
+  const isProvider = !!shift && shift.serviceProviderId === user?.id;
+
+  // Punches waiting to sync decide the clocking state until the server has them
+  const lastQueuedPunch = [...queuedActions].reverse().find((action) => action.type !== 'note' && !action.error);
+  const clockedIn = lastQueuedPunch ? lastQueuedPunch.type !== 'clock_out' : !!activeTimesheet;
+  const onBreakNow = lastQueuedPunch ? lastQueuedPunch.type === 'break_start' : onBreak;
+  const queuedNotes = queuedActions.filter((action) => action.type === 'note' && !action.error);
+  const canClockIn = !!shift && (shift.status === 'scheduled' || shift.status === 'in_progress');
+
+  const isOwnUpcomingShift = !!shift
+    && shift.supportWorkerId === user?.id
+    && shift.status === 'scheduled'
+    && new Date(shift.start_time) > new Date();
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('en-US', { 
@@ -268,6 +751,23 @@ export default function ShiftDetailsScreen() {
                   </Text>
                 </View>
 
+                {shift.shift_type !== 'standard' && (
+                  <View style={styles.detailRow}>
+                    <IconSymbol 
+                      ios_icon_name="moon.fill" 
+                      android_material_icon_name="bedtime" 
+                      size={20} 
+                      color={colors.primary} 
+                    />
+                    <Text style={styles.detailText}>
+                      {SHIFT_TYPE_LABELS[shift.shift_type]}
+                      {shift.segments.map((segment) => (
+                        `\n${segment.segmentType === 'sleepover' ? 'Sleep' : 'Work'}: ${formatTime(segment.startTime)} - ${formatTime(segment.endTime)}`
+                      )).join('')}
+                    </Text>
+                  </View>
+                )}
+
                 <View style={styles.detailRow}>
                   <IconSymbol 
                     ios_icon_name="person.fill" 
@@ -301,7 +801,38 @@ export default function ShiftDetailsScreen() {
                 )}
               </View>
 
-              {!activeTimesheet && (
+              {(pendingCount > 0 || failedActions.length > 0) && (
+                <View style={styles.syncCard}>
+                  {pendingCount > 0 && (
+                    <View style={styles.syncRow}>
+                      <IconSymbol
+                        ios_icon_name="icloud.slash"
+                        android_material_icon_name="cloud-off"
+                        size={20}
+                        color={colors.warning}
+                      />
+                      <Text style={styles.syncText}>
+                        {pendingCount} action{pendingCount === 1 ? '' : 's'} waiting to sync
+                      </Text>
+                      <TouchableOpacity onPress={syncNow} disabled={syncing}>
+                        <Text style={styles.syncLink}>{syncing ? 'Syncing...' : 'Sync Now'}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  {failedActions.map((action) => (
+                    <View key={action.id} style={styles.syncRow}>
+                      <Text style={[styles.syncText, { color: colors.danger }]}>
+                        {QUEUED_ACTION_LABELS[action.type]} at {formatTime(action.occurredAt)} wasn't saved: {action.error}
+                      </Text>
+                      <TouchableOpacity onPress={() => discard(action.id)}>
+                        <Text style={styles.syncLink}>Dismiss</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {!clockedIn && !lastQueuedPunch && canClockIn && !isProvider && (
                 <TouchableOpacity style={styles.clockInButton} onPress={handleClockIn}>
                   <IconSymbol 
                     ios_icon_name="play.circle.fill" 
@@ -313,7 +844,22 @@ export default function ShiftDetailsScreen() {
                 </TouchableOpacity>
               )}
 
-              {activeTimesheet && !activeTimesheet.end_time && (
+              {clockedIn && !isProvider && (
+                <TouchableOpacity
+                  style={[styles.clockInButton, styles.breakButton]}
+                  onPress={handleBreak}
+                >
+                  <IconSymbol
+                    ios_icon_name={onBreakNow ? 'play.circle.fill' : 'pause.circle.fill'}
+                    android_material_icon_name={onBreakNow ? 'play-arrow' : 'pause'}
+                    size={24}
+                    color="#FFFFFF"
+                  />
+                  <Text style={styles.clockInButtonText}>{onBreakNow ? 'End Break' : 'Start Break'}</Text>
+                </TouchableOpacity>
+              )}
+
+              {clockedIn && !isProvider && (
                 <TouchableOpacity 
                   style={[styles.clockInButton, { backgroundColor: colors.danger }]} 
                   onPress={handleClockOut}
@@ -328,6 +874,182 @@ export default function ShiftDetailsScreen() {
                 </TouchableOpacity>
               )}
 
+              {isOwnUpcomingShift && !clockedIn && !lastQueuedPunch && (
+                swapRequest ? (
+                  <View style={styles.swapStatusCard}>
+                    <Text style={styles.swapStatusText}>
+                      {swapRequest.status === 'accepted'
+                        ? `${swapRequest.acceptedByName} accepted - awaiting provider approval`
+                        : `Offered for ${swapRequest.requestType === 'swap' ? 'swap' : 'cover'} - waiting for a colleague`}
+                    </Text>
+                    <TouchableOpacity onPress={handleWithdrawOffer}>
+                      <Text style={styles.withdrawText}>Withdraw</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={styles.offerButton} onPress={handleOfferShift}>
+                    <IconSymbol
+                      ios_icon_name="arrow.left.arrow.right"
+                      android_material_icon_name="swap-horiz"
+                      size={22}
+                      color={colors.primary}
+                    />
+                    <Text style={styles.offerButtonText}>Offer Shift</Text>
+                  </TouchableOpacity>
+                )
+              )}
+
+              {isProvider && shift.status === 'scheduled' && (
+                <TouchableOpacity style={styles.cancelShiftButton} onPress={() => setShowCancelModal(true)}>
+                  <IconSymbol
+                    ios_icon_name="xmark.circle"
+                    android_material_icon_name="cancel"
+                    size={22}
+                    color={colors.danger}
+                  />
+                  <Text style={styles.cancelShiftButtonText}>Cancel Shift</Text>
+                </TouchableOpacity>
+              )}
+
+              {closedTimesheet && (
+                <View style={styles.historySection}>
+                  <Text style={styles.sectionTitle}>Timesheet</Text>
+                  <Text style={styles.historyTitle}>
+                    {formatTime(closedTimesheet.startTime)} – {formatTime(closedTimesheet.endTime)}
+                    {closedTimesheet.totalHours ? `  ·  ${closedTimesheet.totalHours} hours` : ''}
+                  </Text>
+                  <Text style={styles.historyDate}>
+                    {closedTimesheet.breakMinutes || 0} min break{timesheetLocked ? '  ·  Paid, locked from changes' : ''}
+                  </Text>
+
+                  {timesheetChanges.length > 0 && (
+                    <View style={styles.diffBox}>
+                      <Text style={styles.diffTitle}>Amended from the original</Text>
+                      {timesheetChanges.map((change) => (
+                        <Text key={change.field} style={styles.diffRow}>
+                          {CHANGE_LABELS[change.field]}: <Text style={styles.diffOriginal}>{formatChangeValue(change, change.original)}</Text>
+                          {' → '}{formatChangeValue(change, change.current)}
+                        </Text>
+                      ))}
+                    </View>
+                  )}
+
+                  {amendments.map((amendment) => (
+                    <View key={amendment.id} style={styles.historyRow}>
+                      <Text style={styles.historyTitle}>
+                        Amendment {amendment.status} · requested by {amendment.requestedByName}
+                      </Text>
+                      <Text style={styles.historyDate}>
+                        {formatTime(amendment.proposedStartTime)} – {formatTime(amendment.proposedEndTime)}, {amendment.proposedBreakMinutes} min break
+                      </Text>
+                      <Text style={styles.historyReason}>{amendment.reason}</Text>
+                      {amendment.reviewNote && (
+                        <Text style={styles.historyReason}>{amendment.reviewedByName}: {amendment.reviewNote}</Text>
+                      )}
+                      {isProvider && amendment.status === 'pending' && !timesheetLocked && (
+                        <View style={styles.modalActions}>
+                          <TouchableOpacity
+                            style={styles.modalSecondaryButton}
+                            onPress={() => handleReviewAmendment(amendment, false)}
+                          >
+                            <Text style={styles.modalSecondaryButtonText}>Reject</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[styles.modalDangerButton, { backgroundColor: colors.success }]}
+                            onPress={() => handleReviewAmendment(amendment, true)}
+                          >
+                            <Text style={styles.modalDangerButtonText}>Approve</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
+                  ))}
+
+                  {!isProvider && !timesheetLocked && !amendments.some((a) => a.status === 'pending') && (
+                    <TouchableOpacity style={styles.offerButton} onPress={openAmendModal}>
+                      <IconSymbol
+                        ios_icon_name="pencil"
+                        android_material_icon_name="edit"
+                        size={22}
+                        color={colors.primary}
+                      />
+                      <Text style={styles.offerButtonText}>Request Amendment</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {travelEntries.map((entry) => (
+                    <View key={entry.id} style={styles.historyRow}>
+                      <Text style={styles.historyTitle}>
+                        Travel {entry.status} · {parseFloat(entry.kilometres).toFixed(1)} km
+                        {entry.travelMinutes > 0 ? `, ${entry.travelMinutes} min` : ''}
+                      </Text>
+                      <Text style={styles.historyDate}>
+                        {entry.travelType === 'between_clients'
+                          ? `${entry.fromClientName || 'Previous client'} → ${entry.clientName || 'this client'}`
+                          : `Transporting ${entry.clientName || 'client'}`}
+                        {entry.suggestedKilometres != null ? `  ·  suggested ${entry.suggestedKilometres} km` : ''}
+                      </Text>
+                      {entry.overrideReason && (
+                        <Text style={styles.historyReason}>{entry.overrideReason}</Text>
+                      )}
+                      {entry.reviewNote && (
+                        <Text style={styles.historyReason}>{entry.reviewNote}</Text>
+                      )}
+                      {isProvider && entry.status === 'pending' && (
+                        <View style={styles.modalActions}>
+                          <TouchableOpacity
+                            style={styles.modalSecondaryButton}
+                            onPress={() => handleReviewTravel(entry, false)}
+                          >
+                            <Text style={styles.modalSecondaryButtonText}>Reject</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[styles.modalDangerButton, { backgroundColor: colors.success }]}
+                            onPress={() => handleReviewTravel(entry, true)}
+                          >
+                            <Text style={styles.modalDangerButtonText}>Approve</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
+                  ))}
+
+                  {!isProvider && !timesheetLocked && (
+                    <TouchableOpacity style={styles.offerButton} onPress={openTravelModal}>
+                      <IconSymbol
+                        ios_icon_name="car"
+                        android_material_icon_name="directions-car"
+                        size={22}
+                        color={colors.primary}
+                      />
+                      <Text style={styles.offerButtonText}>Claim Travel</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {statusHistory.length > 0 && (
+                <View style={styles.historySection}>
+                  <Text style={styles.sectionTitle}>Status History</Text>
+                  {statusHistory.map((entry) => (
+                    <View key={entry.id} style={styles.historyRow}>
+                      <Text style={styles.historyTitle}>
+                        {STATUS_EVENT_LABELS[entry.event]} by {entry.changedByName}
+                      </Text>
+                      <Text style={styles.historyDate}>
+                        {formatDate(entry.createdAt)} at {formatTime(entry.createdAt)}
+                      </Text>
+                      {entry.reasonCode && (
+                        <Text style={styles.historyReason}>
+                          {CANCELLATION_REASONS.find((r) => r.value === entry.reasonCode)?.label || entry.reasonCode}
+                          {entry.reason ? `: ${entry.reason}` : ''}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              )}
+
               <View style={styles.notesSection}>
                 <Text style={styles.sectionTitle}>Shift Notes</Text>
                 
@@ -345,6 +1067,16 @@ export default function ShiftDetailsScreen() {
                   </TouchableOpacity>
                 </View>
 
+                {queuedNotes.map((action) => (
+                  <View key={action.id} style={[styles.noteCard, styles.noteCardPending]}>
+                    <View style={styles.noteHeader}>
+                      <Text style={styles.noteType}>{action.body.noteType}</Text>
+                      <Text style={styles.noteDate}>Waiting to sync</Text>
+                    </View>
+                    <Text style={styles.noteContent}>{action.body.content}</Text>
+                  </View>
+                ))}
+
                 {notes.map((note) => (
                   <View key={note.id} style={styles.noteCard}>
                     <View style={styles.noteHeader}>
@@ -366,6 +1098,194 @@ export default function ShiftDetailsScreen() {
           )}
         </ScrollView>
       </View>
+
+      <Modal
+        visible={showCancelModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowCancelModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Cancel Shift</Text>
+            <Text style={styles.modalHint}>Why is this shift being cancelled?</Text>
+            <View style={styles.reasonList}>
+              {CANCELLATION_REASONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.reasonChip, cancelReasonCode === option.value && styles.reasonChipActive]}
+                  onPress={() => setCancelReasonCode(option.value)}
+                >
+                  <Text style={[styles.reasonChipText, cancelReasonCode === option.value && styles.reasonChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.noteInput}
+              placeholder={cancelReasonCode === 'other' ? 'Describe the reason' : 'Details (optional)'}
+              placeholderTextColor={colors.textSecondary}
+              value={cancelReason}
+              onChangeText={setCancelReason}
+              multiline
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.modalSecondaryButton} onPress={() => setShowCancelModal(false)}>
+                <Text style={styles.modalSecondaryButtonText}>Keep Shift</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalDangerButton} onPress={handleCancelShift}>
+                <Text style={styles.modalDangerButtonText}>Cancel Shift</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showAmendModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowAmendModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Request Amendment</Text>
+            <Text style={styles.modalHint}>
+              Propose the correct times. Your original clock-in and clock-out are kept.
+            </Text>
+
+            <TouchableOpacity style={styles.pickerButton} onPress={() => setShowAmendStartPicker(true)}>
+              <Text style={styles.pickerLabel}>Start</Text>
+              <Text style={styles.pickerValue}>{formatTime(amendStart.toISOString())}</Text>
+            </TouchableOpacity>
+            {showAmendStartPicker && (
+              <DateTimePicker
+                value={amendStart}
+                mode="time"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowAmendStartPicker(Platform.OS === 'ios');
+                  if (selectedDate) setAmendStart(selectedDate);
+                }}
+              />
+            )}
+
+            <TouchableOpacity style={styles.pickerButton} onPress={() => setShowAmendEndPicker(true)}>
+              <Text style={styles.pickerLabel}>Finish</Text>
+              <Text style={styles.pickerValue}>{formatTime(amendEnd.toISOString())}</Text>
+            </TouchableOpacity>
+            {showAmendEndPicker && (
+              <DateTimePicker
+                value={amendEnd}
+                mode="time"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  setShowAmendEndPicker(Platform.OS === 'ios');
+                  if (selectedDate) setAmendEnd(selectedDate);
+                }}
+              />
+            )}
+
+            <TextInput
+              style={styles.amendInput}
+              placeholder="Break minutes"
+              placeholderTextColor={colors.textSecondary}
+              value={amendBreak}
+              onChangeText={setAmendBreak}
+              keyboardType="number-pad"
+            />
+            <TextInput
+              style={styles.noteInput}
+              placeholder="Why do the times need correcting?"
+              placeholderTextColor={colors.textSecondary}
+              value={amendReason}
+              onChangeText={setAmendReason}
+              multiline
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.modalSecondaryButton} onPress={() => setShowAmendModal(false)}>
+                <Text style={styles.modalSecondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalDangerButton, { backgroundColor: colors.primary }]}
+                onPress={handleRequestAmendment}
+              >
+                <Text style={styles.modalDangerButtonText}>Submit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showTravelModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowTravelModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Claim Travel</Text>
+            <View style={styles.reasonList}>
+              {TRAVEL_TYPES.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.reasonChip, travelType === option.value && styles.reasonChipActive]}
+                  onPress={() => loadTravelSuggestion(option.value)}
+                >
+                  <Text style={[styles.reasonChipText, travelType === option.value && styles.reasonChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.modalHint}>
+              {travelSuggestion?.suggestedKilometres != null
+                ? `Suggested ${travelSuggestion.suggestedKilometres} km from ${travelSuggestion.fromClientName || 'your previous client'} to ${travelSuggestion.clientName || 'this client'} in a straight line.`
+                : 'No suggested distance. Enter the kilometres from your odometer.'}
+            </Text>
+
+            <TextInput
+              style={styles.amendInput}
+              placeholder="Kilometres"
+              placeholderTextColor={colors.textSecondary}
+              value={travelKm}
+              onChangeText={setTravelKm}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.amendInput}
+              placeholder="Travel minutes"
+              placeholderTextColor={colors.textSecondary}
+              value={travelMinutes}
+              onChangeText={setTravelMinutes}
+              keyboardType="number-pad"
+            />
+            {travelKmOverridden() && (
+              <TextInput
+                style={styles.noteInput}
+                placeholder="Why is the distance different from the suggestion?"
+                placeholderTextColor={colors.textSecondary}
+                value={travelReason}
+                onChangeText={setTravelReason}
+                multiline
+              />
+            )}
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.modalSecondaryButton} onPress={() => setShowTravelModal(false)}>
+                <Text style={styles.modalSecondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalDangerButton, { backgroundColor: colors.primary }]}
+                onPress={handleClaimTravel}
+              >
+                <Text style={styles.modalDangerButtonText}>Claim</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </>
   );
 }
@@ -423,11 +1343,53 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     gap: 12,
   },
+  breakButton: {
+    backgroundColor: colors.warning,
+  },
   clockInButtonText: {
     color: '#FFFFFF',
     fontSize: 18,
     fontWeight: '700',
   },
+  offerButton: {
+    backgroundColor: '#FFFFFF',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 10,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  offerButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  swapStatusCard: {
+    backgroundColor: '#FFFFFF',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 12,
+  },
+  swapStatusText: {
+    fontSize: 14,
+    color: colors.text,
+    flex: 1,
+  },
+  withdrawText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.danger,
+  },
   notesSection: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -476,6 +1438,34 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border,
   },
+  noteCardPending: {
+    borderStyle: 'dashed',
+    borderColor: colors.warning,
+  },
+  syncCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    gap: 8,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  syncText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  syncLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   noteHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -521,4 +1511,171 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.textSecondary,
   },
+  cancelShiftButton: {
+    backgroundColor: '#FFFFFF',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 10,
+    borderWidth: 1,
+    borderColor: colors.danger,
+  },
+  cancelShiftButtonText: {
+    color: colors.danger,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historySection: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  historyRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  historyDate: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  historyReason: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 4,
+  },
+  diffBox: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  diffTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  diffRow: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  diffOriginal: {
+    color: colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  pickerButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    marginBottom: 8,
+  },
+  pickerLabel: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  pickerValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  amendInput: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  modalHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  reasonList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reasonChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: '#FFFFFF',
+  },
+  reasonChipActive: {
+    backgroundColor: colors.danger,
+    borderColor: colors.danger,
+  },
+  reasonChipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  reasonChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalSecondaryButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  modalSecondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  modalDangerButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.danger,
+  },
+  modalDangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
 });
@@ -10,11 +10,13 @@ import {
   ActivityIndicator,
   Alert,
   Image,
+  Linking,
 } from 'react-native';
 import { colors } from '@/styles/commonStyles';
 import { IconSymbol } from '@/components/IconSymbol';
 import { router, Stack, useLocalSearchParams } from 'expo-router';
 import { authenticatedGet } from '@/utils/api';
+import { PayTotals, financialYearOf, financialYearLabel, formatMoney, openPaymentSummaryPdf, openPayslipPdf } from '@/utils/payroll';
 
 interface Shift {
   id: string;
@@ -47,9 +49,32 @@ interface Timesheet {
     title: string;
     client: string;
   };
+  clockIn: PunchLocation | null;
+  clockOut: PunchLocation | null;
+  locationFlagged: boolean;
+  locationFlagReason: string | null;
+  clockTimeFlagged: boolean;
+  clockTimeFlagReason: string | null;
 }
 
-type TabType = 'shifts' | 'documents' | 'timesheets';
+interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  distance: number | null;
+}
+
+interface Payslip {
+  id: string;
+  payPeriodStartDate: string;
+  payPeriodEndDate: string;
+  status: string;
+  grossPay: string;
+  netPay: string;
+  ytd: PayTotals;
+}
+
+type TabType = 'shifts' | 'documents' | 'timesheets' | 'payslips';
 
 export default function SupportWorkerDetailsScreen() {
   const { id } = useLocalSearchParams();
@@ -59,11 +84,15 @@ export default function SupportWorkerDetailsScreen() {
   const [shifts, setShifts] = useState<Shift[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [payslips, setPayslips] = useState<Payslip[]>([]);
+  const [financialYear, setFinancialYear] = useState(financialYearOf());
+  const [yearTotals, setYearTotals] = useState<(PayTotals & { payslips: number }) | null>(null);
+  const [downloading, setDownloading] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadData();
-  }, [activeTab]);
+  }, [activeTab, financialYear]);
 
   const loadData = async () => {
     try {
@@ -118,9 +147,37 @@ export default function SupportWorkerDetailsScreen() {
             title: ts.shift?.title || 'Unknown Shift',
             client: ts.shift?.client?.name || ts.shift?.clientName || 'Unknown Client',
           },
+          clockIn: ts.clockInLatitude != null ? {
+            latitude: ts.clockInLatitude,
+            longitude: ts.clockInLongitude,
+            accuracy: ts.clockInAccuracy,
+            distance: ts.clockInDistance,
+          } : null,
+          clockOut: ts.clockOutLatitude != null ? {
+            latitude: ts.clockOutLatitude,
+            longitude: ts.clockOutLongitude,
+            accuracy: ts.clockOutAccuracy,
+            distance: ts.clockOutDistance,
+          } : null,
+          locationFlagged: !!ts.locationFlagged,
+          locationFlagReason: ts.locationFlagReason || null,
+          clockTimeFlagged: !!ts.clockTimeFlagged,
+          clockTimeFlagReason: ts.clockTimeFlagReason || null,
         }));
         
         setTimesheets(transformedTimesheets);
+      } else if (activeTab === 'payslips') {
+        // GET /api/payslips?workerId= - Payslips for a support worker, with year-to-date totals
+        const response = await authenticatedGet<Payslip[]>(`/api/payslips?workerId=${workerId}`);
+        setPayslips(
+          response.sort((a, b) => new Date(b.payPeriodEndDate).getTime() - new Date(a.payPeriodEndDate).getTime())
+        );
+
+        // GET /api/payslips/summary/:workerId - Totals for the selected financial year
+        const summary = await authenticatedGet<{ yearToDate: PayTotals & { payslips: number } }>(
+          `/api/payslips/summary/${workerId}?financialYear=${financialYear}`
+        );
+        setYearTotals(summary.yearToDate);
       }
     } catch (error) {
       console.error(`[SupportWorkerDetails] Error loading ${activeTab}:`, error);
@@ -251,6 +308,17 @@ export default function SupportWorkerDetailsScreen() {
     );
   };
 
+  const openPunchLocation = (punch: PunchLocation) => {
+    Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${punch.latitude},${punch.longitude}`);
+  };
+
+  const describePunch = (label: string, punch: PunchLocation | null) => {
+    if (!punch) return `${label}: no location`;
+    const distance = punch.distance != null ? `${punch.distance}m from client` : 'location captured';
+    const accuracy = punch.accuracy != null ? ` (±${Math.round(punch.accuracy)}m)` : '';
+    return `${label}: ${distance}${accuracy}`;
+  };
+
   const renderTimesheets = () => {
     if (loading) {
       return (
@@ -316,6 +384,41 @@ export default function SupportWorkerDetailsScreen() {
               />
               <Text style={styles.cardText}>{timesheet.totalHours} hours</Text>
             </View>
+            {[
+              { label: 'Clock-in', punch: timesheet.clockIn },
+              ...(timesheet.endTime ? [{ label: 'Clock-out', punch: timesheet.clockOut }] : []),
+            ].map(({ label, punch }) => (
+              <TouchableOpacity
+                key={label}
+                style={styles.cardRow}
+                disabled={!punch}
+                onPress={() => punch && openPunchLocation(punch)}
+              >
+                <IconSymbol 
+                  ios_icon_name="location" 
+                  android_material_icon_name="location-on" 
+                  size={16} 
+                  color={punch ? colors.primary : colors.textSecondary} 
+                />
+                <Text style={[styles.cardText, punch && styles.linkText]}>{describePunch(label, punch)}</Text>
+              </TouchableOpacity>
+            ))}
+            {timesheet.locationFlagged && (
+              <View style={styles.flagContainer}>
+                <Text style={styles.flagLabel}>Location flagged for review</Text>
+                {timesheet.locationFlagReason && (
+                  <Text style={styles.flagText}>{timesheet.locationFlagReason}</Text>
+                )}
+              </View>
+            )}
+            {timesheet.clockTimeFlagged && (
+              <View style={styles.flagContainer}>
+                <Text style={styles.flagLabel}>Punch times flagged for review</Text>
+                {timesheet.clockTimeFlagReason && (
+                  <Text style={styles.flagText}>{timesheet.clockTimeFlagReason}</Text>
+                )}
+              </View>
+            )}
             {timesheet.notes && (
               <View style={styles.notesContainer}>
                 <Text style={styles.notesLabel}>Notes:</Text>
@@ -328,6 +431,135 @@ export default function SupportWorkerDetailsScreen() {
     );
   };
 
+  const handleDownloadSummary = async () => {
+    try {
+      setDownloading(true);
+      console.log('[SupportWorkerDetails] Downloading payment summary for', financialYear);
+      await openPaymentSummaryPdf({ workerId, financialYear });
+    } catch (error) {
+      console.error('[SupportWorkerDetails] Error downloading payment summary:', error);
+      Alert.alert('Error', 'Failed to generate the payment summary. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadPayslip = async (payslipId: string) => {
+    try {
+      setDownloading(true);
+      console.log('[SupportWorkerDetails] Downloading payslip PDF:', payslipId);
+      await openPayslipPdf(payslipId);
+    } catch (error) {
+      console.error('[SupportWorkerDetails] Error downloading payslip PDF:', error);
+      Alert.alert('Error', 'Failed to download the payslip. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderPayslips = () => {
+    if (loading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    return (
+      <React.Fragment>
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <TouchableOpacity onPress={() => setFinancialYear(financialYear - 1)}>
+              <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="chevron-left" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={[styles.cardTitle, styles.yearTitle]}>
+              Financial Year {financialYearLabel(financialYear)}
+            </Text>
+            <TouchableOpacity onPress={() => setFinancialYear(financialYear + 1)}>
+              <IconSymbol ios_icon_name="chevron.right" android_material_icon_name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+          {yearTotals && (
+            <React.Fragment>
+              <Text style={styles.cardText}>
+                {yearTotals.payslips} payslip{yearTotals.payslips === 1 ? '' : 's'} issued
+              </Text>
+              <Text style={styles.cardText}>
+                Gross {formatMoney(yearTotals.gross)} · Tax {formatMoney(yearTotals.tax)} · Net {formatMoney(yearTotals.net)}
+              </Text>
+              <Text style={styles.cardText}>Super {formatMoney(yearTotals.super)}</Text>
+            </React.Fragment>
+          )}
+          <TouchableOpacity
+            style={[styles.summaryButton, downloading && styles.buttonDisabled]}
+            onPress={handleDownloadSummary}
+            disabled={downloading}
+          >
+            <IconSymbol
+              ios_icon_name="arrow.down.doc"
+              android_material_icon_name="picture-as-pdf"
+              size={18}
+              color={colors.primary}
+            />
+            <Text style={styles.summaryButtonText}>Payment Summary PDF</Text>
+          </TouchableOpacity>
+        </View>
+
+        {payslips.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <IconSymbol 
+              ios_icon_name="doc.text" 
+              android_material_icon_name="receipt" 
+              size={48} 
+              color={colors.textSecondary} 
+            />
+            <Text style={styles.emptyText}>No payslips found</Text>
+          </View>
+        ) : (
+          payslips.map((payslip) => (
+            <View key={payslip.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>
+                  {new Date(payslip.payPeriodStartDate).toLocaleDateString()} - {new Date(payslip.payPeriodEndDate).toLocaleDateString()}
+                </Text>
+                <View style={[
+                  styles.statusBadge,
+                  payslip.status === 'paid' ? styles.statusCompleted : styles.statusPending
+                ]}>
+                  <Text style={styles.statusText}>{payslip.status}</Text>
+                </View>
+              </View>
+              <Text style={styles.cardText}>
+                Gross {formatMoney(payslip.grossPay)} · Net {formatMoney(payslip.netPay)}
+              </Text>
+              {payslip.ytd && (
+                <Text style={styles.documentDate}>
+                  YTD gross {formatMoney(payslip.ytd.gross)} · tax {formatMoney(payslip.ytd.tax)} · super {formatMoney(payslip.ytd.super)} · net {formatMoney(payslip.ytd.net)}
+                </Text>
+              )}
+              {payslip.status !== 'draft' && (
+                <TouchableOpacity
+                  style={[styles.summaryButton, downloading && styles.buttonDisabled]}
+                  onPress={() => handleDownloadPayslip(payslip.id)}
+                  disabled={downloading}
+                >
+                  <IconSymbol
+                    ios_icon_name="arrow.down.doc"
+                    android_material_icon_name="picture-as-pdf"
+                    size={18}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.summaryButtonText}>Payslip PDF</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+      </React.Fragment>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <Stack.Screen
@@ -369,12 +601,21 @@ export default function SupportWorkerDetailsScreen() {
             Timesheets
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'payslips' && styles.tabActive]}
+          onPress={() => setActiveTab('payslips')}
+        >
+          <Text style={[styles.tabText, activeTab === 'payslips' && styles.tabTextActive]}>
+            Payslips
+          </Text>
+        </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         {activeTab === 'shifts' && renderShifts()}
         {activeTab === 'documents' && renderDocuments()}
         {activeTab === 'timesheets' && renderTimesheets()}
+        {activeTab === 'payslips' && renderPayslips()}
       </ScrollView>
 
       {activeTab === 'timesheets' && timesheets.length > 0 && (
@@ -515,6 +756,47 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 8,
   },
+  linkText: {
+    color: colors.primary,
+  },
+  yearTitle: {
+    textAlign: 'center',
+  },
+  summaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  summaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  flagContainer: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: colors.danger + '15',
+    borderRadius: 8,
+  },
+  flagLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.danger,
+    marginBottom: 4,
+  },
+  flagText: {
+    fontSize: 14,
+    color: colors.text,
+  },
   notesContainer: {
     marginTop: 12,
     padding: 12,
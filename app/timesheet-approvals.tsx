@@ -0,0 +1,497 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, authenticatedPost } from '@/utils/api';
+
+interface QueuedTimesheet {
+  id: string;
+  shiftId: string;
+  supportWorkerId: string;
+  workerName: string;
+  shiftTitle: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  startTime: string;
+  endTime: string | null;
+  totalHours: string | null;
+  varianceFlagged: boolean;
+  locationFlagged: boolean;
+  clockTimeFlagged: boolean;
+  lateStartMinutes: number | null;
+  earlyFinishMinutes: number | null;
+  overtimeMinutes: number | null;
+}
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+const DATE_RANGES: { label: string; days: number | null }[] = [
+  { label: 'All', days: null },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 14 days', days: 14 },
+  { label: 'Last 30 days', days: 30 },
+];
+
+export default function TimesheetApprovalsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [timesheets, setTimesheets] = useState<QueuedTimesheet[]>([]);
+  const [workerOptions, setWorkerOptions] = useState<FilterOption[]>([]);
+  const [clientOptions, setClientOptions] = useState<FilterOption[]>([]);
+  const [workerId, setWorkerId] = useState<string | null>(null);
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [rangeDays, setRangeDays] = useState<number | null>(null);
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [locationOnly, setLocationOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (workerId) params.append('workerId', workerId);
+      if (clientId) params.append('clientId', clientId);
+      if (rangeDays !== null) {
+        params.append('startDate', new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString());
+      }
+      if (varianceOnly) params.append('varianceFlagged', 'true');
+      if (locationOnly) params.append('locationFlagged', 'true');
+
+      console.log('[TimesheetApprovals] Loading approval queue:', params.toString());
+
+      // GET /api/timesheets/approval-queue - Submitted timesheets across linked workers
+      const query = params.toString();
+      const response = await authenticatedGet<QueuedTimesheet[]>(
+        `/api/timesheets/approval-queue${query ? `?${query}` : ''}`
+      );
+      const queue = response || [];
+      setTimesheets(queue);
+      setSelected(new Set());
+
+      // Filter choices come from the unfiltered queue so they don't disappear once one is picked
+      if (!query) {
+        const workers = new Map<string, string>();
+        const clients = new Map<string, string>();
+        queue.forEach((ts) => {
+          workers.set(ts.supportWorkerId, ts.workerName);
+          if (ts.clientId) clients.set(ts.clientId, ts.clientName || 'Unknown client');
+        });
+        setWorkerOptions([...workers.entries()].map(([id, name]) => ({ id, name })));
+        setClientOptions([...clients.entries()].map(([id, name]) => ({ id, name })));
+      }
+    } catch (error) {
+      console.error('[TimesheetApprovals] Error loading approval queue:', error);
+      Alert.alert('Error', 'Failed to load timesheets. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [workerId, clientId, rangeDays, varianceOnly, locationOnly]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace('/auth');
+      return;
+    }
+    if (user) {
+      loadQueue();
+    }
+  }, [user, authLoading, loadQueue]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadQueue();
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleSelectAll = () => {
+    if (selected.size === timesheets.length) {
+      setSelected(new Set());
+    } else {
+      setSelected(new Set(timesheets.map((ts) => ts.id)));
+    }
+  };
+
+  const submitReview = async (action: 'approve' | 'reject') => {
+    if (action === 'reject' && !comment.trim()) {
+      Alert.alert('Comment Required', 'Add a comment explaining why the timesheets are rejected.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      console.log('[TimesheetApprovals] Bulk review:', action, selected.size);
+
+      // POST /api/timesheets/bulk-review - Approve or reject the selection with one comment
+      const response = await authenticatedPost<{ reviewed: number; skipped: { id: string; reason: string }[] }>(
+        '/api/timesheets/bulk-review',
+        {
+          timesheetIds: [...selected],
+          action,
+          comment: comment.trim() || undefined,
+        }
+      );
+
+      const skippedNote = response.skipped.length > 0
+        ? ` ${response.skipped.length} could not be ${action === 'approve' ? 'approved' : 'rejected'}.`
+        : '';
+      Alert.alert(
+        action === 'approve' ? 'Timesheets Approved' : 'Timesheets Rejected',
+        `${response.reviewed} timesheets updated and workers notified.${skippedNote}`
+      );
+      setComment('');
+      loadQueue();
+    } catch (error) {
+      console.error('[TimesheetApprovals] Error reviewing timesheets:', error);
+      Alert.alert('Error', 'Failed to review timesheets. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const confirmReview = (action: 'approve' | 'reject') => {
+    Alert.alert(
+      action === 'approve' ? 'Approve Timesheets' : 'Reject Timesheets',
+      `${action === 'approve' ? 'Approve' : 'Reject'} ${selected.size} selected timesheets?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: action === 'approve' ? 'Approve' : 'Reject', onPress: () => submitReview(action) },
+      ]
+    );
+  };
+
+  const formatDateTime = (value: string | null) => {
+    if (!value) return '—';
+    return new Date(value).toLocaleString('en-AU', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.filterChip, active && styles.filterChipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Approve Timesheets',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <Text style={styles.filterLabel}>Worker</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {renderChip('All workers', workerId === null, () => setWorkerId(null))}
+            {workerOptions.map((option) =>
+              renderChip(option.name, workerId === option.id, () => setWorkerId(option.id))
+            )}
+          </ScrollView>
+
+          {clientOptions.length > 0 && (
+            <>
+              <Text style={styles.filterLabel}>Client</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {renderChip('All clients', clientId === null, () => setClientId(null))}
+                {clientOptions.map((option) =>
+                  renderChip(option.name, clientId === option.id, () => setClientId(option.id))
+                )}
+              </ScrollView>
+            </>
+          )}
+
+          <Text style={styles.filterLabel}>Shift date</Text>
+          <View style={styles.chipRow}>
+            {DATE_RANGES.map((range) =>
+              renderChip(range.label, rangeDays === range.days, () => setRangeDays(range.days))
+            )}
+          </View>
+
+          <Text style={styles.filterLabel}>Flags</Text>
+          <View style={styles.chipRow}>
+            {renderChip('Variance over tolerance', varianceOnly, () => setVarianceOnly(!varianceOnly))}
+            {renderChip('Location flagged', locationOnly, () => setLocationOnly(!locationOnly))}
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : timesheets.length === 0 ? (
+            <Text style={styles.emptyText}>No submitted timesheets match these filters.</Text>
+          ) : (
+            <>
+              <TouchableOpacity style={styles.selectAllRow} onPress={toggleSelectAll}>
+                <IconSymbol
+                  ios_icon_name={selected.size === timesheets.length ? 'checkmark.square.fill' : 'square'}
+                  android_material_icon_name={selected.size === timesheets.length ? 'check-box' : 'check-box-outline-blank'}
+                  size={22}
+                  color={colors.primary}
+                />
+                <Text style={styles.selectAllText}>
+                  {selected.size > 0 ? `${selected.size} of ${timesheets.length} selected` : `Select all ${timesheets.length}`}
+                </Text>
+              </TouchableOpacity>
+
+              {timesheets.map((timesheet) => {
+                const isSelected = selected.has(timesheet.id);
+                return (
+                  <TouchableOpacity
+                    key={timesheet.id}
+                    style={[styles.card, isSelected && styles.cardSelected]}
+                    onPress={() => toggleSelected(timesheet.id)}
+                  >
+                    <IconSymbol
+                      ios_icon_name={isSelected ? 'checkmark.square.fill' : 'square'}
+                      android_material_icon_name={isSelected ? 'check-box' : 'check-box-outline-blank'}
+                      size={22}
+                      color={colors.primary}
+                    />
+                    <View style={styles.cardBody}>
+                      <Text style={styles.cardTitle}>{timesheet.workerName}</Text>
+                      <Text style={styles.cardDetail}>
+                        {timesheet.shiftTitle}{timesheet.clientName ? ` · ${timesheet.clientName}` : ''}
+                      </Text>
+                      <Text style={styles.cardDetail}>
+                        {formatDateTime(timesheet.startTime)} – {formatDateTime(timesheet.endTime)}
+                        {timesheet.totalHours ? `  ·  ${timesheet.totalHours}h` : ''}
+                      </Text>
+                      {(timesheet.varianceFlagged || timesheet.locationFlagged || timesheet.clockTimeFlagged) && (
+                        <View style={styles.flagRow}>
+                          {timesheet.varianceFlagged && (
+                            <Text style={[styles.flagText, { color: colors.warning }]}>Outside scheduled times</Text>
+                          )}
+                          {timesheet.locationFlagged && (
+                            <Text style={[styles.flagText, { color: colors.danger }]}>Location flagged</Text>
+                          )}
+                          {timesheet.clockTimeFlagged && (
+                            <Text style={[styles.flagText, { color: colors.danger }]}>Device time differs</Text>
+                          )}
+                        </View>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </>
+          )}
+        </ScrollView>
+
+        {selected.size > 0 && (
+          <View style={styles.footer}>
+            <TextInput
+              style={styles.commentInput}
+              placeholder="Comment for the workers (required to reject)"
+              placeholderTextColor={colors.textSecondary}
+              value={comment}
+              onChangeText={setComment}
+              multiline
+            />
+            <View style={styles.footerActions}>
+              <TouchableOpacity
+                style={[styles.footerButton, { backgroundColor: colors.danger }]}
+                onPress={() => confirmReview('reject')}
+                disabled={submitting}
+              >
+                <Text style={styles.footerButtonText}>Reject {selected.size}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.footerButton, { backgroundColor: colors.success }]}
+                onPress={() => confirmReview('approve')}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.footerButtonText}>Approve {selected.size}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  filterChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  selectAllRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    marginBottom: 4,
+  },
+  selectAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  card: {
+    flexDirection: 'row',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardSelected: {
+    borderColor: colors.primary,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  cardDetail: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 4,
+  },
+  flagText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  commentInput: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    fontSize: 15,
+    color: colors.text,
+    minHeight: 44,
+    marginBottom: 12,
+  },
+  footerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  footerButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
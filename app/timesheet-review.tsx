@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedGet, authenticatedPost } from '@/utils/api';
+
+interface VarianceTimesheet {
+  id: string;
+  workerName: string;
+  shiftTitle: string | null;
+  status: string;
+  startTime: string;
+  endTime: string | null;
+  scheduledStartTime: string;
+  scheduledEndTime: string;
+  lateStartMinutes: number | null;
+  earlyFinishMinutes: number | null;
+  overtimeMinutes: number | null;
+}
+
+interface NoShow {
+  id: string;
+  title: string;
+  workerName: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface VarianceReview {
+  toleranceMinutes: number;
+  timesheets: VarianceTimesheet[];
+  noShows: NoShow[];
+}
+
+const TOLERANCE_OPTIONS = [5, 15, 30, 60];
+
+export default function TimesheetReviewScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const [review, setReview] = useState<VarianceReview | null>(null);
+  const [tolerance, setTolerance] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadReview = useCallback(async () => {
+    try {
+      console.log('[TimesheetReview] Loading variance review, tolerance:', tolerance);
+
+      // GET /api/timesheets/variance-review - Timesheets over tolerance and no-shows
+      const query = tolerance !== null ? `?toleranceMinutes=${tolerance}` : '';
+      const response = await authenticatedGet<VarianceReview>(`/api/timesheets/variance-review${query}`);
+      setReview(response);
+    } catch (error) {
+      console.error('[TimesheetReview] Error loading review queue:', error);
+      Alert.alert('Error', 'Failed to load timesheets for review. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [tolerance]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace('/auth');
+      return;
+    }
+    if (user) {
+      loadReview();
+    }
+  }, [user, authLoading, loadReview]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadReview();
+  };
+
+  const handleApprove = async (timesheet: VarianceTimesheet) => {
+    try {
+      console.log('[TimesheetReview] Approving timesheet:', timesheet.id);
+
+      // POST /api/timesheets/:id/approve
+      await authenticatedPost(`/api/timesheets/${timesheet.id}/approve`, {});
+      loadReview();
+    } catch (error) {
+      console.error('[TimesheetReview] Error approving timesheet:', error);
+      Alert.alert('Error', 'Failed to approve timesheet. Please try again.');
+    }
+  };
+
+  const handleReject = async (timesheet: VarianceTimesheet) => {
+    try {
+      console.log('[TimesheetReview] Rejecting timesheet:', timesheet.id);
+
+      // POST /api/timesheets/:id/reject
+      await authenticatedPost(`/api/timesheets/${timesheet.id}/reject`, {
+        reason: 'Times differ from the schedule',
+      });
+      loadReview();
+    } catch (error) {
+      console.error('[TimesheetReview] Error rejecting timesheet:', error);
+      Alert.alert('Error', 'Failed to reject timesheet. Please try again.');
+    }
+  };
+
+  const formatDateTime = (value: string | null) => {
+    if (!value) return '—';
+    return new Date(value).toLocaleString('en-AU', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const formatMinutes = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const renderVariance = (label: string, minutes: number | null, color: string) => {
+    if (!minutes || !review || minutes <= review.toleranceMinutes) return null;
+    return (
+      <View style={[styles.varianceChip, { borderColor: color }]}>
+        <Text style={[styles.varianceChipText, { color }]}>{label} {formatMinutes(minutes)}</Text>
+      </View>
+    );
+  };
+
+  const activeTolerance = tolerance ?? review?.toleranceMinutes ?? null;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Timesheet Review',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: '#1E3A5F',
+          },
+          headerTintColor: '#FFFFFF',
+        }}
+      />
+      <View style={styles.container}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <Text style={styles.sectionTitle}>Tolerance</Text>
+          <Text style={styles.sectionHint}>
+            Show timesheets that started late, finished early or ran over by more than this.
+          </Text>
+          <View style={styles.chipRow}>
+            {TOLERANCE_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.toleranceChip, activeTolerance === minutes && styles.toleranceChipActive]}
+                onPress={() => setTolerance(minutes)}
+              >
+                <Text style={[styles.toleranceChipText, activeTolerance === minutes && styles.toleranceChipTextActive]}>
+                  {minutes} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : review && (
+            <>
+              <Text style={styles.sectionTitle}>No-Shows ({review.noShows.length})</Text>
+              {review.noShows.length === 0 ? (
+                <Text style={styles.sectionHint}>Every rostered shift that has ended has a timesheet.</Text>
+              ) : review.noShows.map((shift) => (
+                <TouchableOpacity
+                  key={shift.id}
+                  style={[styles.card, { borderLeftColor: colors.danger }]}
+                  onPress={() => router.push(`/shift/${shift.id}`)}
+                >
+                  <Text style={styles.cardTitle}>{shift.workerName}</Text>
+                  <Text style={styles.cardDetail}>{shift.title}</Text>
+                  <Text style={styles.cardDetail}>
+                    {formatDateTime(shift.startTime)} – {formatDateTime(shift.endTime)}
+                  </Text>
+                  <Text style={[styles.cardNote, { color: colors.danger }]}>No clock-in recorded</Text>
+                </TouchableOpacity>
+              ))}
+
+              <Text style={[styles.sectionTitle, styles.sectionSpacing]}>
+                Over Tolerance ({review.timesheets.length})
+              </Text>
+              {review.timesheets.length === 0 ? (
+                <Text style={styles.sectionHint}>No timesheets awaiting approval are outside the tolerance.</Text>
+              ) : review.timesheets.map((timesheet) => (
+                <View key={timesheet.id} style={[styles.card, { borderLeftColor: colors.warning }]}>
+                  <View style={styles.cardHeader}>
+                    <Text style={styles.cardTitle}>{timesheet.workerName}</Text>
+                    <Text style={styles.cardStatus}>{timesheet.status}</Text>
+                  </View>
+                  {timesheet.shiftTitle && <Text style={styles.cardDetail}>{timesheet.shiftTitle}</Text>}
+                  <Text style={styles.cardDetail}>
+                    Scheduled: {formatDateTime(timesheet.scheduledStartTime)} – {formatDateTime(timesheet.scheduledEndTime)}
+                  </Text>
+                  <Text style={styles.cardDetail}>
+                    Actual: {formatDateTime(timesheet.startTime)} – {formatDateTime(timesheet.endTime)}
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {renderVariance('Late start', timesheet.lateStartMinutes, colors.warning)}
+                    {renderVariance('Early finish', timesheet.earlyFinishMinutes, colors.warning)}
+                    {renderVariance('Overtime', timesheet.overtimeMinutes, colors.danger)}
+                  </View>
+                  <View style={styles.actionRow}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: colors.danger }]}
+                      onPress={() => handleReject(timesheet)}
+                    >
+                      <Text style={styles.actionButtonText}>Reject</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: colors.success }]}
+                      onPress={() => handleApprove(timesheet)}
+                    >
+                      <Text style={styles.actionButtonText}>Approve</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  toleranceChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: '#FFFFFF',
+  },
+  toleranceChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  toleranceChipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  toleranceChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderLeftWidth: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  cardStatus: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    textTransform: 'capitalize',
+  },
+  cardDetail: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  cardNote: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  varianceChip: {
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  varianceChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,23 @@
+CREATE TABLE "shift_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"support_worker_id" text NOT NULL,
+	"service_provider_id" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"location" text,
+	"hourly_rate" numeric(10, 2),
+	"frequency" text NOT NULL,
+	"recurrence_rule" text NOT NULL,
+	"first_start_time" timestamp NOT NULL,
+	"first_end_time" timestamp NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "occurrence_start_time" timestamp;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "is_series_exception" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "shift_series" ADD CONSTRAINT "shift_series_support_worker_id_user_id_fk" FOREIGN KEY ("support_worker_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_series" ADD CONSTRAINT "shift_series_service_provider_id_user_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_series_id_shift_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."shift_series"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "shift_conflict_overrides" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"overridden_by" text NOT NULL,
+	"conflicts" text NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "min_rest_hours" numeric(5, 2) DEFAULT '10' NOT NULL;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "max_daily_hours" numeric(5, 2) DEFAULT '12' NOT NULL;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "max_weekly_hours" numeric(5, 2) DEFAULT '50' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shift_conflict_overrides" ADD CONSTRAINT "shift_conflict_overrides_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_conflict_overrides" ADD CONSTRAINT "shift_conflict_overrides_overridden_by_user_id_fk" FOREIGN KEY ("overridden_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "shifts" ALTER COLUMN "support_worker_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "is_open" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "claim_mode" text;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "open_to_worker_ids" text;
\ No newline at end of file
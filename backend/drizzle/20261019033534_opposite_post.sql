@@ -0,0 +1,35 @@
+CREATE TABLE "shift_holder_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"support_worker_id" text NOT NULL,
+	"held_from" timestamp NOT NULL,
+	"held_until" timestamp,
+	"change_reason" text NOT NULL,
+	"swap_request_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shift_swap_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"service_provider_id" text NOT NULL,
+	"offered_by" text NOT NULL,
+	"request_type" text NOT NULL,
+	"reason" text,
+	"accepted_by" text,
+	"swap_shift_id" uuid,
+	"status" text DEFAULT 'open' NOT NULL,
+	"provider_comment" text,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shift_holder_history" ADD CONSTRAINT "shift_holder_history_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_holder_history" ADD CONSTRAINT "shift_holder_history_support_worker_id_user_id_fk" FOREIGN KEY ("support_worker_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_holder_history" ADD CONSTRAINT "shift_holder_history_swap_request_id_shift_swap_requests_id_fk" FOREIGN KEY ("swap_request_id") REFERENCES "public"."shift_swap_requests"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_service_provider_id_user_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_offered_by_user_id_fk" FOREIGN KEY ("offered_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_accepted_by_user_id_fk" FOREIGN KEY ("accepted_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_swap_shift_id_shifts_id_fk" FOREIGN KEY ("swap_shift_id") REFERENCES "public"."shifts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "support_workers" ADD COLUMN "latitude" real;--> statement-breakpoint
+ALTER TABLE "support_workers" ADD COLUMN "longitude" real;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "shift_segments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"segment_type" text NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "sleepover_allowance" numeric(10, 2) DEFAULT '55.96' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "shift_type" text DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shifts" ADD COLUMN "sleepover_allowance" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "shift_segments" ADD CONSTRAINT "shift_segments_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
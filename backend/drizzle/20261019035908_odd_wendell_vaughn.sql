@@ -0,0 +1,11 @@
+ALTER TABLE "service_providers" ADD COLUMN "geofence_radius_meters" integer DEFAULT 300 NOT NULL;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_latitude" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_longitude" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_accuracy" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_distance" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_latitude" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_longitude" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_accuracy" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_distance" real;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "location_flagged" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "location_flag_reason" text;
\ No newline at end of file
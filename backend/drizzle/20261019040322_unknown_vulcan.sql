@@ -0,0 +1,9 @@
+CREATE TABLE "timesheet_breaks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"timesheet_id" uuid NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "timesheet_breaks" ADD CONSTRAINT "timesheet_breaks_timesheet_id_timesheets_id_fk" FOREIGN KEY ("timesheet_id") REFERENCES "public"."timesheets"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "service_providers" ADD COLUMN "variance_tolerance_minutes" integer DEFAULT 15 NOT NULL;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "pay_hours_policy" text DEFAULT 'actual' NOT NULL;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "late_start_minutes" integer;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "early_finish_minutes" integer;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "overtime_minutes" integer;
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE "timesheet_amendments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"timesheet_id" uuid NOT NULL,
+	"requested_by" text NOT NULL,
+	"proposed_start_time" timestamp NOT NULL,
+	"proposed_end_time" timestamp NOT NULL,
+	"proposed_break_minutes" integer NOT NULL,
+	"reason" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "timesheet_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"timesheet_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"break_minutes" integer DEFAULT 0,
+	"total_hours" numeric(5, 2),
+	"source" text NOT NULL,
+	"amendment_id" uuid,
+	"changed_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "payslip_id" uuid;--> statement-breakpoint
+ALTER TABLE "timesheet_amendments" ADD CONSTRAINT "timesheet_amendments_timesheet_id_timesheets_id_fk" FOREIGN KEY ("timesheet_id") REFERENCES "public"."timesheets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheet_amendments" ADD CONSTRAINT "timesheet_amendments_requested_by_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheet_amendments" ADD CONSTRAINT "timesheet_amendments_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheet_versions" ADD CONSTRAINT "timesheet_versions_timesheet_id_timesheets_id_fk" FOREIGN KEY ("timesheet_id") REFERENCES "public"."timesheets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheet_versions" ADD CONSTRAINT "timesheet_versions_amendment_id_timesheet_amendments_id_fk" FOREIGN KEY ("amendment_id") REFERENCES "public"."timesheet_amendments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheet_versions" ADD CONSTRAINT "timesheet_versions_changed_by_user_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_payslip_id_payslips_id_fk" FOREIGN KEY ("payslip_id") REFERENCES "public"."payslips"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "timesheets" ADD COLUMN "reviewed_by" text;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "review_comment" text;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "travel_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"timesheet_id" uuid NOT NULL,
+	"support_worker_id" text NOT NULL,
+	"travel_type" text NOT NULL,
+	"from_client_id" uuid,
+	"client_id" uuid,
+	"suggested_kilometres" real,
+	"kilometres" numeric(8, 2) NOT NULL,
+	"travel_minutes" integer DEFAULT 0 NOT NULL,
+	"override_reason" text,
+	"notes" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"payslip_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "km_allowance_rate" numeric(10, 2) DEFAULT '0.99' NOT NULL;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "km_billing_rate" numeric(10, 2) DEFAULT '0.99' NOT NULL;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_timesheet_id_timesheets_id_fk" FOREIGN KEY ("timesheet_id") REFERENCES "public"."timesheets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_support_worker_id_user_id_fk" FOREIGN KEY ("support_worker_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_from_client_id_clients_id_fk" FOREIGN KEY ("from_client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "travel_entries" ADD CONSTRAINT "travel_entries_payslip_id_payslips_id_fk" FOREIGN KEY ("payslip_id") REFERENCES "public"."payslips"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
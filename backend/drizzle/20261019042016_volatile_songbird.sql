@@ -0,0 +1,26 @@
+CREATE TABLE "expense_claims" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"support_worker_id" text NOT NULL,
+	"service_provider_id" text NOT NULL,
+	"shift_id" uuid,
+	"receipt_document_id" uuid,
+	"category" text NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"gst_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"expense_date" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"payslip_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_support_worker_id_user_id_fk" FOREIGN KEY ("support_worker_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_service_provider_id_user_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_receipt_document_id_documents_id_fk" FOREIGN KEY ("receipt_document_id") REFERENCES "public"."documents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_payslip_id_payslips_id_fk" FOREIGN KEY ("payslip_id") REFERENCES "public"."payslips"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
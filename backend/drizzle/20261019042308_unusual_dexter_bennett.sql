@@ -0,0 +1,25 @@
+CREATE TABLE "client_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"idempotency_key" text NOT NULL,
+	"user_id" text NOT NULL,
+	"request_path" text NOT NULL,
+	"status_code" integer,
+	"response_body" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "client_actions_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+CREATE TABLE "shift_note_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"note_type" text DEFAULT 'general' NOT NULL,
+	"content" text NOT NULL,
+	"recorded_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "recorded_offline" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "client_actions" ADD CONSTRAINT "client_actions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_note_entries" ADD CONSTRAINT "shift_note_entries_shift_id_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."shifts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shift_note_entries" ADD CONSTRAINT "shift_note_entries_author_id_user_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "payslip_items" ADD COLUMN "timesheet_id" uuid;--> statement-breakpoint
+ALTER TABLE "payslip_items" ADD COLUMN "award_rule" text;--> statement-breakpoint
+ALTER TABLE "payslip_items" ADD COLUMN "rate_multiplier" numeric(5, 3);--> statement-breakpoint
+ALTER TABLE "payslip_items" ADD CONSTRAINT "payslip_items_timesheet_id_timesheets_id_fk" FOREIGN KEY ("timesheet_id") REFERENCES "public"."timesheets"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "public_holidays" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"service_provider_id" text NOT NULL,
+	"date" text NOT NULL,
+	"name" text NOT NULL,
+	"source" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "state" text;--> statement-breakpoint
+ALTER TABLE "public_holidays" ADD CONSTRAINT "public_holidays_service_provider_id_user_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "payslips" ADD COLUMN "tax_table_version" text;--> statement-breakpoint
+ALTER TABLE "worker_provider_relationships" ADD COLUMN "tfn_provided" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "worker_provider_relationships" ADD COLUMN "tax_residency" text DEFAULT 'resident' NOT NULL;--> statement-breakpoint
+ALTER TABLE "worker_provider_relationships" ADD COLUMN "claims_tax_free_threshold" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "worker_provider_relationships" ADD COLUMN "has_study_loan" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "worker_provider_relationships" ADD COLUMN "tax_declared_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "pay_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"service_provider_id" text NOT NULL,
+	"pay_period_start_date" timestamp NOT NULL,
+	"pay_period_end_date" timestamp NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"notes" text,
+	"finalised_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payslips" ADD COLUMN "pay_run_id" uuid;--> statement-breakpoint
+ALTER TABLE "pay_runs" ADD CONSTRAINT "pay_runs_service_provider_id_user_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payslips" ADD CONSTRAINT "payslips_pay_run_id_pay_runs_id_fk" FOREIGN KEY ("pay_run_id") REFERENCES "public"."pay_runs"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
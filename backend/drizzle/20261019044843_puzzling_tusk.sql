@@ -0,0 +1 @@
+ALTER TABLE "payslips" ADD COLUMN "pdf_storage_key" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "pay_runs" ADD COLUMN "exported_at" timestamp;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "bank_details" text;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "financial_institution" text;--> statement-breakpoint
+ALTER TABLE "service_providers" ADD COLUMN "apca_user_id" text;--> statement-breakpoint
+ALTER TABLE "support_workers" ADD COLUMN "bank_details" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "service_providers" ADD COLUMN "timezone" text DEFAULT 'Australia/Sydney' NOT NULL;
\ No newline at end of file
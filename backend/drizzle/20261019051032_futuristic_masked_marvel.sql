@@ -0,0 +1,3 @@
+ALTER TABLE "shifts" ADD COLUMN "client_id" uuid;--> statement-breakpoint
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "shifts" SET "client_id" = "clients"."id" FROM "shift_notes", "clients" WHERE "shift_notes"."shift_id" = "shifts"."id" AND "clients"."id"::text = "shift_notes"."client_id";
\ No newline at end of file
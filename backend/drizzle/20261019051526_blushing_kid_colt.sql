@@ -0,0 +1,4 @@
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_device_time" timestamp;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_device_time" timestamp;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_time_flagged" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_time_flag_reason" text;
\ No newline at end of file
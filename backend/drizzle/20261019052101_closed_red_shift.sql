@@ -0,0 +1 @@
+ALTER TABLE "pay_runs" ADD COLUMN "aba_storage_key" text;
\ No newline at end of file
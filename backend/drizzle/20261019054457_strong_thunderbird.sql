@@ -0,0 +1,4 @@
+ALTER TABLE "timesheets" ADD COLUMN "clock_in_received_at" timestamp;--> statement-breakpoint
+ALTER TABLE "timesheets" ADD COLUMN "clock_out_received_at" timestamp;--> statement-breakpoint
+UPDATE "timesheets" SET "clock_in_received_at" = "start_time", "start_time" = "clock_in_device_time", "total_hours" = CASE WHEN "total_hours" IS NULL THEN NULL ELSE GREATEST(0, ROUND("total_hours" + EXTRACT(EPOCH FROM "start_time" - "clock_in_device_time")::numeric / 3600, 2)) END WHERE "clock_in_device_time" IS NOT NULL;--> statement-breakpoint
+UPDATE "timesheets" SET "clock_out_received_at" = "end_time", "end_time" = "clock_out_device_time", "total_hours" = CASE WHEN "total_hours" IS NULL THEN NULL ELSE GREATEST(0, ROUND("total_hours" + EXTRACT(EPOCH FROM "clock_out_device_time" - "end_time")::numeric / 3600, 2)) END WHERE "clock_out_device_time" IS NOT NULL AND "end_time" IS NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE "timesheets" DROP COLUMN "clock_in_device_time";--> statement-breakpoint
+ALTER TABLE "timesheets" DROP COLUMN "clock_out_device_time";
\ No newline at end of file
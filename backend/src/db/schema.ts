@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, integer, boolean, numeric, decimal, real } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, integer, boolean, numeric, decimal, real, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { user } from './auth-schema.js';
 
 /**
@@ -12,24 +12,65 @@ export const userRoles = pgTable('user_roles', {
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Shift Series: Recurring shift patterns; each occurrence is materialised as a row in shifts
+ */
+export const shiftSeries = pgTable('shift_series', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  description: text('description'),
+  location: text('location'),
+  hourlyRate: numeric('hourly_rate', { precision: 10, scale: 2 }),
+  frequency: text('frequency', { enum: ['daily', 'weekly', 'fortnightly', 'custom'] }).notNull(),
+  recurrenceRule: text('recurrence_rule').notNull(), // RRULE string, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=10
+  firstStartTime: timestamp('first_start_time').notNull(),
+  firstEndTime: timestamp('first_end_time').notNull(),
+  status: text('status', { enum: ['active', 'cancelled'] }).default('active').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
 /**
  * Shifts: Work shifts assigned to support workers
  */
 export const shifts = pgTable('shifts', {
   id: uuid('id').primaryKey().defaultRandom(),
-  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  supportWorkerId: text('support_worker_id').references(() => user.id, { onDelete: 'cascade' }), // Null while an open shift is unclaimed
   serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'),
   startTime: timestamp('start_time').notNull(),
   endTime: timestamp('end_time').notNull(),
   location: text('location'),
+  clientId: uuid('client_id').references(() => clients.id, { onDelete: 'set null' }), // Client whose address punches are checked against
   status: text('status', { enum: ['scheduled', 'in_progress', 'completed', 'cancelled'] }).default('scheduled').notNull(),
   hourlyRate: numeric('hourly_rate', { precision: 10, scale: 2 }),
+  shiftType: text('shift_type', { enum: ['standard', 'sleepover', 'active_overnight', 'split'] }).default('standard').notNull(),
+  sleepoverAllowance: numeric('sleepover_allowance', { precision: 10, scale: 2 }), // Overrides the provider's flat sleepover rate
+  seriesId: uuid('series_id').references(() => shiftSeries.id, { onDelete: 'set null' }),
+  occurrenceStartTime: timestamp('occurrence_start_time'), // Originally scheduled start within the series
+  isSeriesException: boolean('is_series_exception').default(false).notNull(),
+  isOpen: boolean('is_open').default(false).notNull(), // Published to the open shift marketplace
+  claimMode: text('claim_mode', { enum: ['first_claim', 'provider_select'] }),
+  openToWorkerIds: text('open_to_worker_ids'), // JSON array of eligible worker IDs; null means all linked workers
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Shift Segments: Paid work periods of a split shift, and the sleep period of a sleepover shift
+ */
+export const shiftSegments = pgTable('shift_segments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  segmentType: text('segment_type', { enum: ['work', 'sleepover'] }).notNull(),
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 /**
  * Timesheets: Recording of hours worked
  */
@@ -43,10 +84,132 @@ export const timesheets = pgTable('timesheets', {
   totalHours: numeric('total_hours', { precision: 5, scale: 2 }),
   notes: text('notes'),
   status: text('status', { enum: ['draft', 'submitted', 'approved', 'rejected'] }).default('draft').notNull(),
+  // Device location at clock-in/out; accuracy and distance from the client are in metres
+  clockInLatitude: real('clock_in_latitude'),
+  clockInLongitude: real('clock_in_longitude'),
+  clockInAccuracy: real('clock_in_accuracy'),
+  clockInDistance: real('clock_in_distance'),
+  clockOutLatitude: real('clock_out_latitude'),
+  clockOutLongitude: real('clock_out_longitude'),
+  clockOutAccuracy: real('clock_out_accuracy'),
+  clockOutDistance: real('clock_out_distance'),
+  locationFlagged: boolean('location_flagged').default(false).notNull(), // A punch was outside the geofence or had no location
+  locationFlagReason: text('location_flag_reason'),
+  recordedOffline: boolean('recorded_offline').default(false).notNull(), // A punch was queued on the device and synced later with its device time
+  // Start and end times are the device's times for punches queued offline; when the server received them is kept beside them
+  clockInReceivedAt: timestamp('clock_in_received_at'),
+  clockOutReceivedAt: timestamp('clock_out_received_at'),
+  clockTimeFlagged: boolean('clock_time_flagged').default(false).notNull(), // A punch's device time was too far from when it was received
+  clockTimeFlagReason: text('clock_time_flag_reason'),
+  // Minutes outside the scheduled window; early finish and overtime stay null until clock-out
+  lateStartMinutes: integer('late_start_minutes'),
+  earlyFinishMinutes: integer('early_finish_minutes'),
+  overtimeMinutes: integer('overtime_minutes'),
+  reviewedBy: text('reviewed_by').references(() => user.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewComment: text('review_comment'), // Provider's comment when approving or rejecting
+  payslipId: uuid('payslip_id').references((): AnyPgColumn => payslips.id, { onDelete: 'set null' }), // Set once paid on a payslip, which locks the timesheet
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
+/**
+ * Timesheet Breaks: Break intervals recorded while clocked in, used to calculate break minutes
+ */
+export const timesheetBreaks = pgTable('timesheet_breaks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  timesheetId: uuid('timesheet_id').notNull().references(() => timesheets.id, { onDelete: 'cascade' }),
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time'), // Null while the break is in progress
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Timesheet Amendments: Corrected times proposed for a timesheet, applied once the provider approves
+ */
+export const timesheetAmendments = pgTable('timesheet_amendments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  timesheetId: uuid('timesheet_id').notNull().references(() => timesheets.id, { onDelete: 'cascade' }),
+  requestedBy: text('requested_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  proposedStartTime: timestamp('proposed_start_time').notNull(),
+  proposedEndTime: timestamp('proposed_end_time').notNull(),
+  proposedBreakMinutes: integer('proposed_break_minutes').notNull(),
+  reason: text('reason').notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).default('pending').notNull(),
+  reviewedBy: text('reviewed_by').references(() => user.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNote: text('review_note'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Timesheet Versions: Snapshot of a timesheet's times each time they change, starting with the original punch
+ */
+export const timesheetVersions = pgTable('timesheet_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  timesheetId: uuid('timesheet_id').notNull().references(() => timesheets.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time'),
+  breakMinutes: integer('break_minutes').default(0),
+  totalHours: numeric('total_hours', { precision: 5, scale: 2 }),
+  source: text('source', { enum: ['original', 'amendment', 'provider_edit'] }).notNull(),
+  amendmentId: uuid('amendment_id').references(() => timesheetAmendments.id, { onDelete: 'set null' }),
+  changedBy: text('changed_by').references(() => user.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Travel Entries: Kilometres and travel time claimed against a timesheet, paid once approved
+ */
+export const travelEntries = pgTable('travel_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  timesheetId: uuid('timesheet_id').notNull().references(() => timesheets.id, { onDelete: 'cascade' }),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  travelType: text('travel_type', { enum: ['between_clients', 'client_transport'] }).notNull(),
+  fromClientId: uuid('from_client_id').references(() => clients.id, { onDelete: 'set null' }),
+  clientId: uuid('client_id').references(() => clients.id, { onDelete: 'set null' }), // Client the travel is billed to
+  suggestedKilometres: real('suggested_kilometres'), // Straight-line distance between the clients, when known
+  kilometres: numeric('kilometres', { precision: 8, scale: 2 }).notNull(),
+  travelMinutes: integer('travel_minutes').default(0).notNull(),
+  overrideReason: text('override_reason'), // Why the claimed kilometres differ from the suggestion
+  notes: text('notes'),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).default('pending').notNull(),
+  reviewedBy: text('reviewed_by').references(() => user.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNote: text('review_note'),
+  payslipId: uuid('payslip_id').references((): AnyPgColumn => payslips.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
+/**
+ * Client Actions: Responses to requests sent with an Idempotency-Key, so an action replayed
+ * from the app's offline queue returns its first response instead of being recorded twice
+ */
+export const clientActions = pgTable('client_actions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  idempotencyKey: text('idempotency_key').notNull().unique(),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  requestPath: text('request_path').notNull(),
+  statusCode: integer('status_code'), // Null while the first request is still being handled
+  responseBody: text('response_body'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Shift Conflict Overrides: Record of coordinators proceeding despite rostering warnings
+ */
+export const shiftConflictOverrides = pgTable('shift_conflict_overrides', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  overriddenBy: text('overridden_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  conflicts: text('conflicts').notNull(), // JSON string of the ignored warnings
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 /**
  * Documents: Files uploaded for shifts or timesheets
  */
@@ -63,6 +226,31 @@ export const documents = pgTable('documents', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+/**
+ * Expense Claims: Out-of-pocket costs a worker claims back, reimbursed on a payslip once approved
+ */
+export const expenseClaims = pgTable('expense_claims', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  shiftId: uuid('shift_id').references(() => shifts.id, { onDelete: 'set null' }),
+  receiptDocumentId: uuid('receipt_document_id').references(() => documents.id, { onDelete: 'set null' }),
+  category: text('category', {
+    enum: ['client_activities', 'meals', 'parking_tolls', 'public_transport', 'supplies', 'other'],
+  }).notNull(),
+  description: text('description').notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(), // Including GST
+  gstAmount: numeric('gst_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  expenseDate: timestamp('expense_date').notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).default('pending').notNull(),
+  reviewedBy: text('reviewed_by').references(() => user.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNote: text('review_note'),
+  payslipId: uuid('payslip_id').references((): AnyPgColumn => payslips.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
 /**
  * Shift Assignments: Track which support workers are assigned to shifts
  */
@@ -70,11 +258,69 @@ export const shiftAssignments = pgTable('shift_assignments', {
   id: uuid('id').primaryKey().defaultRandom(),
   shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
   supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
-  status: text('status', { enum: ['assigned', 'accepted', 'declined', 'completed'] }).default('assigned').notNull(),
+  status: text('status', { enum: ['assigned', 'claimed', 'accepted', 'declined', 'completed'] }).default('assigned').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
+/**
+ * Shift Swap Requests: A worker offering a shift for a colleague to cover or swap, approved by the provider
+ */
+export const shiftSwapRequests = pgTable('shift_swap_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  offeredBy: text('offered_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  requestType: text('request_type', { enum: ['cover', 'swap'] }).notNull(),
+  reason: text('reason'),
+  acceptedBy: text('accepted_by').references(() => user.id, { onDelete: 'set null' }),
+  swapShiftId: uuid('swap_shift_id').references(() => shifts.id, { onDelete: 'set null' }), // Colleague's shift given in exchange
+  status: text('status', { enum: ['open', 'accepted', 'approved', 'declined', 'cancelled'] }).default('open').notNull(),
+  providerComment: text('provider_comment'),
+  decidedAt: timestamp('decided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Shift Holder History: Which worker held a shift over time
+ */
+export const shiftHolderHistory = pgTable('shift_holder_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  heldFrom: timestamp('held_from').notNull(),
+  heldUntil: timestamp('held_until'), // Null while the worker still holds the shift
+  changeReason: text('change_reason', { enum: ['assigned', 'cover', 'swap'] }).notNull(),
+  swapRequestId: uuid('swap_request_id').references(() => shiftSwapRequests.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Shift Status History: Each status transition of a shift, with who made it and why
+ */
+export const shiftStatusHistory = pgTable('shift_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  fromStatus: text('from_status', { enum: ['scheduled', 'in_progress', 'completed', 'cancelled'] }).notNull(),
+  toStatus: text('to_status', { enum: ['scheduled', 'in_progress', 'completed', 'cancelled'] }).notNull(),
+  event: text('event', { enum: ['clock_in', 'clock_out', 'cancel'] }).notNull(),
+  changedBy: text('changed_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  reasonCode: text('reason_code', {
+    enum: [
+      'client_cancelled',
+      'client_unwell',
+      'client_hospitalised',
+      'worker_unavailable',
+      'provider_cancelled',
+      'rostering_error',
+      'other',
+    ],
+  }), // Required for cancellations
+  reason: text('reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 /**
  * Service Providers: Company information for service providers
  */
@@ -87,10 +333,38 @@ export const serviceProviders = pgTable('service_providers', {
   companyPhone: text('company_phone'),
   companyAddress: text('company_address'),
   website: text('website'),
+  timezone: text('timezone').default('Australia/Sydney').notNull(), // IANA zone that shift times, availability and pay rules are read in
+  // Rostering limits used by shift conflict detection
+  minRestHours: numeric('min_rest_hours', { precision: 5, scale: 2 }).default('10').notNull(),
+  maxDailyHours: numeric('max_daily_hours', { precision: 5, scale: 2 }).default('12').notNull(),
+  maxWeeklyHours: numeric('max_weekly_hours', { precision: 5, scale: 2 }).default('50').notNull(),
+  sleepoverAllowance: numeric('sleepover_allowance', { precision: 10, scale: 2 }).default('55.96').notNull(), // Flat rate paid per sleepover
+  geofenceRadiusMeters: integer('geofence_radius_meters').default(300).notNull(), // Clock-in/out distance allowed from the client address
+  varianceToleranceMinutes: integer('variance_tolerance_minutes').default(15).notNull(), // Timesheet variance allowed before review
+  payHoursPolicy: text('pay_hours_policy', { enum: ['actual', 'scheduled'] }).default('actual').notNull(), // Which hours payslips pay
+  kmAllowanceRate: numeric('km_allowance_rate', { precision: 10, scale: 2 }).default('0.99').notNull(), // Paid to workers per kilometre claimed
+  kmBillingRate: numeric('km_billing_rate', { precision: 10, scale: 2 }).default('0.99').notNull(), // Billed to clients per kilometre
+  state: text('state', { enum: ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'] }), // Public holiday calendar; null uses national holidays only
+  // Direct entry (ABA) file details for paying workers
+  bankDetails: text('bank_details'), // Encrypted account that pay runs are drawn from
+  financialInstitution: text('financial_institution'), // Three letter bank code, e.g. CBA
+  apcaUserId: text('apca_user_id'), // Six digit user ID issued by the bank
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Public Holidays: Imported and local holidays that add to or replace the bundled calendar for a provider's state
+ */
+export const publicHolidays = pgTable('public_holidays', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  date: text('date').notNull(), // YYYY-MM-DD
+  name: text('name').notNull(),
+  source: text('source', { enum: ['import', 'manual'] }).notNull(), // Imports replace the bundled calendar for their years; manual local holidays add to it
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 /**
  * Support Workers: Individual worker information
  */
@@ -100,6 +374,40 @@ export const supportWorkers = pgTable('support_workers', {
   dateOfBirth: timestamp('date_of_birth'),
   phoneNumber: text('phone_number'),
   address: text('address'),
+  latitude: real('latitude'), // Geocoded from address, used for rostering distance
+  longitude: real('longitude'),
+  bankDetails: text('bank_details'), // Encrypted account that pay is deposited into
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
+/**
+ * Worker Availability: Recurring weekly windows when a support worker can work
+ */
+export const workerAvailability = pgTable('worker_availability', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  dayOfWeek: integer('day_of_week').notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text('start_time').notNull(), // Local time as HH:MM
+  endTime: text('end_time').notNull(), // Local time as HH:MM, 24:00 for end of day
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
+/**
+ * Leave Requests: Dated leave or unavailability submitted by a worker for provider approval
+ */
+export const leaveRequests = pgTable('leave_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  leaveType: text('leave_type', { enum: ['annual', 'sick', 'personal', 'unavailable'] }).notNull(),
+  startDate: timestamp('start_date').notNull(),
+  endDate: timestamp('end_date').notNull(),
+  reason: text('reason'),
+  status: text('status', { enum: ['pending', 'approved', 'declined', 'cancelled'] }).default('pending').notNull(),
+  providerComment: text('provider_comment'),
+  decidedAt: timestamp('decided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
@@ -113,6 +421,12 @@ export const workerProviderRelationships = pgTable('worker_provider_relationship
   serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
   status: text('status', { enum: ['active', 'inactive'] }).default('active').notNull(),
   hourlyRate: numeric('hourly_rate', { precision: 10, scale: 2 }),
+  // TFN declaration made to this provider; the TFN itself isn't stored
+  tfnProvided: boolean('tfn_provided').default(false).notNull(),
+  taxResidency: text('tax_residency', { enum: ['resident', 'foreign'] }).default('resident').notNull(),
+  claimsTaxFreeThreshold: boolean('claims_tax_free_threshold').default(false).notNull(),
+  hasStudyLoan: boolean('has_study_loan').default(false).notNull(), // HELP/STSL debt
+  taxDeclaredAt: timestamp('tax_declared_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
@@ -148,6 +462,36 @@ export const shiftNotes = pgTable('shift_notes', {
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
+/**
+ * Shift Note Entries: Timestamped progress, medication and incident notes written during a shift
+ */
+export const shiftNoteEntries = pgTable('shift_note_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  shiftId: uuid('shift_id').notNull().references(() => shifts.id, { onDelete: 'cascade' }),
+  authorId: text('author_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  noteType: text('note_type', { enum: ['progress', 'medication', 'incident', 'general'] }).default('general').notNull(),
+  content: text('content').notNull(),
+  recordedAt: timestamp('recorded_at').notNull(), // When the note was written on the device, which may be before it synced
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Pay Runs: A provider's batch of payslips for every worker paid in a period, issued together when finalised
+ */
+export const payRuns = pgTable('pay_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  payPeriodStartDate: timestamp('pay_period_start_date').notNull(),
+  payPeriodEndDate: timestamp('pay_period_end_date').notNull(),
+  status: text('status', { enum: ['draft', 'finalised', 'exported'] }).default('draft').notNull(),
+  notes: text('notes'),
+  finalisedAt: timestamp('finalised_at'),
+  exportedAt: timestamp('exported_at'), // When the bank file was processed and the payslips marked paid
+  abaStorageKey: text('aba_storage_key'), // Latest ABA bank file generated for the run
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
+
 /**
  * Payslips: Payment records for support workers
  */
@@ -155,6 +499,7 @@ export const payslips = pgTable('payslips', {
   id: uuid('id').primaryKey().defaultRandom(),
   supportWorkerId: text('support_worker_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
   serviceProviderId: text('service_provider_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  payRunId: uuid('pay_run_id').references(() => payRuns.id, { onDelete: 'set null' }),
   payPeriodStartDate: timestamp('pay_period_start_date').notNull(),
   payPeriodEndDate: timestamp('pay_period_end_date').notNull(),
   totalHours: numeric('total_hours', { precision: 8, scale: 2 }).notNull(),
@@ -164,8 +509,10 @@ export const payslips = pgTable('payslips', {
   netPay: numeric('net_pay', { precision: 10, scale: 2 }).notNull(),
   notes: text('notes'),
   status: text('status', { enum: ['draft', 'issued', 'paid'] }).default('draft').notNull(),
+  taxTableVersion: text('tax_table_version'), // ATO tables used for PAYG withholding and super
   issuedDate: timestamp('issued_date'),
   paidDate: timestamp('paid_date'),
+  pdfStorageKey: text('pdf_storage_key'), // PDF stored when the payslip is issued
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
@@ -176,11 +523,15 @@ export const payslips = pgTable('payslips', {
 export const payslipItems = pgTable('payslip_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   payslipId: uuid('payslip_id').notNull().references(() => payslips.id, { onDelete: 'cascade' }),
-  itemType: text('item_type', { enum: ['shift_hours', 'overtime', 'allowance', 'deduction', 'tax', 'other'] }).notNull(),
+  itemType: text('item_type', { enum: ['shift_hours', 'overtime', 'allowance', 'reimbursement', 'deduction', 'tax', 'super', 'other'] }).notNull(),
   description: text('description').notNull(),
   quantity: numeric('quantity', { precision: 8, scale: 2 }),
   rate: numeric('rate', { precision: 10, scale: 2 }),
   amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+  // Award interpretation: the timesheet, rule and multiplier of the base rate behind an hours or travel time line
+  timesheetId: uuid('timesheet_id').references(() => timesheets.id, { onDelete: 'set null' }),
+  awardRule: text('award_rule'),
+  rateMultiplier: numeric('rate_multiplier', { precision: 5, scale: 3 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -245,3 +596,16 @@ export const pushNotificationAttempts = pgTable('push_notification_attempts', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
 });
+
+/**
+ * Calendar Feed Tokens: Secret tokens for read-only iCalendar subscription feeds
+ */
+export const calendarFeedTokens = pgTable('calendar_feed_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  feedType: text('feed_type', { enum: ['worker', 'provider'] }).notNull(), // Worker's own shifts, or all of a provider's shifts
+  lastAccessedAt: timestamp('last_accessed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()).notNull(),
+});
@@ -15,6 +15,22 @@ import { registerNotificationRoutes } from './routes/notifications.js';
 import { registerPushNotificationRoutes } from './routes/pushNotifications.js';
 import { registerSpeechToTextRoutes } from './routes/speechToText.js';
 import { registerReportsRoutes } from './routes/reports.js';
+import { registerShiftSeriesRoutes } from './routes/shiftSeries.js';
+import { registerOpenShiftRoutes } from './routes/openShifts.js';
+import { registerShiftSwapRoutes } from './routes/shiftSwaps.js';
+import { registerAvailabilityRoutes } from './routes/availability.js';
+import { registerCalendarFeedRoutes } from './routes/calendarFeeds.js';
+import { registerShiftImportRoutes } from './routes/shiftImport.js';
+import { registerShiftStatusRoutes } from './routes/shiftStatus.js';
+import { registerClockingRoutes } from './routes/clocking.js';
+import { registerTimesheetAmendmentRoutes } from './routes/timesheetAmendments.js';
+import { registerTimesheetApprovalRoutes } from './routes/timesheetApprovals.js';
+import { registerTravelRoutes } from './routes/travel.js';
+import { registerExpenseClaimRoutes } from './routes/expenseClaims.js';
+import { registerPublicHolidayRoutes } from './routes/publicHolidays.js';
+import { registerPayRunRoutes } from './routes/payRuns.js';
+import { registerPaymentSummaryRoutes } from './routes/paymentSummaries.js';
+import { registerIdempotency } from './services/offlineSync.js';
 
 // Combine all schemas
 const schema = { ...appSchema, ...authSchema };
@@ -31,6 +47,9 @@ app.withAuth();
 // Enable storage for document uploads
 app.withStorage();
 
+// Replay stored responses for actions retried from the app's offline queue
+registerIdempotency(app);
+
 // Home/Health check endpoint
 app.fastify.get('/api/health', async () => {
   return {
@@ -73,6 +92,21 @@ registerNotificationRoutes(app);
 registerPushNotificationRoutes(app);
 registerSpeechToTextRoutes(app);
 registerReportsRoutes(app);
+registerShiftSeriesRoutes(app);
+registerOpenShiftRoutes(app);
+registerShiftSwapRoutes(app);
+registerAvailabilityRoutes(app);
+registerCalendarFeedRoutes(app);
+registerShiftImportRoutes(app);
+registerShiftStatusRoutes(app);
+registerClockingRoutes(app);
+registerTimesheetAmendmentRoutes(app);
+registerTimesheetApprovalRoutes(app);
+registerTravelRoutes(app);
+registerExpenseClaimRoutes(app);
+registerPublicHolidayRoutes(app);
+registerPayRunRoutes(app);
+registerPaymentSummaryRoutes(app);
 
 await app.run();
 app.logger.info('NDIS Support Worker Shift Management System running');
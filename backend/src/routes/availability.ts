@@ -0,0 +1,401 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as availability from '../services/availability.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+export function registerAvailabilityRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Check whether the user is a provider with an active link to the worker
+   */
+  const isProviderOf = async (providerId: string, supportWorkerId: string) => {
+    const relationship = await app.db.query.workerProviderRelationships.findFirst({
+      where: and(
+        eq(schema.workerProviderRelationships.serviceProviderId, providerId),
+        eq(schema.workerProviderRelationships.supportWorkerId, supportWorkerId),
+        eq(schema.workerProviderRelationships.status, 'active' as any),
+      ),
+    });
+    return !!relationship;
+  };
+
+  /**
+   * Notify users without failing the request if push delivery errors
+   */
+  const notify = async (userIds: string[], title: string, message: string, data: Record<string, string>) => {
+    try {
+      await pushDelivery.sendBulkPush(app, { userIds, title, message, data, notificationType: 'general' });
+    } catch (error) {
+      app.logger.error({ err: error, userIds }, 'Failed to send leave notification');
+    }
+  };
+
+  /**
+   * Get a worker's weekly availability
+   */
+  app.fastify.get('/api/availability', {
+    schema: {
+      description: 'Get weekly availability windows for the current worker, or one of a provider\'s workers',
+      tags: ['availability'],
+      querystring: {
+        type: 'object',
+        properties: {
+          supportWorkerId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { supportWorkerId = session.user.id } = request.query as { supportWorkerId?: string };
+
+    if (supportWorkerId !== session.user.id && !(await isProviderOf(session.user.id, supportWorkerId))) {
+      return reply.status(403).send({ error: 'Not authorized to view this worker\'s availability' });
+    }
+
+    const windows = await app.db.query.workerAvailability.findMany({
+      where: eq(schema.workerAvailability.supportWorkerId, supportWorkerId),
+    });
+
+    return windows.sort((a: any, b: any) =>
+      a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime),
+    );
+  });
+
+  /**
+   * Replace the current worker's weekly availability
+   */
+  app.fastify.put('/api/availability', {
+    schema: {
+      description: 'Replace the current worker\'s weekly availability windows',
+      tags: ['availability'],
+      body: {
+        type: 'object',
+        properties: {
+          windows: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                dayOfWeek: { type: 'integer', minimum: 0, maximum: 6 },
+                startTime: { type: 'string', description: 'HH:MM' },
+                endTime: { type: 'string', description: 'HH:MM, 24:00 for end of day' },
+              },
+              required: ['dayOfWeek', 'startTime', 'endTime'],
+            },
+          },
+        },
+        required: ['windows'],
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { windows } = request.body as { windows: availability.AvailabilityWindow[] };
+
+    try {
+      availability.validateWindows(windows);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const saved = await app.db.transaction(async (tx: any) => {
+      await tx
+        .delete(schema.workerAvailability)
+        .where(eq(schema.workerAvailability.supportWorkerId, session.user.id));
+
+      if (windows.length === 0) return [];
+
+      return tx
+        .insert(schema.workerAvailability)
+        .values(windows.map((window) => ({
+          supportWorkerId: session.user.id,
+          dayOfWeek: window.dayOfWeek,
+          startTime: window.startTime,
+          endTime: window.endTime,
+        })))
+        .returning();
+    });
+
+    return saved;
+  });
+
+  /**
+   * List leave requests
+   */
+  app.fastify.get('/api/leave-requests', {
+    schema: {
+      description: 'List leave requests: a worker\'s own, or those submitted to a provider',
+      tags: ['availability'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'approved', 'declined', 'cancelled'] },
+          supportWorkerId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { status, supportWorkerId } = request.query as { status?: string; supportWorkerId?: string };
+
+    const isProvider = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, session.user.id),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+
+    let whereCondition: any = isProvider
+      ? eq(schema.leaveRequests.serviceProviderId, session.user.id)
+      : eq(schema.leaveRequests.supportWorkerId, session.user.id);
+
+    if (isProvider && supportWorkerId) {
+      whereCondition = and(whereCondition, eq(schema.leaveRequests.supportWorkerId, supportWorkerId));
+    }
+
+    if (status) {
+      whereCondition = and(whereCondition, eq(schema.leaveRequests.status, status as any));
+    }
+
+    const leaveRequests = await app.db.query.leaveRequests.findMany({ where: whereCondition });
+
+    const enriched = await Promise.all(
+      leaveRequests.map(async (leaveRequest: any) => {
+        const workerUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, leaveRequest.supportWorkerId),
+        });
+        return { ...leaveRequest, workerName: workerUser?.name || 'Unknown' };
+      }),
+    );
+
+    return enriched.sort((a: any, b: any) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  });
+
+  /**
+   * Submit a leave request
+   */
+  app.fastify.post('/api/leave-requests', {
+    schema: {
+      description: 'Request leave or mark dates unavailable, sent to one provider or all active providers',
+      tags: ['availability'],
+      body: {
+        type: 'object',
+        properties: {
+          leaveType: { type: 'string', enum: ['annual', 'sick', 'personal', 'unavailable'] },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+          reason: { type: 'string' },
+          serviceProviderId: { type: 'string', description: 'Defaults to every active provider' },
+        },
+        required: ['leaveType', 'startDate', 'endDate'],
+      },
+      response: {
+        201: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { leaveType, startDate, endDate, reason, serviceProviderId } = request.body as any;
+
+    if (new Date(endDate) <= new Date(startDate)) {
+      return reply.status(400).send({ error: 'Leave must end after it starts' });
+    }
+
+    let relationshipCondition: any = and(
+      eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+      eq(schema.workerProviderRelationships.status, 'active' as any),
+    );
+
+    if (serviceProviderId) {
+      relationshipCondition = and(
+        relationshipCondition,
+        eq(schema.workerProviderRelationships.serviceProviderId, serviceProviderId),
+      );
+    }
+
+    const relationships = await app.db.query.workerProviderRelationships.findMany({
+      where: relationshipCondition,
+    });
+
+    if (relationships.length === 0) {
+      return reply.status(400).send({ error: 'You are not linked to an active service provider' });
+    }
+
+    const created = await app.db
+      .insert(schema.leaveRequests)
+      .values(relationships.map((rel: any) => ({
+        supportWorkerId: session.user.id,
+        serviceProviderId: rel.serviceProviderId,
+        leaveType,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        reason,
+      })))
+      .returning();
+
+    await notify(
+      relationships.map((rel: any) => rel.serviceProviderId),
+      'Leave request',
+      `${session.user.name || 'A support worker'} requested ${leaveType} leave from ${new Date(startDate).toLocaleDateString('en-AU')} to ${new Date(endDate).toLocaleDateString('en-AU')}`,
+      { type: 'leave_request' },
+    );
+
+    return reply.status(201).send(created);
+  });
+
+  /**
+   * Approve or decline a pending leave request
+   */
+  const decideLeaveRequest = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    decision: 'approved' | 'declined',
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { comment } = (request.body || {}) as { comment?: string };
+
+    const leaveRequest = await app.db.query.leaveRequests.findFirst({
+      where: eq(schema.leaveRequests.id, id),
+    });
+
+    if (!leaveRequest) {
+      return reply.status(404).send({ error: 'Leave request not found' });
+    }
+
+    if ((leaveRequest as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to decide this leave request' });
+    }
+
+    if ((leaveRequest as any).status !== 'pending') {
+      return reply.status(400).send({ error: 'Only pending leave requests can be decided' });
+    }
+
+    const [updated] = await app.db
+      .update(schema.leaveRequests)
+      .set({ status: decision, providerComment: comment, decidedAt: new Date() })
+      .where(eq(schema.leaveRequests.id, id))
+      .returning();
+
+    await notify(
+      [(leaveRequest as any).supportWorkerId],
+      decision === 'approved' ? 'Leave approved' : 'Leave declined',
+      comment || `Your leave from ${new Date((leaveRequest as any).startDate).toLocaleDateString('en-AU')} was ${decision}`,
+      { leaveRequestId: id, type: 'leave_request' },
+    );
+
+    return updated;
+  };
+
+  /**
+   * Approve a leave request (service provider only)
+   */
+  app.fastify.post('/api/leave-requests/:id/approve', {
+    schema: {
+      description: 'Approve a pending leave request',
+      tags: ['availability'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          comment: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => decideLeaveRequest(request, reply, 'approved'));
+
+  /**
+   * Decline a leave request (service provider only)
+   */
+  app.fastify.post('/api/leave-requests/:id/decline', {
+    schema: {
+      description: 'Decline a pending leave request',
+      tags: ['availability'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          comment: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => decideLeaveRequest(request, reply, 'declined'));
+
+  /**
+   * Cancel your own leave request
+   */
+  app.fastify.post('/api/leave-requests/:id/cancel', {
+    schema: {
+      description: 'Cancel a pending or approved leave request (requesting worker only)',
+      tags: ['availability'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const [updated] = await app.db
+      .update(schema.leaveRequests)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(schema.leaveRequests.id, id),
+        eq(schema.leaveRequests.supportWorkerId, session.user.id),
+        inArray(schema.leaveRequests.status, ['pending', 'approved'] as any),
+      ))
+      .returning();
+
+    if (!updated) {
+      return reply.status(404).send({ error: 'Leave request not found' });
+    }
+
+    return updated;
+  });
+}
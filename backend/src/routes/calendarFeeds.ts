@@ -0,0 +1,255 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { randomBytes } from 'crypto';
+import { eq, and, gte, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as icalendar from '../services/icalendar.js';
+import type { App } from '../index.js';
+
+// Past shifts kept in the feed so recent history stays visible in calendar apps
+const FEED_HISTORY_DAYS = 90;
+
+export function registerCalendarFeedRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Subscription URLs for a feed token, based on the host the request came in on
+   */
+  const feedUrls = (request: FastifyRequest, token: string) => {
+    const path = `${request.headers.host}/api/calendar-feed/${token}.ics`;
+    return {
+      feedUrl: `${request.protocol}://${path}`,
+      webcalUrl: `webcal://${path}`,
+    };
+  };
+
+  /**
+   * Default feed type from the user's roles: providers get all their shifts
+   */
+  const defaultFeedType = async (userId: string): Promise<'worker' | 'provider'> => {
+    const isProvider = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, userId),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+    return isProvider ? 'provider' : 'worker';
+  };
+
+  /**
+   * Get the current user's calendar feed
+   */
+  app.fastify.get('/api/calendar-feed', {
+    schema: {
+      description: 'Get the current user\'s calendar subscription feed, if one exists',
+      tags: ['calendar-feed'],
+      querystring: {
+        type: 'object',
+        properties: {
+          feedType: { type: 'string', enum: ['worker', 'provider'] },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { feedType = await defaultFeedType(session.user.id) } = request.query as { feedType?: 'worker' | 'provider' };
+
+    const feed = await app.db.query.calendarFeedTokens.findFirst({
+      where: and(
+        eq(schema.calendarFeedTokens.userId, session.user.id),
+        eq(schema.calendarFeedTokens.feedType, feedType as any),
+      ),
+    });
+
+    if (!feed) {
+      return { feedType, feedUrl: null, webcalUrl: null };
+    }
+
+    return {
+      feedType,
+      ...feedUrls(request, (feed as any).token),
+      createdAt: (feed as any).createdAt,
+      lastAccessedAt: (feed as any).lastAccessedAt,
+    };
+  });
+
+  /**
+   * Create or regenerate the current user's calendar feed
+   */
+  app.fastify.post('/api/calendar-feed', {
+    schema: {
+      description: 'Create a calendar subscription feed, replacing any existing token so old URLs stop working',
+      tags: ['calendar-feed'],
+      body: {
+        type: 'object',
+        properties: {
+          feedType: { type: 'string', enum: ['worker', 'provider'] },
+        },
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { feedType = await defaultFeedType(session.user.id) } = (request.body || {}) as { feedType?: 'worker' | 'provider' };
+
+    if (feedType === 'provider' && (await defaultFeedType(session.user.id)) !== 'provider') {
+      return reply.status(403).send({ error: 'Only service providers can create a provider feed' });
+    }
+
+    const token = randomBytes(32).toString('base64url');
+
+    const feed = await app.db.transaction(async (tx: any) => {
+      await tx
+        .delete(schema.calendarFeedTokens)
+        .where(and(
+          eq(schema.calendarFeedTokens.userId, session.user.id),
+          eq(schema.calendarFeedTokens.feedType, feedType as any),
+        ));
+
+      const [created] = await tx
+        .insert(schema.calendarFeedTokens)
+        .values({ userId: session.user.id, token, feedType })
+        .returning();
+
+      return created;
+    });
+
+    return reply.status(201).send({
+      feedType,
+      ...feedUrls(request, token),
+      createdAt: feed.createdAt,
+      lastAccessedAt: null,
+    });
+  });
+
+  /**
+   * Revoke the current user's calendar feed
+   */
+  app.fastify.delete('/api/calendar-feed', {
+    schema: {
+      description: 'Revoke a calendar subscription feed',
+      tags: ['calendar-feed'],
+      querystring: {
+        type: 'object',
+        properties: {
+          feedType: { type: 'string', enum: ['worker', 'provider'] },
+        },
+      },
+      response: { 204: { type: 'null' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { feedType = await defaultFeedType(session.user.id) } = request.query as { feedType?: 'worker' | 'provider' };
+
+    await app.db
+      .delete(schema.calendarFeedTokens)
+      .where(and(
+        eq(schema.calendarFeedTokens.userId, session.user.id),
+        eq(schema.calendarFeedTokens.feedType, feedType as any),
+      ));
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Serve an iCalendar feed. Authenticated by the token in the URL so calendar apps can subscribe.
+   */
+  app.fastify.get('/api/calendar-feed/:token', {
+    schema: {
+      description: 'Read-only iCalendar feed of shifts for a feed token',
+      tags: ['calendar-feed'],
+      params: {
+        type: 'object',
+        properties: { token: { type: 'string' } },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { token } = request.params as { token: string };
+
+    const feed = await app.db.query.calendarFeedTokens.findFirst({
+      where: eq(schema.calendarFeedTokens.token, token.replace(/\.ics$/, '')),
+    });
+
+    if (!feed) {
+      return reply.status(404).send({ error: 'Calendar feed not found' });
+    }
+
+    const owner = await app.db.query.user.findFirst({
+      where: eq(authSchema.user.id, (feed as any).userId),
+    });
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const isProviderFeed = (feed as any).feedType === 'provider';
+
+    const shifts = await app.db.query.shifts.findMany({
+      where: and(
+        isProviderFeed
+          ? eq(schema.shifts.serviceProviderId, (feed as any).userId)
+          : eq(schema.shifts.supportWorkerId, (feed as any).userId),
+        gte(schema.shifts.endTime, since),
+      ),
+    });
+
+    const shiftIds = shifts.map((shift: any) => shift.id);
+    const notes = shiftIds.length > 0
+      ? await app.db.query.shiftNotes.findMany({ where: inArray(schema.shiftNotes.shiftId, shiftIds) })
+      : [];
+    const notesByShift = new Map(notes.map((note: any) => [note.shiftId, note]));
+
+    const clientIds = [...new Set(notes.map((note: any) => note.clientId).filter(Boolean))] as string[];
+    const clients = clientIds.length > 0
+      ? await app.db.query.clients.findMany({ where: inArray(schema.clients.id, clientIds) })
+      : [];
+    const clientsById = new Map(clients.map((client: any) => [client.id, client]));
+
+    const workerIds = isProviderFeed
+      ? [...new Set(shifts.map((shift: any) => shift.supportWorkerId).filter(Boolean))] as string[]
+      : [];
+    const workers = workerIds.length > 0
+      ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, workerIds) })
+      : [];
+    const workerNames = new Map(workers.map((worker: any) => [worker.id, worker.name]));
+
+    const events: icalendar.CalendarEvent[] = shifts.map((shift: any) => {
+      const note: any = notesByShift.get(shift.id);
+      const client: any = note?.clientId ? clientsById.get(note.clientId) : null;
+      const clientName = client?.name || note?.clientName;
+
+      let summary = clientName ? `${shift.title} - ${clientName}` : shift.title;
+      if (isProviderFeed) {
+        summary += ` (${shift.supportWorkerId ? workerNames.get(shift.supportWorkerId) || 'Unknown' : 'Open shift'})`;
+      }
+
+      return {
+        uid: `${shift.id}@shift-assist`,
+        summary,
+        description: [shift.description, note?.taskDescription, note?.specialRequirements].filter(Boolean).join('\n'),
+        location: client?.address || shift.location,
+        startTime: new Date(shift.startTime),
+        endTime: new Date(shift.endTime),
+        lastModified: new Date(shift.updatedAt),
+        cancelled: shift.status === 'cancelled',
+      };
+    });
+
+    await app.db
+      .update(schema.calendarFeedTokens)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(schema.calendarFeedTokens.id, (feed as any).id));
+
+    const calendarName = isProviderFeed ? 'Shift Assist - All Shifts' : `Shift Assist - ${owner?.name || 'My Shifts'}`;
+
+    reply.header('Content-Type', 'text/calendar; charset=utf-8');
+    reply.header('Content-Disposition', 'inline; filename="shifts.ics"');
+    reply.header('Cache-Control', 'no-cache');
+
+    return reply.send(icalendar.buildCalendar(calendarName, events));
+  });
+}
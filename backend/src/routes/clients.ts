@@ -1,44 +1,9 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import { geocodeAddress } from '../services/geocoding.js';
 import type { App } from '../index.js';
 
-// Geocoding helper using Google Maps Geocoding API
-async function geocodeAddress(address: string): Promise<{ latitude: number; longitude: number } | null> {
-  try {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) {
-      console.warn('GOOGLE_MAPS_API_KEY not set, geocoding skipped');
-      return null;
-    }
-
-    const encodedAddress = encodeURIComponent(address);
-    const response = await fetch(
-      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&key=${apiKey}`,
-    );
-
-    if (!response.ok) {
-      console.error('Geocoding API error:', response.statusText);
-      return null;
-    }
-
-    const data: any = await response.json();
-
-    if (data.results && data.results.length > 0) {
-      const location = data.results[0].geometry.location;
-      return {
-        latitude: location.lat,
-        longitude: location.lng,
-      };
-    }
-
-    return null;
-  } catch (error) {
-    console.error('Geocoding error:', error);
-    return null;
-  }
-}
-
 export function registerClientRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
@@ -0,0 +1,479 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, asc, lte, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as shiftHours from '../services/shiftHours.js';
+import * as shiftStatus from '../services/shiftStatus.js';
+import * as geofence from '../services/geofence.js';
+import * as timesheetVariance from '../services/timesheetVariance.js';
+import * as offlineSync from '../services/offlineSync.js';
+import type { App } from '../index.js';
+
+const punchLocation = {
+  type: 'object',
+  description: 'Device location at the time of the punch',
+  properties: {
+    latitude: { type: 'number' },
+    longitude: { type: 'number' },
+    accuracy: { type: 'number', description: 'Metres' },
+  },
+  required: ['latitude', 'longitude'],
+};
+
+const occurredAt = {
+  type: 'string',
+  description: 'Device time of an action queued offline, used as the time of the action. The time the server received it is kept beside it.',
+};
+
+const shiftParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+};
+
+/**
+ * Whole minutes spent on recorded breaks. A break still open is counted up to `until`.
+ */
+function totalBreakMinutes(breaks: { startTime: Date; endTime: Date | null }[], until: Date): number {
+  const ms = breaks.reduce((sum, b) => {
+    const end = b.endTime ?? until;
+    return sum + Math.max(0, new Date(end).getTime() - new Date(b.startTime).getTime());
+  }, 0);
+  return Math.round(ms / (1000 * 60));
+}
+
+export function registerClockingRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Load the shift for a punch, sending a reply when it is missing or not the caller's.
+   * Returns null once a reply has been sent.
+   */
+  const getWorkerShift = async (request: FastifyRequest, reply: FastifyReply, userId: string) => {
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      reply.status(404).send({ error: 'Shift not found' });
+      return null;
+    }
+
+    if ((shift as any).supportWorkerId !== userId) {
+      reply.status(403).send({ error: 'Only the worker assigned to this shift can clock in or out' });
+      return null;
+    }
+
+    return shift;
+  };
+
+  /**
+   * The timesheet for a shift that is still open, if any
+   */
+  const getOpenTimesheet = async (shiftId: string) => {
+    return app.db.query.timesheets.findFirst({
+      where: and(
+        eq(schema.timesheets.shiftId, shiftId),
+        isNull(schema.timesheets.endTime),
+      ),
+    });
+  };
+
+  /**
+   * Get the clocking state of a shift
+   */
+  app.fastify.get('/api/shifts/:id/timesheet', {
+    schema: {
+      description: 'The shift\'s timesheet and recorded breaks, and whether a break is in progress',
+      tags: ['timesheets'],
+      params: shiftParams,
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id && (shift as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to view this shift' });
+    }
+
+    const timesheet = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.shiftId, id),
+    });
+
+    const breaks = timesheet
+      ? await app.db.query.timesheetBreaks.findMany({
+        where: eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+        orderBy: [asc(schema.timesheetBreaks.startTime)],
+      })
+      : [];
+
+    return {
+      timesheet: timesheet || null,
+      breaks,
+      onBreak: breaks.some((b: any) => !b.endTime),
+    };
+  });
+
+  /**
+   * Clock in to a shift
+   */
+  app.fastify.post('/api/shifts/:id/clock-in', {
+    schema: {
+      description: 'Clock in to your shift. A punch queued offline is recorded at its device time, with the time the server received it kept beside it and flagged if they differ. A shift can only be clocked in to once.',
+      tags: ['timesheets'],
+      params: shiftParams,
+      body: {
+        type: 'object',
+        properties: { location: punchLocation, occurredAt },
+      },
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const shift = await getWorkerShift(request, reply, session.user.id);
+    if (!shift) return;
+
+    if (await offlineSync.sendIfReplayed(app, request, reply, session.user.id)) return;
+
+    const { location, occurredAt } = (request.body || {}) as { location?: geofence.PunchLocation; occurredAt?: string };
+
+    const receivedAt = new Date();
+    let clockedInAt: Date;
+    try {
+      clockedInAt = offlineSync.deviceTime(occurredAt, receivedAt);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+    const clockTimeFlagReason = offlineSync.deviceTimeFlag('Clock-in', clockedInAt, receivedAt);
+
+    const existing = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.shiftId, shift.id),
+    });
+
+    if (existing) {
+      return reply.status(409).send({ error: 'You have already clocked in to this shift' });
+    }
+
+    // Punches outside the client's geofence are flagged for the provider to review
+    const clockIn = await geofence.checkPunch(app, shift.id, location, 'Clock-in');
+
+    try {
+      // The status update only succeeds from scheduled, so a second clock-in racing this one rolls back
+      const timesheet = await app.db.transaction(async (tx: any) => {
+        const created = await tx
+          .insert(schema.timesheets)
+          .values({
+            shiftId: shift.id,
+            supportWorkerId: session.user.id,
+            startTime: clockedInAt,
+            breakMinutes: 0,
+            clockInLatitude: clockIn.latitude,
+            clockInLongitude: clockIn.longitude,
+            clockInAccuracy: clockIn.accuracy,
+            clockInDistance: clockIn.distance,
+            locationFlagged: !!clockIn.flagReason,
+            locationFlagReason: clockIn.flagReason,
+            recordedOffline: !!occurredAt,
+            clockInReceivedAt: receivedAt,
+            clockTimeFlagged: !!clockTimeFlagReason,
+            clockTimeFlagReason,
+          })
+          .returning();
+
+        await shiftStatus.transitionShift(tx, {
+          shiftId: shift.id,
+          event: 'clock_in',
+          changedBy: session.user.id,
+        });
+
+        await timesheetVariance.refreshShiftVariance(tx, shift.id);
+
+        return tx.query.timesheets.findFirst({ where: eq(schema.timesheets.id, created[0].id) });
+      });
+
+      return reply.status(201).send(timesheet);
+    } catch (error) {
+      return reply.status(409).send({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * Clock out of a shift
+   */
+  app.fastify.post('/api/shifts/:id/clock-out', {
+    schema: {
+      description: 'Clock out of your shift. Ends any break in progress and works out break minutes from the recorded breaks.',
+      tags: ['timesheets'],
+      params: shiftParams,
+      body: {
+        type: 'object',
+        properties: { location: punchLocation, occurredAt },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const shift = await getWorkerShift(request, reply, session.user.id);
+    if (!shift) return;
+
+    if (await offlineSync.sendIfReplayed(app, request, reply, session.user.id)) return;
+
+    const { location, occurredAt } = (request.body || {}) as { location?: geofence.PunchLocation; occurredAt?: string };
+
+    const timesheet = await getOpenTimesheet(shift.id);
+
+    if (!timesheet) {
+      return reply.status(409).send({ error: 'You are not clocked in to this shift' });
+    }
+
+    const receivedAt = new Date();
+    let clockedOutAt: Date;
+    try {
+      clockedOutAt = offlineSync.deviceTime(occurredAt, receivedAt);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+    const clockTimeFlagReason = geofence.combineFlagReasons(
+      timesheet.clockTimeFlagReason,
+      offlineSync.deviceTimeFlag('Clock-out', clockedOutAt, receivedAt),
+    );
+
+    if (clockedOutAt <= new Date(timesheet.startTime)) {
+      return reply.status(400).send({ error: 'Clock-out must be after clock-in' });
+    }
+
+    const breaks = await app.db.query.timesheetBreaks.findMany({
+      where: eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+    });
+    const breakMinutes = totalBreakMinutes(breaks, clockedOutAt);
+
+    const totalHours = await shiftHours.calculateTimesheetHours(
+      app,
+      shift.id,
+      timesheet.startTime,
+      clockedOutAt,
+      breakMinutes,
+    );
+
+    const clockOut = await geofence.checkPunch(app, shift.id, location, 'Clock-out');
+    const flagReason = geofence.combineFlagReasons(timesheet.locationFlagReason, clockOut.flagReason);
+
+    try {
+      const updated = await app.db.transaction(async (tx: any) => {
+        await tx
+          .update(schema.timesheetBreaks)
+          .set({ endTime: clockedOutAt })
+          .where(and(
+            eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+            isNull(schema.timesheetBreaks.endTime),
+          ));
+
+        const closed = await tx
+          .update(schema.timesheets)
+          .set({
+            endTime: clockedOutAt,
+            breakMinutes,
+            totalHours: totalHours.toString(),
+            clockOutLatitude: clockOut.latitude,
+            clockOutLongitude: clockOut.longitude,
+            clockOutAccuracy: clockOut.accuracy,
+            clockOutDistance: clockOut.distance,
+            locationFlagged: !!flagReason,
+            locationFlagReason: flagReason,
+            recordedOffline: timesheet.recordedOffline || !!occurredAt,
+            clockOutReceivedAt: receivedAt,
+            clockTimeFlagged: !!clockTimeFlagReason,
+            clockTimeFlagReason,
+          })
+          .where(and(eq(schema.timesheets.id, timesheet.id), isNull(schema.timesheets.endTime)))
+          .returning();
+
+        if (closed.length === 0) {
+          throw new Error('You are not clocked in to this shift');
+        }
+
+        await shiftStatus.transitionShift(tx, {
+          shiftId: shift.id,
+          event: 'clock_out',
+          changedBy: session.user.id,
+        });
+
+        await timesheetVariance.refreshShiftVariance(tx, shift.id);
+
+        return tx.query.timesheets.findFirst({ where: eq(schema.timesheets.id, timesheet.id) });
+      });
+
+      return updated;
+    } catch (error) {
+      return reply.status(409).send({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * Start a break during a shift
+   */
+  app.fastify.post('/api/shifts/:id/break/start', {
+    schema: {
+      description: 'Start a break. You must be clocked in and not already on a break.',
+      tags: ['timesheets'],
+      params: shiftParams,
+      body: {
+        type: 'object',
+        properties: { occurredAt },
+      },
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const shift = await getWorkerShift(request, reply, session.user.id);
+    if (!shift) return;
+
+    if (await offlineSync.sendIfReplayed(app, request, reply, session.user.id)) return;
+
+    const { occurredAt } = (request.body || {}) as { occurredAt?: string };
+
+    const timesheet = await getOpenTimesheet(shift.id);
+
+    if (!timesheet) {
+      return reply.status(409).send({ error: 'You are not clocked in to this shift' });
+    }
+
+    const receivedAt = new Date();
+    let startedAt: Date;
+    try {
+      startedAt = offlineSync.deviceTime(occurredAt, receivedAt);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    if (startedAt < new Date(timesheet.startTime)) {
+      return reply.status(400).send({ error: 'A break can\'t start before clock-in' });
+    }
+
+    const openBreak = await app.db.query.timesheetBreaks.findFirst({
+      where: and(
+        eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+        isNull(schema.timesheetBreaks.endTime),
+      ),
+    });
+
+    if (openBreak) {
+      return reply.status(409).send({ error: 'You are already on a break' });
+    }
+
+    const created = await app.db
+      .insert(schema.timesheetBreaks)
+      .values({
+        timesheetId: timesheet.id,
+        startTime: startedAt,
+      })
+      .returning();
+
+    const breakFlag = offlineSync.deviceTimeFlag('Break start', startedAt, receivedAt);
+    if ((occurredAt && !timesheet.recordedOffline) || breakFlag) {
+      const clockTimeFlagReason = geofence.combineFlagReasons(timesheet.clockTimeFlagReason, breakFlag);
+      await app.db
+        .update(schema.timesheets)
+        .set({
+          recordedOffline: timesheet.recordedOffline || !!occurredAt,
+          clockTimeFlagged: !!clockTimeFlagReason,
+          clockTimeFlagReason,
+        })
+        .where(eq(schema.timesheets.id, timesheet.id));
+    }
+
+    return reply.status(201).send(created[0]);
+  });
+
+  /**
+   * End the break in progress
+   */
+  app.fastify.post('/api/shifts/:id/break/end', {
+    schema: {
+      description: 'End the break in progress and update the timesheet\'s break minutes',
+      tags: ['timesheets'],
+      params: shiftParams,
+      body: {
+        type: 'object',
+        properties: { occurredAt },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const shift = await getWorkerShift(request, reply, session.user.id);
+    if (!shift) return;
+
+    if (await offlineSync.sendIfReplayed(app, request, reply, session.user.id)) return;
+
+    const { occurredAt } = (request.body || {}) as { occurredAt?: string };
+
+    const timesheet = await getOpenTimesheet(shift.id);
+
+    if (!timesheet) {
+      return reply.status(409).send({ error: 'You are not clocked in to this shift' });
+    }
+
+    const receivedAt = new Date();
+    let endedAt: Date;
+    try {
+      endedAt = offlineSync.deviceTime(occurredAt, receivedAt);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const ended = await app.db
+      .update(schema.timesheetBreaks)
+      .set({ endTime: endedAt })
+      .where(and(
+        eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+        isNull(schema.timesheetBreaks.endTime),
+        lte(schema.timesheetBreaks.startTime, endedAt),
+      ))
+      .returning();
+
+    if (ended.length === 0) {
+      return reply.status(409).send({ error: 'You are not on a break' });
+    }
+
+    const breaks = await app.db.query.timesheetBreaks.findMany({
+      where: eq(schema.timesheetBreaks.timesheetId, timesheet.id),
+    });
+
+    const clockTimeFlagReason = geofence.combineFlagReasons(
+      timesheet.clockTimeFlagReason,
+      offlineSync.deviceTimeFlag('Break end', endedAt, receivedAt),
+    );
+
+    await app.db
+      .update(schema.timesheets)
+      .set({
+        breakMinutes: totalBreakMinutes(breaks, endedAt),
+        recordedOffline: timesheet.recordedOffline || !!occurredAt,
+        clockTimeFlagged: !!clockTimeFlagReason,
+        clockTimeFlagReason,
+      })
+      .where(eq(schema.timesheets.id, timesheet.id));
+
+    return ended[0];
+  });
+}
@@ -0,0 +1,573 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as expenseClaims from '../services/expenseClaims.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+const idParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+};
+
+export function registerExpenseClaimRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Load a claim, sending a reply when it is missing or the user is neither its worker
+   * nor its provider. Returns null once a reply has been sent.
+   */
+  const getClaimForUser = async (reply: FastifyReply, claimId: string, userId: string) => {
+    const claim = await app.db.query.expenseClaims.findFirst({
+      where: eq(schema.expenseClaims.id, claimId),
+    });
+
+    if (!claim) {
+      reply.status(404).send({ error: 'Expense claim not found' });
+      return null;
+    }
+
+    const isWorker = claim.supportWorkerId === userId;
+    const isProvider = claim.serviceProviderId === userId;
+    if (!isWorker && !isProvider) {
+      reply.status(403).send({ error: 'Not authorized to view this expense claim' });
+      return null;
+    }
+
+    return { claim, isWorker, isProvider };
+  };
+
+  /**
+   * Add worker names, shift titles and receipt links to claims
+   */
+  const withDetails = async (claims: any[]) => {
+    if (claims.length === 0) return [];
+
+    const users = await app.db.query.user.findMany({
+      where: inArray(authSchema.user.id, [...new Set(claims.map((c) => c.supportWorkerId))] as string[]),
+    });
+    const workerNames = new Map(users.map((u: any) => [u.id, u.name]));
+
+    const shiftIds = [...new Set(claims.map((c) => c.shiftId).filter(Boolean))] as string[];
+    const shifts = shiftIds.length > 0
+      ? await app.db.query.shifts.findMany({ where: inArray(schema.shifts.id, shiftIds) })
+      : [];
+    const shiftTitles = new Map(shifts.map((s: any) => [s.id, s.title]));
+
+    const documentIds = claims.map((c) => c.receiptDocumentId).filter(Boolean) as string[];
+    const receipts = documentIds.length > 0
+      ? await app.db.query.documents.findMany({ where: inArray(schema.documents.id, documentIds) })
+      : [];
+    const receiptUrls = new Map<string, string>();
+    for (const doc of receipts as any[]) {
+      const { url } = await app.storage.getSignedUrl(doc.storageKey);
+      receiptUrls.set(doc.id, url);
+    }
+
+    return claims.map((claim) => ({
+      ...claim,
+      workerName: workerNames.get(claim.supportWorkerId) || 'Unknown',
+      shiftTitle: claim.shiftId ? shiftTitles.get(claim.shiftId) || null : null,
+      receiptUrl: claim.receiptDocumentId ? receiptUrls.get(claim.receiptDocumentId) || null : null,
+    }));
+  };
+
+  /**
+   * Notify a user about a claim, logging rather than failing the request
+   */
+  const notify = async (userId: string, title: string, message: string, data: Record<string, any>) => {
+    try {
+      await pushDelivery.sendBulkPush(app, {
+        userIds: [userId],
+        title,
+        message,
+        data,
+        notificationType: 'shift',
+      });
+    } catch (error) {
+      app.logger.error({ err: error, userId }, 'Failed to send expense claim notification');
+    }
+  };
+
+  /**
+   * Create an expense claim
+   */
+  app.fastify.post('/api/expense-claims', {
+    schema: {
+      description: 'Claim an out-of-pocket expense. Linking a shift bills the claim to that shift\'s provider; otherwise serviceProviderId is required.',
+      tags: ['expense-claims'],
+      body: {
+        type: 'object',
+        properties: {
+          serviceProviderId: { type: 'string' },
+          shiftId: { type: 'string' },
+          category: { type: 'string', enum: expenseClaims.EXPENSE_CATEGORIES },
+          description: { type: 'string', minLength: 1 },
+          amount: { type: 'string', description: 'Including GST' },
+          gstAmount: { type: 'string' },
+          expenseDate: { type: 'string' },
+        },
+        required: ['category', 'description', 'amount', 'expenseDate'],
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { serviceProviderId, shiftId, category, description, amount, gstAmount = '0', expenseDate } = request.body as {
+      serviceProviderId?: string;
+      shiftId?: string;
+      category: expenseClaims.ExpenseCategory;
+      description: string;
+      amount: string;
+      gstAmount?: string;
+      expenseDate: string;
+    };
+
+    try {
+      expenseClaims.validateAmounts(parseFloat(amount), parseFloat(gstAmount));
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const date = new Date(expenseDate);
+    if (isNaN(date.getTime())) {
+      return reply.status(400).send({ error: 'Invalid expense date' });
+    }
+
+    let providerId = serviceProviderId;
+    if (shiftId) {
+      const shift = await app.db.query.shifts.findFirst({
+        where: eq(schema.shifts.id, shiftId),
+      });
+
+      if (!shift || (shift as any).supportWorkerId !== session.user.id) {
+        return reply.status(404).send({ error: 'Shift not found' });
+      }
+      providerId = (shift as any).serviceProviderId;
+    }
+
+    if (!providerId) {
+      return reply.status(400).send({ error: 'Choose a shift or provider for this claim' });
+    }
+
+    const relationship = await app.db.query.workerProviderRelationships.findFirst({
+      where: and(
+        eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+        eq(schema.workerProviderRelationships.serviceProviderId, providerId),
+      ),
+    });
+
+    if (!relationship) {
+      return reply.status(403).send({ error: 'You don\'t work for this provider' });
+    }
+
+    const created = await app.db
+      .insert(schema.expenseClaims)
+      .values({
+        supportWorkerId: session.user.id,
+        serviceProviderId: providerId,
+        shiftId: shiftId || null,
+        category,
+        description: description.trim(),
+        amount: parseFloat(amount).toFixed(2),
+        gstAmount: parseFloat(gstAmount).toFixed(2),
+        expenseDate: date,
+      })
+      .returning();
+
+    await notify(
+      providerId,
+      'Expense Claimed',
+      `${session.user.name || 'A worker'} claimed $${created[0].amount} for ${created[0].description}`,
+      { expenseClaimId: created[0].id, type: 'expense_claimed' },
+    );
+
+    return reply.status(201).send(created[0]);
+  });
+
+  /**
+   * List expense claims
+   */
+  app.fastify.get('/api/expense-claims', {
+    schema: {
+      description: 'Expense claims, newest first. Workers see their own claims; providers see claims made to them.',
+      tags: ['expense-claims'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+          supportWorkerId: { type: 'string' },
+          shiftId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { status, supportWorkerId, shiftId } = request.query as {
+      status?: 'pending' | 'approved' | 'rejected';
+      supportWorkerId?: string;
+      shiftId?: string;
+    };
+
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, session.user.id),
+    });
+
+    let whereCondition: any = provider
+      ? eq(schema.expenseClaims.serviceProviderId, session.user.id)
+      : eq(schema.expenseClaims.supportWorkerId, session.user.id);
+
+    if (status) {
+      whereCondition = and(whereCondition, eq(schema.expenseClaims.status, status));
+    }
+    if (supportWorkerId && provider) {
+      whereCondition = and(whereCondition, eq(schema.expenseClaims.supportWorkerId, supportWorkerId));
+    }
+    if (shiftId) {
+      whereCondition = and(whereCondition, eq(schema.expenseClaims.shiftId, shiftId));
+    }
+
+    const claims = await app.db.query.expenseClaims.findMany({
+      where: whereCondition,
+      orderBy: [desc(schema.expenseClaims.expenseDate)],
+    });
+
+    return withDetails(claims);
+  });
+
+  /**
+   * Get a single expense claim
+   */
+  app.fastify.get('/api/expense-claims/:id', {
+    schema: {
+      description: 'Get an expense claim with a link to its receipt',
+      tags: ['expense-claims'],
+      params: idParams,
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    const [claim] = await withDetails([access.claim]);
+    return claim;
+  });
+
+  /**
+   * Attach a receipt to an expense claim
+   */
+  app.fastify.post('/api/expense-claims/:id/receipt', {
+    schema: {
+      description: 'Upload the receipt for a pending claim, replacing any receipt already attached',
+      tags: ['expense-claims'],
+      params: idParams,
+      consumes: ['multipart/form-data'],
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { claim, isWorker } = access;
+
+    if (!isWorker) {
+      return reply.status(403).send({ error: 'Only the worker who made this claim can attach a receipt' });
+    }
+
+    if (claim.status !== 'pending') {
+      return reply.status(409).send({ error: `This claim has been ${claim.status} and can no longer be changed` });
+    }
+
+    const data = await request.file();
+    if (!data) {
+      return reply.status(400).send({ error: 'No file provided' });
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await data.toBuffer();
+    } catch (err) {
+      return reply.status(413).send({ error: 'File too large' });
+    }
+
+    const timestamp = Date.now();
+    const key = `documents/receipts/${session.user.id}/${timestamp}-${data.filename}`;
+
+    const uploadedKey = await app.storage.upload(key, buffer);
+
+    const newDocument = await app.db
+      .insert(schema.documents)
+      .values({
+        uploadedBy: session.user.id,
+        shiftId: claim.shiftId,
+        fileName: data.filename,
+        fileType: data.mimetype,
+        storageKey: uploadedKey,
+        fileSize: buffer.length,
+        documentType: 'receipt',
+      })
+      .returning();
+
+    await app.db
+      .update(schema.expenseClaims)
+      .set({ receiptDocumentId: newDocument[0].id })
+      .where(eq(schema.expenseClaims.id, id));
+
+    const { url } = await app.storage.getSignedUrl(uploadedKey);
+
+    return reply.status(201).send({
+      ...newDocument[0],
+      url,
+    });
+  });
+
+  /**
+   * Update a pending expense claim
+   */
+  app.fastify.patch('/api/expense-claims/:id', {
+    schema: {
+      description: 'Correct an expense claim that hasn\'t been reviewed yet',
+      tags: ['expense-claims'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: expenseClaims.EXPENSE_CATEGORIES },
+          description: { type: 'string', minLength: 1 },
+          amount: { type: 'string' },
+          gstAmount: { type: 'string' },
+          expenseDate: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { category, description, amount, gstAmount, expenseDate } = request.body as {
+      category?: expenseClaims.ExpenseCategory;
+      description?: string;
+      amount?: string;
+      gstAmount?: string;
+      expenseDate?: string;
+    };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { claim, isWorker } = access;
+
+    if (!isWorker) {
+      return reply.status(403).send({ error: 'Only the worker who made this claim can change it' });
+    }
+
+    if (claim.status !== 'pending') {
+      return reply.status(409).send({ error: `This claim has been ${claim.status} and can no longer be changed` });
+    }
+
+    const newAmount = parseFloat(amount ?? claim.amount);
+    const newGst = parseFloat(gstAmount ?? claim.gstAmount);
+    try {
+      expenseClaims.validateAmounts(newAmount, newGst);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const updates: any = {
+      amount: newAmount.toFixed(2),
+      gstAmount: newGst.toFixed(2),
+    };
+    if (category !== undefined) updates.category = category;
+    if (description !== undefined) updates.description = description.trim();
+    if (expenseDate !== undefined) {
+      const date = new Date(expenseDate);
+      if (isNaN(date.getTime())) {
+        return reply.status(400).send({ error: 'Invalid expense date' });
+      }
+      updates.expenseDate = date;
+    }
+
+    const updated = await app.db
+      .update(schema.expenseClaims)
+      .set(updates)
+      .where(and(
+        eq(schema.expenseClaims.id, id),
+        eq(schema.expenseClaims.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    return updated[0];
+  });
+
+  /**
+   * Withdraw a pending expense claim
+   */
+  app.fastify.delete('/api/expense-claims/:id', {
+    schema: {
+      description: 'Withdraw an expense claim that hasn\'t been reviewed yet. The receipt stays in documents.',
+      tags: ['expense-claims'],
+      params: idParams,
+      response: { 204: { type: 'null' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    if (!access.isWorker) {
+      return reply.status(403).send({ error: 'Only the worker who made this claim can withdraw it' });
+    }
+
+    const deleted = await app.db
+      .delete(schema.expenseClaims)
+      .where(and(
+        eq(schema.expenseClaims.id, id),
+        eq(schema.expenseClaims.status, 'pending'),
+      ))
+      .returning();
+
+    if (deleted.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Approve an expense claim so it is reimbursed on the worker's next payslip
+   */
+  app.fastify.post('/api/expense-claims/:id/approve', {
+    schema: {
+      description: 'Approve a pending claim. A receipt must be attached.',
+      tags: ['expense-claims'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = (request.body || {}) as { note?: string };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { claim, isProvider } = access;
+
+    if (!isProvider) {
+      return reply.status(403).send({ error: 'Only the provider can review expense claims' });
+    }
+
+    if (!claim.receiptDocumentId) {
+      return reply.status(409).send({ error: 'Ask the worker to attach a receipt before approving' });
+    }
+
+    const updated = await app.db
+      .update(schema.expenseClaims)
+      .set({ status: 'approved', reviewedBy: session.user.id, reviewedAt: new Date(), reviewNote: note || null })
+      .where(and(
+        eq(schema.expenseClaims.id, id),
+        eq(schema.expenseClaims.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    await notify(
+      claim.supportWorkerId,
+      'Expense Claim Approved',
+      `Your $${claim.amount} claim for ${claim.description} will be reimbursed on your next payslip`,
+      { expenseClaimId: id, type: 'expense_claim_approved' },
+    );
+
+    return updated[0];
+  });
+
+  /**
+   * Reject an expense claim
+   */
+  app.fastify.post('/api/expense-claims/:id/reject', {
+    schema: {
+      description: 'Reject a pending claim with a note for the worker',
+      tags: ['expense-claims'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string', minLength: 1 } },
+        required: ['note'],
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = request.body as { note: string };
+
+    const access = await getClaimForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { claim, isProvider } = access;
+
+    if (!isProvider) {
+      return reply.status(403).send({ error: 'Only the provider can review expense claims' });
+    }
+
+    const updated = await app.db
+      .update(schema.expenseClaims)
+      .set({ status: 'rejected', reviewedBy: session.user.id, reviewedAt: new Date(), reviewNote: note })
+      .where(and(
+        eq(schema.expenseClaims.id, id),
+        eq(schema.expenseClaims.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    await notify(
+      claim.supportWorkerId,
+      'Expense Claim Rejected',
+      `Your $${claim.amount} claim for ${claim.description} was not approved: ${note}`,
+      { expenseClaimId: id, type: 'expense_claim_rejected' },
+    );
+
+    return updated[0];
+  });
+}
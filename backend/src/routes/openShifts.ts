@@ -0,0 +1,482 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, gte, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as conflicts from '../services/conflicts.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import * as shiftHolders from '../services/shiftHolders.js';
+import type { App } from '../index.js';
+
+/**
+ * Workers an open shift is published to: active linked workers, optionally narrowed to a subset
+ */
+async function getEligibleWorkerIds(app: App, shift: any): Promise<string[]> {
+  const relationships = await app.db.query.workerProviderRelationships.findMany({
+    where: and(
+      eq(schema.workerProviderRelationships.serviceProviderId, shift.serviceProviderId),
+      eq(schema.workerProviderRelationships.status, 'active' as any),
+    ),
+  });
+
+  const linkedIds = relationships.map((rel: any) => rel.supportWorkerId);
+  if (!shift.openToWorkerIds) {
+    return linkedIds;
+  }
+
+  const subset: string[] = JSON.parse(shift.openToWorkerIds);
+  return linkedIds.filter((workerId: string) => subset.includes(workerId));
+}
+
+/**
+ * Give an open shift to one claimant and decline every other claim.
+ * Returns null if the shift was filled concurrently.
+ */
+async function awardShift(app: App, shift: any, assignmentId: string, supportWorkerId: string) {
+  return app.db.transaction(async (tx: any) => {
+    const [updatedShift] = await tx
+      .update(schema.shifts)
+      .set({ supportWorkerId, isOpen: false })
+      .where(and(eq(schema.shifts.id, shift.id), eq(schema.shifts.isOpen, true)))
+      .returning();
+
+    if (!updatedShift) {
+      return null;
+    }
+
+    await tx
+      .update(schema.shiftAssignments)
+      .set({ status: 'accepted' })
+      .where(eq(schema.shiftAssignments.id, assignmentId));
+
+    await tx
+      .update(schema.shiftAssignments)
+      .set({ status: 'declined' })
+      .where(and(
+        eq(schema.shiftAssignments.shiftId, shift.id),
+        ne(schema.shiftAssignments.id, assignmentId),
+        eq(schema.shiftAssignments.status, 'claimed' as any),
+      ));
+
+    await shiftHolders.recordHolderChange(tx, {
+      shift,
+      toWorkerId: supportWorkerId,
+      changeReason: 'assigned',
+    });
+
+    return updatedShift;
+  });
+}
+
+export function registerOpenShiftRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Publish a new open shift to linked workers
+   */
+  app.fastify.post('/api/open-shifts', {
+    schema: {
+      description: 'Create an open shift and notify eligible workers (service provider only)',
+      tags: ['open-shifts'],
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          startTime: { type: 'string' },
+          endTime: { type: 'string' },
+          location: { type: 'string' },
+          hourlyRate: { type: 'string' },
+          claimMode: { type: 'string', enum: ['first_claim', 'provider_select'] },
+          workerIds: { type: 'array', items: { type: 'string' }, description: 'Limit to these workers; omit for all linked workers' },
+          clientId: { type: 'string' },
+          clientName: { type: 'string' },
+          taskDescription: { type: 'string' },
+          specialRequirements: { type: 'string' },
+        },
+        required: ['title', 'startTime', 'endTime'],
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    // Verify user is a service provider
+    const userRole = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, session.user.id),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+
+    if (!userRole) {
+      return reply.status(403).send({ error: 'Only service providers can publish open shifts' });
+    }
+
+    const {
+      title,
+      description,
+      startTime,
+      endTime,
+      location,
+      hourlyRate,
+      claimMode = 'provider_select',
+      workerIds,
+      clientId,
+      clientName,
+      taskDescription,
+      specialRequirements,
+    } = request.body as any;
+
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return reply.status(400).send({ error: 'Shift end time must be after start time' });
+    }
+
+    const [shift] = await app.db
+      .insert(schema.shifts)
+      .values({
+        supportWorkerId: null,
+        serviceProviderId: session.user.id,
+        title,
+        description,
+        startTime: start,
+        endTime: end,
+        location,
+        hourlyRate,
+        clientId,
+        isOpen: true,
+        claimMode,
+        openToWorkerIds: workerIds && workerIds.length > 0 ? JSON.stringify(workerIds) : null,
+      })
+      .returning();
+
+    if (clientId || clientName || taskDescription || specialRequirements) {
+      await app.db.insert(schema.shiftNotes).values({
+        shiftId: shift.id,
+        clientId,
+        clientName,
+        taskDescription,
+        specialRequirements,
+      });
+    }
+
+    const eligibleWorkerIds = await getEligibleWorkerIds(app, shift);
+
+    let notified = 0;
+    try {
+      const result = await pushDelivery.sendBulkPush(app, {
+        userIds: eligibleWorkerIds,
+        title: 'Open shift available',
+        message: `${title} on ${start.toLocaleDateString('en-AU')} - tap to claim`,
+        data: { shiftId: shift.id, type: 'open_shift' },
+        notificationType: 'shift',
+      });
+      notified = result.usersReached;
+    } catch (error) {
+      app.logger.error({ err: error, shiftId: shift.id }, 'Failed to notify workers of open shift');
+    }
+
+    return reply.status(201).send({ ...shift, eligibleWorkers: eligibleWorkerIds.length, notified });
+  });
+
+  /**
+   * List open shifts: claimable shifts for a worker, or published shifts with claim counts for a provider
+   */
+  app.fastify.get('/api/open-shifts', {
+    schema: {
+      description: 'List open shifts for the authenticated worker or service provider',
+      tags: ['open-shifts'],
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const isProvider = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, session.user.id),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+
+    if (isProvider) {
+      const shifts = await app.db.query.shifts.findMany({
+        where: and(
+          eq(schema.shifts.serviceProviderId, session.user.id),
+          eq(schema.shifts.isOpen, true),
+        ),
+      });
+
+      return Promise.all(
+        shifts.map(async (shift: any) => {
+          const claims = await app.db.query.shiftAssignments.findMany({
+            where: and(
+              eq(schema.shiftAssignments.shiftId, shift.id),
+              eq(schema.shiftAssignments.status, 'claimed' as any),
+            ),
+          });
+          return { ...shift, claimCount: claims.length };
+        }),
+      );
+    }
+
+    const relationships = await app.db.query.workerProviderRelationships.findMany({
+      where: and(
+        eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+        eq(schema.workerProviderRelationships.status, 'active' as any),
+      ),
+    });
+
+    const providerIds = relationships.map((rel: any) => rel.serviceProviderId);
+    if (providerIds.length === 0) {
+      return [];
+    }
+
+    const shifts = await app.db.query.shifts.findMany({
+      where: and(
+        inArray(schema.shifts.serviceProviderId, providerIds),
+        eq(schema.shifts.isOpen, true),
+        ne(schema.shifts.status, 'cancelled' as any),
+        gte(schema.shifts.startTime, new Date()),
+      ),
+    });
+
+    const visible = shifts.filter((shift: any) =>
+      !shift.openToWorkerIds || JSON.parse(shift.openToWorkerIds).includes(session.user.id),
+    );
+
+    return Promise.all(
+      visible.map(async (shift: any) => {
+        const shiftNotes = await app.db.query.shiftNotes.findFirst({
+          where: eq(schema.shiftNotes.shiftId, shift.id),
+        });
+        const myClaim = await app.db.query.shiftAssignments.findFirst({
+          where: and(
+            eq(schema.shiftAssignments.shiftId, shift.id),
+            eq(schema.shiftAssignments.supportWorkerId, session.user.id),
+          ),
+        });
+        return {
+          ...shift,
+          clientName: shiftNotes?.clientName || null,
+          taskDescription: shiftNotes?.taskDescription || null,
+          claimStatus: (myClaim as any)?.status || null,
+        };
+      }),
+    );
+  });
+
+  /**
+   * Claim an open shift
+   */
+  app.fastify.post('/api/open-shifts/:id/claim', {
+    schema: {
+      description: 'Claim an open shift (support worker only)',
+      tags: ['open-shifts'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift || !(shift as any).isOpen || (shift as any).status === 'cancelled') {
+      return reply.status(404).send({ error: 'Open shift not found' });
+    }
+
+    const eligibleWorkerIds = await getEligibleWorkerIds(app, shift);
+    if (!eligibleWorkerIds.includes(session.user.id)) {
+      return reply.status(403).send({ error: 'This shift is not open to you' });
+    }
+
+    const existing = await app.db.query.shiftAssignments.findFirst({
+      where: and(
+        eq(schema.shiftAssignments.shiftId, id),
+        eq(schema.shiftAssignments.supportWorkerId, session.user.id),
+      ),
+    });
+
+    if (existing) {
+      return reply.status(400).send({ error: 'You have already claimed this shift' });
+    }
+
+    // Workers cannot claim a shift that overlaps their own roster
+    const shiftConflicts = await conflicts.checkShiftConflicts(app, {
+      supportWorkerId: session.user.id,
+      serviceProviderId: (shift as any).serviceProviderId,
+      startTime: new Date((shift as any).startTime),
+      endTime: new Date((shift as any).endTime),
+      excludeShiftId: id,
+    });
+
+    if (shiftConflicts.some((c) => c.severity === 'error')) {
+      return reply.status(409).send({ error: 'Shift overlaps one of your existing shifts', conflicts: shiftConflicts });
+    }
+
+    const [claim] = await app.db
+      .insert(schema.shiftAssignments)
+      .values({ shiftId: id, supportWorkerId: session.user.id, status: 'claimed' })
+      .returning();
+
+    if ((shift as any).claimMode === 'first_claim') {
+      const awarded = await awardShift(app, shift, claim.id, session.user.id);
+      if (!awarded) {
+        await app.db
+          .update(schema.shiftAssignments)
+          .set({ status: 'declined' })
+          .where(eq(schema.shiftAssignments.id, claim.id));
+        return reply.status(409).send({ error: 'Shift has already been filled' });
+      }
+      return reply.status(201).send({ claim: { ...claim, status: 'accepted' }, shift: awarded, conflicts: shiftConflicts });
+    }
+
+    return reply.status(201).send({ claim, shift, conflicts: shiftConflicts });
+  });
+
+  /**
+   * List the candidates who claimed an open shift
+   */
+  app.fastify.get('/api/open-shifts/:id/claims', {
+    schema: {
+      description: 'Get the claims on an open shift (service provider only)',
+      tags: ['open-shifts'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to view claims for this shift' });
+    }
+
+    const claims = await app.db.query.shiftAssignments.findMany({
+      where: eq(schema.shiftAssignments.shiftId, id),
+    });
+
+    return Promise.all(
+      claims.map(async (claim: any) => {
+        const workerUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, claim.supportWorkerId),
+        });
+        const shiftConflicts = await conflicts.checkShiftConflicts(app, {
+          supportWorkerId: claim.supportWorkerId,
+          serviceProviderId: session.user.id,
+          startTime: new Date((shift as any).startTime),
+          endTime: new Date((shift as any).endTime),
+          excludeShiftId: id,
+        });
+        return {
+          ...claim,
+          workerName: workerUser?.name || 'Unknown',
+          workerEmail: workerUser?.email || 'Unknown',
+          conflicts: shiftConflicts,
+        };
+      }),
+    );
+  });
+
+  /**
+   * Accept one claimant for an open shift
+   */
+  app.fastify.post('/api/open-shifts/:id/claims/:assignmentId/accept', {
+    schema: {
+      description: 'Award an open shift to one of its claimants (service provider only)',
+      tags: ['open-shifts'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          assignmentId: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id, assignmentId } = request.params as { id: string; assignmentId: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to award this shift' });
+    }
+
+    if (!(shift as any).isOpen) {
+      return reply.status(400).send({ error: 'Shift has already been filled' });
+    }
+
+    const claim = await app.db.query.shiftAssignments.findFirst({
+      where: and(
+        eq(schema.shiftAssignments.id, assignmentId),
+        eq(schema.shiftAssignments.shiftId, id),
+      ),
+    });
+
+    if (!claim || (claim as any).status !== 'claimed') {
+      return reply.status(404).send({ error: 'Claim not found' });
+    }
+
+    const awarded = await awardShift(app, shift, assignmentId, (claim as any).supportWorkerId);
+    if (!awarded) {
+      return reply.status(400).send({ error: 'Shift has already been filled' });
+    }
+
+    try {
+      await pushDelivery.sendBulkPush(app, {
+        userIds: [(claim as any).supportWorkerId],
+        title: 'Shift confirmed',
+        message: `You have been given ${(shift as any).title}`,
+        data: { shiftId: id, type: 'open_shift_awarded' },
+        notificationType: 'shift',
+      });
+    } catch (error) {
+      app.logger.error({ err: error, shiftId: id }, 'Failed to notify worker of awarded shift');
+    }
+
+    return awarded;
+  });
+}
@@ -0,0 +1,620 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as payslips from '../services/payslips.js';
+import * as aba from '../services/aba.js';
+import * as bankDetails from '../services/bankDetails.js';
+import * as publicHolidays from '../services/publicHolidays.js';
+import * as taxTables from '../services/taxTables.js';
+import type { App } from '../index.js';
+
+const idParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', format: 'uuid' } },
+};
+
+const sumItems = (items: any[], itemType: string) => items
+  .filter((item) => item.itemType === itemType)
+  .reduce((sum, item) => sum + parseFloat(item.amount), 0);
+
+export function registerPayRunRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * The user's service provider profile, or null (with a 403 sent) if they aren't a provider
+   */
+  const getProviderForUser = async (userId: string, reply: FastifyReply) => {
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, userId),
+    });
+    if (!provider) {
+      reply.status(403).send({ error: 'Only service providers can manage pay runs' });
+      return null;
+    }
+    return provider as any;
+  };
+
+  /**
+   * Load a pay run owned by the provider, or null (with an error sent)
+   */
+  const getOwnedPayRun = async (id: string, userId: string, reply: FastifyReply) => {
+    const payRun = await app.db.query.payRuns.findFirst({
+      where: eq(schema.payRuns.id, id),
+    });
+    if (!payRun) {
+      reply.status(404).send({ error: 'Pay run not found' });
+      return null;
+    }
+    if ((payRun as any).serviceProviderId !== userId) {
+      reply.status(403).send({ error: 'Not authorized to access this pay run' });
+      return null;
+    }
+    return payRun as any;
+  };
+
+  /**
+   * Active workers with unpaid approved timesheets in a period, split into those
+   * who can be paid and those skipped because they have no hourly rate
+   */
+  const getWorkersToPay = async (providerId: string, startDate: Date, endDate: Date) => {
+    const relationships = await app.db.query.workerProviderRelationships.findMany({
+      where: and(
+        eq(schema.workerProviderRelationships.serviceProviderId, providerId),
+        eq(schema.workerProviderRelationships.status, 'active'),
+      ),
+    });
+
+    const payable: any[] = [];
+    const skipped: { supportWorkerId: string; workerName: string; timesheetCount: number; reason: string }[] = [];
+    for (const relationship of relationships as any[]) {
+      const timesheets = await payslips.getUnpaidApprovedTimesheets(app, providerId, relationship.supportWorkerId, startDate, endDate);
+      if (timesheets.length === 0) continue;
+
+      if (relationship.hourlyRate === null) {
+        const workerUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, relationship.supportWorkerId),
+        });
+        skipped.push({
+          supportWorkerId: relationship.supportWorkerId,
+          workerName: workerUser?.name || 'Unknown',
+          timesheetCount: timesheets.length,
+          reason: 'No hourly rate set for this worker',
+        });
+        continue;
+      }
+      payable.push({ ...relationship, timesheetCount: timesheets.length });
+    }
+
+    return { payable, skipped };
+  };
+
+  /**
+   * A pay run with its payslips and totals for review
+   */
+  const getPayRunSummary = async (payRun: any) => {
+    const runPayslips = await app.db.query.payslips.findMany({
+      where: eq(schema.payslips.payRunId, payRun.id),
+    });
+    const items = runPayslips.length > 0
+      ? await app.db.query.payslipItems.findMany({
+        where: inArray(schema.payslipItems.payslipId, runPayslips.map((payslip: any) => payslip.id)),
+      })
+      : [];
+
+    const rows = await Promise.all(
+      runPayslips.map(async (payslip: any) => {
+        const workerUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, payslip.supportWorkerId),
+        });
+        const payslipItems = items.filter((item: any) => item.payslipId === payslip.id);
+        return {
+          ...payslip,
+          workerName: workerUser?.name || 'Unknown',
+          tax: sumItems(payslipItems, 'tax'),
+          super: sumItems(payslipItems, 'super'),
+          reimbursements: sumItems(payslipItems, 'reimbursement'),
+        };
+      }),
+    );
+
+    const total = (field: string) => Math.round(
+      rows.reduce((sum: number, row: any) => sum + parseFloat(row[field]?.toString() || '0'), 0) * 100,
+    ) / 100;
+
+    return {
+      payRun,
+      payslips: rows,
+      totals: {
+        workers: rows.length,
+        totalHours: total('totalHours'),
+        grossPay: total('grossPay'),
+        tax: total('tax'),
+        deductions: total('deductions'),
+        reimbursements: total('reimbursements'),
+        netPay: total('netPay'),
+        super: total('super'),
+      },
+    };
+  };
+
+  /**
+   * List pay runs
+   */
+  app.fastify.get('/api/pay-runs', {
+    schema: {
+      description: 'List the provider\'s pay runs, newest period first, with payslip counts and totals',
+      tags: ['pay-runs'],
+      response: { 200: { type: 'array', items: { type: 'object' } } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const payRuns = await app.db.query.payRuns.findMany({
+      where: eq(schema.payRuns.serviceProviderId, session.user.id),
+    });
+
+    const summaries = await Promise.all(payRuns.map(async (payRun: any) => {
+      const { totals } = await getPayRunSummary(payRun);
+      return { ...payRun, totals };
+    }));
+
+    return summaries.sort((a: any, b: any) =>
+      new Date(b.payPeriodEndDate).getTime() - new Date(a.payPeriodEndDate).getTime());
+  });
+
+  /**
+   * Create a pay run
+   */
+  app.fastify.post('/api/pay-runs', {
+    schema: {
+      description: 'Create a draft pay run for a period, generating a draft payslip for every active worker with approved timesheets at their hourly rate. Workers without an hourly rate are skipped and listed.',
+      tags: ['pay-runs'],
+      body: {
+        type: 'object',
+        required: ['payPeriodStartDate', 'payPeriodEndDate'],
+        properties: {
+          payPeriodStartDate: { type: 'string' },
+          payPeriodEndDate: { type: 'string' },
+          notes: { type: 'string' },
+        },
+      },
+      response: {
+        201: { type: 'object' },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const provider = await getProviderForUser(session.user.id, reply);
+    if (!provider) return;
+
+    const { payPeriodStartDate, payPeriodEndDate, notes } = request.body as {
+      payPeriodStartDate: string;
+      payPeriodEndDate: string;
+      notes?: string;
+    };
+
+    const startDate = new Date(payPeriodStartDate);
+    const endDate = new Date(payPeriodEndDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) {
+      return reply.status(400).send({ error: 'payPeriodEndDate must be a valid date on or after payPeriodStartDate' });
+    }
+
+    try {
+      taxTables.tableFor(publicHolidays.dateKey(endDate, provider.timezone));
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const { payable, skipped } = await getWorkersToPay(session.user.id, startDate, endDate);
+    if (payable.length === 0) {
+      return reply.status(400).send({ error: 'No workers with an hourly rate have approved timesheets to pay in this period', skipped });
+    }
+
+    // The run and all of its payslips are created together, or not at all
+    let payRun: any;
+    try {
+      const prepared: payslips.PreparedPayslip[] = [];
+      for (const relationship of payable) {
+        prepared.push(await payslips.preparePayslip(app, {
+          serviceProviderId: session.user.id,
+          supportWorkerId: relationship.supportWorkerId,
+          startDate,
+          endDate,
+          hourlyRate: relationship.hourlyRate,
+          deductions: '0',
+        }));
+      }
+
+      payRun = await app.db.transaction(async (tx: any) => {
+        const [created] = await tx
+          .insert(schema.payRuns)
+          .values({
+            serviceProviderId: session.user.id,
+            payPeriodStartDate: startDate,
+            payPeriodEndDate: endDate,
+            notes,
+          })
+          .returning();
+
+        for (const payslip of prepared) {
+          await payslips.savePayslip(tx, payslip, created.id);
+        }
+
+        return created;
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    app.logger.info({ userId: session.user.id, payRunId: payRun.id, workers: payable.length }, 'Pay run created');
+
+    return reply.status(201).send({ ...(await getPayRunSummary(payRun)), skipped });
+  });
+
+  /**
+   * Get a pay run for review
+   */
+  app.fastify.get('/api/pay-runs/:id', {
+    schema: {
+      description: 'Get a pay run with its payslips and totals. Draft runs also list workers with approved timesheets in the period that aren\'t on a payslip.',
+      tags: ['pay-runs'],
+      params: idParams,
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    const summary = await getPayRunSummary(payRun);
+    if (payRun.status !== 'draft') {
+      return { ...summary, skipped: [] };
+    }
+
+    // Timesheets approved since the run was created, or for workers without a rate
+    const { payable, skipped } = await getWorkersToPay(
+      session.user.id,
+      new Date(payRun.payPeriodStartDate),
+      new Date(payRun.payPeriodEndDate),
+    );
+    for (const relationship of payable) {
+      const workerUser = await app.db.query.user.findFirst({
+        where: eq(authSchema.user.id, relationship.supportWorkerId),
+      });
+      skipped.push({
+        supportWorkerId: relationship.supportWorkerId,
+        workerName: workerUser?.name || 'Unknown',
+        timesheetCount: relationship.timesheetCount,
+        reason: 'Approved after the pay run was created; reverse and re-run to include them',
+      });
+    }
+
+    return { ...summary, skipped };
+  });
+
+  /**
+   * Finalise a pay run
+   */
+  app.fastify.post('/api/pay-runs/:id/finalise', {
+    schema: {
+      description: 'Finalise a draft pay run, issuing all of its payslips together',
+      tags: ['pay-runs'],
+      params: idParams,
+      response: {
+        200: { type: 'object' },
+        400: { type: 'object' },
+        409: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    if (payRun.status !== 'draft') {
+      return reply.status(400).send({ error: 'Only draft pay runs can be finalised' });
+    }
+
+    const runPayslips = await app.db.query.payslips.findMany({
+      where: eq(schema.payslips.payRunId, id),
+    });
+    if (runPayslips.length === 0) {
+      return reply.status(400).send({ error: 'Pay run has no payslips to issue' });
+    }
+
+    // The status check stops a second request, or one racing an export, issuing the payslips again
+    const now = new Date();
+    const finalised = await app.db.transaction(async (tx: any) => {
+      const [updated] = await tx
+        .update(schema.payRuns)
+        .set({ status: 'finalised', finalisedAt: now })
+        .where(and(eq(schema.payRuns.id, id), eq(schema.payRuns.status, 'draft')))
+        .returning();
+      if (!updated) return null;
+
+      await tx
+        .update(schema.payslips)
+        .set({ status: 'issued', issuedDate: now })
+        .where(and(
+          eq(schema.payslips.payRunId, id),
+          eq(schema.payslips.status, 'draft'),
+        ));
+      return updated;
+    });
+
+    if (!finalised) {
+      return reply.status(409).send({ error: 'Pay run is no longer a draft' });
+    }
+
+    app.logger.info({ userId: session.user.id, payRunId: id, payslips: runPayslips.length }, 'Pay run finalised');
+
+    // The PDF is rendered again on first download if storing it fails here
+    for (const payslip of runPayslips) {
+      try {
+        await payslips.storePayslipPdf(app, payslip.id);
+      } catch (error) {
+        app.logger.error({ err: error, payslipId: payslip.id }, 'Failed to store payslip PDF');
+      }
+    }
+
+    return getPayRunSummary(finalised);
+  });
+
+  /**
+   * Export a pay run as an ABA bank file
+   */
+  app.fastify.post('/api/pay-runs/:id/aba', {
+    schema: {
+      description: 'Build and store a Cemtex/ABA direct entry file paying the net pay of every issued payslip in a finalised pay run from the provider\'s account, and return a signed URL to download it',
+      tags: ['pay-runs'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          processingDate: { type: 'string', description: 'Date the bank should process the payments; defaults to today' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            url: { type: 'string' },
+            payments: { type: 'integer' },
+            total: { type: 'number' },
+          },
+        },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const provider = await getProviderForUser(session.user.id, reply);
+    if (!provider) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    if (payRun.status !== 'finalised') {
+      return reply.status(400).send({ error: 'Only finalised pay runs can be exported' });
+    }
+
+    if (!provider.bankDetails || !provider.financialInstitution || !provider.apcaUserId) {
+      return reply.status(400).send({ error: 'Set your bank account and APCA user ID before exporting a bank file' });
+    }
+
+    const { processingDate } = (request.body || {}) as { processingDate?: string };
+    const date = processingDate ? new Date(processingDate) : new Date();
+    if (isNaN(date.getTime())) {
+      return reply.status(400).send({ error: 'Invalid processing date' });
+    }
+
+    const runPayslips = await app.db.query.payslips.findMany({
+      where: and(
+        eq(schema.payslips.payRunId, id),
+        eq(schema.payslips.status, 'issued'),
+      ),
+    });
+
+    const reference = `PAY ${new Date(payRun.payPeriodEndDate).toISOString().slice(0, 10)}`;
+    const payments: aba.AbaPayment[] = [];
+    const problems: string[] = [];
+    for (const payslip of runPayslips as any[]) {
+      const amountCents = Math.round(parseFloat(payslip.netPay) * 100);
+      if (amountCents <= 0) continue;
+
+      const worker = await app.db.query.supportWorkers.findFirst({
+        where: eq(schema.supportWorkers.userId, payslip.supportWorkerId),
+      });
+      const workerUser = await app.db.query.user.findFirst({
+        where: eq(authSchema.user.id, payslip.supportWorkerId),
+      });
+      const workerName = workerUser?.name || 'Unknown';
+
+      if (!worker?.bankDetails) {
+        problems.push(`${workerName}: no bank details`);
+        continue;
+      }
+
+      try {
+        const account = bankDetails.validateBankDetails(bankDetails.decryptBankDetails(worker.bankDetails));
+        payments.push({ ...account, amountCents, lodgementReference: reference });
+      } catch (error) {
+        problems.push(`${workerName}: ${(error as Error).message}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      return reply.status(400).send({ error: `Cannot export the bank file. ${problems.join('; ')}` });
+    }
+
+    const expectedCents = payments.reduce((sum, payment) => sum + payment.amountCents, 0);
+    let file: aba.AbaFile;
+    try {
+      file = aba.buildAbaFile(
+        {
+          ...bankDetails.validateBankDetails(bankDetails.decryptBankDetails(provider.bankDetails)),
+          financialInstitution: provider.financialInstitution,
+          apcaUserId: provider.apcaUserId,
+          remitterName: provider.companyName,
+        },
+        payments,
+        'PAYROLL',
+        date,
+      );
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    if (file.totalCents !== expectedCents || file.payments !== payments.length) {
+      return reply.status(400).send({ error: 'Bank file totals do not match the pay run' });
+    }
+
+    const key = `aba/${session.user.id}/${id}-${Date.now()}.aba`;
+    const uploadedKey = await app.storage.upload(key, Buffer.from(file.content, 'ascii'));
+    await app.db
+      .update(schema.payRuns)
+      .set({ abaStorageKey: uploadedKey })
+      .where(eq(schema.payRuns.id, id));
+    const { url } = await app.storage.getSignedUrl(uploadedKey);
+
+    app.logger.info({ userId: session.user.id, payRunId: id, payments: file.payments, totalCents: file.totalCents }, 'Pay run exported as ABA file');
+
+    return { url, payments: file.payments, total: file.totalCents / 100 };
+  });
+
+  /**
+   * Download a pay run's ABA bank file
+   */
+  app.fastify.get('/api/pay-runs/:id/aba', {
+    schema: {
+      description: 'Get a signed URL to download the latest ABA bank file exported for a pay run',
+      tags: ['pay-runs'],
+      params: idParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: { url: { type: 'string' } },
+        },
+        404: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    if (!payRun.abaStorageKey) {
+      return reply.status(404).send({ error: 'No bank file has been exported for this pay run' });
+    }
+
+    const { url } = await app.storage.getSignedUrl(payRun.abaStorageKey);
+    return { url };
+  });
+
+  /**
+   * Mark a pay run as exported
+   */
+  app.fastify.post('/api/pay-runs/:id/mark-exported', {
+    schema: {
+      description: 'Record that a finalised pay run\'s bank file has been processed, marking all of its issued payslips as paid',
+      tags: ['pay-runs'],
+      params: idParams,
+      response: {
+        200: { type: 'object' },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    if (payRun.status !== 'finalised') {
+      return reply.status(400).send({ error: 'Only finalised pay runs can be marked as exported' });
+    }
+
+    const runPayslips = await app.db.query.payslips.findMany({
+      where: eq(schema.payslips.payRunId, id),
+    });
+
+    // The payslips and the run change together; the status check stops a second request paying them again
+    const now = new Date();
+    const result = await app.db.transaction(async (tx: any) => {
+      const [exported] = await tx
+        .update(schema.payRuns)
+        .set({ status: 'exported', exportedAt: now })
+        .where(and(eq(schema.payRuns.id, id), eq(schema.payRuns.status, 'finalised')))
+        .returning();
+      if (!exported) return null;
+
+      const paid = await payslips.markPayslipsPaid(tx, runPayslips.map((payslip: any) => payslip.id), now);
+      return { exported, paid };
+    });
+
+    if (!result) {
+      return reply.status(400).send({ error: 'Only finalised pay runs can be marked as exported' });
+    }
+    const { exported, paid } = result;
+
+    app.logger.info({ userId: session.user.id, payRunId: id, payslips: paid.length }, 'Pay run exported and payslips marked paid');
+
+    return getPayRunSummary(exported);
+  });
+
+  /**
+   * Reverse a draft pay run
+   */
+  app.fastify.delete('/api/pay-runs/:id', {
+    schema: {
+      description: 'Reverse a draft pay run: its payslips are deleted and their timesheets, travel and expense claims are released for the next run',
+      tags: ['pay-runs'],
+      params: idParams,
+      response: {
+        204: { type: 'null' },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const payRun = await getOwnedPayRun(id, session.user.id, reply);
+    if (!payRun) return;
+
+    if (payRun.status !== 'draft') {
+      return reply.status(400).send({ error: 'Only draft pay runs can be reversed' });
+    }
+
+    await app.db.transaction(async (tx: any) => {
+      // Line items cascade; locked timesheets and claims are released by their set-null references
+      await tx.delete(schema.payslips).where(eq(schema.payslips.payRunId, id));
+      await tx.delete(schema.payRuns).where(eq(schema.payRuns.id, id));
+    });
+
+    app.logger.info({ userId: session.user.id, payRunId: id }, 'Pay run reversed');
+
+    return reply.status(204).send();
+  });
+}
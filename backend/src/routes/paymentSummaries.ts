@@ -0,0 +1,135 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as paymentSummaries from '../services/paymentSummaries.js';
+import * as timeZones from '../services/timeZone.js';
+import * as reportGenerator from '../services/reportGenerator.js';
+import type { App } from '../index.js';
+
+const summaryQuery = {
+  type: 'object',
+  properties: {
+    workerId: { type: 'string', description: 'Required for providers' },
+    providerId: { type: 'string', description: 'Required for workers' },
+    financialYear: { type: 'integer', minimum: 2000, maximum: 2100, description: 'Year the financial year ends; defaults to the current one' },
+  },
+};
+
+export function registerPaymentSummaryRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Work out whose summary is being asked for: a provider passes the worker, and a worker
+   * passes the provider. Returns null (with an error sent) if they aren't linked.
+   */
+  const resolveSummaryParties = async (userId: string, request: FastifyRequest, reply: FastifyReply) => {
+    const { workerId, providerId, financialYear } = request.query as {
+      workerId?: string;
+      providerId?: string;
+      financialYear?: number;
+    };
+
+    const supportWorkerId = workerId ?? userId;
+    const serviceProviderId = providerId ?? userId;
+    if (supportWorkerId !== userId && serviceProviderId !== userId) {
+      reply.status(403).send({ error: 'Not authorized to view this payment summary' });
+      return null;
+    }
+
+    const relationship = await app.db.query.workerProviderRelationships.findFirst({
+      where: and(
+        eq(schema.workerProviderRelationships.supportWorkerId, supportWorkerId),
+        eq(schema.workerProviderRelationships.serviceProviderId, serviceProviderId),
+      ),
+    });
+    if (!relationship) {
+      reply.status(404).send({ error: 'Worker not assigned to this provider' });
+      return null;
+    }
+
+    return {
+      supportWorkerId,
+      serviceProviderId,
+      year: financialYear
+        ?? paymentSummaries.financialYear(new Date(), await timeZones.getProviderTimeZone(app, serviceProviderId)),
+    };
+  };
+
+  /**
+   * Get a worker's payment summary for a financial year
+   */
+  app.fastify.get('/api/payment-summaries', {
+    schema: {
+      description: 'End-of-year payment summary for a worker and provider: gross, PAYG withheld, super and net totals of the issued and paid payslips ending in an Australian financial year (1 July to 30 June)',
+      tags: ['payment-summaries'],
+      querystring: summaryQuery,
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const parties = await resolveSummaryParties(session.user.id, request, reply);
+    if (!parties) return;
+
+    return paymentSummaries.getPaymentSummary(app, parties.supportWorkerId, parties.serviceProviderId, parties.year);
+  });
+
+  /**
+   * Get a payment summary PDF
+   */
+  app.fastify.get('/api/payment-summaries/pdf', {
+    schema: {
+      description: 'Generate a worker\'s end-of-year payment summary as a PDF and return a signed URL to download it',
+      tags: ['payment-summaries'],
+      querystring: summaryQuery,
+      response: {
+        200: {
+          type: 'object',
+          properties: { url: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const parties = await resolveSummaryParties(session.user.id, request, reply);
+    if (!parties) return;
+
+    const { supportWorkerId, serviceProviderId, year } = parties;
+    const summary = await paymentSummaries.getPaymentSummary(app, supportWorkerId, serviceProviderId, year);
+
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, serviceProviderId),
+    });
+    const workerUser = await app.db.query.user.findFirst({
+      where: eq(authSchema.user.id, supportWorkerId),
+    });
+
+    const pdfBuffer = await reportGenerator.generatePaymentSummaryPDF({
+      companyName: (provider as any)?.companyName || 'Service Provider',
+      companyABN: (provider as any)?.companyABN ?? null,
+      workerName: workerUser?.name || 'Unknown',
+      workerEmail: workerUser?.email || 'Unknown',
+      financialYearLabel: summary.label,
+      startDate: summary.startDate,
+      endDate: summary.endDate,
+      payslips: summary.payslips.map((payslip) => ({
+        payPeriodStartDate: new Date(payslip.payPeriodStartDate),
+        payPeriodEndDate: new Date(payslip.payPeriodEndDate),
+        ...payslip.totals,
+      })),
+      totals: summary.totals,
+    });
+
+    const key = `payment-summaries/${serviceProviderId}/${supportWorkerId}/${summary.label}-${Date.now()}.pdf`;
+    const uploadedKey = await app.storage.upload(key, pdfBuffer);
+    const { url } = await app.storage.getSignedUrl(uploadedKey);
+
+    app.logger.info({ userId: session.user.id, supportWorkerId, serviceProviderId, year }, 'Payment summary PDF generated');
+
+    return { url };
+  });
+}
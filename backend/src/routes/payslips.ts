@@ -1,18 +1,62 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, gte, lte } from 'drizzle-orm';
+import { eq, and, gte, lte, inArray } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
+import * as publicHolidays from '../services/publicHolidays.js';
+import * as payroll from '../services/payroll.js';
+import * as taxTables from '../services/taxTables.js';
+import * as timeZones from '../services/timeZone.js';
+import * as payslips from '../services/payslips.js';
+import * as paymentSummaries from '../services/paymentSummaries.js';
 import type { App } from '../index.js';
 
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
 export function registerPayslipRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
+  /**
+   * Sum of line items of the given types already on a payslip. Runs against a db or transaction handle.
+   */
+  const getItemTotal = async (db: any, payslipId: string, itemTypes: ('shift_hours' | 'overtime' | 'allowance' | 'reimbursement' | 'tax')[]) => {
+    const items = await db.query.payslipItems.findMany({
+      where: and(
+        eq(schema.payslipItems.payslipId, payslipId),
+        inArray(schema.payslipItems.itemType, itemTypes),
+      ),
+    });
+    return items.reduce((sum: number, item: any) => sum + parseFloat(item.amount), 0);
+  };
+
+  /**
+   * Price each hours line and travel time allowance of a payslip at its multiplier of a new base rate.
+   * Flat allowances have no multiplier and keep their amounts. Runs against a db or transaction handle.
+   */
+  const repriceItems = async (db: any, payslipId: string, baseRate: number) => {
+    const items = await db.query.payslipItems.findMany({
+      where: and(
+        eq(schema.payslipItems.payslipId, payslipId),
+        inArray(schema.payslipItems.itemType, ['shift_hours', 'overtime', 'allowance']),
+      ),
+    });
+
+    for (const item of items as any[]) {
+      if (item.itemType === 'allowance' && item.rateMultiplier === null) continue;
+      const rate = roundCents(baseRate * parseFloat(item.rateMultiplier ?? '1'));
+      const amount = roundCents(parseFloat(item.quantity ?? '0') * rate);
+      await db
+        .update(schema.payslipItems)
+        .set({ rate: rate.toFixed(2), amount: amount.toFixed(2) })
+        .where(eq(schema.payslipItems.id, item.id));
+    }
+  };
+
   /**
    * Generate payslip from timesheets
    */
   app.fastify.post('/api/payslips/generate', {
     schema: {
-      description: 'Generate a payslip from timesheets for a pay period',
+      description: 'Generate a payslip from approved timesheets for a pay period. Hours (actual or scheduled per the provider\'s policy) are interpreted under the SCHADS award into penalty, overtime and minimum engagement lines; approved travel and expense claims are added. PAYG withholding follows the worker\'s TFN declaration and super is calculated on ordinary time earnings.',
       tags: ['payslips'],
       body: {
         type: 'object',
@@ -46,80 +90,22 @@ export function registerPayslipRoutes(app: App) {
       return reply.status(403).send({ error: 'Worker not assigned to this provider' });
     }
 
-    const startDate = new Date(payPeriodStartDate);
-    const endDate = new Date(payPeriodEndDate);
-
-    // Get all approved timesheets for the period
-    const timesheets = await app.db.query.timesheets.findMany({
-      where: and(
-        eq(schema.timesheets.supportWorkerId, supportWorkerId),
-        eq(schema.timesheets.status, 'approved' as any),
-      ),
-    });
-
-    // Filter by date range
-    const periodTimesheets = timesheets.filter((ts: any) => {
-      const tsDate = new Date(ts.startTime);
-      return tsDate >= startDate && tsDate <= endDate;
-    });
-
-    // Calculate total hours
-    let totalHours = 0;
-    for (const ts of periodTimesheets) {
-      if ((ts as any).totalHours) {
-        totalHours += parseFloat((ts as any).totalHours.toString());
-      }
-    }
-
-    const rate = parseFloat(hourlyRate);
-    const grossPay = totalHours * rate;
-    const deductionsAmount = parseFloat(deductions);
-    const netPay = grossPay - deductionsAmount;
-
-    // Create payslip
-    const newPayslip = await app.db
-      .insert(schema.payslips)
-      .values({
-        supportWorkerId,
+    let payslip;
+    try {
+      payslip = await payslips.generatePayslip(app, {
         serviceProviderId: session.user.id,
-        payPeriodStartDate: startDate,
-        payPeriodEndDate: endDate,
-        totalHours: totalHours.toString(),
-        hourlyRate: hourlyRate,
-        grossPay: grossPay.toString(),
-        deductions: deductions,
-        netPay: netPay.toString(),
+        supportWorkerId,
+        startDate: new Date(payPeriodStartDate),
+        endDate: new Date(payPeriodEndDate),
+        hourlyRate,
+        deductions,
         notes,
-        status: 'draft',
-      })
-      .returning();
-
-    // Create payslip line items
-    if (periodTimesheets.length > 0) {
-      await app.db
-        .insert(schema.payslipItems)
-        .values({
-          payslipId: newPayslip[0].id,
-          itemType: 'shift_hours' as const,
-          description: `Hours worked (${periodTimesheets.length} shifts)`,
-          quantity: totalHours.toString(),
-          rate: hourlyRate,
-          amount: grossPay.toString(),
-        });
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
     }
 
-    if (deductionsAmount > 0) {
-      await app.db
-        .insert(schema.payslipItems)
-        .values({
-          payslipId: newPayslip[0].id,
-          itemType: 'deduction' as const,
-          description: 'Deductions',
-          amount: deductions,
-        });
-    }
-
-    return reply.status(201).send(newPayslip[0]);
+    return reply.status(201).send(payslip);
   });
 
   /**
@@ -127,7 +113,7 @@ export function registerPayslipRoutes(app: App) {
    */
   app.fastify.get('/api/payslips', {
     schema: {
-      description: 'Get payslips',
+      description: 'Get payslips, each with year-to-date totals for its financial year',
       tags: ['payslips'],
       querystring: {
         type: 'object',
@@ -162,8 +148,9 @@ export function registerPayslipRoutes(app: App) {
     const payslips = await app.db.query.payslips.findMany({
       where: whereCondition,
     });
+    const ytd = await paymentSummaries.getYearToDate(app, payslips);
 
-    // Enrich payslips with worker information
+    // Enrich payslips with worker information and financial year to date totals
     const enrichedPayslips = await Promise.all(
       payslips.map(async (payslip: any) => {
         const workerUser = await app.db.query.user.findFirst({
@@ -173,6 +160,7 @@ export function registerPayslipRoutes(app: App) {
           ...payslip,
           workerName: workerUser?.name || 'Unknown',
           workerEmail: workerUser?.email || 'Unknown',
+          ytd: ytd.get(payslip.id),
         };
       }),
     );
@@ -185,7 +173,7 @@ export function registerPayslipRoutes(app: App) {
    */
   app.fastify.get('/api/payslips/:payslipId', {
     schema: {
-      description: 'Get payslip details with line items',
+      description: 'Get payslip details with line items and year-to-date totals',
       tags: ['payslips'],
       params: {
         type: 'object',
@@ -220,12 +208,14 @@ export function registerPayslipRoutes(app: App) {
     const workerUser = await app.db.query.user.findFirst({
       where: eq(authSchema.user.id, (payslip as any).supportWorkerId),
     });
+    const ytd = await paymentSummaries.getYearToDate(app, [payslip]);
 
     return {
       payslip: {
         ...payslip,
         workerName: workerUser?.name || 'Unknown',
         workerEmail: workerUser?.email || 'Unknown',
+        ytd: ytd.get(payslipId),
       },
       items,
     };
@@ -236,7 +226,7 @@ export function registerPayslipRoutes(app: App) {
    */
   app.fastify.patch('/api/payslips/:payslipId', {
     schema: {
-      description: 'Update a payslip (draft status only)',
+      description: 'Update a payslip (draft status only). Changing the hourly rate reprices the award lines and travel time, and recalculates PAYG withholding and super.',
       tags: ['payslips'],
       params: {
         type: 'object',
@@ -277,30 +267,79 @@ export function registerPayslipRoutes(app: App) {
       return reply.status(400).send({ error: 'Can only update draft payslips' });
     }
 
-    const updates: any = {};
+    // Withholding and super follow the new earnings
+    let relationship: any = null;
+    let table: taxTables.TaxTable | null = null;
     if (hourlyRate !== undefined) {
-      updates.hourlyRate = hourlyRate;
-      // Recalculate gross and net pay
-      const totalHours = parseFloat((payslip as any).totalHours.toString());
-      const rate = parseFloat(hourlyRate);
-      updates.grossPay = (totalHours * rate).toString();
-      const ded = deductions !== undefined ? parseFloat(deductions) : parseFloat((payslip as any).deductions.toString());
-      updates.netPay = (totalHours * rate - ded).toString();
-    }
-    if (deductions !== undefined) {
-      updates.deductions = deductions;
-      // Recalculate net pay
-      const rate = hourlyRate !== undefined ? parseFloat(hourlyRate) : parseFloat((payslip as any).hourlyRate.toString());
-      const totalHours = parseFloat((payslip as any).totalHours.toString());
-      updates.netPay = (totalHours * rate - parseFloat(deductions)).toString();
+      relationship = await app.db.query.workerProviderRelationships.findFirst({
+        where: and(
+          eq(schema.workerProviderRelationships.supportWorkerId, (payslip as any).supportWorkerId),
+          eq(schema.workerProviderRelationships.serviceProviderId, session.user.id),
+        ),
+      });
+      if (!relationship) {
+        return reply.status(403).send({ error: 'Worker not assigned to this provider' });
+      }
+
+      try {
+        const timeZone = await timeZones.getProviderTimeZone(app, session.user.id);
+        table = taxTables.tableFor(publicHolidays.dateKey(new Date((payslip as any).payPeriodEndDate), timeZone));
+      } catch (error) {
+        return reply.status(400).send({ error: (error as Error).message });
+      }
     }
-    if (notes !== undefined) updates.notes = notes;
 
-    const updated = await app.db
-      .update(schema.payslips)
-      .set(updates)
-      .where(eq(schema.payslips.id, payslipId))
-      .returning();
+    // The lines, tax, super and totals change together so a failure can't leave them disagreeing
+    const updated = await app.db.transaction(async (tx: any) => {
+      const updates: any = {};
+      let grossPay = parseFloat((payslip as any).grossPay.toString());
+      let taxTotal = await getItemTotal(tx, payslipId, ['tax']);
+
+      if (hourlyRate !== undefined && table) {
+        updates.hourlyRate = hourlyRate;
+        // Reprice every award segment and travel time against the new base rate; flat allowances stay
+        await repriceItems(tx, payslipId, parseFloat(hourlyRate));
+        grossPay = await getItemTotal(tx, payslipId, ['shift_hours', 'overtime', 'allowance']);
+        updates.grossPay = grossPay.toFixed(2);
+
+        const taxLines = payroll.calculateWithholding(
+          grossPay,
+          payroll.periodWeeks(new Date((payslip as any).payPeriodStartDate), new Date((payslip as any).payPeriodEndDate)),
+          relationship as payroll.TaxDeclaration,
+          table,
+        );
+        const items = await tx.query.payslipItems.findMany({
+          where: eq(schema.payslipItems.payslipId, payslipId),
+        });
+
+        await tx
+          .delete(schema.payslipItems)
+          .where(and(
+            eq(schema.payslipItems.payslipId, payslipId),
+            inArray(schema.payslipItems.itemType, ['tax', 'super']),
+          ));
+        await payslips.insertTaxAndSuper(tx, payslipId, taxLines, payroll.ordinaryTimeEarnings(items as any[]), table);
+
+        taxTotal = taxLines.reduce((sum, line) => sum + line.amount, 0);
+        updates.taxTableVersion = table.version;
+      }
+      if (deductions !== undefined) {
+        updates.deductions = deductions;
+      }
+      if (hourlyRate !== undefined || deductions !== undefined) {
+        // Recalculate net pay; reimbursements don't change with the hourly rate
+        const reimbursementTotal = await getItemTotal(tx, payslipId, ['reimbursement']);
+        const ded = deductions !== undefined ? parseFloat(deductions) : parseFloat((payslip as any).deductions.toString());
+        updates.netPay = (grossPay - taxTotal - ded + reimbursementTotal).toFixed(2);
+      }
+      if (notes !== undefined) updates.notes = notes;
+
+      return tx
+        .update(schema.payslips)
+        .set(updates)
+        .where(eq(schema.payslips.id, payslipId))
+        .returning();
+    });
 
     return updated[0];
   });
@@ -341,15 +380,72 @@ export function registerPayslipRoutes(app: App) {
       return reply.status(400).send({ error: 'Only draft payslips can be issued' });
     }
 
+    if ((payslip as any).payRunId) {
+      return reply.status(400).send({ error: 'Payslips in a pay run are issued by finalising the pay run' });
+    }
+
     const updated = await app.db
       .update(schema.payslips)
       .set({ status: 'issued', issuedDate: new Date() })
       .where(eq(schema.payslips.id, payslipId))
       .returning();
 
+    // The PDF is rendered again on first download if storing it fails here
+    try {
+      updated[0].pdfStorageKey = await payslips.storePayslipPdf(app, payslipId);
+    } catch (error) {
+      app.logger.error({ err: error, payslipId }, 'Failed to store payslip PDF');
+    }
+
     return updated[0];
   });
 
+  /**
+   * Get a payslip PDF
+   */
+  app.fastify.get('/api/payslips/:payslipId/pdf', {
+    schema: {
+      description: 'Signed URL to download an issued or paid payslip as a PDF. Available to the service provider and the support worker.',
+      tags: ['payslips'],
+      params: {
+        type: 'object',
+        properties: { payslipId: { type: 'string' } },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { url: { type: 'string' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { payslipId } = request.params as { payslipId: string };
+
+    const payslip = await app.db.query.payslips.findFirst({
+      where: eq(schema.payslips.id, payslipId),
+    });
+
+    if (!payslip) {
+      return reply.status(404).send({ error: 'Payslip not found' });
+    }
+
+    if ((payslip as any).serviceProviderId !== session.user.id && (payslip as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to access this payslip' });
+    }
+
+    if ((payslip as any).status === 'draft') {
+      return reply.status(400).send({ error: 'Draft payslips have no PDF until they are issued' });
+    }
+
+    const key = (payslip as any).pdfStorageKey ?? await payslips.storePayslipPdf(app, payslipId);
+    const { url } = await app.storage.getSignedUrl(key);
+
+    return { url };
+  });
+
   /**
    * Mark payslip as paid
    */
@@ -386,13 +482,13 @@ export function registerPayslipRoutes(app: App) {
       return reply.status(400).send({ error: 'Only issued payslips can be marked as paid' });
     }
 
-    const updated = await app.db
-      .update(schema.payslips)
-      .set({ status: 'paid', paidDate: new Date() })
-      .where(eq(schema.payslips.id, payslipId))
-      .returning();
+    if ((payslip as any).payRunId) {
+      return reply.status(400).send({ error: 'Payslips in a pay run are marked paid by marking the pay run exported' });
+    }
 
-    return updated[0];
+    const [updated] = await payslips.markPayslipsPaid(app.db, [payslipId]);
+
+    return updated;
   });
 
   /**
@@ -445,12 +541,18 @@ export function registerPayslipRoutes(app: App) {
    */
   app.fastify.get('/api/payslips/summary/:workerId', {
     schema: {
-      description: 'Get payslip summary for a worker',
+      description: 'Get payslip summary for a worker: lifetime counts plus totals for a financial year (the current one by default)',
       tags: ['payslips'],
       params: {
         type: 'object',
         properties: { workerId: { type: 'string' } },
       },
+      querystring: {
+        type: 'object',
+        properties: {
+          financialYear: { type: 'integer', minimum: 2000, maximum: 2100 },
+        },
+      },
       response: {
         200: {
           type: 'object',
@@ -459,6 +561,20 @@ export function registerPayslipRoutes(app: App) {
             totalPaid: { type: 'number' },
             totalPending: { type: 'number' },
             lastPayslip: { type: 'object' },
+            financialYear: { type: 'integer' },
+            financialYearLabel: { type: 'string' },
+            yearToDate: {
+              type: 'object',
+              properties: {
+                payslips: { type: 'integer' },
+                gross: { type: 'number' },
+                tax: { type: 'number' },
+                super: { type: 'number' },
+                deductions: { type: 'number' },
+                reimbursements: { type: 'number' },
+                net: { type: 'number' },
+              },
+            },
           },
         },
       },
@@ -468,6 +584,9 @@ export function registerPayslipRoutes(app: App) {
     if (!session) return;
 
     const { workerId } = request.params as { workerId: string };
+    const query = request.query as { financialYear?: number };
+    const financialYear = query.financialYear
+      ?? paymentSummaries.financialYear(new Date(), await timeZones.getProviderTimeZone(app, session.user.id));
 
     // Service provider accessing worker data
     const relationship = await app.db.query.workerProviderRelationships.findFirst({
@@ -502,11 +621,16 @@ export function registerPayslipRoutes(app: App) {
 
     const lastPayslip = payslips.length > 0 ? payslips[payslips.length - 1] : null;
 
+    const yearSummary = await paymentSummaries.getPaymentSummary(app, workerId, session.user.id, financialYear);
+
     return {
       totalPayslips: payslips.length,
       totalPaid,
       totalPending,
       lastPayslip,
+      financialYear,
+      financialYearLabel: yearSummary.label,
+      yearToDate: { payslips: yearSummary.payslips.length, ...yearSummary.totals },
     };
   });
 }
@@ -0,0 +1,229 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as publicHolidays from '../services/publicHolidays.js';
+import type { App } from '../index.js';
+
+const MAX_FILE_SIZE = 1024 * 1024; // 1MB
+
+const idParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', format: 'uuid' } },
+};
+
+export function registerPublicHolidayRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * The user's service provider profile, or null (with a 403 sent) if they aren't a provider
+   */
+  const getProviderForUser = async (userId: string, reply: FastifyReply) => {
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, userId),
+    });
+    if (!provider) {
+      reply.status(403).send({ error: 'Only service providers can manage public holidays' });
+      return null;
+    }
+    return provider as any;
+  };
+
+  /**
+   * List public holidays
+   */
+  app.fastify.get('/api/public-holidays', {
+    schema: {
+      description: 'Public holidays for a provider\'s state between two years: the bundled calendar (or an imported one for the years it covers) plus local holidays. Workers pass the provider they work for.',
+      tags: ['public-holidays'],
+      querystring: {
+        type: 'object',
+        properties: {
+          providerId: { type: 'string' },
+          fromYear: { type: 'integer', minimum: 2000, maximum: 2100 },
+          toYear: { type: 'integer', minimum: 2000, maximum: 2100 },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const thisYear = new Date().getFullYear();
+    const { providerId = session.user.id, fromYear = thisYear, toYear = fromYear } = request.query as {
+      providerId?: string;
+      fromYear?: number;
+      toYear?: number;
+    };
+
+    if (toYear < fromYear || toYear - fromYear > 5) {
+      return reply.status(400).send({ error: 'toYear must be from fromYear to five years after it' });
+    }
+
+    if (providerId !== session.user.id) {
+      const relationship = await app.db.query.workerProviderRelationships.findFirst({
+        where: and(
+          eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+          eq(schema.workerProviderRelationships.serviceProviderId, providerId),
+        ),
+      });
+      if (!relationship) {
+        return reply.status(403).send({ error: 'Not authorized to view this provider\'s holidays' });
+      }
+    }
+
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, providerId),
+    });
+
+    return {
+      state: (provider as any)?.state ?? null,
+      holidays: await publicHolidays.getHolidays(app, providerId, fromYear, toYear),
+    };
+  });
+
+  /**
+   * Add a local holiday
+   */
+  app.fastify.post('/api/public-holidays', {
+    schema: {
+      description: 'Add a local holiday (e.g. a regional show day) to the provider\'s calendar',
+      tags: ['public-holidays'],
+      body: {
+        type: 'object',
+        required: ['date', 'name'],
+        properties: {
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+          name: { type: 'string', minLength: 1 },
+        },
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const provider = await getProviderForUser(session.user.id, reply);
+    if (!provider) return;
+
+    const { date, name } = request.body as { date: string; name: string };
+    const parsed = publicHolidays.parseHolidayDate(date);
+    if (!parsed) {
+      return reply.status(400).send({ error: 'date must be a valid YYYY-MM-DD date' });
+    }
+
+    const [holiday] = await app.db
+      .insert(schema.publicHolidays)
+      .values({
+        serviceProviderId: session.user.id,
+        date: parsed,
+        name: name.trim(),
+        source: 'manual',
+      })
+      .returning();
+
+    app.logger.info({ userId: session.user.id, date: parsed }, 'Local holiday added');
+
+    return reply.status(201).send(holiday);
+  });
+
+  /**
+   * Import a holiday calendar file
+   */
+  app.fastify.post('/api/public-holidays/import', {
+    schema: {
+      description: 'Import public holidays from an ICS or CSV file. The import replaces the bundled calendar, and any earlier import, for each year it covers. CSVs with a Jurisdiction column are filtered to the provider\'s state.',
+      tags: ['public-holidays'],
+      consumes: ['multipart/form-data'],
+      response: {
+        201: { type: 'object' },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const provider = await getProviderForUser(session.user.id, reply);
+    if (!provider) return;
+
+    const data = await request.file({ limits: { fileSize: MAX_FILE_SIZE } });
+    if (!data) {
+      return reply.status(400).send({ error: 'No file provided' });
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await data.toBuffer();
+    } catch (err) {
+      return reply.status(413).send({ error: 'File too large' });
+    }
+
+    let holidays: publicHolidays.Holiday[];
+    try {
+      holidays = publicHolidays.readHolidayFile(buffer, data.filename, data.mimetype, provider.state ?? null);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const years = [...new Set(holidays.map((holiday) => Number(holiday.date.slice(0, 4))))].sort();
+
+    await app.db.transaction(async (tx: any) => {
+      const existing = await tx.query.publicHolidays.findMany({
+        where: and(
+          eq(schema.publicHolidays.serviceProviderId, session.user.id),
+          eq(schema.publicHolidays.source, 'import'),
+        ),
+      });
+      const replaced = existing.filter((row: any) => years.includes(Number(row.date.slice(0, 4))));
+      if (replaced.length > 0) {
+        await tx.delete(schema.publicHolidays).where(inArray(schema.publicHolidays.id, replaced.map((row: any) => row.id)));
+      }
+
+      await tx.insert(schema.publicHolidays).values(
+        holidays.map((holiday) => ({
+          serviceProviderId: session.user.id,
+          date: holiday.date,
+          name: holiday.name,
+          source: 'import' as const,
+        })),
+      );
+    });
+
+    app.logger.info({ userId: session.user.id, count: holidays.length, years }, 'Public holidays imported');
+
+    return reply.status(201).send({ imported: holidays.length, years });
+  });
+
+  /**
+   * Remove an imported or local holiday
+   */
+  app.fastify.delete('/api/public-holidays/:id', {
+    schema: {
+      description: 'Remove an imported or local holiday. Bundled holidays can only be replaced by importing a calendar.',
+      tags: ['public-holidays'],
+      params: idParams,
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const deleted = await app.db
+      .delete(schema.publicHolidays)
+      .where(and(
+        eq(schema.publicHolidays.id, id),
+        eq(schema.publicHolidays.serviceProviderId, session.user.id),
+      ))
+      .returning();
+
+    if (deleted.length === 0) {
+      return reply.status(404).send({ error: 'Holiday not found' });
+    }
+
+    return { success: true };
+  });
+}
@@ -3,6 +3,7 @@ import { eq, and, inArray } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
 import * as expoService from '../services/expo.js';
+import * as pushDelivery from '../services/pushDelivery.js';
 import type { App } from '../index.js';
 
 export function registerPushNotificationRoutes(app: App) {
@@ -345,15 +346,9 @@ export function registerPushNotificationRoutes(app: App) {
     }
 
     try {
-      // Get all tokens for the users
-      const allTokens = await app.db.query.pushNotificationTokens.findMany({
-        where: and(
-          inArray(schema.pushNotificationTokens.userId, userIds),
-          eq(schema.pushNotificationTokens.isValid, true),
-        ),
-      });
+      const result = await pushDelivery.sendBulkPush(app, { userIds, title, message, data, priority });
 
-      if (allTokens.length === 0) {
+      if (result.usersReached === 0) {
         return reply.status(200).send({
           success: false,
           totalSent: 0,
@@ -363,59 +358,12 @@ export function registerPushNotificationRoutes(app: App) {
         });
       }
 
-      const tokenStrings = allTokens.map((t) => (t as any).token);
-
-      // Send notifications
-      const result = await expoService.sendPushNotifications({
-        tokens: tokenStrings,
-        title,
-        message,
-        data,
-        priority: priority as 'default' | 'high' | undefined,
-      });
-
-      // Handle invalid tokens
-      if (result.invalidTokens && result.invalidTokens.length > 0) {
-        for (const invalidToken of result.invalidTokens) {
-          await app.db
-            .update(schema.pushNotificationTokens)
-            .set({ isValid: false, updatedAt: new Date() })
-            .where(eq(schema.pushNotificationTokens.token, invalidToken));
-        }
-      }
-
-      // Log notification attempts and update last used time
-      for (const token of allTokens) {
-        const tokenStr = (token as any).token;
-        const isInvalidToken = result.invalidTokens?.includes(tokenStr);
-
-        await app.db.insert(schema.pushNotificationAttempts).values({
-          userId: (token as any).userId,
-          token: tokenStr,
-          title,
-          message,
-          notificationType: 'general' as any,
-          status: isInvalidToken ? ('invalid_token' as any) : ('sent' as any),
-          data: JSON.stringify(data || {}),
-        });
-
-        // Update last used time for valid tokens
-        if (!isInvalidToken) {
-          await app.db
-            .update(schema.pushNotificationTokens)
-            .set({ lastUsedAt: new Date(), updatedAt: new Date() })
-            .where(eq(schema.pushNotificationTokens.token, tokenStr));
-        }
-      }
-
-      const uniqueUsers = new Set(allTokens.map((t) => (t as any).userId)).size;
-
       return reply.status(201).send({
-        success: result.sent > 0,
-        totalSent: result.sent,
-        totalFailed: result.failed,
-        usersReached: uniqueUsers,
-        message: `Sent to ${result.sent} device(s) across ${uniqueUsers} user(s)${result.invalidTokens?.length ? `, ${result.invalidTokens.length} invalid token(s) marked` : ''}`,
+        success: result.totalSent > 0,
+        totalSent: result.totalSent,
+        totalFailed: result.totalFailed,
+        usersReached: result.usersReached,
+        message: `Sent to ${result.totalSent} device(s) across ${result.usersReached} user(s)${result.invalidTokens.length ? `, ${result.invalidTokens.length} invalid token(s) marked` : ''}`,
       });
     } catch (error) {
       console.error('Error sending bulk push notifications:', error);
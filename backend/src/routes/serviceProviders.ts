@@ -2,6 +2,9 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
+import * as publicHolidays from '../services/publicHolidays.js';
+import * as bankDetails from '../services/bankDetails.js';
+import * as timeZones from '../services/timeZone.js';
 import type { App } from '../index.js';
 
 export function registerServiceProviderRoutes(app: App) {
@@ -92,7 +95,7 @@ export function registerServiceProviderRoutes(app: App) {
       return reply.status(404).send({ error: 'Service provider profile not found' });
     }
 
-    return provider;
+    return bankDetails.redactProfile(provider);
   });
 
   /**
@@ -111,6 +114,17 @@ export function registerServiceProviderRoutes(app: App) {
           companyPhone: { type: 'string' },
           companyAddress: { type: 'string' },
           website: { type: 'string' },
+          timezone: { type: 'string', enum: [...timeZones.AU_TIME_ZONES] },
+          minRestHours: { type: 'string' },
+          maxDailyHours: { type: 'string' },
+          maxWeeklyHours: { type: 'string' },
+          sleepoverAllowance: { type: 'string' },
+          geofenceRadiusMeters: { type: 'integer', minimum: 50 },
+          varianceToleranceMinutes: { type: 'integer', minimum: 0 },
+          payHoursPolicy: { type: 'string', enum: ['actual', 'scheduled'] },
+          kmAllowanceRate: { type: 'string' },
+          kmBillingRate: { type: 'string' },
+          state: { type: ['string', 'null'], enum: [...publicHolidays.AU_STATES, null] },
         },
       },
       response: { 200: { type: 'object' } },
@@ -121,6 +135,11 @@ export function registerServiceProviderRoutes(app: App) {
 
     const updates = request.body as any;
 
+    // Picking a state also moves the provider to its time zone unless one is given
+    if (updates.state && !updates.timezone) {
+      updates.timezone = timeZones.STATE_TIME_ZONES[updates.state as publicHolidays.AuState];
+    }
+
     const updated = await app.db
       .update(schema.serviceProviders)
       .set(updates)
@@ -131,7 +150,70 @@ export function registerServiceProviderRoutes(app: App) {
       return reply.status(404).send({ error: 'Service provider profile not found' });
     }
 
-    return updated[0];
+    return bankDetails.redactProfile(updated[0]);
+  });
+
+  /**
+   * Set the account pay runs are paid from
+   */
+  app.fastify.put('/api/service-providers/bank-details', {
+    schema: {
+      description: 'Set the bank account and APCA direct entry details used to export pay runs as ABA files. The account is stored encrypted and returned masked.',
+      tags: ['service-providers'],
+      body: {
+        type: 'object',
+        properties: {
+          bsb: { type: 'string' },
+          accountNumber: { type: 'string' },
+          accountName: { type: 'string' },
+          financialInstitution: { type: 'string', description: 'Three letter bank code, e.g. CBA' },
+          apcaUserId: { type: 'string', description: 'Six digit user ID issued by the bank' },
+        },
+        required: ['bsb', 'accountNumber', 'accountName', 'financialInstitution', 'apcaUserId'],
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { financialInstitution, apcaUserId, ...account } = request.body as bankDetails.BankDetails & {
+      financialInstitution: string;
+      apcaUserId: string;
+    };
+
+    let details: bankDetails.BankDetails;
+    try {
+      details = bankDetails.validateBankDetails(account);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const institution = financialInstitution.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(institution)) {
+      return reply.status(400).send({ error: 'Financial institution must be a three letter bank code, e.g. CBA' });
+    }
+    if (!/^\d{6}$/.test(apcaUserId.trim())) {
+      return reply.status(400).send({ error: 'APCA user ID must be six digits' });
+    }
+
+    const updated = await app.db
+      .update(schema.serviceProviders)
+      .set({
+        bankDetails: bankDetails.encryptBankDetails(details),
+        financialInstitution: institution,
+        apcaUserId: apcaUserId.trim(),
+      })
+      .where(eq(schema.serviceProviders.userId, session.user.id))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(404).send({ error: 'Service provider profile not found' });
+    }
+
+    app.logger.info({ userId: session.user.id }, 'Provider bank details updated');
+
+    return bankDetails.redactProfile(updated[0]);
   });
 
   /**
@@ -209,7 +291,7 @@ export function registerServiceProviderRoutes(app: App) {
       where: eq(schema.supportWorkers.userId, workerId),
     });
 
-    return { relationship, worker };
+    return { relationship, worker: worker ? bankDetails.redactProfile(worker) : worker };
   });
 
   /**
@@ -275,6 +357,7 @@ export function registerServiceProviderRoutes(app: App) {
           startDate: { type: 'string' },
           endDate: { type: 'string' },
           status: { type: 'string' },
+          locationFlagged: { type: 'boolean', description: 'Filter by whether a punch was flagged for review' },
         },
       },
       response: {
@@ -289,7 +372,12 @@ export function registerServiceProviderRoutes(app: App) {
     if (!session) return;
 
     const { workerId } = request.params as { workerId: string };
-    const { startDate, endDate, status } = request.query as { startDate?: string; endDate?: string; status?: string };
+    const { startDate, endDate, status, locationFlagged } = request.query as {
+      startDate?: string;
+      endDate?: string;
+      status?: string;
+      locationFlagged?: boolean;
+    };
 
     // Verify the worker is assigned to this provider
     const relationship = await app.db.query.workerProviderRelationships.findFirst({
@@ -310,6 +398,10 @@ export function registerServiceProviderRoutes(app: App) {
       whereCondition = and(whereCondition, eq(schema.timesheets.status, status as any));
     }
 
+    if (locationFlagged !== undefined) {
+      whereCondition = and(whereCondition, eq(schema.timesheets.locationFlagged, locationFlagged));
+    }
+
     const timesheets = await app.db.query.timesheets.findMany({
       where: whereCondition,
     });
@@ -489,7 +581,7 @@ export function registerServiceProviderRoutes(app: App) {
             id: rel.supportWorkerId,
             name: workerUser?.name || 'Unknown',
             email: workerUser?.email || 'Unknown',
-            profile: workerProfile,
+            profile: workerProfile ? bankDetails.redactProfile(workerProfile) : workerProfile,
           },
           shiftCount: workerShifts.length,
           timesheetCount: timesheets.length,
@@ -0,0 +1,166 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as rosterImport from '../services/rosterImport.js';
+import type { App } from '../index.js';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const importQuerystring = {
+  type: 'object',
+  properties: {
+    timezoneOffset: {
+      type: 'integer',
+      description: 'Minutes behind UTC for spreadsheet times, as from Date.getTimezoneOffset(). Defaults to UTC.',
+    },
+  },
+};
+
+export function registerShiftImportRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Read the uploaded roster and validate it for the provider, sending a 400 when the
+   * file itself can't be used. Returns null once a reply has been sent.
+   */
+  const validateUpload = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    serviceProviderId: string,
+  ): Promise<rosterImport.ImportValidation | null> => {
+    const data = await request.file({ limits: { fileSize: MAX_FILE_SIZE } });
+    if (!data) {
+      reply.status(400).send({ error: 'No file provided' });
+      return null;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await data.toBuffer();
+    } catch (err) {
+      reply.status(413).send({ error: 'File too large' });
+      return null;
+    }
+
+    const { timezoneOffset = 0 } = request.query as { timezoneOffset?: number };
+
+    try {
+      const cells = await rosterImport.readSpreadsheet(buffer, data.filename, data.mimetype);
+      return await rosterImport.validateRoster(app, serviceProviderId, cells, timezoneOffset);
+    } catch (error) {
+      reply.status(400).send({ error: (error as Error).message });
+      return null;
+    }
+  };
+
+  /**
+   * Whether the user is a service provider
+   */
+  const isServiceProvider = async (userId: string) => {
+    const role = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, userId),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+    return !!role;
+  };
+
+  /**
+   * Validate a roster spreadsheet without saving anything
+   */
+  app.fastify.post('/api/shifts/import/validate', {
+    schema: {
+      description: 'Dry run of a CSV or XLSX roster import with per-row errors and warnings',
+      tags: ['shifts'],
+      consumes: ['multipart/form-data'],
+      querystring: importQuerystring,
+      response: {
+        200: { type: 'object', additionalProperties: true },
+        400: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    if (!(await isServiceProvider(session.user.id))) {
+      return reply.status(403).send({ error: 'Only service providers can import rosters' });
+    }
+
+    const validation = await validateUpload(request, reply, session.user.id);
+    if (!validation) return;
+
+    app.logger.info(
+      { userId: session.user.id, ...validation.summary },
+      'Roster import validated',
+    );
+
+    return validation;
+  });
+
+  /**
+   * Import a roster spreadsheet, creating every shift in a single transaction
+   */
+  app.fastify.post('/api/shifts/import', {
+    schema: {
+      description: 'Import a CSV or XLSX roster. Nothing is saved if any row has errors; warnings need force.',
+      tags: ['shifts'],
+      consumes: ['multipart/form-data'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...importQuerystring.properties,
+          force: { type: 'boolean', description: 'Import despite rostering and availability warnings' },
+          overrideReason: { type: 'string' },
+        },
+      },
+      response: {
+        201: { type: 'object', additionalProperties: true },
+        400: { type: 'object' },
+        409: { type: 'object', additionalProperties: true },
+        422: { type: 'object', additionalProperties: true },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    if (!(await isServiceProvider(session.user.id))) {
+      return reply.status(403).send({ error: 'Only service providers can import rosters' });
+    }
+
+    const { force = false, overrideReason } = request.query as { force?: boolean; overrideReason?: string };
+
+    // Validate again rather than trusting an earlier dry run; the roster may have changed since
+    const validation = await validateUpload(request, reply, session.user.id);
+    if (!validation) return;
+
+    if (validation.summary.errorRows > 0) {
+      return reply.status(422).send({ error: 'Roster has rows with errors', ...validation });
+    }
+
+    if (validation.summary.warningRows > 0 && !force) {
+      return reply.status(409).send({ error: 'Roster has rows with warnings', ...validation });
+    }
+
+    const shiftIds = await rosterImport.commitRoster(
+      app,
+      session.user.id,
+      session.user.id,
+      validation,
+      overrideReason,
+    );
+
+    app.logger.info(
+      { userId: session.user.id, imported: shiftIds.length },
+      'Roster imported',
+    );
+
+    return reply.status(201).send({
+      imported: shiftIds.length,
+      shiftIds,
+      ...validation,
+    });
+  });
+}
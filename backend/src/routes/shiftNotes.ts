@@ -1,6 +1,8 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc, inArray } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as offlineSync from '../services/offlineSync.js';
 import type { App } from '../index.js';
 
 export function registerShiftNotesRoutes(app: App) {
@@ -58,6 +60,11 @@ export function registerShiftNotesRoutes(app: App) {
       where: eq(schema.shiftNotes.shiftId, shiftId),
     });
 
+    // The provider's choice of client is what clock-in locations are checked against
+    if (clientId && (shift as any).serviceProviderId === session.user.id) {
+      await app.db.update(schema.shifts).set({ clientId }).where(eq(schema.shifts.id, shiftId));
+    }
+
     if (existingNotes) {
       // Update existing notes
       const updated = await app.db
@@ -185,6 +192,10 @@ export function registerShiftNotesRoutes(app: App) {
       return reply.status(403).send({ error: 'Not authorized to update notes for this shift' });
     }
 
+    if (updates.clientId && (shift as any).serviceProviderId === session.user.id) {
+      await app.db.update(schema.shifts).set({ clientId: updates.clientId }).where(eq(schema.shifts.id, shiftId));
+    }
+
     const updated = await app.db
       .update(schema.shiftNotes)
       .set(updates)
@@ -239,4 +250,134 @@ export function registerShiftNotesRoutes(app: App) {
     return reply.status(204).send();
   });
 
+  /**
+   * Add a timestamped note entry to a shift
+   */
+  app.fastify.post('/api/shifts/:shiftId/note-entries', {
+    schema: {
+      description: 'Add a progress, medication, incident or general note. Notes written offline keep their device time.',
+      tags: ['shift-notes'],
+      params: {
+        type: 'object',
+        properties: { shiftId: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          noteType: { type: 'string', enum: ['progress', 'medication', 'incident', 'general'] },
+          content: { type: 'string', minLength: 1 },
+          occurredAt: { type: 'string', description: 'Device time of a note queued offline' },
+        },
+        required: ['content'],
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { shiftId } = request.params as { shiftId: string };
+    const { noteType = 'general', content, occurredAt } = request.body as {
+      noteType?: 'progress' | 'medication' | 'incident' | 'general';
+      content: string;
+      occurredAt?: string;
+    };
+
+    // Verify the shift exists and user has access
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, shiftId),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    // Verify access
+    if (
+      (shift as any).serviceProviderId !== session.user.id &&
+      (shift as any).supportWorkerId !== session.user.id
+    ) {
+      return reply.status(403).send({ error: 'Not authorized to add notes to this shift' });
+    }
+
+    if (await offlineSync.sendIfReplayed(app, request, reply, session.user.id)) return;
+
+    let recordedAt: Date;
+    try {
+      recordedAt = offlineSync.deviceTime(occurredAt);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const created = await app.db
+      .insert(schema.shiftNoteEntries)
+      .values({
+        shiftId,
+        authorId: session.user.id,
+        noteType,
+        content: content.trim(),
+        recordedAt,
+      })
+      .returning();
+
+    return reply.status(201).send({ ...created[0], authorName: session.user.name });
+  });
+
+  /**
+   * Get the note entries for a shift
+   */
+  app.fastify.get('/api/shifts/:shiftId/note-entries', {
+    schema: {
+      description: 'Note entries for a shift, newest first, with author names',
+      tags: ['shift-notes'],
+      params: {
+        type: 'object',
+        properties: { shiftId: { type: 'string' } },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { shiftId } = request.params as { shiftId: string };
+
+    // Verify the shift exists and user has access
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, shiftId),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    // Verify access
+    if (
+      (shift as any).serviceProviderId !== session.user.id &&
+      (shift as any).supportWorkerId !== session.user.id
+    ) {
+      return reply.status(403).send({ error: 'Not authorized to view notes for this shift' });
+    }
+
+    const entries = await app.db.query.shiftNoteEntries.findMany({
+      where: eq(schema.shiftNoteEntries.shiftId, shiftId),
+      orderBy: [desc(schema.shiftNoteEntries.recordedAt)],
+    });
+
+    const authorIds = [...new Set(entries.map((e: any) => e.authorId))] as string[];
+    const authors = authorIds.length > 0
+      ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, authorIds) })
+      : [];
+    const authorNames = new Map(authors.map((u: any) => [u.id, u.name]));
+
+    return entries.map((entry: any) => ({
+      ...entry,
+      authorName: authorNames.get(entry.authorId) || 'Unknown',
+    }));
+  });
 }
@@ -0,0 +1,648 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, gte, asc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as recurrence from '../services/recurrence.js';
+import * as conflicts from '../services/conflicts.js';
+import * as shiftStatus from '../services/shiftStatus.js';
+import * as shiftHolders from '../services/shiftHolders.js';
+import * as timeZones from '../services/timeZone.js';
+import type { App } from '../index.js';
+
+type EditScope = 'this' | 'following' | 'all';
+
+const occurrenceUpdateFields = ['title', 'description', 'location', 'hourlyRate', 'supportWorkerId'] as const;
+
+/**
+ * Find the occurrences affected by an edit or cancellation, oldest first.
+ * Occurrences that already have a timesheet are never touched so past work stays intact.
+ */
+async function getAffectedOccurrences(app: App, seriesId: string, target: any, scope: EditScope) {
+  let occurrences: any[];
+  if (scope === 'this') {
+    occurrences = [target];
+  } else {
+    const whereCondition = scope === 'following'
+      ? and(
+        eq(schema.shifts.seriesId, seriesId),
+        gte(schema.shifts.occurrenceStartTime, target.occurrenceStartTime),
+      )
+      : eq(schema.shifts.seriesId, seriesId);
+
+    occurrences = await app.db.query.shifts.findMany({
+      where: whereCondition,
+      orderBy: [asc(schema.shifts.occurrenceStartTime)],
+    });
+  }
+
+  if (occurrences.length === 0) {
+    return { editable: [], skipped: [] };
+  }
+
+  const timesheets = await app.db.query.timesheets.findMany({
+    where: inArray(schema.timesheets.shiftId, occurrences.map((o) => o.id)),
+  });
+  const workedShiftIds = new Set(timesheets.map((ts: any) => ts.shiftId));
+
+  const editable: any[] = [];
+  const skipped: any[] = [];
+  for (const occurrence of occurrences) {
+    const isWorked = workedShiftIds.has(occurrence.id) || occurrence.status === 'completed' || occurrence.status === 'in_progress';
+    // Individually edited occurrences keep their changes unless edited directly
+    const isOtherException = scope !== 'this' && occurrence.isSeriesException && occurrence.id !== target.id;
+    if (isWorked || isOtherException) {
+      skipped.push(occurrence);
+    } else {
+      editable.push(occurrence);
+    }
+  }
+
+  return { editable, skipped };
+}
+
+/**
+ * End a series just before the given occurrence by capping its recurrence rule
+ */
+function truncateRule(recurrenceRule: string, beforeStartTime: Date): string {
+  const rule = recurrence.parseRecurrenceRule(recurrenceRule);
+  rule.count = null;
+  rule.until = new Date(beforeStartTime.getTime() - 1000);
+  return recurrence.formatRecurrenceRule(rule);
+}
+
+export function registerShiftSeriesRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Create a recurring shift series and its occurrences
+   */
+  app.fastify.post('/api/shift-series', {
+    schema: {
+      description: 'Create a recurring shift series (service provider only)',
+      tags: ['shift-series'],
+      body: {
+        type: 'object',
+        properties: {
+          supportWorkerId: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          startTime: { type: 'string', description: 'Start of the first occurrence' },
+          endTime: { type: 'string', description: 'End of the first occurrence' },
+          location: { type: 'string' },
+          hourlyRate: { type: 'string' },
+          frequency: { type: 'string', enum: ['daily', 'weekly', 'fortnightly', 'custom'] },
+          interval: { type: 'integer', minimum: 1 },
+          byWeekday: { type: 'array', items: { type: 'string', enum: ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] } },
+          untilDate: { type: 'string' },
+          occurrenceCount: { type: 'integer', minimum: 1 },
+          recurrenceRule: { type: 'string', description: 'RRULE string, required when frequency is custom' },
+          clientId: { type: 'string' },
+          clientName: { type: 'string' },
+          taskDescription: { type: 'string' },
+          specialRequirements: { type: 'string' },
+          force: { type: 'boolean', description: 'Save despite rostering warnings' },
+          overrideReason: { type: 'string' },
+        },
+        required: ['supportWorkerId', 'title', 'startTime', 'endTime', 'frequency'],
+      },
+      response: {
+        201: { type: 'object' },
+        409: { type: 'object' },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const {
+      supportWorkerId,
+      title,
+      description,
+      startTime,
+      endTime,
+      location,
+      hourlyRate,
+      frequency,
+      interval,
+      byWeekday,
+      untilDate,
+      occurrenceCount,
+      recurrenceRule,
+      clientId,
+      clientName,
+      taskDescription,
+      specialRequirements,
+      force = false,
+      overrideReason,
+    } = request.body as any;
+
+    // Verify the worker is linked to this provider
+    const relationship = await app.db.query.workerProviderRelationships.findFirst({
+      where: and(
+        eq(schema.workerProviderRelationships.supportWorkerId, supportWorkerId),
+        eq(schema.workerProviderRelationships.serviceProviderId, session.user.id),
+      ),
+    });
+
+    if (!relationship) {
+      return reply.status(403).send({ error: 'Worker not assigned to this provider' });
+    }
+
+    const firstStartTime = new Date(startTime);
+    const firstEndTime = new Date(endTime);
+    if (isNaN(firstStartTime.getTime()) || isNaN(firstEndTime.getTime())) {
+      return reply.status(400).send({ error: 'Invalid startTime or endTime' });
+    }
+
+    // Occurrences fall on the provider's weekdays and wall-clock times
+    const timeZone = await timeZones.getProviderTimeZone(app, session.user.id);
+    let rule: recurrence.RecurrenceRule;
+    let occurrences: recurrence.Occurrence[];
+    try {
+      if (frequency === 'custom') {
+        if (!recurrenceRule) {
+          return reply.status(400).send({ error: 'recurrenceRule is required for custom frequency' });
+        }
+        rule = recurrence.parseRecurrenceRule(recurrenceRule);
+      } else {
+        rule = recurrence.buildRecurrenceRule(frequency, {
+          byWeekday,
+          interval,
+          until: untilDate ? new Date(untilDate) : null,
+          count: occurrenceCount ?? null,
+        });
+      }
+      occurrences = recurrence.expandOccurrences(rule, firstStartTime, firstEndTime, timeZone);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    if (occurrences.length === 0) {
+      return reply.status(400).send({ error: 'Recurrence pattern produces no occurrences' });
+    }
+
+    // Check every occurrence against the worker's existing roster and the earlier occurrences
+    const occurrenceConflicts: Array<{ startTime: Date; conflicts: conflicts.ShiftConflict[] }> = [];
+    for (const [index, occurrence] of occurrences.entries()) {
+      const found = await conflicts.checkShiftConflicts(app, {
+        supportWorkerId,
+        serviceProviderId: session.user.id,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        additionalShifts: occurrences.slice(0, index).map((earlier, earlierIndex) => ({
+          id: `occurrence-${earlierIndex + 1}`,
+          startTime: earlier.startTime,
+          endTime: earlier.endTime,
+        })),
+      });
+      if (found.length > 0) {
+        occurrenceConflicts.push({ startTime: occurrence.startTime, conflicts: found });
+      }
+    }
+
+    if (conflicts.isBlocking(occurrenceConflicts.flatMap((o) => o.conflicts), force)) {
+      return reply.status(409).send({ error: 'Shift series conflicts with the worker\'s roster', conflicts: occurrenceConflicts });
+    }
+
+    const result = await app.db.transaction(async (tx: any) => {
+      const [series] = await tx
+        .insert(schema.shiftSeries)
+        .values({
+          supportWorkerId,
+          serviceProviderId: session.user.id,
+          title,
+          description,
+          location,
+          hourlyRate,
+          frequency,
+          recurrenceRule: recurrence.formatRecurrenceRule(rule),
+          firstStartTime,
+          firstEndTime,
+        })
+        .returning();
+
+      const shifts = await tx
+        .insert(schema.shifts)
+        .values(occurrences.map((occurrence) => ({
+          supportWorkerId,
+          serviceProviderId: session.user.id,
+          title,
+          description,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          location,
+          hourlyRate,
+          clientId,
+          seriesId: series.id,
+          occurrenceStartTime: occurrence.startTime,
+        })))
+        .returning();
+
+      if (clientId || clientName || taskDescription || specialRequirements) {
+        await tx.insert(schema.shiftNotes).values(shifts.map((shift: any) => ({
+          shiftId: shift.id,
+          clientId,
+          clientName,
+          taskDescription,
+          specialRequirements,
+        })));
+      }
+
+      return { series, occurrences: shifts };
+    });
+
+    for (const found of occurrenceConflicts) {
+      const shift = result.occurrences.find((o: any) => o.startTime.getTime() === found.startTime.getTime());
+      if (shift) {
+        await conflicts.recordOverride(app, shift.id, session.user.id, found.conflicts, overrideReason);
+      }
+    }
+
+    return reply.status(201).send({ ...result, conflicts: occurrenceConflicts });
+  });
+
+  /**
+   * Get all shift series for the service provider
+   */
+  app.fastify.get('/api/shift-series', {
+    schema: {
+      description: 'Get shift series for the authenticated service provider',
+      tags: ['shift-series'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['active', 'cancelled'] },
+          supportWorkerId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { status, supportWorkerId } = request.query as { status?: string; supportWorkerId?: string };
+
+    let whereCondition: any = eq(schema.shiftSeries.serviceProviderId, session.user.id);
+
+    if (status) {
+      whereCondition = and(whereCondition, eq(schema.shiftSeries.status, status as any));
+    }
+
+    if (supportWorkerId) {
+      whereCondition = and(whereCondition, eq(schema.shiftSeries.supportWorkerId, supportWorkerId));
+    }
+
+    return app.db.query.shiftSeries.findMany({ where: whereCondition });
+  });
+
+  /**
+   * Get a shift series with its occurrences
+   */
+  app.fastify.get('/api/shift-series/:id', {
+    schema: {
+      description: 'Get a shift series with its occurrences',
+      tags: ['shift-series'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const series = await app.db.query.shiftSeries.findFirst({
+      where: eq(schema.shiftSeries.id, id),
+    });
+
+    if (!series) {
+      return reply.status(404).send({ error: 'Shift series not found' });
+    }
+
+    if ((series as any).serviceProviderId !== session.user.id && (series as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to access this shift series' });
+    }
+
+    const occurrences = await app.db.query.shifts.findMany({
+      where: eq(schema.shifts.seriesId, id),
+      orderBy: [asc(schema.shifts.occurrenceStartTime)],
+    });
+
+    return { series, occurrences };
+  });
+
+  /**
+   * Edit one occurrence, this and following occurrences, or the whole series
+   */
+  app.fastify.patch('/api/shift-series/:id/occurrences/:shiftId', {
+    schema: {
+      description: 'Edit an occurrence of a shift series with a scope of this, following or all',
+      tags: ['shift-series'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          shiftId: { type: 'string' },
+        },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['this', 'following', 'all'] },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          startTime: { type: 'string' },
+          endTime: { type: 'string' },
+          location: { type: 'string' },
+          hourlyRate: { type: 'string' },
+          supportWorkerId: { type: 'string' },
+          force: { type: 'boolean', description: 'Save despite rostering warnings' },
+          overrideReason: { type: 'string' },
+        },
+        required: ['scope'],
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id, shiftId } = request.params as { id: string; shiftId: string };
+    const { scope, startTime, endTime, force = false, overrideReason, ...body } = request.body as any;
+
+    const series = await app.db.query.shiftSeries.findFirst({
+      where: eq(schema.shiftSeries.id, id),
+    });
+
+    if (!series) {
+      return reply.status(404).send({ error: 'Shift series not found' });
+    }
+
+    if ((series as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to update this shift series' });
+    }
+
+    const target = await app.db.query.shifts.findFirst({
+      where: and(eq(schema.shifts.id, shiftId), eq(schema.shifts.seriesId, id)),
+    });
+
+    if (!target) {
+      return reply.status(404).send({ error: 'Occurrence not found in this series' });
+    }
+
+    // Time changes are applied as an offset to the start and a new duration,
+    // so every affected occurrence keeps its own date
+    const newStart = startTime ? new Date(startTime) : new Date((target as any).startTime);
+    const newEnd = endTime ? new Date(endTime) : new Date((target as any).endTime);
+    if (isNaN(newStart.getTime()) || isNaN(newEnd.getTime()) || newEnd <= newStart) {
+      return reply.status(400).send({ error: 'Shift end time must be after start time' });
+    }
+    const startOffsetMs = newStart.getTime() - new Date((target as any).startTime).getTime();
+    const durationMs = newEnd.getTime() - newStart.getTime();
+
+    const fieldUpdates: Record<string, any> = {};
+    for (const field of occurrenceUpdateFields) {
+      if (body[field] !== undefined) fieldUpdates[field] = body[field];
+    }
+
+    const { editable, skipped } = await getAffectedOccurrences(app, id, target, scope);
+
+    if (scope === 'this' && editable.length === 0) {
+      return reply.status(400).send({ error: 'This occurrence has already been worked and cannot be edited' });
+    }
+
+    const movedTimes = (occurrence: any) => {
+      const occurrenceStart = new Date(new Date(occurrence.startTime).getTime() + startOffsetMs);
+      return { startTime: occurrenceStart, endTime: new Date(occurrenceStart.getTime() + durationMs) };
+    };
+
+    // Re-check the roster for every occurrence that moves or changes worker. The edited
+    // occurrences are checked at their new times against each other rather than their old rows.
+    const occurrenceConflicts: Array<{ shiftId: string; conflicts: conflicts.ShiftConflict[] }> = [];
+    if (startTime || endTime || fieldUpdates.supportWorkerId) {
+      const pendingByWorker = new Map<string, conflicts.BookedShift[]>();
+      for (const occurrence of editable) {
+        const supportWorkerId = fieldUpdates.supportWorkerId ?? occurrence.supportWorkerId;
+        if (!supportWorkerId) continue;
+
+        const times = movedTimes(occurrence);
+        const pending = pendingByWorker.get(supportWorkerId) || [];
+        const found = await conflicts.checkShiftConflicts(app, {
+          supportWorkerId,
+          serviceProviderId: session.user.id,
+          ...times,
+          excludeShiftIds: editable.map((o: any) => o.id),
+          additionalShifts: pending,
+        });
+        if (found.length > 0) {
+          occurrenceConflicts.push({ shiftId: occurrence.id, conflicts: found });
+        }
+        pendingByWorker.set(supportWorkerId, [...pending, { id: occurrence.id, ...times }]);
+      }
+    }
+
+    if (conflicts.isBlocking(occurrenceConflicts.flatMap((o) => o.conflicts), force)) {
+      return reply.status(409).send({ error: 'Occurrences conflict with the worker\'s roster', conflicts: occurrenceConflicts });
+    }
+
+    const result = await app.db.transaction(async (tx: any) => {
+      let seriesId = id;
+
+      if (scope === 'following' && (target as any).occurrenceStartTime > (series as any).firstStartTime) {
+        // Split the series: the original ends before this occurrence, a new series continues from it
+        const followingCondition = and(
+          eq(schema.shifts.seriesId, id),
+          gte(schema.shifts.occurrenceStartTime, (target as any).occurrenceStartTime),
+        );
+
+        const continuationRule = recurrence.parseRecurrenceRule((series as any).recurrenceRule);
+        if (continuationRule.count !== null) {
+          continuationRule.count = (await tx.query.shifts.findMany({ where: followingCondition })).length;
+        }
+
+        await tx
+          .update(schema.shiftSeries)
+          .set({ recurrenceRule: truncateRule((series as any).recurrenceRule, (target as any).occurrenceStartTime) })
+          .where(eq(schema.shiftSeries.id, id));
+
+        const [newSeries] = await tx
+          .insert(schema.shiftSeries)
+          .values({
+            supportWorkerId: (series as any).supportWorkerId,
+            serviceProviderId: (series as any).serviceProviderId,
+            title: (series as any).title,
+            description: (series as any).description,
+            location: (series as any).location,
+            hourlyRate: (series as any).hourlyRate,
+            frequency: (series as any).frequency,
+            ...fieldUpdates,
+            recurrenceRule: recurrence.formatRecurrenceRule(continuationRule),
+            firstStartTime: newStart,
+            firstEndTime: newEnd,
+          })
+          .returning();
+        seriesId = newSeries.id;
+
+        // Every following occurrence moves to the new series, including skipped ones
+        await tx
+          .update(schema.shifts)
+          .set({ seriesId })
+          .where(followingCondition);
+      } else if (scope !== 'this') {
+        const seriesStart = new Date(new Date((series as any).firstStartTime).getTime() + startOffsetMs);
+        await tx
+          .update(schema.shiftSeries)
+          .set({
+            ...fieldUpdates,
+            firstStartTime: seriesStart,
+            firstEndTime: new Date(seriesStart.getTime() + durationMs),
+          })
+          .where(eq(schema.shiftSeries.id, id));
+      }
+
+      const updated: any[] = [];
+      for (const occurrence of editable) {
+        const [row] = await tx
+          .update(schema.shifts)
+          .set({
+            ...fieldUpdates,
+            ...movedTimes(occurrence),
+            isSeriesException: scope === 'this' ? true : occurrence.isSeriesException,
+          })
+          .where(eq(schema.shifts.id, occurrence.id))
+          .returning();
+        updated.push(row);
+
+        if (fieldUpdates.supportWorkerId) {
+          await shiftHolders.recordHolderChange(tx, {
+            shift: occurrence,
+            toWorkerId: fieldUpdates.supportWorkerId,
+            changeReason: 'assigned',
+          });
+        }
+      }
+
+      const updatedSeries = await tx.query.shiftSeries.findFirst({
+        where: eq(schema.shiftSeries.id, seriesId),
+      });
+
+      return { series: updatedSeries, updated, skipped: skipped.map((o: any) => o.id) };
+    });
+
+    for (const found of occurrenceConflicts) {
+      await conflicts.recordOverride(app, found.shiftId, session.user.id, found.conflicts, overrideReason);
+    }
+
+    return { ...result, conflicts: occurrenceConflicts };
+  });
+
+  /**
+   * Cancel one occurrence, this and following occurrences, or the whole series
+   */
+  app.fastify.post('/api/shift-series/:id/occurrences/:shiftId/cancel', {
+    schema: {
+      description: 'Cancel an occurrence of a shift series with a scope of this, following or all',
+      tags: ['shift-series'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          shiftId: { type: 'string' },
+        },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['this', 'following', 'all'] },
+          reasonCode: { type: 'string', enum: shiftStatus.CANCELLATION_REASON_CODES },
+          reason: { type: 'string', description: 'Required when the reason code is other' },
+        },
+        required: ['scope', 'reasonCode'],
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id, shiftId } = request.params as { id: string; shiftId: string };
+    const { scope, reasonCode, reason } = request.body as {
+      scope: EditScope;
+      reasonCode: shiftStatus.CancellationReasonCode;
+      reason?: string;
+    };
+
+    try {
+      shiftStatus.validateCancellationReason(reasonCode, reason);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const series = await app.db.query.shiftSeries.findFirst({
+      where: eq(schema.shiftSeries.id, id),
+    });
+
+    if (!series) {
+      return reply.status(404).send({ error: 'Shift series not found' });
+    }
+
+    if ((series as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to cancel this shift series' });
+    }
+
+    const target = await app.db.query.shifts.findFirst({
+      where: and(eq(schema.shifts.id, shiftId), eq(schema.shifts.seriesId, id)),
+    });
+
+    if (!target) {
+      return reply.status(404).send({ error: 'Occurrence not found in this series' });
+    }
+
+    // Exceptions are cancelled along with the rest of the series
+    const { editable, skipped } = await getAffectedOccurrences(app, id, target, scope === 'this' ? 'this' : scope);
+    const toCancel = (scope === 'this'
+      ? editable
+      : [...editable, ...skipped.filter((o: any) => o.isSeriesException)]
+    ).filter((o: any) => o.status === 'scheduled');
+
+    if (scope === 'this' && toCancel.length === 0) {
+      return reply.status(400).send({ error: 'This occurrence has already been worked or cancelled' });
+    }
+
+    await app.db.transaction(async (tx: any) => {
+      if (scope === 'all' || (scope === 'following' && (target as any).occurrenceStartTime <= (series as any).firstStartTime)) {
+        await tx
+          .update(schema.shiftSeries)
+          .set({ status: 'cancelled' })
+          .where(eq(schema.shiftSeries.id, id));
+      } else if (scope === 'following') {
+        await tx
+          .update(schema.shiftSeries)
+          .set({ recurrenceRule: truncateRule((series as any).recurrenceRule, (target as any).occurrenceStartTime) })
+          .where(eq(schema.shiftSeries.id, id));
+      }
+
+      await shiftStatus.transitionShifts(tx, {
+        shiftIds: toCancel.map((o: any) => o.id),
+        event: 'cancel',
+        changedBy: session.user.id,
+        reasonCode,
+        reason,
+      });
+    });
+
+    const cancelledIds = new Set(toCancel.map((o: any) => o.id));
+    return {
+      cancelled: toCancel.map((o: any) => o.id),
+      skipped: skipped.filter((o: any) => !cancelledIds.has(o.id)).map((o: any) => o.id),
+    };
+  });
+}
@@ -0,0 +1,148 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, asc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as shiftStatus from '../services/shiftStatus.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+export function registerShiftStatusRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Cancel a scheduled shift with a reason code
+   */
+  app.fastify.post('/api/shifts/:id/cancel', {
+    schema: {
+      description: 'Cancel a scheduled shift. Started, completed and already cancelled shifts cannot be cancelled.',
+      tags: ['shifts'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          reasonCode: { type: 'string', enum: shiftStatus.CANCELLATION_REASON_CODES },
+          reason: { type: 'string', description: 'Required when the reason code is other' },
+        },
+        required: ['reasonCode'],
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { reasonCode, reason } = request.body as {
+      reasonCode: shiftStatus.CancellationReasonCode;
+      reason?: string;
+    };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to cancel this shift' });
+    }
+
+    try {
+      shiftStatus.validateCancellationReason(reasonCode, reason);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    try {
+      await app.db.transaction(async (tx: any) => {
+        await shiftStatus.transitionShift(tx, {
+          shiftId: id,
+          event: 'cancel',
+          changedBy: session.user.id,
+          reasonCode,
+          reason,
+        });
+      });
+    } catch (error) {
+      return reply.status(409).send({ error: (error as Error).message });
+    }
+
+    if ((shift as any).supportWorkerId) {
+      try {
+        await pushDelivery.sendBulkPush(app, {
+          userIds: [(shift as any).supportWorkerId],
+          title: 'Shift Cancelled',
+          message: `${(shift as any).title} on ${new Date((shift as any).startTime).toDateString()} has been cancelled`,
+          data: { shiftId: id, type: 'shift_cancelled' },
+          notificationType: 'shift',
+        });
+      } catch (error) {
+        app.logger.error({ err: error, shiftId: id }, 'Failed to send shift cancellation notification');
+      }
+    }
+
+    const updated = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    return updated;
+  });
+
+  /**
+   * Get the status history of a shift
+   */
+  app.fastify.get('/api/shifts/:id/status-history', {
+    schema: {
+      description: 'Status transitions of a shift, oldest first, with who made each change and why',
+      tags: ['shifts'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id && (shift as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to view this shift' });
+    }
+
+    const history = await app.db.query.shiftStatusHistory.findMany({
+      where: eq(schema.shiftStatusHistory.shiftId, id),
+      orderBy: [asc(schema.shiftStatusHistory.createdAt)],
+    });
+
+    const userIds = [...new Set(history.map((entry: any) => entry.changedBy))] as string[];
+    const users = userIds.length > 0
+      ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, userIds) })
+      : [];
+    const names = new Map(users.map((u: any) => [u.id, u.name]));
+
+    return history.map((entry: any) => ({
+      ...entry,
+      changedByName: names.get(entry.changedBy) || 'Unknown',
+    }));
+  });
+}
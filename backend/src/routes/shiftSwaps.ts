@@ -0,0 +1,633 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, inArray, or } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as conflicts from '../services/conflicts.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import * as shiftHolders from '../services/shiftHolders.js';
+import type { App } from '../index.js';
+
+/**
+ * Move a shift from one worker to another inside a transaction,
+ * updating assignments and closing off the previous holder's history entry
+ */
+async function transferShift(
+  tx: any,
+  shift: any,
+  toWorkerId: string,
+  changeReason: 'cover' | 'swap',
+  swapRequestId: string,
+  now: Date,
+) {
+  const fromWorkerId = shift.supportWorkerId;
+
+  await tx
+    .update(schema.shifts)
+    .set({ supportWorkerId: toWorkerId })
+    .where(eq(schema.shifts.id, shift.id));
+
+  await tx
+    .update(schema.shiftAssignments)
+    .set({ status: 'declined' })
+    .where(and(
+      eq(schema.shiftAssignments.shiftId, shift.id),
+      eq(schema.shiftAssignments.supportWorkerId, fromWorkerId),
+    ));
+
+  const existingAssignment = await tx.query.shiftAssignments.findFirst({
+    where: and(
+      eq(schema.shiftAssignments.shiftId, shift.id),
+      eq(schema.shiftAssignments.supportWorkerId, toWorkerId),
+    ),
+  });
+
+  if (existingAssignment) {
+    await tx
+      .update(schema.shiftAssignments)
+      .set({ status: 'accepted' })
+      .where(eq(schema.shiftAssignments.id, existingAssignment.id));
+  } else {
+    await tx
+      .insert(schema.shiftAssignments)
+      .values({ shiftId: shift.id, supportWorkerId: toWorkerId, status: 'accepted' });
+  }
+
+  await shiftHolders.recordHolderChange(tx, { shift, toWorkerId, changeReason, swapRequestId, now });
+}
+
+/**
+ * Notify users without failing the request if push delivery errors
+ */
+async function notify(app: App, userIds: string[], title: string, message: string, data: Record<string, string>) {
+  try {
+    await pushDelivery.sendBulkPush(app, { userIds, title, message, data, notificationType: 'shift' });
+  } catch (error) {
+    app.logger.error({ err: error, userIds }, 'Failed to send shift swap notification');
+  }
+}
+
+export function registerShiftSwapRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Offer a shift to colleagues for cover or swap
+   */
+  app.fastify.post('/api/shifts/:id/swap-requests', {
+    schema: {
+      description: 'Offer your shift to colleagues under the same provider',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          requestType: { type: 'string', enum: ['cover', 'swap'] },
+          reason: { type: 'string' },
+        },
+        required: ['requestType'],
+      },
+      response: { 201: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { requestType, reason } = request.body as { requestType: 'cover' | 'swap'; reason?: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'You can only offer your own shifts' });
+    }
+
+    if ((shift as any).status !== 'scheduled' || new Date((shift as any).startTime) <= new Date()) {
+      return reply.status(400).send({ error: 'Only upcoming scheduled shifts can be offered' });
+    }
+
+    const pending = await app.db.query.shiftSwapRequests.findFirst({
+      where: and(
+        eq(schema.shiftSwapRequests.shiftId, id),
+        inArray(schema.shiftSwapRequests.status, ['open', 'accepted'] as any),
+      ),
+    });
+
+    if (pending) {
+      return reply.status(400).send({ error: 'This shift already has a pending swap request' });
+    }
+
+    const [swapRequest] = await app.db
+      .insert(schema.shiftSwapRequests)
+      .values({
+        shiftId: id,
+        serviceProviderId: (shift as any).serviceProviderId,
+        offeredBy: session.user.id,
+        requestType,
+        reason,
+      })
+      .returning();
+
+    const colleagues = await app.db.query.workerProviderRelationships.findMany({
+      where: and(
+        eq(schema.workerProviderRelationships.serviceProviderId, (shift as any).serviceProviderId),
+        eq(schema.workerProviderRelationships.status, 'active' as any),
+        ne(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+      ),
+    });
+
+    await notify(
+      app,
+      colleagues.map((rel: any) => rel.supportWorkerId),
+      requestType === 'swap' ? 'Shift swap offered' : 'Shift cover needed',
+      `${session.user.name || 'A colleague'} is offering ${(shift as any).title} on ${new Date((shift as any).startTime).toLocaleDateString('en-AU')}`,
+      { shiftId: id, swapRequestId: swapRequest.id, type: 'shift_swap' },
+    );
+
+    return reply.status(201).send(swapRequest);
+  });
+
+  /**
+   * List swap requests relevant to the current user
+   */
+  app.fastify.get('/api/shift-swaps', {
+    schema: {
+      description: 'List swap requests: offers open to a worker, or requests awaiting a provider decision',
+      tags: ['shift-swaps'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['open', 'accepted', 'approved', 'declined', 'cancelled'] },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { status } = request.query as { status?: string };
+
+    const isProvider = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, session.user.id),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+
+    let whereCondition: any;
+    if (isProvider) {
+      whereCondition = eq(schema.shiftSwapRequests.serviceProviderId, session.user.id);
+    } else {
+      const relationships = await app.db.query.workerProviderRelationships.findMany({
+        where: and(
+          eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+          eq(schema.workerProviderRelationships.status, 'active' as any),
+        ),
+      });
+      const providerIds = relationships.map((rel: any) => rel.serviceProviderId);
+
+      // A worker sees their own requests plus open offers from colleagues
+      whereCondition = or(
+        eq(schema.shiftSwapRequests.offeredBy, session.user.id),
+        eq(schema.shiftSwapRequests.acceptedBy, session.user.id),
+        providerIds.length > 0
+          ? and(
+            inArray(schema.shiftSwapRequests.serviceProviderId, providerIds),
+            eq(schema.shiftSwapRequests.status, 'open' as any),
+          )
+          : undefined,
+      );
+    }
+
+    if (status) {
+      whereCondition = and(whereCondition, eq(schema.shiftSwapRequests.status, status as any));
+    }
+
+    const swapRequests = await app.db.query.shiftSwapRequests.findMany({ where: whereCondition });
+
+    return Promise.all(
+      swapRequests.map(async (swapRequest: any) => {
+        const shift = await app.db.query.shifts.findFirst({
+          where: eq(schema.shifts.id, swapRequest.shiftId),
+        });
+        const offeredByUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, swapRequest.offeredBy),
+        });
+        const acceptedByUser = swapRequest.acceptedBy
+          ? await app.db.query.user.findFirst({ where: eq(authSchema.user.id, swapRequest.acceptedBy) })
+          : null;
+        return {
+          ...swapRequest,
+          shift,
+          offeredByName: offeredByUser?.name || 'Unknown',
+          acceptedByName: acceptedByUser?.name || null,
+        };
+      }),
+    );
+  });
+
+  /**
+   * Accept a colleague's offered shift
+   */
+  app.fastify.post('/api/shift-swaps/:id/accept', {
+    schema: {
+      description: 'Accept an offered shift, pending provider approval',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          swapShiftId: { type: 'string', description: 'Your shift to give in exchange (swap requests only)' },
+        },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { swapShiftId } = (request.body || {}) as { swapShiftId?: string };
+
+    const swapRequest = await app.db.query.shiftSwapRequests.findFirst({
+      where: eq(schema.shiftSwapRequests.id, id),
+    });
+
+    if (!swapRequest) {
+      return reply.status(404).send({ error: 'Swap request not found' });
+    }
+
+    if ((swapRequest as any).status !== 'open') {
+      return reply.status(400).send({ error: 'This swap request is no longer open' });
+    }
+
+    if ((swapRequest as any).offeredBy === session.user.id) {
+      return reply.status(400).send({ error: 'You cannot accept your own swap request' });
+    }
+
+    const relationship = await app.db.query.workerProviderRelationships.findFirst({
+      where: and(
+        eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+        eq(schema.workerProviderRelationships.serviceProviderId, (swapRequest as any).serviceProviderId),
+        eq(schema.workerProviderRelationships.status, 'active' as any),
+      ),
+    });
+
+    if (!relationship) {
+      return reply.status(403).send({ error: 'You do not work for this provider' });
+    }
+
+    if ((swapRequest as any).requestType === 'swap') {
+      if (!swapShiftId) {
+        return reply.status(400).send({ error: 'swapShiftId is required to accept a swap' });
+      }
+
+      const swapShift = await app.db.query.shifts.findFirst({
+        where: eq(schema.shifts.id, swapShiftId),
+      });
+
+      if (
+        !swapShift
+        || (swapShift as any).supportWorkerId !== session.user.id
+        || (swapShift as any).serviceProviderId !== (swapRequest as any).serviceProviderId
+        || (swapShift as any).status !== 'scheduled'
+      ) {
+        return reply.status(400).send({ error: 'swapShiftId must be one of your scheduled shifts with this provider' });
+      }
+    }
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, (swapRequest as any).shiftId),
+    });
+
+    // The colleague must be free for the offered shift (ignoring the shift they give up)
+    const shiftConflicts = (await conflicts.checkShiftConflicts(app, {
+      supportWorkerId: session.user.id,
+      serviceProviderId: (swapRequest as any).serviceProviderId,
+      startTime: new Date((shift as any).startTime),
+      endTime: new Date((shift as any).endTime),
+      excludeShiftId: (shift as any).id,
+    })).filter((c) => !swapShiftId || c.shiftId !== swapShiftId);
+
+    if (shiftConflicts.some((c) => c.severity === 'error')) {
+      return reply.status(409).send({ error: 'Shift overlaps one of your existing shifts', conflicts: shiftConflicts });
+    }
+
+    const [updated] = await app.db
+      .update(schema.shiftSwapRequests)
+      .set({ status: 'accepted', acceptedBy: session.user.id, swapShiftId: swapShiftId || null })
+      .where(and(eq(schema.shiftSwapRequests.id, id), eq(schema.shiftSwapRequests.status, 'open' as any)))
+      .returning();
+
+    if (!updated) {
+      return reply.status(400).send({ error: 'This swap request is no longer open' });
+    }
+
+    await notify(
+      app,
+      [(swapRequest as any).serviceProviderId, (swapRequest as any).offeredBy],
+      'Shift swap awaiting approval',
+      `${session.user.name || 'A colleague'} accepted ${(shift as any).title}`,
+      { shiftId: (shift as any).id, swapRequestId: id, type: 'shift_swap' },
+    );
+
+    return { ...updated, conflicts: shiftConflicts };
+  });
+
+  /**
+   * Approve an accepted swap and reassign the shift(s)
+   */
+  app.fastify.post('/api/shift-swaps/:id/approve', {
+    schema: {
+      description: 'Approve an accepted swap request (service provider only). The incoming worker is checked against their roster, as is the offering worker for a swapped shift.',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          comment: { type: 'string' },
+          force: { type: 'boolean', description: 'Approve despite rostering warnings' },
+          overrideReason: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { comment, force = false, overrideReason } = (request.body || {}) as {
+      comment?: string;
+      force?: boolean;
+      overrideReason?: string;
+    };
+
+    const swapRequest = await app.db.query.shiftSwapRequests.findFirst({
+      where: eq(schema.shiftSwapRequests.id, id),
+    });
+
+    if (!swapRequest) {
+      return reply.status(404).send({ error: 'Swap request not found' });
+    }
+
+    if ((swapRequest as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to approve this swap request' });
+    }
+
+    if ((swapRequest as any).status !== 'accepted') {
+      return reply.status(400).send({ error: 'Only accepted swap requests can be approved' });
+    }
+
+    // Each worker must be free for the shift they take on, ignoring the shifts changing hands
+    const changingHands = [(swapRequest as any).shiftId, (swapRequest as any).swapShiftId].filter(Boolean) as string[];
+    const checkIncoming = async (shiftId: string, supportWorkerId: string) => {
+      const incoming = await app.db.query.shifts.findFirst({ where: eq(schema.shifts.id, shiftId) });
+      if (!incoming) return [];
+      return conflicts.checkShiftConflicts(app, {
+        supportWorkerId,
+        serviceProviderId: session.user.id,
+        startTime: new Date((incoming as any).startTime),
+        endTime: new Date((incoming as any).endTime),
+        excludeShiftIds: changingHands,
+      });
+    };
+
+    const shiftConflicts = await checkIncoming((swapRequest as any).shiftId, (swapRequest as any).acceptedBy);
+    const swapShiftConflicts = (swapRequest as any).requestType === 'swap' && (swapRequest as any).swapShiftId
+      ? await checkIncoming((swapRequest as any).swapShiftId, (swapRequest as any).offeredBy)
+      : [];
+
+    if (conflicts.isBlocking([...shiftConflicts, ...swapShiftConflicts], force)) {
+      return reply.status(409).send({
+        error: 'Swap conflicts with the workers\' rosters',
+        conflicts: shiftConflicts,
+        swapShiftConflicts,
+      });
+    }
+
+    const now = new Date();
+    const result = await app.db.transaction(async (tx: any) => {
+      const shift = await tx.query.shifts.findFirst({
+        where: eq(schema.shifts.id, (swapRequest as any).shiftId),
+      });
+
+      if (!shift || shift.supportWorkerId !== (swapRequest as any).offeredBy || shift.status !== 'scheduled') {
+        throw new Error('Shift has changed since it was offered');
+      }
+
+      await transferShift(tx, shift, (swapRequest as any).acceptedBy, (swapRequest as any).requestType, id, now);
+
+      if ((swapRequest as any).requestType === 'swap' && (swapRequest as any).swapShiftId) {
+        const swapShift = await tx.query.shifts.findFirst({
+          where: eq(schema.shifts.id, (swapRequest as any).swapShiftId),
+        });
+
+        if (!swapShift || swapShift.supportWorkerId !== (swapRequest as any).acceptedBy || swapShift.status !== 'scheduled') {
+          throw new Error('Exchanged shift has changed since the swap was accepted');
+        }
+
+        await transferShift(tx, swapShift, (swapRequest as any).offeredBy, 'swap', id, now);
+      }
+
+      const [updated] = await tx
+        .update(schema.shiftSwapRequests)
+        .set({ status: 'approved', providerComment: comment, decidedAt: now })
+        .where(eq(schema.shiftSwapRequests.id, id))
+        .returning();
+
+      return updated;
+    }).catch((error: Error) => ({ error: error.message }));
+
+    if ((result as any).error) {
+      return reply.status(409).send({ error: (result as any).error });
+    }
+
+    await conflicts.recordOverride(app, (swapRequest as any).shiftId, session.user.id, shiftConflicts, overrideReason);
+    if (swapShiftConflicts.length > 0) {
+      await conflicts.recordOverride(app, (swapRequest as any).swapShiftId, session.user.id, swapShiftConflicts, overrideReason);
+    }
+
+    await notify(
+      app,
+      [(swapRequest as any).offeredBy, (swapRequest as any).acceptedBy],
+      'Shift swap approved',
+      'Your shift change has been approved and your calendar is updated',
+      { shiftId: (swapRequest as any).shiftId, swapRequestId: id, type: 'shift_swap' },
+    );
+
+    return result;
+  });
+
+  /**
+   * Decline an accepted swap request
+   */
+  app.fastify.post('/api/shift-swaps/:id/decline', {
+    schema: {
+      description: 'Decline a swap request (service provider only)',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          comment: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { comment } = (request.body || {}) as { comment?: string };
+
+    const swapRequest = await app.db.query.shiftSwapRequests.findFirst({
+      where: eq(schema.shiftSwapRequests.id, id),
+    });
+
+    if (!swapRequest) {
+      return reply.status(404).send({ error: 'Swap request not found' });
+    }
+
+    if ((swapRequest as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to decline this swap request' });
+    }
+
+    if ((swapRequest as any).status !== 'open' && (swapRequest as any).status !== 'accepted') {
+      return reply.status(400).send({ error: 'Only pending swap requests can be declined' });
+    }
+
+    const [updated] = await app.db
+      .update(schema.shiftSwapRequests)
+      .set({ status: 'declined', providerComment: comment, decidedAt: new Date() })
+      .where(eq(schema.shiftSwapRequests.id, id))
+      .returning();
+
+    await notify(
+      app,
+      [(swapRequest as any).offeredBy, (swapRequest as any).acceptedBy].filter(Boolean),
+      'Shift swap declined',
+      comment || 'Your provider declined the shift change',
+      { shiftId: (swapRequest as any).shiftId, swapRequestId: id, type: 'shift_swap' },
+    );
+
+    return updated;
+  });
+
+  /**
+   * Withdraw your own swap request
+   */
+  app.fastify.post('/api/shift-swaps/:id/cancel', {
+    schema: {
+      description: 'Withdraw a pending swap request (offering worker only)',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const swapRequest = await app.db.query.shiftSwapRequests.findFirst({
+      where: eq(schema.shiftSwapRequests.id, id),
+    });
+
+    if (!swapRequest) {
+      return reply.status(404).send({ error: 'Swap request not found' });
+    }
+
+    if ((swapRequest as any).offeredBy !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to cancel this swap request' });
+    }
+
+    if ((swapRequest as any).status !== 'open' && (swapRequest as any).status !== 'accepted') {
+      return reply.status(400).send({ error: 'Only pending swap requests can be cancelled' });
+    }
+
+    const [updated] = await app.db
+      .update(schema.shiftSwapRequests)
+      .set({ status: 'cancelled' })
+      .where(eq(schema.shiftSwapRequests.id, id))
+      .returning();
+
+    return updated;
+  });
+
+  /**
+   * Get the history of who held a shift
+   */
+  app.fastify.get('/api/shifts/:id/holder-history', {
+    schema: {
+      description: 'Get the history of workers who held a shift',
+      tags: ['shift-swaps'],
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, id),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id && (shift as any).supportWorkerId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to view this shift' });
+    }
+
+    const history = await app.db.query.shiftHolderHistory.findMany({
+      where: eq(schema.shiftHolderHistory.shiftId, id),
+    });
+
+    return Promise.all(
+      history.map(async (entry: any) => {
+        const workerUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, entry.supportWorkerId),
+        });
+        return { ...entry, workerName: workerUser?.name || 'Unknown' };
+      }),
+    );
+  });
+}
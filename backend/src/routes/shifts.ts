@@ -2,6 +2,14 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and, or, gte, lte } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
+import * as conflicts from '../services/conflicts.js';
+import * as availability from '../services/availability.js';
+import * as rostering from '../services/rostering.js';
+import * as shiftHoursService from '../services/shiftHours.js';
+import * as timesheetVariance from '../services/timesheetVariance.js';
+import * as publicHolidays from '../services/publicHolidays.js';
+import * as timeZones from '../services/timeZone.js';
+import * as shiftHolders from '../services/shiftHolders.js';
 import type { App } from '../index.js';
 
 export function registerShiftRoutes(app: App) {
@@ -59,6 +67,24 @@ export function registerShiftRoutes(app: App) {
       ? await app.db.query.shifts.findMany()
       : await app.db.query.shifts.findMany({ where: whereCondition });
 
+    const segmentsByShift = await shiftHoursService.getSegmentsByShift(app, shifts.map((shift: any) => shift.id));
+
+    // Public holidays by provider and year, to flag shifts that fall on one in the provider's time zone
+    const timeZonesByProvider = new Map<string, Promise<string>>();
+    const holidaysByProviderYear = new Map<string, Promise<Map<string, string>>>();
+    const getPublicHoliday = async (providerId: string, date: Date) => {
+      if (!timeZonesByProvider.has(providerId)) {
+        timeZonesByProvider.set(providerId, timeZones.getProviderTimeZone(app, providerId));
+      }
+      const timeZone = await timeZonesByProvider.get(providerId)!;
+      const day = publicHolidays.dateKey(date, timeZone);
+      const key = `${providerId}:${day.slice(0, 4)}`;
+      if (!holidaysByProviderYear.has(key)) {
+        holidaysByProviderYear.set(key, publicHolidays.getHolidayDates(app, providerId, date, date));
+      }
+      return holidaysByProviderYear.get(key)!.then((holidays) => holidays.get(day) ?? null);
+    };
+
     // Enrich shifts with worker names and client hours
     const enrichedShifts = await Promise.all(
       shifts.map(async (shift: any) => {
@@ -71,12 +97,12 @@ export function registerShiftRoutes(app: App) {
           where: eq(schema.shiftNotes.shiftId, shift.id),
         });
 
-        // Calculate hours if shift has times
-        let shiftHours = 0;
-        if (shift.startTime && shift.endTime) {
-          const duration = new Date(shift.endTime).getTime() - new Date(shift.startTime).getTime();
-          shiftHours = duration / (1000 * 60 * 60); // Convert to hours
-        }
+        // Paid hours respect the shift type (split gaps and sleep periods are unpaid)
+        const segments = segmentsByShift.get(shift.id) || [];
+        const shiftHours = shiftHoursService.scheduledHours(
+          { shiftType: shift.shiftType, startTime: new Date(shift.startTime), endTime: new Date(shift.endTime) },
+          segments,
+        );
 
         // Calculate weekly hours for this client if weekStartDate provided
         let weeklyClientHours = 0;
@@ -107,18 +133,31 @@ export function registerShiftRoutes(app: App) {
               new Date(item.shift.startTime) < weekEnd,
           );
 
+          const weeklySegments = await shiftHoursService.getSegmentsByShift(
+            app,
+            clientWeeklyShifts.map((item: any) => item.shift.id),
+          );
           for (const item of clientWeeklyShifts) {
-            if (item.shift.startTime && item.shift.endTime) {
-              const duration = new Date(item.shift.endTime).getTime() - new Date(item.shift.startTime).getTime();
-              weeklyClientHours += duration / (1000 * 60 * 60);
-            }
+            weeklyClientHours += shiftHoursService.scheduledHours(
+              {
+                shiftType: item.shift.shiftType,
+                startTime: new Date(item.shift.startTime),
+                endTime: new Date(item.shift.endTime),
+              },
+              weeklySegments.get(item.shift.id) || [],
+            );
           }
         }
 
+        const publicHoliday = await getPublicHoliday(shift.serviceProviderId, new Date(shift.startTime))
+          ?? await getPublicHoliday(shift.serviceProviderId, new Date(shift.endTime));
+
         return {
           ...shift,
-          workerName: workerUser?.name || 'Unknown',
+          workerName: shift.supportWorkerId ? workerUser?.name || 'Unknown' : 'Open shift',
+          publicHoliday,
           shiftHours: parseFloat(shiftHours.toFixed(2)),
+          segments,
           clientName: shiftNotes?.clientName || null,
           clientId: shiftNotes?.clientId || null,
           taskDescription: shiftNotes?.taskDescription || null,
@@ -169,17 +208,22 @@ export function registerShiftRoutes(app: App) {
       where: eq(schema.shiftNotes.shiftId, id),
     });
 
-    // Calculate hours
-    let shiftHours = 0;
-    if ((shift as any).startTime && (shift as any).endTime) {
-      const duration = new Date((shift as any).endTime).getTime() - new Date((shift as any).startTime).getTime();
-      shiftHours = duration / (1000 * 60 * 60);
-    }
+    // Paid hours respect the shift type (split gaps and sleep periods are unpaid)
+    const segments = (await shiftHoursService.getSegmentsByShift(app, [id])).get(id) || [];
+    const shiftHours = shiftHoursService.scheduledHours(
+      {
+        shiftType: (shift as any).shiftType,
+        startTime: new Date((shift as any).startTime),
+        endTime: new Date((shift as any).endTime),
+      },
+      segments,
+    );
 
     return {
       ...shift,
-      workerName: workerUser?.name || 'Unknown',
+      workerName: (shift as any).supportWorkerId ? workerUser?.name || 'Unknown' : 'Open shift',
       shiftHours: parseFloat(shiftHours.toFixed(2)),
+      segments,
       clientName: shiftNotes?.clientName || null,
       clientId: shiftNotes?.clientId || null,
       taskDescription: shiftNotes?.taskDescription || null,
@@ -188,6 +232,122 @@ export function registerShiftRoutes(app: App) {
     };
   });
 
+  /**
+   * Check a proposed shift for rostering conflicts without saving it
+   */
+  app.fastify.post('/api/shifts/check-conflicts', {
+    schema: {
+      description: 'Check a proposed shift for overlaps, rest breaks, hour limits and worker availability',
+      tags: ['shifts'],
+      body: {
+        type: 'object',
+        properties: {
+          supportWorkerId: { type: 'string' },
+          serviceProviderId: { type: 'string' },
+          startTime: { type: 'string' },
+          endTime: { type: 'string' },
+          excludeShiftId: { type: 'string', description: 'Shift being edited, ignored when checking' },
+        },
+        required: ['supportWorkerId', 'serviceProviderId', 'startTime', 'endTime'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            hasErrors: { type: 'boolean' },
+            hasWarnings: { type: 'boolean' },
+            conflicts: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            availabilityWarnings: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { supportWorkerId, serviceProviderId, startTime, endTime, excludeShiftId } = request.body as any;
+
+    const shiftConflicts = await conflicts.checkShiftConflicts(app, {
+      supportWorkerId,
+      serviceProviderId,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      excludeShiftId,
+    });
+
+    const availabilityWarnings = await availability.checkAvailability(app, {
+      supportWorkerId,
+      serviceProviderId,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+    });
+
+    return {
+      hasErrors: shiftConflicts.some((c) => c.severity === 'error'),
+      hasWarnings: shiftConflicts.some((c) => c.severity === 'warning'),
+      conflicts: shiftConflicts,
+      availabilityWarnings,
+    };
+  });
+
+  /**
+   * Rank the provider's workers for a proposed shift
+   */
+  app.fastify.post('/api/shifts/suggest-workers', {
+    schema: {
+      description: 'Rank candidate workers for a proposed shift with a score breakdown',
+      tags: ['shifts'],
+      body: {
+        type: 'object',
+        properties: {
+          startTime: { type: 'string' },
+          endTime: { type: 'string' },
+          clientId: { type: 'string', description: 'Client the shift is for, used for distance and continuity' },
+          excludeShiftId: { type: 'string', description: 'Shift being edited, ignored when checking bookings' },
+          limit: { type: 'integer', minimum: 1 },
+        },
+        required: ['startTime', 'endTime'],
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { startTime, endTime, clientId, excludeShiftId, limit } = request.body as any;
+
+    const userRole = await app.db.query.userRoles.findFirst({
+      where: and(
+        eq(schema.userRoles.userId, session.user.id),
+        eq(schema.userRoles.role, 'service_provider' as any),
+      ),
+    });
+
+    if (!userRole) {
+      return reply.status(403).send({ error: 'Only service providers can request worker suggestions' });
+    }
+
+    if (new Date(endTime) <= new Date(startTime)) {
+      return reply.status(400).send({ error: 'Shift must end after it starts' });
+    }
+
+    const suggestions = await rostering.suggestWorkers(app, {
+      serviceProviderId: session.user.id,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      clientId,
+      excludeShiftId,
+    });
+
+    return limit ? suggestions.slice(0, limit) : suggestions;
+  });
+
   /**
    * Create a new shift
    */
@@ -206,11 +366,30 @@ export function registerShiftRoutes(app: App) {
           endTime: { type: 'string' },
           location: { type: 'string' },
           hourlyRate: { type: 'string' },
+          clientId: { type: 'string', description: 'Client the shift is for, used to check clock-in locations' },
+          shiftType: { type: 'string', enum: ['standard', 'sleepover', 'active_overnight', 'split'] },
+          segments: {
+            type: 'array',
+            description: 'Work periods of a split shift, or the sleep period of a sleepover',
+            items: {
+              type: 'object',
+              properties: {
+                segmentType: { type: 'string', enum: ['work', 'sleepover'] },
+                startTime: { type: 'string' },
+                endTime: { type: 'string' },
+              },
+              required: ['segmentType', 'startTime', 'endTime'],
+            },
+          },
+          sleepoverAllowance: { type: 'string', description: 'Flat sleepover rate, defaults to the provider rate' },
+          force: { type: 'boolean', description: 'Save despite rostering warnings' },
+          overrideReason: { type: 'string' },
         },
         required: ['supportWorkerId', 'serviceProviderId', 'title', 'startTime', 'endTime'],
       },
       response: {
         201: { type: 'object' },
+        409: { type: 'object' },
       },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
@@ -226,8 +405,37 @@ export function registerShiftRoutes(app: App) {
       endTime,
       location,
       hourlyRate,
+      clientId,
+      shiftType = 'standard',
+      segments = [],
+      sleepoverAllowance,
+      force = false,
+      overrideReason,
     } = request.body as any;
 
+    const parsedSegments: shiftHoursService.ShiftSegment[] = segments.map((segment: any) => ({
+      segmentType: segment.segmentType,
+      startTime: new Date(segment.startTime),
+      endTime: new Date(segment.endTime),
+    }));
+
+    try {
+      shiftHoursService.validateSegments(shiftType, new Date(startTime), new Date(endTime), parsedSegments);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const shiftConflicts = await conflicts.checkShiftConflicts(app, {
+      supportWorkerId,
+      serviceProviderId,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+    });
+
+    if (conflicts.isBlocking(shiftConflicts, force)) {
+      return reply.status(409).send({ error: 'Shift conflicts with the worker\'s roster', conflicts: shiftConflicts });
+    }
+
     const newShift = await app.db
       .insert(schema.shifts)
       .values({
@@ -239,10 +447,30 @@ export function registerShiftRoutes(app: App) {
         endTime: new Date(endTime),
         location,
         hourlyRate,
+        clientId,
+        shiftType,
+        sleepoverAllowance,
       })
       .returning();
 
-    return reply.status(201).send(newShift[0]);
+    await shiftHoursService.saveSegments(app.db, newShift[0].id, parsedSegments);
+
+    await conflicts.recordOverride(app, newShift[0].id, session.user.id, shiftConflicts, overrideReason);
+
+    // Availability and leave are advisory: the shift is saved and the coordinator is warned
+    const availabilityWarnings = await availability.checkAvailability(app, {
+      supportWorkerId,
+      serviceProviderId,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+    });
+
+    return reply.status(201).send({
+      ...newShift[0],
+      segments: parsedSegments,
+      conflicts: shiftConflicts,
+      availabilityWarnings,
+    });
   });
 
   /**
@@ -264,18 +492,41 @@ export function registerShiftRoutes(app: App) {
           startTime: { type: 'string' },
           endTime: { type: 'string' },
           location: { type: 'string' },
-          status: { type: 'string' },
           hourlyRate: { type: 'string' },
+          clientId: { type: 'string' },
+          supportWorkerId: { type: 'string' },
+          shiftType: { type: 'string', enum: ['standard', 'sleepover', 'active_overnight', 'split'] },
+          segments: {
+            type: 'array',
+            description: 'Work periods of a split shift, or the sleep period of a sleepover',
+            items: {
+              type: 'object',
+              properties: {
+                segmentType: { type: 'string', enum: ['work', 'sleepover'] },
+                startTime: { type: 'string' },
+                endTime: { type: 'string' },
+              },
+              required: ['segmentType', 'startTime', 'endTime'],
+            },
+          },
+          sleepoverAllowance: { type: 'string', description: 'Flat sleepover rate, defaults to the provider rate' },
+          force: { type: 'boolean', description: 'Save despite rostering warnings' },
+          overrideReason: { type: 'string' },
         },
       },
-      response: { 200: { type: 'object' } },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
     const { id } = request.params as { id: string };
-    const updates = request.body as any;
+    const { force = false, overrideReason, segments, ...updates } = request.body as any;
+
+    // Status only moves through clock-in, clock-out and cancellation
+    if (updates.status !== undefined) {
+      return reply.status(400).send({ error: 'Shift status cannot be set directly; clock in, clock out or cancel the shift instead' });
+    }
 
     // Convert date strings to Date objects if present
     if (updates.startTime) {
@@ -285,17 +536,122 @@ export function registerShiftRoutes(app: App) {
       updates.endTime = new Date(updates.endTime);
     }
 
-    const updatedShift = await app.db
-      .update(schema.shifts)
-      .set(updates)
-      .where(eq(schema.shifts.id, id))
-      .returning();
+    // Validate segments against the resulting shift type and times
+    let parsedSegments: shiftHoursService.ShiftSegment[] | undefined;
+    if (segments !== undefined || updates.shiftType || updates.startTime || updates.endTime) {
+      const existing = await app.db.query.shifts.findFirst({
+        where: eq(schema.shifts.id, id),
+      });
+
+      if (!existing) {
+        return reply.status(404).send({ error: 'Shift not found' });
+      }
 
-    if (updatedShift.length === 0) {
+      const shiftType = updates.shiftType || (existing as any).shiftType;
+      let nextSegments: shiftHoursService.ShiftSegment[];
+      if (segments !== undefined) {
+        nextSegments = segments.map((segment: any) => ({
+          segmentType: segment.segmentType,
+          startTime: new Date(segment.startTime),
+          endTime: new Date(segment.endTime),
+        }));
+      } else if (shiftType === 'standard' || shiftType === 'active_overnight') {
+        // Changing to a single-window type drops any old segments
+        nextSegments = [];
+      } else {
+        nextSegments = (await shiftHoursService.getSegmentsByShift(app, [id])).get(id) || [];
+      }
+
+      try {
+        shiftHoursService.validateSegments(
+          shiftType,
+          updates.startTime || new Date((existing as any).startTime),
+          updates.endTime || new Date((existing as any).endTime),
+          nextSegments,
+        );
+      } catch (error) {
+        return reply.status(400).send({ error: (error as Error).message });
+      }
+      parsedSegments = nextSegments;
+    }
+
+    // Re-check the roster and availability when the worker or times change
+    let shiftConflicts: conflicts.ShiftConflict[] = [];
+    let availabilityWarnings: availability.AvailabilityWarning[] = [];
+    if (updates.supportWorkerId || updates.startTime || updates.endTime) {
+      const existing = await app.db.query.shifts.findFirst({
+        where: eq(schema.shifts.id, id),
+      });
+
+      if (!existing) {
+        return reply.status(404).send({ error: 'Shift not found' });
+      }
+
+      shiftConflicts = await conflicts.checkShiftConflicts(app, {
+        supportWorkerId: updates.supportWorkerId || (existing as any).supportWorkerId,
+        serviceProviderId: (existing as any).serviceProviderId,
+        startTime: updates.startTime || new Date((existing as any).startTime),
+        endTime: updates.endTime || new Date((existing as any).endTime),
+        excludeShiftId: id,
+      });
+
+      if (conflicts.isBlocking(shiftConflicts, force)) {
+        return reply.status(409).send({ error: 'Shift conflicts with the worker\'s roster', conflicts: shiftConflicts });
+      }
+
+      const supportWorkerId = updates.supportWorkerId || (existing as any).supportWorkerId;
+      if (supportWorkerId) {
+        availabilityWarnings = await availability.checkAvailability(app, {
+          supportWorkerId,
+          serviceProviderId: (existing as any).serviceProviderId,
+          startTime: updates.startTime || new Date((existing as any).startTime),
+          endTime: updates.endTime || new Date((existing as any).endTime),
+        });
+      }
+    }
+
+    const updatedShift = await app.db.transaction(async (tx: any) => {
+      const previous = await tx.query.shifts.findFirst({
+        where: eq(schema.shifts.id, id),
+      });
+
+      if (!previous) {
+        return null;
+      }
+
+      const [row] = await tx
+        .update(schema.shifts)
+        .set(updates)
+        .where(eq(schema.shifts.id, id))
+        .returning();
+
+      if (updates.supportWorkerId) {
+        await shiftHolders.recordHolderChange(tx, {
+          shift: previous,
+          toWorkerId: updates.supportWorkerId,
+          changeReason: 'assigned',
+        });
+      }
+
+      if (parsedSegments) {
+        await shiftHoursService.saveSegments(tx, id, parsedSegments);
+      }
+
+      // Keep timesheet variance in line with the new scheduled window
+      if (updates.startTime || updates.endTime) {
+        await timesheetVariance.refreshShiftVariance(tx, id);
+      }
+
+      return row;
+    });
+
+    if (!updatedShift) {
       return reply.status(404).send({ error: 'Shift not found' });
     }
 
-    return updatedShift[0];
+    await conflicts.recordOverride(app, id, session.user.id, shiftConflicts, overrideReason);
+
+    return { ...updatedShift, segments: parsedSegments, conflicts: shiftConflicts, availabilityWarnings };
   });
 
   /**
@@ -402,7 +758,20 @@ export function registerShiftRoutes(app: App) {
       .values({ shiftId, supportWorkerId, status })
       .returning();
 
-    return reply.status(201).send(assignment[0]);
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, shiftId),
+    });
+
+    const availabilityWarnings = shift
+      ? await availability.checkAvailability(app, {
+        supportWorkerId,
+        serviceProviderId: (shift as any).serviceProviderId,
+        startTime: new Date((shift as any).startTime),
+        endTime: new Date((shift as any).endTime),
+      })
+      : [];
+
+    return reply.status(201).send({ ...assignment[0], availabilityWarnings });
   });
 
   /**
@@ -421,7 +790,7 @@ export function registerShiftRoutes(app: App) {
       },
       body: {
         type: 'object',
-        properties: { status: { type: 'string', enum: ['assigned', 'accepted', 'declined', 'completed'] } },
+        properties: { status: { type: 'string', enum: ['assigned', 'claimed', 'accepted', 'declined', 'completed'] } },
       },
       response: { 200: { type: 'object' } },
     },
@@ -430,7 +799,7 @@ export function registerShiftRoutes(app: App) {
     if (!session) return;
 
     const { assignmentId } = request.params as { assignmentId: string };
-    const { status } = request.body as { status: 'assigned' | 'accepted' | 'declined' | 'completed' };
+    const { status } = request.body as { status: 'assigned' | 'claimed' | 'accepted' | 'declined' | 'completed' };
 
     const updated = await app.db
       .update(schema.shiftAssignments)
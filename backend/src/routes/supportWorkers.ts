@@ -1,6 +1,10 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import { geocodeAddress } from '../services/geocoding.js';
+import * as payroll from '../services/payroll.js';
+import * as paymentSummaries from '../services/paymentSummaries.js';
+import * as bankDetails from '../services/bankDetails.js';
 import type { App } from '../index.js';
 
 export function registerSupportWorkerRoutes(app: App) {
@@ -60,6 +64,7 @@ export function registerSupportWorkerRoutes(app: App) {
         userId: session.user.id,
         phoneNumber,
         address,
+        ...(address ? await geocodeAddress(address) : null),
         dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
       })
       .returning();
@@ -102,7 +107,7 @@ export function registerSupportWorkerRoutes(app: App) {
       return reply.status(404).send({ error: 'Support worker profile not found' });
     }
 
-    return worker;
+    return bankDetails.redactProfile(worker);
   });
 
   /**
@@ -130,7 +135,13 @@ export function registerSupportWorkerRoutes(app: App) {
     const updates: any = {};
 
     if (phoneNumber !== undefined) updates.phoneNumber = phoneNumber;
-    if (address !== undefined) updates.address = address;
+    if (address !== undefined) {
+      updates.address = address;
+      // Re-geocode so rostering distance stays accurate; clear stale coordinates if it fails
+      const coordinates = address ? await geocodeAddress(address) : null;
+      updates.latitude = coordinates?.latitude ?? null;
+      updates.longitude = coordinates?.longitude ?? null;
+    }
     if (dateOfBirth !== undefined) updates.dateOfBirth = dateOfBirth ? new Date(dateOfBirth) : null;
 
     const updated = await app.db
@@ -143,7 +154,51 @@ export function registerSupportWorkerRoutes(app: App) {
       return reply.status(404).send({ error: 'Support worker profile not found' });
     }
 
-    return updated[0];
+    return bankDetails.redactProfile(updated[0]);
+  });
+
+  /**
+   * Set the account pay is deposited into
+   */
+  app.fastify.put('/api/support-workers/bank-details', {
+    schema: {
+      description: 'Set the bank account providers pay into when exporting pay runs. Stored encrypted and returned masked.',
+      tags: ['support-workers'],
+      body: {
+        type: 'object',
+        properties: {
+          bsb: { type: 'string' },
+          accountNumber: { type: 'string' },
+          accountName: { type: 'string' },
+        },
+        required: ['bsb', 'accountNumber', 'accountName'],
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    let details: bankDetails.BankDetails;
+    try {
+      details = bankDetails.validateBankDetails(request.body as bankDetails.BankDetails);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const updated = await app.db
+      .update(schema.supportWorkers)
+      .set({ bankDetails: bankDetails.encryptBankDetails(details) })
+      .where(eq(schema.supportWorkers.userId, session.user.id))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(404).send({ error: 'Support worker profile not found' });
+    }
+
+    app.logger.info({ userId: session.user.id }, 'Worker bank details updated');
+
+    return bankDetails.redactProfile(updated[0]);
   });
 
   /**
@@ -320,7 +375,7 @@ export function registerSupportWorkerRoutes(app: App) {
    */
   app.fastify.get('/api/support-workers/payslips', {
     schema: {
-      description: 'Get all payslips for the current worker',
+      description: 'Get all payslips for the current worker, each with the provider\'s name and year-to-date totals for its financial year',
       tags: ['support-workers'],
       querystring: {
         type: 'object',
@@ -355,8 +410,21 @@ export function registerSupportWorkerRoutes(app: App) {
     const payslips = await app.db.query.payslips.findMany({
       where: whereCondition,
     });
+    const ytd = await paymentSummaries.getYearToDate(app, payslips);
+
+    const providerNames = new Map<string, string>();
+    for (const serviceProviderId of new Set<string>(payslips.map((payslip: any) => payslip.serviceProviderId))) {
+      const provider = await app.db.query.serviceProviders.findFirst({
+        where: eq(schema.serviceProviders.userId, serviceProviderId),
+      });
+      providerNames.set(serviceProviderId, (provider as any)?.companyName || 'Unknown');
+    }
 
-    return payslips;
+    return payslips.map((payslip: any) => ({
+      ...payslip,
+      providerName: providerNames.get(payslip.serviceProviderId),
+      ytd: ytd.get(payslip.id),
+    }));
   });
 
   /**
@@ -389,8 +457,9 @@ export function registerSupportWorkerRoutes(app: App) {
     const items = await app.db.query.payslipItems.findMany({
       where: eq(schema.payslipItems.payslipId, payslipId),
     });
+    const ytd = await paymentSummaries.getYearToDate(app, [payslip]);
 
-    return { payslip, items };
+    return { payslip: { ...payslip, ytd: ytd.get(payslipId) }, items };
   });
 
   /**
@@ -437,4 +506,66 @@ export function registerSupportWorkerRoutes(app: App) {
 
     return updated[0];
   });
+
+  /**
+   * Record a TFN declaration
+   */
+  app.fastify.put('/api/support-workers/providers/:providerId/tax-declaration', {
+    schema: {
+      description: 'Record the worker\'s TFN declaration for a service provider, used for PAYG withholding on future payslips. The TFN itself is given to the provider directly and isn\'t stored.',
+      tags: ['support-workers'],
+      params: {
+        type: 'object',
+        properties: { providerId: { type: 'string' } },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          tfnProvided: { type: 'boolean' },
+          taxResidency: { type: 'string', enum: ['resident', 'foreign'] },
+          claimsTaxFreeThreshold: { type: 'boolean' },
+          hasStudyLoan: { type: 'boolean' },
+        },
+        required: ['tfnProvided', 'taxResidency', 'claimsTaxFreeThreshold', 'hasStudyLoan'],
+      },
+      response: { 200: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { providerId } = request.params as { providerId: string };
+    const declaration = request.body as payroll.TaxDeclaration;
+
+    try {
+      payroll.validateDeclaration(declaration);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const updated = await app.db
+      .update(schema.workerProviderRelationships)
+      .set({
+        tfnProvided: declaration.tfnProvided,
+        taxResidency: declaration.taxResidency,
+        claimsTaxFreeThreshold: declaration.claimsTaxFreeThreshold,
+        hasStudyLoan: declaration.hasStudyLoan,
+        taxDeclaredAt: new Date(),
+      })
+      .where(
+        and(
+          eq(schema.workerProviderRelationships.supportWorkerId, session.user.id),
+          eq(schema.workerProviderRelationships.serviceProviderId, providerId),
+        ),
+      )
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(404).send({ error: 'Relationship not found' });
+    }
+
+    app.logger.info({ userId: session.user.id, providerId }, 'TFN declaration recorded');
+
+    return updated[0];
+  });
 }
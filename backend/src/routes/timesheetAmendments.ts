@@ -0,0 +1,364 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as timesheetAmendments from '../services/timesheetAmendments.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+const idParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+};
+
+export function registerTimesheetAmendmentRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Load a timesheet with its shift, sending a reply when it is missing or the user
+   * is neither its worker nor the shift's provider. Returns null once a reply has been sent.
+   */
+  const getTimesheetForUser = async (reply: FastifyReply, timesheetId: string, userId: string) => {
+    const timesheet = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.id, timesheetId),
+    });
+
+    if (!timesheet) {
+      reply.status(404).send({ error: 'Timesheet not found' });
+      return null;
+    }
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, timesheet.shiftId),
+    });
+
+    const isWorker = timesheet.supportWorkerId === userId;
+    const isProvider = (shift as any)?.serviceProviderId === userId;
+    if (!isWorker && !isProvider) {
+      reply.status(403).send({ error: 'Not authorized to view this timesheet' });
+      return null;
+    }
+
+    return { timesheet, shift: shift as any, isProvider };
+  };
+
+  /**
+   * Names for a set of user IDs
+   */
+  const getUserNames = async (userIds: (string | null)[]) => {
+    const ids = [...new Set(userIds.filter(Boolean))] as string[];
+    const users = ids.length > 0
+      ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, ids) })
+      : [];
+    return new Map(users.map((u: any) => [u.id, u.name]));
+  };
+
+  /**
+   * Notify a user about an amendment, logging rather than failing the request
+   */
+  const notify = async (userId: string, title: string, message: string, data: Record<string, any>) => {
+    try {
+      await pushDelivery.sendBulkPush(app, {
+        userIds: [userId],
+        title,
+        message,
+        data,
+        notificationType: 'shift',
+      });
+    } catch (error) {
+      app.logger.error({ err: error, userId }, 'Failed to send timesheet amendment notification');
+    }
+  };
+
+  /**
+   * Request an amendment to a timesheet
+   */
+  app.fastify.post('/api/timesheets/:id/amendments', {
+    schema: {
+      description: 'Propose corrected times for a closed timesheet. The provider approves or rejects; times left out stay as they are.',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          startTime: { type: 'string' },
+          endTime: { type: 'string' },
+          breakMinutes: { type: 'integer', minimum: 0 },
+          reason: { type: 'string', minLength: 1 },
+        },
+        required: ['reason'],
+      },
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { startTime, endTime, breakMinutes, reason } = request.body as {
+      startTime?: string;
+      endTime?: string;
+      breakMinutes?: number;
+      reason: string;
+    };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { timesheet, shift, isProvider } = access;
+
+    if (timesheetAmendments.isLocked(timesheet as any)) {
+      return reply.status(409).send({ error: timesheetAmendments.LOCKED_MESSAGE });
+    }
+
+    if (!timesheet.endTime) {
+      return reply.status(409).send({ error: 'Clock out before requesting an amendment' });
+    }
+
+    const pending = await app.db.query.timesheetAmendments.findFirst({
+      where: and(
+        eq(schema.timesheetAmendments.timesheetId, id),
+        eq(schema.timesheetAmendments.status, 'pending'),
+      ),
+    });
+
+    if (pending) {
+      return reply.status(409).send({ error: 'This timesheet already has an amendment awaiting review' });
+    }
+
+    const proposed = {
+      startTime: startTime ? new Date(startTime) : new Date(timesheet.startTime),
+      endTime: endTime ? new Date(endTime) : new Date(timesheet.endTime),
+      breakMinutes: breakMinutes ?? timesheet.breakMinutes ?? 0,
+    };
+
+    if (isNaN(proposed.startTime.getTime()) || isNaN(proposed.endTime.getTime())) {
+      return reply.status(400).send({ error: 'Invalid start or end time' });
+    }
+
+    if (proposed.endTime <= proposed.startTime) {
+      return reply.status(400).send({ error: 'End time must be after start time' });
+    }
+
+    if (timesheetAmendments.diffVersions(timesheet, { ...proposed, totalHours: timesheet.totalHours }).length === 0) {
+      return reply.status(400).send({ error: 'The amendment doesn\'t change any times' });
+    }
+
+    const created = await app.db
+      .insert(schema.timesheetAmendments)
+      .values({
+        timesheetId: id,
+        requestedBy: session.user.id,
+        proposedStartTime: proposed.startTime,
+        proposedEndTime: proposed.endTime,
+        proposedBreakMinutes: proposed.breakMinutes,
+        reason,
+      })
+      .returning();
+
+    if (!isProvider && shift) {
+      await notify(
+        shift.serviceProviderId,
+        'Timesheet Amendment Requested',
+        `${session.user.name || 'A worker'} asked to correct their times for ${shift.title}`,
+        { timesheetId: id, amendmentId: created[0].id, type: 'timesheet_amendment_requested' },
+      );
+    }
+
+    return reply.status(201).send(created[0]);
+  });
+
+  /**
+   * Get the amendments for a timesheet
+   */
+  app.fastify.get('/api/timesheets/:id/amendments', {
+    schema: {
+      description: 'Amendment requests for a timesheet, newest first',
+      tags: ['timesheets'],
+      params: idParams,
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    const amendments = await app.db.query.timesheetAmendments.findMany({
+      where: eq(schema.timesheetAmendments.timesheetId, id),
+      orderBy: [desc(schema.timesheetAmendments.createdAt)],
+    });
+
+    const names = await getUserNames(amendments.flatMap((a: any) => [a.requestedBy, a.reviewedBy]));
+
+    return amendments.map((amendment: any) => ({
+      ...amendment,
+      requestedByName: names.get(amendment.requestedBy) || 'Unknown',
+      reviewedByName: amendment.reviewedBy ? names.get(amendment.reviewedBy) || 'Unknown' : null,
+    }));
+  });
+
+  /**
+   * Get every version of a timesheet and what has changed since the original
+   */
+  app.fastify.get('/api/timesheets/:id/versions', {
+    schema: {
+      description: 'Versions of a timesheet, oldest first, and a diff of the original times against the current ones',
+      tags: ['timesheets'],
+      params: idParams,
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    const versions = await app.db.query.timesheetVersions.findMany({
+      where: eq(schema.timesheetVersions.timesheetId, id),
+      orderBy: [asc(schema.timesheetVersions.version)],
+    });
+
+    const names = await getUserNames(versions.map((v: any) => v.changedBy));
+
+    return {
+      versions: versions.map((version: any) => ({
+        ...version,
+        changedByName: version.changedBy ? names.get(version.changedBy) || 'Unknown' : null,
+      })),
+      // A timesheet with no versions has never been corrected
+      changes: versions.length > 0 ? timesheetAmendments.diffVersions(versions[0], access.timesheet) : [],
+      locked: timesheetAmendments.isLocked(access.timesheet as any),
+    };
+  });
+
+  /**
+   * Approve an amendment, applying its times to the timesheet
+   */
+  app.fastify.post('/api/timesheet-amendments/:id/approve', {
+    schema: {
+      description: 'Approve an amendment. The timesheet takes the proposed times and its previous times are kept as a version.',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = (request.body || {}) as { note?: string };
+
+    const amendment = await app.db.query.timesheetAmendments.findFirst({
+      where: eq(schema.timesheetAmendments.id, id),
+    });
+
+    if (!amendment) {
+      return reply.status(404).send({ error: 'Amendment not found' });
+    }
+
+    const access = await getTimesheetForUser(reply, amendment.timesheetId, session.user.id);
+    if (!access) return;
+
+    if (!access.isProvider) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can review amendments' });
+    }
+
+    try {
+      await timesheetAmendments.approveAmendment(app, id, session.user.id, note);
+    } catch (error) {
+      return reply.status(409).send({ error: (error as Error).message });
+    }
+
+    if (amendment.requestedBy !== session.user.id) {
+      await notify(
+        amendment.requestedBy,
+        'Timesheet Amendment Approved',
+        `Your corrected times for ${access.shift?.title || 'your shift'} have been approved`,
+        { timesheetId: amendment.timesheetId, amendmentId: id, type: 'timesheet_amendment_approved' },
+      );
+    }
+
+    const updated = await app.db.query.timesheetAmendments.findFirst({
+      where: eq(schema.timesheetAmendments.id, id),
+    });
+
+    return updated;
+  });
+
+  /**
+   * Reject an amendment, leaving the timesheet as it is
+   */
+  app.fastify.post('/api/timesheet-amendments/:id/reject', {
+    schema: {
+      description: 'Reject an amendment with a note for the requester',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string', minLength: 1 } },
+        required: ['note'],
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = request.body as { note: string };
+
+    const amendment = await app.db.query.timesheetAmendments.findFirst({
+      where: eq(schema.timesheetAmendments.id, id),
+    });
+
+    if (!amendment) {
+      return reply.status(404).send({ error: 'Amendment not found' });
+    }
+
+    const access = await getTimesheetForUser(reply, amendment.timesheetId, session.user.id);
+    if (!access) return;
+
+    if (!access.isProvider) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can review amendments' });
+    }
+
+    const updated = await app.db
+      .update(schema.timesheetAmendments)
+      .set({ status: 'rejected', reviewedBy: session.user.id, reviewedAt: new Date(), reviewNote: note })
+      .where(and(
+        eq(schema.timesheetAmendments.id, id),
+        eq(schema.timesheetAmendments.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This amendment has already been reviewed' });
+    }
+
+    if (amendment.requestedBy !== session.user.id) {
+      await notify(
+        amendment.requestedBy,
+        'Timesheet Amendment Rejected',
+        `Your corrected times for ${access.shift?.title || 'your shift'} were not approved: ${note}`,
+        { timesheetId: amendment.timesheetId, amendmentId: id, type: 'timesheet_amendment_rejected' },
+      );
+    }
+
+    return updated[0];
+  });
+}
@@ -0,0 +1,268 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, gte, lte, inArray, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as timesheetVariance from '../services/timesheetVariance.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+const MAX_BULK_REVIEW = 200;
+
+export function registerTimesheetApprovalRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Provider profile for the user, or null if they aren't a service provider
+   */
+  const getProvider = async (userId: string) => {
+    return app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, userId),
+    });
+  };
+
+  /**
+   * Get submitted timesheets awaiting the provider's approval
+   */
+  app.fastify.get('/api/timesheets/approval-queue', {
+    schema: {
+      description: 'Submitted timesheets across the provider\'s linked workers, oldest first',
+      tags: ['timesheets'],
+      querystring: {
+        type: 'object',
+        properties: {
+          workerId: { type: 'string' },
+          clientId: { type: 'string' },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+          varianceFlagged: { type: 'boolean', description: 'Filter by whether the variance is over the provider\'s tolerance' },
+          locationFlagged: { type: 'boolean', description: 'Filter by whether a punch was flagged for review' },
+        },
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { workerId, clientId, startDate, endDate, varianceFlagged, locationFlagged } = request.query as {
+      workerId?: string;
+      clientId?: string;
+      startDate?: string;
+      endDate?: string;
+      varianceFlagged?: boolean;
+      locationFlagged?: boolean;
+    };
+
+    const provider = await getProvider(session.user.id);
+    if (!provider) {
+      return reply.status(403).send({ error: 'Only service providers can approve timesheets' });
+    }
+
+    const relationships = await app.db.query.workerProviderRelationships.findMany({
+      where: eq(schema.workerProviderRelationships.serviceProviderId, session.user.id),
+    });
+    let workerIds = relationships.map((r: any) => r.supportWorkerId) as string[];
+    if (workerId) {
+      workerIds = workerIds.filter((id) => id === workerId);
+    }
+    if (workerIds.length === 0) return [];
+
+    let shiftCondition: any = eq(schema.shifts.serviceProviderId, session.user.id);
+    if (startDate) {
+      shiftCondition = and(shiftCondition, gte(schema.shifts.startTime, new Date(startDate)));
+    }
+    if (endDate) {
+      shiftCondition = and(shiftCondition, lte(schema.shifts.startTime, new Date(endDate)));
+    }
+
+    const shifts = await app.db.query.shifts.findMany({ where: shiftCondition });
+    if (shifts.length === 0) return [];
+    const shiftsById = new Map(shifts.map((shift: any) => [shift.id, shift]));
+
+    let whereCondition: any = and(
+      eq(schema.timesheets.status, 'submitted' as any),
+      inArray(schema.timesheets.supportWorkerId, workerIds),
+      inArray(schema.timesheets.shiftId, [...shiftsById.keys()] as string[]),
+    );
+
+    if (locationFlagged !== undefined) {
+      whereCondition = and(whereCondition, eq(schema.timesheets.locationFlagged, locationFlagged));
+    }
+
+    const timesheets = await app.db.query.timesheets.findMany({ where: whereCondition });
+    if (timesheets.length === 0) return [];
+
+    // Shifts are linked to clients through their shift notes
+    const notes = await app.db.query.shiftNotes.findMany({
+      where: inArray(schema.shiftNotes.shiftId, timesheets.map((ts: any) => ts.shiftId)),
+    });
+    const clientIdByShift = new Map(notes.filter((n: any) => n.clientId).map((n: any) => [n.shiftId, n.clientId]));
+
+    const clientIds = [...new Set(clientIdByShift.values())] as string[];
+    const clients = clientIds.length > 0
+      ? await app.db.query.clients.findMany({ where: inArray(schema.clients.id, clientIds) })
+      : [];
+    const clientNames = new Map(clients.map((c: any) => [c.id, c.name]));
+
+    const users = await app.db.query.user.findMany({
+      where: inArray(authSchema.user.id, [...new Set(timesheets.map((ts: any) => ts.supportWorkerId))] as string[]),
+    });
+    const workerNames = new Map(users.map((u: any) => [u.id, u.name]));
+
+    const tolerance = (provider as any).varianceToleranceMinutes ?? timesheetVariance.DEFAULT_VARIANCE_TOLERANCE_MINUTES;
+
+    return timesheets
+      .map((ts: any) => {
+        const shift: any = shiftsById.get(ts.shiftId);
+        const tsClientId = clientIdByShift.get(ts.shiftId) || null;
+        return {
+          ...ts,
+          workerName: workerNames.get(ts.supportWorkerId) || 'Unknown',
+          shiftTitle: shift?.title,
+          scheduledStartTime: shift?.startTime,
+          scheduledEndTime: shift?.endTime,
+          clientId: tsClientId,
+          clientName: tsClientId ? clientNames.get(tsClientId) || null : null,
+          varianceFlagged: timesheetVariance.exceedsTolerance({
+            lateStartMinutes: ts.lateStartMinutes ?? 0,
+            earlyFinishMinutes: ts.earlyFinishMinutes,
+            overtimeMinutes: ts.overtimeMinutes,
+          }, tolerance),
+        };
+      })
+      .filter((ts: any) => !clientId || ts.clientId === clientId)
+      .filter((ts: any) => varianceFlagged === undefined || ts.varianceFlagged === varianceFlagged)
+      .sort((a: any, b: any) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  });
+
+  /**
+   * Approve or reject several timesheets at once
+   */
+  app.fastify.post('/api/timesheets/bulk-review', {
+    schema: {
+      description: 'Approve or reject submitted timesheets with a shared comment. Timesheets that aren\'t submitted or aren\'t the provider\'s are skipped.',
+      tags: ['timesheets'],
+      body: {
+        type: 'object',
+        properties: {
+          timesheetIds: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: MAX_BULK_REVIEW },
+          action: { type: 'string', enum: ['approve', 'reject'] },
+          comment: { type: 'string', description: 'Required when rejecting' },
+        },
+        required: ['timesheetIds', 'action'],
+      },
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { timesheetIds, action, comment } = request.body as {
+      timesheetIds: string[];
+      action: 'approve' | 'reject';
+      comment?: string;
+    };
+
+    if (action === 'reject' && !comment?.trim()) {
+      return reply.status(400).send({ error: 'A comment is required when rejecting timesheets' });
+    }
+
+    const provider = await getProvider(session.user.id);
+    if (!provider) {
+      return reply.status(403).send({ error: 'Only service providers can approve timesheets' });
+    }
+
+    const ids = [...new Set(timesheetIds)];
+    const timesheets = await app.db.query.timesheets.findMany({
+      where: inArray(schema.timesheets.id, ids),
+    });
+
+    const shifts = timesheets.length > 0
+      ? await app.db.query.shifts.findMany({
+        where: inArray(schema.shifts.id, timesheets.map((ts: any) => ts.shiftId)),
+      })
+      : [];
+    const ownShiftIds = new Set(
+      shifts.filter((shift: any) => shift.serviceProviderId === session.user.id).map((shift: any) => shift.id),
+    );
+
+    const skipped: { id: string; reason: string }[] = [];
+    const eligibleIds: string[] = [];
+    for (const id of ids) {
+      const ts: any = timesheets.find((t: any) => t.id === id);
+      if (!ts || !ownShiftIds.has(ts.shiftId)) {
+        skipped.push({ id, reason: 'Timesheet not found' });
+      } else if (ts.status !== 'submitted') {
+        skipped.push({ id, reason: `Timesheet is ${ts.status}, not submitted` });
+      } else {
+        eligibleIds.push(id);
+      }
+    }
+
+    // The status condition stops a timesheet reviewed meanwhile from being reviewed twice
+    const reviewed = eligibleIds.length > 0
+      ? await app.db
+        .update(schema.timesheets)
+        .set({
+          status: action === 'approve' ? 'approved' : 'rejected',
+          reviewedBy: session.user.id,
+          reviewedAt: new Date(),
+          reviewComment: comment?.trim() || null,
+        })
+        .where(and(
+          inArray(schema.timesheets.id, eligibleIds),
+          eq(schema.timesheets.status, 'submitted' as any),
+          isNull(schema.timesheets.payslipId),
+        ))
+        .returning()
+      : [];
+
+    const reviewedIds = new Set(reviewed.map((ts: any) => ts.id));
+    for (const id of eligibleIds) {
+      if (!reviewedIds.has(id)) {
+        skipped.push({ id, reason: 'Timesheet changed while reviewing, please try again' });
+      }
+    }
+
+    // One notification per worker covering all of their reviewed timesheets
+    const countsByWorker = new Map<string, number>();
+    for (const ts of reviewed as any[]) {
+      countsByWorker.set(ts.supportWorkerId, (countsByWorker.get(ts.supportWorkerId) || 0) + 1);
+    }
+
+    const outcome = action === 'approve' ? 'approved' : 'rejected';
+    for (const [workerId, count] of countsByWorker) {
+      try {
+        await pushDelivery.sendBulkPush(app, {
+          userIds: [workerId],
+          title: `Timesheet${count === 1 ? '' : 's'} ${outcome === 'approved' ? 'Approved' : 'Rejected'}`,
+          message: `${count} of your timesheets ${count === 1 ? 'was' : 'were'} ${outcome}${comment?.trim() ? `: ${comment.trim()}` : ''}`,
+          data: {
+            timesheetIds: (reviewed as any[]).filter((ts) => ts.supportWorkerId === workerId).map((ts) => ts.id).join(','),
+            type: `timesheets_${outcome}`,
+          },
+          notificationType: 'shift',
+        });
+      } catch (error) {
+        app.logger.error({ err: error, workerId }, 'Failed to send timesheet review notification');
+      }
+    }
+
+    app.logger.info(
+      { userId: session.user.id, action, reviewed: reviewed.length, skipped: skipped.length },
+      'Timesheets bulk reviewed',
+    );
+
+    return {
+      action,
+      reviewed: reviewed.length,
+      timesheetIds: [...reviewedIds],
+      skipped,
+    };
+  });
+}
@@ -1,11 +1,32 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, or, gt, gte, lte, inArray, isNull } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as shiftHours from '../services/shiftHours.js';
+import * as shiftStatus from '../services/shiftStatus.js';
+import * as timesheetVariance from '../services/timesheetVariance.js';
+import * as timesheetAmendments from '../services/timesheetAmendments.js';
 import type { App } from '../index.js';
 
 export function registerTimesheetRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
+  /**
+   * Reply for a timesheet change that matched no rows: either the timesheet
+   * doesn't exist or it has been paid on a payslip
+   */
+  const sendMissingOrLocked = async (reply: FastifyReply, id: string) => {
+    const timesheet = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.id, id),
+    });
+
+    if (!timesheet) {
+      return reply.status(404).send({ error: 'Timesheet not found' });
+    }
+
+    return reply.status(409).send({ error: timesheetAmendments.LOCKED_MESSAGE });
+  };
+
   /**
    * Get all timesheets (with optional filtering)
    */
@@ -19,6 +40,7 @@ export function registerTimesheetRoutes(app: App) {
           status: { type: 'string' },
           userId: { type: 'string' },
           shiftId: { type: 'string' },
+          locationFlagged: { type: 'boolean', description: 'Filter by whether a punch was flagged for review' },
         },
       },
       response: {
@@ -32,10 +54,11 @@ export function registerTimesheetRoutes(app: App) {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    const { status, userId, shiftId } = request.query as {
+    const { status, userId, shiftId, locationFlagged } = request.query as {
       status?: string;
       userId?: string;
       shiftId?: string;
+      locationFlagged?: boolean;
     };
 
     let whereCondition: any = true;
@@ -52,6 +75,10 @@ export function registerTimesheetRoutes(app: App) {
       whereCondition = and(whereCondition, eq(schema.timesheets.shiftId, shiftId));
     }
 
+    if (locationFlagged !== undefined) {
+      whereCondition = and(whereCondition, eq(schema.timesheets.locationFlagged, locationFlagged));
+    }
+
     const timesheets = whereCondition === true
       ? await app.db.query.timesheets.findMany()
       : await app.db.query.timesheets.findMany({ where: whereCondition });
@@ -92,11 +119,11 @@ export function registerTimesheetRoutes(app: App) {
   });
 
   /**
-   * Create a new timesheet
+   * Manually enter a timesheet for a shift
    */
   app.fastify.post('/api/timesheets', {
     schema: {
-      description: 'Create a new timesheet',
+      description: 'Manually enter a timesheet for a shift. Provider only; workers clock in with POST /api/shifts/:id/clock-in.',
       tags: ['timesheets'],
       body: {
         type: 'object',
@@ -127,30 +154,70 @@ export function registerTimesheetRoutes(app: App) {
       notes,
     } = request.body as any;
 
-    // Calculate total hours if endTime is provided
+    // Calculate paid hours for the shift type if endTime is provided
     let totalHours: number | null = null;
     if (endTime) {
-      const start = new Date(startTime).getTime();
-      const end = new Date(endTime).getTime();
-      const durationMs = end - start;
-      const totalMinutes = durationMs / (1000 * 60);
-      totalHours = (totalMinutes - breakMinutes) / 60;
-    }
-
-    const newTimesheet = await app.db
-      .insert(schema.timesheets)
-      .values({
+      totalHours = await shiftHours.calculateTimesheetHours(
+        app,
         shiftId,
-        supportWorkerId,
-        startTime: new Date(startTime),
-        endTime: endTime ? new Date(endTime) : null,
+        new Date(startTime),
+        new Date(endTime),
         breakMinutes,
-        totalHours: totalHours ? totalHours.toString() : null,
-        notes,
-      })
-      .returning();
+      );
+    }
 
-    return reply.status(201).send(newTimesheet[0]);
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, shiftId),
+    });
+
+    if (!shift) {
+      return reply.status(404).send({ error: 'Shift not found' });
+    }
+
+    if ((shift as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can enter timesheets manually; workers clock in instead' });
+    }
+
+    if ((shift as any).status === 'cancelled' || (shift as any).status === 'completed') {
+      return reply.status(409).send({ error: `Cannot add a timesheet to a ${(shift as any).status} shift` });
+    }
+
+    const existingTimesheet = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.shiftId, shiftId),
+    });
+
+    if (existingTimesheet) {
+      return reply.status(409).send({ error: 'This shift already has a timesheet' });
+    }
+
+    // Entering a timesheet starts the shift; one entered with an end time also completes it
+    const newTimesheet = await app.db.transaction(async (tx: any) => {
+      const created = await tx
+        .insert(schema.timesheets)
+        .values({
+          shiftId,
+          supportWorkerId,
+          startTime: new Date(startTime),
+          endTime: endTime ? new Date(endTime) : null,
+          breakMinutes,
+          totalHours: totalHours ? totalHours.toString() : null,
+          notes,
+        })
+        .returning();
+
+      if ((shift as any).status === 'scheduled') {
+        await shiftStatus.transitionShift(tx, { shiftId, event: 'clock_in', changedBy: session.user.id });
+      }
+      if (endTime) {
+        await shiftStatus.transitionShift(tx, { shiftId, event: 'clock_out', changedBy: session.user.id });
+      }
+
+      await timesheetVariance.refreshShiftVariance(tx, shiftId);
+
+      return tx.query.timesheets.findFirst({ where: eq(schema.timesheets.id, created[0].id) });
+    });
+
+    return reply.status(201).send(newTimesheet);
   });
 
   /**
@@ -191,23 +258,77 @@ export function registerTimesheetRoutes(app: App) {
       return reply.status(404).send({ error: 'Timesheet not found' });
     }
 
+    if (timesheetAmendments.isLocked(existing as any)) {
+      return reply.status(409).send({ error: timesheetAmendments.LOCKED_MESSAGE });
+    }
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, existing.shiftId),
+    });
+
+    const changesTimes = updates.endTime !== undefined || updates.breakMinutes !== undefined;
+
+    // Workers record times by clocking in and out; only the provider can correct them here
+    if (changesTimes && (shift as any)?.serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can change timesheet times' });
+    }
+
+    // Once submitted, corrections go through an amendment so the original times are kept
+    if (changesTimes && existing.status !== 'draft') {
+      return reply.status(409).send({ error: 'Submitted timesheets are corrected with an amendment request' });
+    }
+
     if (updates.endTime) {
       updates.endTime = new Date(updates.endTime);
-      const start = existing.startTime.getTime();
-      const end = updates.endTime.getTime();
-      const durationMs = end - start;
-      const totalMinutes = durationMs / (1000 * 60);
+    }
+
+    const endTime = updates.endTime ?? existing.endTime;
+    if (changesTimes && endTime) {
       const breakMins = updates.breakMinutes ?? existing.breakMinutes ?? 0;
-      updates.totalHours = ((totalMinutes - breakMins) / 60).toString();
+      const hours = await shiftHours.calculateTimesheetHours(
+        app,
+        existing.shiftId,
+        existing.startTime,
+        endTime,
+        breakMins,
+      );
+      updates.totalHours = hours.toString();
     }
 
-    const updatedTimesheet = await app.db
-      .update(schema.timesheets)
-      .set(updates)
-      .where(eq(schema.timesheets.id, id))
-      .returning();
+    // Closing an open timesheet completes the shift; changing a closed one is a correction
+    const isClockOut = !!updates.endTime && !existing.endTime;
+    const isCorrection = changesTimes && !!existing.endTime;
+
+    const updatedTimesheet = await app.db.transaction(async (tx: any) => {
+      if (isCorrection) {
+        await timesheetAmendments.ensureOriginalVersion(tx, id);
+      }
+
+      await tx
+        .update(schema.timesheets)
+        .set(updates)
+        .where(eq(schema.timesheets.id, id));
+
+      if (isCorrection) {
+        await timesheetAmendments.recordVersion(tx, id, { source: 'provider_edit', changedBy: session.user.id });
+      }
+
+      if (isClockOut && (shift as any)?.status === 'in_progress') {
+        await shiftStatus.transitionShift(tx, {
+          shiftId: existing.shiftId,
+          event: 'clock_out',
+          changedBy: session.user.id,
+        });
+      }
+
+      if (changesTimes) {
+        await timesheetVariance.refreshShiftVariance(tx, existing.shiftId);
+      }
+
+      return tx.query.timesheets.findFirst({ where: eq(schema.timesheets.id, id) });
+    });
 
-    return updatedTimesheet[0];
+    return updatedTimesheet;
   });
 
   /**
@@ -231,11 +352,11 @@ export function registerTimesheetRoutes(app: App) {
 
     const deleted = await app.db
       .delete(schema.timesheets)
-      .where(eq(schema.timesheets.id, id))
+      .where(and(eq(schema.timesheets.id, id), isNull(schema.timesheets.payslipId)))
       .returning();
 
     if (deleted.length === 0) {
-      return reply.status(404).send({ error: 'Timesheet not found' });
+      return sendMissingOrLocked(reply, id);
     }
 
     return reply.status(204).send();
@@ -263,11 +384,11 @@ export function registerTimesheetRoutes(app: App) {
     const updated = await app.db
       .update(schema.timesheets)
       .set({ status: 'submitted' })
-      .where(eq(schema.timesheets.id, id))
+      .where(and(eq(schema.timesheets.id, id), isNull(schema.timesheets.payslipId)))
       .returning();
 
     if (updated.length === 0) {
-      return reply.status(404).send({ error: 'Timesheet not found' });
+      return sendMissingOrLocked(reply, id);
     }
 
     return updated[0];
@@ -294,12 +415,12 @@ export function registerTimesheetRoutes(app: App) {
 
     const updated = await app.db
       .update(schema.timesheets)
-      .set({ status: 'approved' })
-      .where(eq(schema.timesheets.id, id))
+      .set({ status: 'approved', reviewedBy: session.user.id, reviewedAt: new Date() })
+      .where(and(eq(schema.timesheets.id, id), isNull(schema.timesheets.payslipId)))
       .returning();
 
     if (updated.length === 0) {
-      return reply.status(404).send({ error: 'Timesheet not found' });
+      return sendMissingOrLocked(reply, id);
     }
 
     return updated[0];
@@ -329,20 +450,120 @@ export function registerTimesheetRoutes(app: App) {
     if (!session) return;
 
     const { id } = request.params as { id: string };
+    const { reason } = (request.body || {}) as { reason?: string };
 
     const updated = await app.db
       .update(schema.timesheets)
-      .set({ status: 'rejected' })
-      .where(eq(schema.timesheets.id, id))
+      .set({ status: 'rejected', reviewedBy: session.user.id, reviewedAt: new Date(), reviewComment: reason })
+      .where(and(eq(schema.timesheets.id, id), isNull(schema.timesheets.payslipId)))
       .returning();
 
     if (updated.length === 0) {
-      return reply.status(404).send({ error: 'Timesheet not found' });
+      return sendMissingOrLocked(reply, id);
     }
 
     return updated[0];
   });
 
+  /**
+   * Review queue of timesheets that differ from the schedule
+   */
+  app.fastify.get('/api/timesheets/variance-review', {
+    schema: {
+      description: 'Timesheets awaiting approval whose late start, early finish or overtime is over the tolerance, and shifts that ended with no timesheet',
+      tags: ['timesheets'],
+      querystring: {
+        type: 'object',
+        properties: {
+          toleranceMinutes: { type: 'integer', minimum: 0, description: 'Defaults to the provider\'s tolerance' },
+          status: { type: 'string', enum: ['draft', 'submitted'], description: 'Defaults to both' },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { toleranceMinutes, status, startDate, endDate } = request.query as {
+      toleranceMinutes?: number;
+      status?: 'draft' | 'submitted';
+      startDate?: string;
+      endDate?: string;
+    };
+
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, session.user.id),
+    });
+
+    if (!provider) {
+      return reply.status(403).send({ error: 'Only service providers can review timesheets' });
+    }
+
+    const tolerance = toleranceMinutes ?? (provider as any).varianceToleranceMinutes
+      ?? timesheetVariance.DEFAULT_VARIANCE_TOLERANCE_MINUTES;
+    const from = startDate ? new Date(startDate) : undefined;
+    const to = endDate ? new Date(endDate) : undefined;
+
+    let shiftCondition: any = eq(schema.shifts.serviceProviderId, session.user.id);
+    if (from) {
+      shiftCondition = and(shiftCondition, gte(schema.shifts.startTime, from));
+    }
+    if (to) {
+      shiftCondition = and(shiftCondition, lte(schema.shifts.startTime, to));
+    }
+
+    const shifts = await app.db.query.shifts.findMany({ where: shiftCondition });
+    const shiftsById = new Map(shifts.map((shift: any) => [shift.id, shift]));
+
+    const timesheets = shifts.length > 0
+      ? await app.db.query.timesheets.findMany({
+        where: and(
+          inArray(schema.timesheets.shiftId, [...shiftsById.keys()] as string[]),
+          status
+            ? eq(schema.timesheets.status, status as any)
+            : inArray(schema.timesheets.status, ['draft', 'submitted'] as any),
+          or(
+            gt(schema.timesheets.lateStartMinutes, tolerance),
+            gt(schema.timesheets.earlyFinishMinutes, tolerance),
+            gt(schema.timesheets.overtimeMinutes, tolerance),
+          ),
+        ),
+      })
+      : [];
+
+    const noShows = await timesheetVariance.findNoShows(app, session.user.id, { from, to });
+
+    const workerIds = [...new Set([
+      ...timesheets.map((ts: any) => ts.supportWorkerId),
+      ...noShows.map((shift: any) => shift.supportWorkerId),
+    ])] as string[];
+    const workers = workerIds.length > 0
+      ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, workerIds) })
+      : [];
+    const names = new Map(workers.map((w: any) => [w.id, w.name]));
+
+    return {
+      toleranceMinutes: tolerance,
+      timesheets: timesheets.map((ts: any) => {
+        const shift: any = shiftsById.get(ts.shiftId);
+        return {
+          ...ts,
+          workerName: names.get(ts.supportWorkerId) || 'Unknown',
+          shiftTitle: shift?.title,
+          scheduledStartTime: shift?.startTime,
+          scheduledEndTime: shift?.endTime,
+        };
+      }),
+      noShows: noShows.map((shift: any) => ({
+        ...shift,
+        workerName: names.get(shift.supportWorkerId) || 'Unknown',
+      })),
+    };
+  });
+
   /**
    * Get timesheet summary for a user
    */
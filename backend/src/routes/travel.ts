@@ -0,0 +1,544 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, desc, gte, lte, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as travel from '../services/travel.js';
+import * as timesheetAmendments from '../services/timesheetAmendments.js';
+import * as pushDelivery from '../services/pushDelivery.js';
+import type { App } from '../index.js';
+
+const idParams = {
+  type: 'object',
+  properties: { id: { type: 'string' } },
+};
+
+export function registerTravelRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * Load a timesheet with its shift, sending a reply when it is missing or the user
+   * is neither its worker nor the shift's provider. Returns null once a reply has been sent.
+   */
+  const getTimesheetForUser = async (reply: FastifyReply, timesheetId: string, userId: string) => {
+    const timesheet = await app.db.query.timesheets.findFirst({
+      where: eq(schema.timesheets.id, timesheetId),
+    });
+
+    if (!timesheet) {
+      reply.status(404).send({ error: 'Timesheet not found' });
+      return null;
+    }
+
+    const shift = await app.db.query.shifts.findFirst({
+      where: eq(schema.shifts.id, timesheet.shiftId),
+    });
+
+    const isWorker = timesheet.supportWorkerId === userId;
+    const isProvider = (shift as any)?.serviceProviderId === userId;
+    if (!isWorker && !isProvider) {
+      reply.status(403).send({ error: 'Not authorized to view this timesheet' });
+      return null;
+    }
+
+    return { timesheet, shift: shift as any, isWorker, isProvider };
+  };
+
+  /**
+   * Load a travel entry and its timesheet for the user, sending a reply on failure.
+   * Returns null once a reply has been sent.
+   */
+  const getEntryForUser = async (reply: FastifyReply, entryId: string, userId: string) => {
+    const entry = await app.db.query.travelEntries.findFirst({
+      where: eq(schema.travelEntries.id, entryId),
+    });
+
+    if (!entry) {
+      reply.status(404).send({ error: 'Travel entry not found' });
+      return null;
+    }
+
+    const access = await getTimesheetForUser(reply, entry.timesheetId, userId);
+    if (!access) return null;
+
+    return { entry, ...access };
+  };
+
+  /**
+   * Notify a user about a travel claim, logging rather than failing the request
+   */
+  const notify = async (userId: string, title: string, message: string, data: Record<string, any>) => {
+    try {
+      await pushDelivery.sendBulkPush(app, {
+        userIds: [userId],
+        title,
+        message,
+        data,
+        notificationType: 'shift',
+      });
+    } catch (error) {
+      app.logger.error({ err: error, userId }, 'Failed to send travel claim notification');
+    }
+  };
+
+  /**
+   * Suggest kilometres and travel time for a claim
+   */
+  app.fastify.get('/api/timesheets/:id/travel/suggestion', {
+    schema: {
+      description: 'Suggested distance from client coordinates and travel time since the worker\'s previous shift that day',
+      tags: ['timesheets'],
+      params: idParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          travelType: { type: 'string', enum: travel.TRAVEL_TYPES },
+        },
+        required: ['travelType'],
+      },
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { travelType } = request.query as { travelType: travel.TravelType };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    return travel.suggestTravel(app, access.timesheet, travelType);
+  });
+
+  /**
+   * Claim travel against a timesheet
+   */
+  app.fastify.post('/api/timesheets/:id/travel', {
+    schema: {
+      description: 'Claim kilometres and travel time. Kilometres default to the suggested distance; a different figure needs a reason.',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          travelType: { type: 'string', enum: travel.TRAVEL_TYPES },
+          kilometres: { type: 'number', minimum: 0 },
+          travelMinutes: { type: 'integer', minimum: 0 },
+          overrideReason: { type: 'string' },
+          notes: { type: 'string' },
+        },
+        required: ['travelType'],
+      },
+      response: { 201: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { travelType, kilometres, travelMinutes, overrideReason, notes } = request.body as {
+      travelType: travel.TravelType;
+      kilometres?: number;
+      travelMinutes?: number;
+      overrideReason?: string;
+      notes?: string;
+    };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { timesheet, shift, isWorker } = access;
+
+    if (!isWorker) {
+      return reply.status(403).send({ error: 'Only the worker on this timesheet can claim travel' });
+    }
+
+    if (timesheetAmendments.isLocked(timesheet as any)) {
+      return reply.status(409).send({ error: timesheetAmendments.LOCKED_MESSAGE });
+    }
+
+    const suggestion = await travel.suggestTravel(app, timesheet, travelType);
+    const claim = {
+      kilometres: kilometres ?? suggestion.suggestedKilometres ?? 0,
+      travelMinutes: travelMinutes ?? (travelType === 'between_clients' ? suggestion.suggestedMinutes ?? 0 : 0),
+      suggestedKilometres: suggestion.suggestedKilometres,
+      overrideReason: overrideReason?.trim() || null,
+    };
+
+    try {
+      travel.validateClaim(claim);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const created = await app.db
+      .insert(schema.travelEntries)
+      .values({
+        timesheetId: id,
+        supportWorkerId: session.user.id,
+        travelType,
+        fromClientId: suggestion.fromClientId,
+        clientId: suggestion.clientId,
+        suggestedKilometres: suggestion.suggestedKilometres,
+        kilometres: claim.kilometres.toFixed(2),
+        travelMinutes: claim.travelMinutes,
+        overrideReason: claim.overrideReason,
+        notes,
+      })
+      .returning();
+
+    if (shift) {
+      await notify(
+        shift.serviceProviderId,
+        'Travel Claimed',
+        `${session.user.name || 'A worker'} claimed ${claim.kilometres.toFixed(1)} km for ${shift.title}`,
+        { timesheetId: id, travelEntryId: created[0].id, type: 'travel_claimed' },
+      );
+    }
+
+    return reply.status(201).send(created[0]);
+  });
+
+  /**
+   * Get the travel claimed against a timesheet
+   */
+  app.fastify.get('/api/timesheets/:id/travel', {
+    schema: {
+      description: 'Travel entries for a timesheet, newest first, with client names',
+      tags: ['timesheets'],
+      params: idParams,
+      response: {
+        200: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getTimesheetForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    const entries = await app.db.query.travelEntries.findMany({
+      where: eq(schema.travelEntries.timesheetId, id),
+      orderBy: [desc(schema.travelEntries.createdAt)],
+    });
+
+    const clientIds = [...new Set(entries.flatMap((e: any) => [e.fromClientId, e.clientId]).filter(Boolean))] as string[];
+    const clients = clientIds.length > 0
+      ? await app.db.query.clients.findMany({ where: inArray(schema.clients.id, clientIds) })
+      : [];
+    const clientNames = new Map(clients.map((c: any) => [c.id, c.name]));
+
+    return entries.map((entry: any) => ({
+      ...entry,
+      fromClientName: entry.fromClientId ? clientNames.get(entry.fromClientId) || null : null,
+      clientName: entry.clientId ? clientNames.get(entry.clientId) || null : null,
+    }));
+  });
+
+  /**
+   * Update a pending travel claim
+   */
+  app.fastify.patch('/api/travel-entries/:id', {
+    schema: {
+      description: 'Correct a travel claim that hasn\'t been reviewed yet',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          kilometres: { type: 'number', minimum: 0 },
+          travelMinutes: { type: 'integer', minimum: 0 },
+          overrideReason: { type: 'string' },
+          notes: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const body = request.body as {
+      kilometres?: number;
+      travelMinutes?: number;
+      overrideReason?: string;
+      notes?: string;
+    };
+
+    const access = await getEntryForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { entry, isWorker } = access;
+
+    if (!isWorker) {
+      return reply.status(403).send({ error: 'Only the worker who claimed this travel can change it' });
+    }
+
+    if (entry.status !== 'pending') {
+      return reply.status(409).send({ error: `This claim has been ${entry.status} and can no longer be changed` });
+    }
+
+    const claim = {
+      kilometres: body.kilometres ?? parseFloat(entry.kilometres),
+      travelMinutes: body.travelMinutes ?? entry.travelMinutes,
+      suggestedKilometres: entry.suggestedKilometres,
+      overrideReason: body.overrideReason !== undefined ? body.overrideReason.trim() || null : entry.overrideReason,
+    };
+
+    try {
+      travel.validateClaim(claim);
+    } catch (error) {
+      return reply.status(400).send({ error: (error as Error).message });
+    }
+
+    const updated = await app.db
+      .update(schema.travelEntries)
+      .set({
+        kilometres: claim.kilometres.toFixed(2),
+        travelMinutes: claim.travelMinutes,
+        overrideReason: claim.overrideReason,
+        ...(body.notes !== undefined && { notes: body.notes }),
+      })
+      .where(and(
+        eq(schema.travelEntries.id, id),
+        eq(schema.travelEntries.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    return updated[0];
+  });
+
+  /**
+   * Withdraw a pending travel claim
+   */
+  app.fastify.delete('/api/travel-entries/:id', {
+    schema: {
+      description: 'Withdraw a travel claim that hasn\'t been reviewed yet',
+      tags: ['timesheets'],
+      params: idParams,
+      response: { 204: { type: 'null' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    const access = await getEntryForUser(reply, id, session.user.id);
+    if (!access) return;
+
+    if (!access.isWorker) {
+      return reply.status(403).send({ error: 'Only the worker who claimed this travel can withdraw it' });
+    }
+
+    const deleted = await app.db
+      .delete(schema.travelEntries)
+      .where(and(
+        eq(schema.travelEntries.id, id),
+        eq(schema.travelEntries.status, 'pending'),
+      ))
+      .returning();
+
+    if (deleted.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Approve a travel claim so it is paid on the worker's next payslip
+   */
+  app.fastify.post('/api/travel-entries/:id/approve', {
+    schema: {
+      description: 'Approve a pending travel claim',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string' } },
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = (request.body || {}) as { note?: string };
+
+    const access = await getEntryForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { entry, shift, isProvider } = access;
+
+    if (!isProvider) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can review travel claims' });
+    }
+
+    const updated = await app.db
+      .update(schema.travelEntries)
+      .set({ status: 'approved', reviewedBy: session.user.id, reviewedAt: new Date(), reviewNote: note || null })
+      .where(and(
+        eq(schema.travelEntries.id, id),
+        eq(schema.travelEntries.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    await notify(
+      entry.supportWorkerId,
+      'Travel Claim Approved',
+      `Your travel for ${shift?.title || 'your shift'} has been approved`,
+      { timesheetId: entry.timesheetId, travelEntryId: id, type: 'travel_approved' },
+    );
+
+    return updated[0];
+  });
+
+  /**
+   * Reject a travel claim
+   */
+  app.fastify.post('/api/travel-entries/:id/reject', {
+    schema: {
+      description: 'Reject a pending travel claim with a note for the worker',
+      tags: ['timesheets'],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: { note: { type: 'string', minLength: 1 } },
+        required: ['note'],
+      },
+      response: { 200: { type: 'object' }, 409: { type: 'object' } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { note } = request.body as { note: string };
+
+    const access = await getEntryForUser(reply, id, session.user.id);
+    if (!access) return;
+    const { entry, shift, isProvider } = access;
+
+    if (!isProvider) {
+      return reply.status(403).send({ error: 'Only the shift\'s provider can review travel claims' });
+    }
+
+    const updated = await app.db
+      .update(schema.travelEntries)
+      .set({ status: 'rejected', reviewedBy: session.user.id, reviewedAt: new Date(), reviewNote: note })
+      .where(and(
+        eq(schema.travelEntries.id, id),
+        eq(schema.travelEntries.status, 'pending'),
+      ))
+      .returning();
+
+    if (updated.length === 0) {
+      return reply.status(409).send({ error: 'This claim has already been reviewed' });
+    }
+
+    await notify(
+      entry.supportWorkerId,
+      'Travel Claim Rejected',
+      `Your travel for ${shift?.title || 'your shift'} was not approved: ${note}`,
+      { timesheetId: entry.timesheetId, travelEntryId: id, type: 'travel_rejected' },
+    );
+
+    return updated[0];
+  });
+
+  /**
+   * Get billable travel for a client
+   */
+  app.fastify.get('/api/clients/:id/billing/travel', {
+    schema: {
+      description: 'Approved travel billed to a client, with kilometres charged at the provider\'s billing rate',
+      tags: ['clients'],
+      params: idParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+        },
+      },
+      response: { 200: { type: 'object', additionalProperties: true } },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+    const { startDate, endDate } = request.query as { startDate?: string; endDate?: string };
+
+    const client = await app.db.query.clients.findFirst({
+      where: eq(schema.clients.id, id),
+    });
+
+    if (!client) {
+      return reply.status(404).send({ error: 'Client not found' });
+    }
+
+    if ((client as any).serviceProviderId !== session.user.id) {
+      return reply.status(403).send({ error: 'Not authorized to view this client' });
+    }
+
+    let whereCondition: any = and(
+      eq(schema.travelEntries.clientId, id),
+      eq(schema.travelEntries.status, 'approved' as any),
+    );
+    if (startDate) {
+      whereCondition = and(whereCondition, gte(schema.travelEntries.createdAt, new Date(startDate)));
+    }
+    if (endDate) {
+      whereCondition = and(whereCondition, lte(schema.travelEntries.createdAt, new Date(endDate)));
+    }
+
+    const entries = await app.db.query.travelEntries.findMany({
+      where: whereCondition,
+      orderBy: [desc(schema.travelEntries.createdAt)],
+    });
+
+    const provider = await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, session.user.id),
+    });
+    const kmRate = parseFloat((provider as any)?.kmBillingRate ?? '0');
+
+    const users = entries.length > 0
+      ? await app.db.query.user.findMany({
+        where: inArray(authSchema.user.id, [...new Set(entries.map((e: any) => e.supportWorkerId))] as string[]),
+      })
+      : [];
+    const workerNames = new Map(users.map((u: any) => [u.id, u.name]));
+
+    const totalKilometres = entries.reduce((sum: number, e: any) => sum + parseFloat(e.kilometres), 0);
+    const totalMinutes = entries.reduce((sum: number, e: any) => sum + (e.travelMinutes || 0), 0);
+
+    return {
+      clientId: id,
+      clientName: (client as any).name,
+      kmBillingRate: kmRate.toFixed(2),
+      entries: entries.map((entry: any) => ({
+        ...entry,
+        workerName: workerNames.get(entry.supportWorkerId) || 'Unknown',
+        kilometreCharge: (parseFloat(entry.kilometres) * kmRate).toFixed(2),
+      })),
+      totalKilometres: totalKilometres.toFixed(2),
+      totalTravelMinutes: totalMinutes,
+      totalKilometreCharge: (totalKilometres * kmRate).toFixed(2),
+    };
+  });
+}
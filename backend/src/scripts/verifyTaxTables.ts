@@ -0,0 +1,171 @@
+/**
+ * Check withholding and super against worked examples for each tax table version.
+ * Run with `npm run verify:tax`; exits non-zero if any amount differs.
+ *
+ * Expected amounts follow the ATO's Schedule 1 (NAT 1004) and Schedule 8 (NAT 3539) statements
+ * of formulas, as shown in the weekly and fortnightly tax tables, and the super guarantee rate
+ * in effect at the end of the pay period. Add cases here whenever a new table version is added.
+ */
+import * as payroll from '../services/payroll.js';
+import * as taxTables from '../services/taxTables.js';
+
+interface WithholdingCase {
+  name: string;
+  periodEnd: string; // YYYY-MM-DD, picks the table version
+  grossPay: number;
+  weeks: number;
+  declaration: payroll.TaxDeclaration;
+  withholding: number; // PAYG, whole dollars
+  studyLoan: number; // Whole dollars, 0 when there's no study loan line
+}
+
+interface SuperCase {
+  name: string;
+  periodEnd: string;
+  ordinaryTimeEarnings: number;
+  superGuarantee: number;
+}
+
+const resident = (overrides: Partial<payroll.TaxDeclaration> = {}): payroll.TaxDeclaration => ({
+  tfnProvided: true,
+  taxResidency: 'resident',
+  claimsTaxFreeThreshold: true,
+  hasStudyLoan: false,
+  ...overrides,
+});
+
+const WITHHOLDING_CASES: WithholdingCase[] = [
+  {
+    name: 'Weekly $1,000, tax-free threshold claimed (scale 2)',
+    periodEnd: '2025-03-09',
+    grossPay: 1000,
+    weeks: 1,
+    declaration: resident(),
+    withholding: 143,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $1,000, no tax-free threshold (scale 1)',
+    periodEnd: '2025-03-09',
+    grossPay: 1000,
+    weeks: 1,
+    declaration: resident({ claimsTaxFreeThreshold: false }),
+    withholding: 255,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $350, tax-free threshold claimed, below the threshold',
+    periodEnd: '2025-03-09',
+    grossPay: 350,
+    weeks: 1,
+    declaration: resident(),
+    withholding: 0,
+    studyLoan: 0,
+  },
+  {
+    name: 'Fortnightly $2,000, tax-free threshold claimed',
+    periodEnd: '2025-03-16',
+    grossPay: 2000,
+    weeks: 2,
+    declaration: resident(),
+    withholding: 286,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $1,000, foreign resident (scale 3)',
+    periodEnd: '2025-03-09',
+    grossPay: 1000,
+    weeks: 1,
+    declaration: resident({ taxResidency: 'foreign', claimsTaxFreeThreshold: false }),
+    withholding: 300,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $1,000, no TFN provided, resident (scale 4)',
+    periodEnd: '2025-03-09',
+    grossPay: 1000,
+    weeks: 1,
+    declaration: resident({ tfnProvided: false }),
+    withholding: 470,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $1,100 with STSL, 2024-25 total rate of 1%',
+    periodEnd: '2025-03-09',
+    grossPay: 1100,
+    weeks: 1,
+    declaration: resident({ hasStudyLoan: true }),
+    withholding: 175,
+    studyLoan: 11,
+  },
+  {
+    name: 'Weekly $1,100 with STSL, 2025-26, below the repayment threshold',
+    periodEnd: '2025-08-03',
+    grossPay: 1100,
+    weeks: 1,
+    declaration: resident({ hasStudyLoan: true }),
+    withholding: 175,
+    studyLoan: 0,
+  },
+  {
+    name: 'Weekly $1,500 with STSL, 2025-26 marginal rate of 15c',
+    periodEnd: '2025-08-03',
+    grossPay: 1500,
+    weeks: 1,
+    declaration: resident({ hasStudyLoan: true }),
+    withholding: 304,
+    studyLoan: 32,
+  },
+];
+
+const SUPER_CASES: SuperCase[] = [
+  {
+    name: 'Period ending 30 June 2025, 11.5%',
+    periodEnd: '2025-06-30',
+    ordinaryTimeEarnings: 1000,
+    superGuarantee: 115,
+  },
+  {
+    name: 'Period ending 1 July 2025, 12%',
+    periodEnd: '2025-07-01',
+    ordinaryTimeEarnings: 1000,
+    superGuarantee: 120,
+  },
+  {
+    name: 'Cents are rounded, 12%',
+    periodEnd: '2025-08-03',
+    ordinaryTimeEarnings: 1234.56,
+    superGuarantee: 148.15,
+  },
+];
+
+const failures: string[] = [];
+
+const expectAmount = (name: string, label: string, actual: number, expected: number) => {
+  if (Math.abs(actual - expected) > 0.001) {
+    failures.push(`${name}: ${label} was ${actual}, expected ${expected}`);
+  }
+};
+
+for (const testCase of WITHHOLDING_CASES) {
+  const table = taxTables.tableFor(testCase.periodEnd);
+  const lines = payroll.calculateWithholding(testCase.grossPay, testCase.weeks, testCase.declaration, table);
+  const studyLoan = lines.find((line) => line.description.startsWith('Study and training support loan'));
+  const withholding = lines.filter((line) => line !== studyLoan).reduce((sum, line) => sum + line.amount, 0);
+
+  expectAmount(`${testCase.name} (${table.version})`, 'withholding', withholding, testCase.withholding);
+  expectAmount(`${testCase.name} (${table.version})`, 'study loan', studyLoan?.amount ?? 0, testCase.studyLoan);
+}
+
+for (const testCase of SUPER_CASES) {
+  const table = taxTables.tableFor(testCase.periodEnd);
+  const amount = payroll.superGuarantee(testCase.ordinaryTimeEarnings, table);
+  expectAmount(`${testCase.name} (${table.version})`, 'super guarantee', amount, testCase.superGuarantee);
+}
+
+const total = WITHHOLDING_CASES.length + SUPER_CASES.length;
+if (failures.length > 0) {
+  console.error(`${failures.length} tax table check(s) failed:\n${failures.join('\n')}`);
+  process.exit(1);
+}
+console.log(`All ${total} tax table checks passed`);
@@ -0,0 +1,119 @@
+import type { BankDetails } from './bankDetails.js';
+
+/**
+ * The paying account and APCA user details written to a direct entry file's header
+ */
+export interface AbaRemitter extends BankDetails {
+  financialInstitution: string; // Three letter bank code, e.g. CBA
+  apcaUserId: string; // Six digit user identification number issued by the bank
+  remitterName: string;
+}
+
+export interface AbaPayment extends BankDetails {
+  amountCents: number;
+  lodgementReference: string;
+}
+
+export interface AbaFile {
+  content: string;
+  payments: number;
+  totalCents: number;
+}
+
+// Largest amount that fits a ten digit field of cents
+const MAX_CENTS = 9999999999;
+
+const text = (value: string, width: number) =>
+  value.replace(/[^A-Za-z0-9 &*.,/'+\-()]/g, ' ').slice(0, width).padEnd(width, ' ');
+
+const number = (value: number | string, width: number) => String(value).padStart(width, '0');
+
+const blank = (width: number) => ' '.repeat(width);
+
+const processingDate = (date: Date) =>
+  `${number(date.getDate(), 2)}${number(date.getMonth() + 1, 2)}${number(date.getFullYear() % 100, 2)}`;
+
+/**
+ * One detail record: transaction code 53 pays the account, 13 draws from it
+ */
+const detailRecord = (account: BankDetails, transactionCode: '53' | '13', amountCents: number, reference: string, remitter: AbaRemitter) => [
+  '1',
+  account.bsb,
+  account.accountNumber.padStart(9, ' '),
+  ' ',
+  transactionCode,
+  number(amountCents, 10),
+  text(account.accountName, 32),
+  text(reference, 18),
+  remitter.bsb,
+  remitter.accountNumber.padStart(9, ' '),
+  text(remitter.remitterName, 16),
+  number(0, 8),
+].join('');
+
+/**
+ * Build a self-balancing Cemtex/ABA direct entry file paying each account from the remitter's,
+ * throwing if the payments or totals can't be written to a valid file
+ */
+export function buildAbaFile(remitter: AbaRemitter, payments: AbaPayment[], description: string, date: Date): AbaFile {
+  if (!/^[A-Z]{3}$/.test(remitter.financialInstitution)) {
+    throw new Error('Financial institution must be a three letter bank code, e.g. CBA');
+  }
+  if (!/^\d{6}$/.test(remitter.apcaUserId)) {
+    throw new Error('APCA user ID must be six digits');
+  }
+  if (payments.length === 0) {
+    throw new Error('There are no payments to export');
+  }
+
+  for (const payment of payments) {
+    if (!Number.isInteger(payment.amountCents) || payment.amountCents <= 0 || payment.amountCents > MAX_CENTS) {
+      throw new Error(`Payment to ${payment.accountName} must be a positive whole number of cents under $100,000,000`);
+    }
+  }
+
+  const creditCents = payments.reduce((sum, payment) => sum + payment.amountCents, 0);
+  if (creditCents > MAX_CENTS) {
+    throw new Error('Total of the payments is too large for one file');
+  }
+
+  const records = [
+    [
+      '0',
+      blank(17),
+      '01',
+      remitter.financialInstitution,
+      blank(7),
+      text(remitter.remitterName, 26),
+      remitter.apcaUserId,
+      text(description, 12),
+      processingDate(date),
+      blank(40),
+    ].join(''),
+    ...payments.map((payment) => detailRecord(payment, '53', payment.amountCents, payment.lodgementReference, remitter)),
+    detailRecord(remitter, '13', creditCents, description, remitter),
+  ];
+
+  // The balancing debit from the remitter's account makes the net total zero
+  records.push([
+    '7',
+    '999-999',
+    blank(12),
+    number(0, 10),
+    number(creditCents, 10),
+    number(creditCents, 10),
+    blank(24),
+    number(records.length - 1, 6),
+    blank(40),
+  ].join(''));
+
+  if (records.some((record) => record.length !== 120)) {
+    throw new Error('Direct entry records must be 120 characters');
+  }
+
+  return {
+    content: `${records.join('\r\n')}\r\n`,
+    payments: payments.length,
+    totalCents: creditCents,
+  };
+}
@@ -0,0 +1,165 @@
+import { eq, and, inArray, lte, gte } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as timeZones from './timeZone.js';
+import type { App } from '../index.js';
+
+export type AvailabilityWarningType = 'outside_availability' | 'on_leave' | 'leave_pending';
+
+export interface AvailabilityWarning {
+  type: AvailabilityWarningType;
+  message: string;
+  leaveRequestId?: string;
+}
+
+export interface AvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LeavePeriod {
+  id: string;
+  leaveType: string;
+  startDate: Date;
+  endDate: Date;
+  status: 'pending' | 'approved';
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * Minutes since midnight for an HH:MM string
+ */
+export function parseTimeOfDay(value: string): number {
+  if (!TIME_PATTERN.test(value)) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate a set of weekly windows, throwing on bad days or times
+ */
+export function validateWindows(windows: AvailabilityWindow[]): void {
+  for (const window of windows) {
+    if (!Number.isInteger(window.dayOfWeek) || window.dayOfWeek < 0 || window.dayOfWeek > 6) {
+      throw new Error(`Invalid day of week: ${window.dayOfWeek}`);
+    }
+    if (parseTimeOfDay(window.startTime) >= parseTimeOfDay(window.endTime)) {
+      throw new Error(`Window on ${DAY_NAMES[window.dayOfWeek]} must end after it starts`);
+    }
+  }
+}
+
+/**
+ * Whether every minute of the shift falls inside the worker's weekly windows, which are
+ * wall clock times in the provider's time zone. Shifts crossing midnight are checked one
+ * calendar day at a time.
+ */
+function isWithinWindows(startTime: Date, endTime: Date, windows: AvailabilityWindow[], timeZone: string): boolean {
+  const minuteOfDay = (date: Date) => {
+    const local = timeZones.localTime(date, timeZone);
+    return local.hour * 60 + local.minute;
+  };
+
+  for (let day = timeZones.startOfLocalDay(startTime, timeZone); day < endTime;) {
+    const dayEnd = timeZones.startOfLocalDay(day, timeZone, 1);
+
+    const segmentStart = startTime > day ? startTime : day;
+    const fromMinute = minuteOfDay(segmentStart);
+    const toMinute = endTime < dayEnd ? minuteOfDay(endTime) : 24 * 60;
+    const weekday = timeZones.localTime(day, timeZone).weekday;
+
+    const covered = windows.some((window) =>
+      window.dayOfWeek === weekday
+      && parseTimeOfDay(window.startTime) <= fromMinute
+      && parseTimeOfDay(window.endTime) >= toMinute,
+    );
+
+    if (!covered) return false;
+    day = dayEnd;
+  }
+
+  return true;
+}
+
+/**
+ * Check a proposed shift against a worker's weekly availability and leave.
+ * Workers who have not set any availability are treated as always available.
+ */
+export function detectAvailabilityWarnings(
+  proposed: { startTime: Date; endTime: Date },
+  windows: AvailabilityWindow[],
+  leave: LeavePeriod[],
+  timeZone: string,
+): AvailabilityWarning[] {
+  const warnings: AvailabilityWarning[] = [];
+  const formatDate = (date: Date) => date.toLocaleDateString('en-AU', { timeZone, dateStyle: 'medium' });
+
+  if (windows.length > 0 && !isWithinWindows(proposed.startTime, proposed.endTime, windows, timeZone)) {
+    warnings.push({
+      type: 'outside_availability',
+      message: 'Shift falls outside the worker\'s weekly availability',
+    });
+  }
+
+  for (const period of leave) {
+    if (period.startDate < proposed.endTime && period.endDate > proposed.startTime) {
+      warnings.push({
+        type: period.status === 'approved' ? 'on_leave' : 'leave_pending',
+        message: period.status === 'approved'
+          ? `Worker is on approved ${period.leaveType} leave from ${formatDate(period.startDate)} to ${formatDate(period.endDate)}`
+          : `Worker has requested ${period.leaveType} leave from ${formatDate(period.startDate)} to ${formatDate(period.endDate)}`,
+        leaveRequestId: period.id,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Load a worker's availability and any pending or approved leave with the provider, and check the shift against them
+ */
+export async function checkAvailability(
+  app: App,
+  params: {
+    supportWorkerId: string;
+    serviceProviderId: string;
+    startTime: Date;
+    endTime: Date;
+  },
+): Promise<AvailabilityWarning[]> {
+  const windows = await app.db.query.workerAvailability.findMany({
+    where: eq(schema.workerAvailability.supportWorkerId, params.supportWorkerId),
+  });
+
+  const leave = await app.db.query.leaveRequests.findMany({
+    where: and(
+      eq(schema.leaveRequests.supportWorkerId, params.supportWorkerId),
+      eq(schema.leaveRequests.serviceProviderId, params.serviceProviderId),
+      inArray(schema.leaveRequests.status, ['pending', 'approved'] as any),
+      lte(schema.leaveRequests.startDate, params.endTime),
+      gte(schema.leaveRequests.endDate, params.startTime),
+    ),
+  });
+
+  return detectAvailabilityWarnings(
+    { startTime: params.startTime, endTime: params.endTime },
+    windows.map((window: any) => ({
+      dayOfWeek: window.dayOfWeek,
+      startTime: window.startTime,
+      endTime: window.endTime,
+    })),
+    leave.map((period: any) => ({
+      id: period.id,
+      leaveType: period.leaveType,
+      startDate: new Date(period.startDate),
+      endDate: new Date(period.endDate),
+      status: period.status,
+    })),
+    await timeZones.getProviderTimeZone(app, params.serviceProviderId),
+  );
+}
@@ -0,0 +1,335 @@
+import { inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as shiftHours from './shiftHours.js';
+import * as timeZones from './timeZone.js';
+import type { PayHoursPolicy } from './timesheetVariance.js';
+import type { App } from '../index.js';
+
+export type PenaltyRule = 'ordinary' | 'evening' | 'night' | 'saturday' | 'sunday' | 'public_holiday';
+
+export type OvertimeRule =
+  | 'overtime_first_two_hours'
+  | 'overtime_after_two_hours'
+  | 'overtime_sunday'
+  | 'overtime_public_holiday';
+
+export type AwardRule = PenaltyRule | OvertimeRule | 'minimum_engagement' | 'broken_shift';
+
+/**
+ * SCHADS award rules, as multipliers of the worker's base hourly rate.
+ * Evening and night penalties apply to a whole weekday shift, by when it starts and finishes;
+ * weekend and public holiday rates replace them for the hours worked on those days.
+ */
+export const SCHADS_RULES = {
+  penaltyMultipliers: {
+    ordinary: 1,
+    evening: 1.125,
+    night: 1.15,
+    saturday: 1.5,
+    sunday: 2,
+    public_holiday: 2.5,
+  } as Record<PenaltyRule, number>,
+  overtimeMultipliers: {
+    overtime_first_two_hours: 1.5,
+    overtime_after_two_hours: 2,
+    overtime_sunday: 2,
+    overtime_public_holiday: 2.5,
+  } as Record<OvertimeRule, number>,
+  eveningStartHour: 20, // Shifts finishing after this are evening shifts
+  nightEndHour: 6, // Shifts starting before this, or finishing after midnight, are night shifts
+  dailyOvertimeHours: 10, // Per shift, counted against the day it starts
+  weeklyOvertimeHours: 38, // Monday to Sunday
+  overtimeFirstTierHours: 2,
+  minimumEngagementHours: 2,
+  brokenShiftAllowance: { oneBreak: 20.82, twoOrMoreBreaks: 27.56 },
+};
+
+export const AWARD_RULE_LABELS: Record<AwardRule, string> = {
+  ordinary: 'Ordinary hours',
+  evening: 'Evening penalty',
+  night: 'Night penalty',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+  public_holiday: 'Public holiday',
+  overtime_first_two_hours: 'Overtime, first 2 hours',
+  overtime_after_two_hours: 'Overtime after 2 hours',
+  overtime_sunday: 'Sunday overtime',
+  overtime_public_holiday: 'Public holiday overtime',
+  minimum_engagement: 'Minimum engagement top-up',
+  broken_shift: 'Broken shift allowance',
+};
+
+export interface AwardTimesheet {
+  id: string;
+  shiftType: shiftHours.ShiftType;
+  periods: { startTime: Date; endTime: Date }[]; // Paid periods, in order
+  unpaidBreaks: number; // Unpaid gaps between the work segments of a split shift
+}
+
+/**
+ * Hours of one timesheet paid under one rule at one multiplier
+ */
+export interface AwardSegment {
+  timesheetId: string;
+  date: Date; // Start of the timesheet's first paid period
+  rule: AwardRule;
+  itemType: 'shift_hours' | 'overtime';
+  hours: number;
+  multiplier: number;
+}
+
+export interface AwardAllowance {
+  timesheetId: string;
+  date: Date;
+  rule: AwardRule;
+  amount: number;
+}
+
+export interface AwardResult {
+  segments: AwardSegment[];
+  allowances: AwardAllowance[];
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * The Monday starting the award week a moment falls in, in the time zone
+ */
+function weekKey(date: Date, timeZone: string): string {
+  const { weekday } = timeZones.localTime(date, timeZone);
+  return timeZones.localDateKey(timeZones.startOfLocalDay(date, timeZone, -((weekday + 6) % 7)), timeZone);
+}
+
+/**
+ * The next midnight after `from` in the time zone, where a weekend or public holiday could start or end
+ */
+function nextMidnight(from: Date, timeZone: string): Date {
+  return timeZones.startOfLocalDay(from, timeZone, 1);
+}
+
+/**
+ * The weekday penalty for a whole shift, by the wall clock in the time zone: night if it starts
+ * before 6am or finishes after midnight, evening if it finishes after 8pm
+ */
+export function classifyShift(startTime: Date, endTime: Date, timeZone: string): PenaltyRule {
+  const start = timeZones.localTime(startTime, timeZone);
+  const at = (hour: number) => timeZones.zonedTime(timeZone, start.year, start.month, start.day, hour);
+  if (start.hour < SCHADS_RULES.nightEndHour || endTime > at(24)) return 'night';
+  if (endTime > at(SCHADS_RULES.eveningStartHour)) return 'evening';
+  return 'ordinary';
+}
+
+/**
+ * The penalty for time on the day of the given moment: public holiday and weekend rates
+ * for those days, otherwise the shift's own weekday penalty
+ */
+export function classifyPenalty(at: Date, shiftPenalty: PenaltyRule, publicHolidays: Set<string>, timeZone: string): PenaltyRule {
+  const local = timeZones.localTime(at, timeZone);
+  if (publicHolidays.has(timeZones.localDateKey(at, timeZone))) return 'public_holiday';
+  if (local.weekday === 0) return 'sunday';
+  if (local.weekday === 6) return 'saturday';
+  return shiftPenalty;
+}
+
+/**
+ * Split paid periods into slices that each fall under a single penalty. Slices only break
+ * at midnight, since the evening and night penalties cover the whole shift.
+ */
+function slicePeriods(
+  periods: { startTime: Date; endTime: Date }[],
+  publicHolidays: Set<string>,
+  timeZone: string,
+): { penalty: PenaltyRule; hours: number }[] {
+  const shiftPenalty = classifyShift(periods[0].startTime, periods[periods.length - 1].endTime, timeZone);
+  const slices: { penalty: PenaltyRule; hours: number }[] = [];
+  for (const period of periods) {
+    let cursor = period.startTime;
+    while (cursor < period.endTime) {
+      const boundary = nextMidnight(cursor, timeZone);
+      const end = boundary < period.endTime ? boundary : period.endTime;
+      slices.push({
+        penalty: classifyPenalty(cursor, shiftPenalty, publicHolidays, timeZone),
+        hours: (end.getTime() - cursor.getTime()) / HOUR_MS,
+      });
+      cursor = end;
+    }
+  }
+  return slices;
+}
+
+function overtimeRule(penalty: PenaltyRule, firstTier: boolean): OvertimeRule {
+  if (penalty === 'public_holiday') return 'overtime_public_holiday';
+  if (penalty === 'sunday') return 'overtime_sunday';
+  return firstTier ? 'overtime_first_two_hours' : 'overtime_after_two_hours';
+}
+
+/**
+ * Interpret a worker's timesheets for a pay period under the SCHADS award.
+ * Each shift takes an evening or night penalty by its start and finish, weekend and public
+ * holiday hours take those rates instead, hours past the daily or weekly threshold become
+ * overtime, short shifts are topped up to the minimum engagement, and split shifts
+ * earn the broken shift allowance. Days, weeks and penalty windows follow the wall clock
+ * in the provider's time zone, and public holidays are YYYY-MM-DD dates in it.
+ */
+export function interpret(timesheets: AwardTimesheet[], publicHolidays: Set<string>, timeZone: string): AwardResult {
+  const segments: AwardSegment[] = [];
+  const allowances: AwardAllowance[] = [];
+
+  const dailyHours = new Map<string, number>();
+  const dailyOvertime = new Map<string, number>();
+  const weeklyHours = new Map<string, number>();
+
+  const ordered = timesheets
+    .filter((ts) => ts.periods.length > 0)
+    .sort((a, b) => a.periods[0].startTime.getTime() - b.periods[0].startTime.getTime());
+
+  for (const ts of ordered) {
+    const date = ts.periods[0].startTime;
+    const day = timeZones.localDateKey(date, timeZone);
+    const week = weekKey(date, timeZone);
+    const hoursByRule = new Map<AwardRule, number>();
+    const add = (rule: AwardRule, hours: number) => {
+      if (hours > 0) hoursByRule.set(rule, (hoursByRule.get(rule) || 0) + hours);
+    };
+
+    let lastMultiplier = 1;
+    let workedHours = 0;
+    for (const slice of slicePeriods(ts.periods, publicHolidays, timeZone)) {
+      const ordinaryRoom = Math.max(0, Math.min(
+        SCHADS_RULES.dailyOvertimeHours - (dailyHours.get(day) || 0),
+        SCHADS_RULES.weeklyOvertimeHours - (weeklyHours.get(week) || 0),
+      ));
+      const ordinaryHours = Math.min(slice.hours, ordinaryRoom);
+      const overtimeHours = slice.hours - ordinaryHours;
+
+      add(slice.penalty, ordinaryHours);
+      lastMultiplier = SCHADS_RULES.penaltyMultipliers[slice.penalty];
+
+      if (overtimeHours > 0) {
+        const overtimeSoFar = dailyOvertime.get(day) || 0;
+        const firstTierHours = Math.min(
+          overtimeHours,
+          Math.max(0, SCHADS_RULES.overtimeFirstTierHours - overtimeSoFar),
+        );
+        add(overtimeRule(slice.penalty, true), firstTierHours);
+        add(overtimeRule(slice.penalty, false), overtimeHours - firstTierHours);
+        dailyOvertime.set(day, overtimeSoFar + overtimeHours);
+
+        const lastRule = overtimeRule(slice.penalty, overtimeHours - firstTierHours <= 0);
+        lastMultiplier = SCHADS_RULES.overtimeMultipliers[lastRule];
+      }
+
+      dailyHours.set(day, (dailyHours.get(day) || 0) + slice.hours);
+      weeklyHours.set(week, (weeklyHours.get(week) || 0) + slice.hours);
+      workedHours += slice.hours;
+    }
+
+    for (const [rule, hours] of hoursByRule) {
+      const isOvertime = rule in SCHADS_RULES.overtimeMultipliers;
+      segments.push({
+        timesheetId: ts.id,
+        date,
+        rule,
+        itemType: isOvertime ? 'overtime' : 'shift_hours',
+        hours,
+        multiplier: isOvertime
+          ? SCHADS_RULES.overtimeMultipliers[rule as OvertimeRule]
+          : SCHADS_RULES.penaltyMultipliers[rule as PenaltyRule],
+      });
+    }
+
+    // Sleepovers are paid their flat allowance instead, so they have no minimum engagement
+    const shortfall = SCHADS_RULES.minimumEngagementHours - workedHours;
+    if (ts.shiftType !== 'sleepover' && workedHours > 0 && shortfall > 0) {
+      segments.push({
+        timesheetId: ts.id,
+        date,
+        rule: 'minimum_engagement',
+        itemType: 'shift_hours',
+        hours: shortfall,
+        multiplier: lastMultiplier, // Paid as if the shift had carried on
+      });
+    }
+
+    if (ts.shiftType === 'split' && ts.unpaidBreaks > 0 && workedHours > 0) {
+      allowances.push({
+        timesheetId: ts.id,
+        date,
+        rule: 'broken_shift',
+        amount: ts.unpaidBreaks === 1
+          ? SCHADS_RULES.brokenShiftAllowance.oneBreak
+          : SCHADS_RULES.brokenShiftAllowance.twoOrMoreBreaks,
+      });
+    }
+  }
+
+  return { segments, allowances };
+}
+
+/**
+ * Interpret approved timesheets for payment, loading their shifts, segments and breaks.
+ * Under the scheduled hours policy the rostered times are interpreted instead of the actual ones.
+ */
+export async function interpretTimesheets(
+  app: App,
+  timesheets: any[],
+  policy: PayHoursPolicy,
+  publicHolidays: Set<string>,
+  timeZone: string,
+): Promise<AwardResult> {
+  const shiftIds = [...new Set(timesheets.map((ts) => ts.shiftId))] as string[];
+  if (shiftIds.length === 0) return { segments: [], allowances: [] };
+
+  const shifts = await app.db.query.shifts.findMany({
+    where: inArray(schema.shifts.id, shiftIds),
+  });
+  const shiftsById = new Map(shifts.map((shift: any) => [shift.id, shift]));
+  const segmentsByShift = await shiftHours.getSegmentsByShift(app, shiftIds);
+
+  const breaks = await app.db.query.timesheetBreaks.findMany({
+    where: inArray(schema.timesheetBreaks.timesheetId, timesheets.map((ts) => ts.id)),
+  });
+
+  const awardTimesheets: AwardTimesheet[] = [];
+  for (const ts of timesheets) {
+    const shift: any = shiftsById.get(ts.shiftId);
+    if (!shift || (policy === 'actual' && !ts.endTime)) continue;
+
+    const scheduled = {
+      shiftType: shift.shiftType,
+      startTime: new Date(shift.startTime),
+      endTime: new Date(shift.endTime),
+    };
+    const segments = segmentsByShift.get(shift.id) || [];
+    const workSegments = segments.filter((segment) => segment.segmentType === 'work').length;
+
+    awardTimesheets.push({
+      id: ts.id,
+      shiftType: shift.shiftType,
+      periods: shiftHours.paidPeriods(
+        scheduled,
+        segments,
+        policy === 'scheduled' ? scheduled.startTime : new Date(ts.startTime),
+        policy === 'scheduled' ? scheduled.endTime : new Date(ts.endTime),
+        (breaks as any[])
+          .filter((b) => b.timesheetId === ts.id && b.endTime)
+          .map((b) => ({ startTime: new Date(b.startTime), endTime: new Date(b.endTime) })),
+        ts.breakMinutes || 0,
+      ),
+      unpaidBreaks: shift.shiftType === 'split' ? Math.max(0, workSegments - 1) : 0,
+    });
+  }
+
+  return interpret(awardTimesheets, publicHolidays, timeZone);
+}
+
+/**
+ * Describe an award segment for a payslip line
+ */
+export function describeSegment(segment: { rule: AwardRule; date: Date; multiplier?: number }, timeZone: string): string {
+  const day = segment.date.toLocaleDateString('en-AU', { timeZone, weekday: 'short', day: 'numeric', month: 'short' });
+  const multiplier = segment.multiplier !== undefined && segment.rule !== 'broken_shift'
+    ? ` ×${segment.multiplier}`
+    : '';
+  return `${AWARD_RULE_LABELS[segment.rule]}${multiplier} (${day})`;
+}
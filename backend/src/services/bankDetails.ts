@@ -0,0 +1,88 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * An Australian bank account that payments can be made to or drawn from
+ */
+export interface BankDetails {
+  bsb: string; // NNN-NNN
+  accountNumber: string;
+  accountName: string;
+}
+
+// Characters allowed in the text fields of a direct entry file
+const ABA_TEXT = /^[A-Za-z0-9 &*.,/'+\-()]*$/;
+
+/**
+ * Normalise a BSB to NNN-NNN, or null if it isn't six digits
+ */
+export function normaliseBsb(bsb: string): string | null {
+  const digits = bsb.replace(/[\s-]/g, '');
+  return /^\d{6}$/.test(digits) ? `${digits.slice(0, 3)}-${digits.slice(3)}` : null;
+}
+
+/**
+ * Check and normalise bank details entered by a user, throwing if they can't be paid by direct entry
+ */
+export function validateBankDetails(details: BankDetails): BankDetails {
+  const bsb = normaliseBsb(details.bsb ?? '');
+  if (!bsb) {
+    throw new Error('BSB must be six digits, e.g. 062-000');
+  }
+
+  const accountNumber = (details.accountNumber ?? '').replace(/[\s-]/g, '');
+  if (!/^\d{1,9}$/.test(accountNumber) || /^0+$/.test(accountNumber)) {
+    throw new Error('Account number must be 1 to 9 digits');
+  }
+
+  const accountName = (details.accountName ?? '').trim();
+  if (!accountName || accountName.length > 32) {
+    throw new Error('Account name must be 1 to 32 characters');
+  }
+  if (!ABA_TEXT.test(accountName)) {
+    throw new Error('Account name may only contain letters, numbers, spaces and & * . , / \' + - ( )');
+  }
+
+  return { bsb, accountNumber, accountName };
+}
+
+const encryptionKey = (): Buffer => {
+  const secret = process.env.BANK_DETAILS_KEY;
+  if (!secret) {
+    throw new Error('BANK_DETAILS_KEY not set, bank details cannot be stored');
+  }
+  return createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Encrypt bank details for storage with AES-256-GCM, as base64 iv.tag.ciphertext
+ */
+export function encryptBankDetails(details: BankDetails): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(details), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptBankDetails(stored: string): BankDetails {
+  const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  return JSON.parse(plaintext);
+}
+
+/**
+ * Stored bank details safe to show back to the user: the account number is cut to its last three digits
+ */
+export function maskBankDetails(stored: string | null): BankDetails | null {
+  if (!stored) return null;
+  const details = decryptBankDetails(stored);
+  return { ...details, accountNumber: `•••${details.accountNumber.slice(-3)}` };
+}
+
+/**
+ * A profile row with its encrypted bank details replaced by the masked ones
+ */
+export function redactProfile<T extends { bankDetails: string | null }>(profile: T): Omit<T, 'bankDetails'> & { bankDetails: BankDetails | null } {
+  return { ...profile, bankDetails: maskBankDetails(profile.bankDetails) };
+}
@@ -0,0 +1,218 @@
+import { eq, and, ne, gte, lte, notInArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as timeZones from './timeZone.js';
+import type { App } from '../index.js';
+
+export type ConflictType = 'overlap' | 'min_rest' | 'max_daily_hours' | 'max_weekly_hours';
+
+export interface ShiftConflict {
+  type: ConflictType;
+  severity: 'error' | 'warning';
+  message: string;
+  shiftId?: string;
+}
+
+export interface RosteringLimits {
+  minRestHours: number;
+  maxDailyHours: number;
+  maxWeeklyHours: number;
+}
+
+export interface ProposedShift {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface BookedShift {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export const DEFAULT_ROSTERING_LIMITS: RosteringLimits = {
+  minRestHours: 10,
+  maxDailyHours: 12,
+  maxWeeklyHours: 50,
+};
+
+const HOUR_MS = 1000 * 60 * 60;
+
+function hoursBetween(start: Date, end: Date): number {
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+}
+
+/**
+ * Start of the Monday-based week containing the date in the time zone
+ */
+function startOfWeek(date: Date, timeZone: string): Date {
+  const { weekday } = timeZones.localTime(date, timeZone);
+  return timeZones.startOfLocalDay(date, timeZone, -((weekday + 6) % 7));
+}
+
+/**
+ * Hours of a shift that fall inside [from, to)
+ */
+function hoursWithin(shift: { startTime: Date; endTime: Date }, from: Date, to: Date): number {
+  const start = Math.max(shift.startTime.getTime(), from.getTime());
+  const end = Math.min(shift.endTime.getTime(), to.getTime());
+  return end > start ? (end - start) / HOUR_MS : 0;
+}
+
+/**
+ * Check a proposed shift against a worker's other bookings.
+ * Overlaps are hard errors; rest breaks and hour limits are warnings a coordinator may override.
+ * Daily and weekly hours are counted in the provider's time zone.
+ */
+export function detectConflicts(
+  proposed: ProposedShift,
+  booked: BookedShift[],
+  limits: RosteringLimits,
+  timeZone: string,
+): ShiftConflict[] {
+  const conflicts: ShiftConflict[] = [];
+
+  for (const other of booked) {
+    if (other.startTime < proposed.endTime && other.endTime > proposed.startTime) {
+      conflicts.push({
+        type: 'overlap',
+        severity: 'error',
+        message: `Overlaps an existing shift from ${other.startTime.toISOString()} to ${other.endTime.toISOString()}`,
+        shiftId: other.id,
+      });
+      continue;
+    }
+
+    const restHours = other.endTime <= proposed.startTime
+      ? hoursBetween(other.endTime, proposed.startTime)
+      : hoursBetween(proposed.endTime, other.startTime);
+    if (restHours < limits.minRestHours) {
+      conflicts.push({
+        type: 'min_rest',
+        severity: 'warning',
+        message: `Only ${restHours.toFixed(1)} hours rest between shifts (minimum ${limits.minRestHours})`,
+        shiftId: other.id,
+      });
+    }
+  }
+
+  // Hour limits are checked for every calendar day the proposed shift touches
+  const proposedHours = (from: Date, to: Date) => hoursWithin(proposed, from, to);
+  for (let day = timeZones.startOfLocalDay(proposed.startTime, timeZone); day < proposed.endTime;) {
+    const dayEnd = timeZones.startOfLocalDay(day, timeZone, 1);
+    const dailyHours = booked.reduce((sum, other) => sum + hoursWithin(other, day, dayEnd), proposedHours(day, dayEnd));
+    if (dailyHours > limits.maxDailyHours) {
+      conflicts.push({
+        type: 'max_daily_hours',
+        severity: 'warning',
+        message: `${dailyHours.toFixed(1)} hours rostered on ${timeZones.localDateKey(day, timeZone)} (maximum ${limits.maxDailyHours})`,
+      });
+    }
+    day = dayEnd;
+  }
+
+  const weekStart = startOfWeek(proposed.startTime, timeZone);
+  const weekEnd = timeZones.startOfLocalDay(weekStart, timeZone, 7);
+  const weeklyHours = booked.reduce((sum, other) => sum + hoursWithin(other, weekStart, weekEnd), proposedHours(weekStart, weekEnd));
+  if (weeklyHours > limits.maxWeeklyHours) {
+    conflicts.push({
+      type: 'max_weekly_hours',
+      severity: 'warning',
+      message: `${weeklyHours.toFixed(1)} hours rostered in the week starting ${timeZones.localDateKey(weekStart, timeZone)} (maximum ${limits.maxWeeklyHours})`,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Load a provider's rostering limits, falling back to the defaults
+ */
+export async function getRosteringLimits(app: App, serviceProviderId: string): Promise<RosteringLimits> {
+  const provider = await app.db.query.serviceProviders.findFirst({
+    where: eq(schema.serviceProviders.userId, serviceProviderId),
+  });
+
+  if (!provider) {
+    return DEFAULT_ROSTERING_LIMITS;
+  }
+
+  return {
+    minRestHours: parseFloat((provider as any).minRestHours),
+    maxDailyHours: parseFloat((provider as any).maxDailyHours),
+    maxWeeklyHours: parseFloat((provider as any).maxWeeklyHours),
+  };
+}
+
+/**
+ * Load a worker's non-cancelled shifts near the proposed shift and check it for conflicts
+ */
+export async function checkShiftConflicts(
+  app: App,
+  params: {
+    supportWorkerId: string;
+    serviceProviderId: string;
+    startTime: Date;
+    endTime: Date;
+    excludeShiftId?: string;
+    excludeShiftIds?: string[]; // Shifts being moved, whose new times are passed as additional shifts
+    additionalShifts?: BookedShift[]; // Unsaved shifts to check alongside the worker's roster
+  },
+): Promise<ShiftConflict[]> {
+  const limits = await getRosteringLimits(app, params.serviceProviderId);
+  const timeZone = await timeZones.getProviderTimeZone(app, params.serviceProviderId);
+
+  // A week either side covers the weekly limit and any rest-break neighbours
+  const windowStart = new Date(startOfWeek(params.startTime, timeZone).getTime() - 7 * 24 * HOUR_MS);
+  const windowEnd = new Date(params.endTime.getTime() + 7 * 24 * HOUR_MS);
+
+  let whereCondition: any = and(
+    eq(schema.shifts.supportWorkerId, params.supportWorkerId),
+    ne(schema.shifts.status, 'cancelled' as any),
+    lte(schema.shifts.startTime, windowEnd),
+    gte(schema.shifts.endTime, windowStart),
+  );
+
+  const excluded = [...(params.excludeShiftIds || []), ...(params.excludeShiftId ? [params.excludeShiftId] : [])];
+  if (excluded.length > 0) {
+    whereCondition = and(whereCondition, notInArray(schema.shifts.id, excluded));
+  }
+
+  const shifts = await app.db.query.shifts.findMany({ where: whereCondition });
+
+  const booked: BookedShift[] = shifts.map((shift: any) => ({
+    id: shift.id,
+    startTime: new Date(shift.startTime),
+    endTime: new Date(shift.endTime),
+  }));
+  booked.push(...(params.additionalShifts || []));
+
+  return detectConflicts({ startTime: params.startTime, endTime: params.endTime }, booked, limits, timeZone);
+}
+
+/**
+ * Whether the conflicts block saving: any error, or warnings without a force override
+ */
+export function isBlocking(conflicts: ShiftConflict[], force: boolean): boolean {
+  if (conflicts.some((conflict) => conflict.severity === 'error')) return true;
+  return conflicts.length > 0 && !force;
+}
+
+/**
+ * Record that a coordinator saved a shift despite warnings
+ */
+export async function recordOverride(
+  app: App,
+  shiftId: string,
+  overriddenBy: string,
+  conflicts: ShiftConflict[],
+  reason?: string,
+): Promise<void> {
+  if (conflicts.length === 0) return;
+
+  await app.db.insert(schema.shiftConflictOverrides).values({
+    shiftId,
+    overriddenBy,
+    conflicts: JSON.stringify(conflicts),
+    reason,
+  });
+}
@@ -0,0 +1,60 @@
+import { eq, and, lte, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export type ExpenseCategory = 'client_activities' | 'meals' | 'parking_tolls' | 'public_transport' | 'supplies' | 'other';
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  client_activities: 'Client activities',
+  meals: 'Meals',
+  parking_tolls: 'Parking and tolls',
+  public_transport: 'Public transport',
+  supplies: 'Supplies',
+  other: 'Other',
+};
+
+export const EXPENSE_CATEGORIES = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+
+/**
+ * Check a claim's amounts, throwing if they're unusable. GST is at most a tenth of the
+ * pre-GST price, i.e. 1/11 of the GST-inclusive amount.
+ */
+export function validateAmounts(amount: number, gstAmount: number): void {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('Amount must be more than zero');
+  }
+  if (!Number.isFinite(gstAmount) || gstAmount < 0) {
+    throw new Error('GST must be zero or more');
+  }
+  if (gstAmount > Math.round((amount / 11) * 100) / 100 + 0.01) {
+    throw new Error('GST can\'t be more than 1/11 of the amount');
+  }
+}
+
+/**
+ * Approved claims a provider owes a worker that haven't been reimbursed yet,
+ * for expenses up to the end of the pay period
+ */
+export async function getUnpaidApprovedClaims(
+  app: App,
+  supportWorkerId: string,
+  serviceProviderId: string,
+  periodEnd: Date,
+): Promise<any[]> {
+  return app.db.query.expenseClaims.findMany({
+    where: and(
+      eq(schema.expenseClaims.supportWorkerId, supportWorkerId),
+      eq(schema.expenseClaims.serviceProviderId, serviceProviderId),
+      eq(schema.expenseClaims.status, 'approved' as any),
+      isNull(schema.expenseClaims.payslipId),
+      lte(schema.expenseClaims.expenseDate, periodEnd),
+    ),
+  });
+}
+
+/**
+ * Payslip line item description for a claim
+ */
+export function describeClaim(claim: { category: ExpenseCategory; description: string }): string {
+  return `${EXPENSE_CATEGORY_LABELS[claim.category]} reimbursement: ${claim.description}`;
+}
@@ -0,0 +1,110 @@
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { distanceKm } from './geocoding.js';
+import type { App } from '../index.js';
+
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null; // Metres, as reported by the device
+}
+
+export interface PunchCheck {
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  distance: number | null; // Metres from the client, null when either location is unknown
+  flagReason: string | null;
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 300;
+
+/**
+ * Compare a punch to the client location. The device's accuracy is given the benefit
+ * of the doubt, but a fix less accurate than the radius itself can't prove anything.
+ */
+export function evaluatePunch(
+  punch: PunchLocation | null | undefined,
+  clientLocation: { latitude: number; longitude: number } | null,
+  radiusMeters: number,
+  label: 'Clock-in' | 'Clock-out',
+): PunchCheck {
+  if (!punch) {
+    return {
+      latitude: null,
+      longitude: null,
+      accuracy: null,
+      distance: null,
+      flagReason: `${label} location was not captured`,
+    };
+  }
+
+  const accuracy = punch.accuracy ?? null;
+  const result: PunchCheck = {
+    latitude: punch.latitude,
+    longitude: punch.longitude,
+    accuracy,
+    distance: null,
+    flagReason: null,
+  };
+
+  // Without client coordinates the punch can't be verified, so it goes to review
+  if (!clientLocation) {
+    result.flagReason = `${label} location could not be checked: the shift's client has no mapped address`;
+    return result;
+  }
+
+  const distance = Math.round(distanceKm(punch, clientLocation) * 1000);
+  result.distance = distance;
+
+  if (accuracy !== null && accuracy > radiusMeters) {
+    result.flagReason = `${label} location accuracy was ±${Math.round(accuracy)}m (geofence is ${radiusMeters}m)`;
+  } else if (distance - (accuracy ?? 0) > radiusMeters) {
+    result.flagReason = `${label} was ${distance}m from the client address (geofence is ${radiusMeters}m)`;
+  }
+
+  return result;
+}
+
+/**
+ * Check a clock-in or clock-out against the client address for the shift,
+ * using the provider's geofence radius
+ */
+export async function checkPunch(
+  app: App,
+  shiftId: string,
+  punch: PunchLocation | null | undefined,
+  label: 'Clock-in' | 'Clock-out',
+): Promise<PunchCheck> {
+  const shift = await app.db.query.shifts.findFirst({
+    where: eq(schema.shifts.id, shiftId),
+  });
+
+  const provider = shift
+    ? await app.db.query.serviceProviders.findFirst({
+      where: eq(schema.serviceProviders.userId, (shift as any).serviceProviderId),
+    })
+    : null;
+  const radiusMeters = (provider as any)?.geofenceRadiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS;
+
+  const clientId = (shift as any)?.clientId;
+  const client = clientId
+    ? await app.db.query.clients.findFirst({
+      where: eq(schema.clients.id, clientId),
+    })
+    : null;
+
+  const clientLocation = client && (client as any).latitude !== null && (client as any).longitude !== null
+    ? { latitude: (client as any).latitude, longitude: (client as any).longitude }
+    : null;
+
+  return evaluatePunch(punch, clientLocation, radiusMeters, label);
+}
+
+/**
+ * Combine flag reasons from the punches on a timesheet
+ */
+export function combineFlagReasons(...reasons: (string | null | undefined)[]): string | null {
+  const present = reasons.filter(Boolean);
+  return present.length > 0 ? present.join('; ') : null;
+}
@@ -0,0 +1,173 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, isNull, lt } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+// How long an action can wait in the app's offline queue before it is refused
+export const MAX_OFFLINE_HOURS = 72;
+
+// Allowance for device clocks running slightly ahead of the server
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+// Largest gap between a punch's device time and when the server received it before the timesheet is flagged
+export const DEVICE_TIME_TOLERANCE_MINUTES = 5;
+
+// A claim with no response after this long belongs to a request that died, and can be taken over
+const STALE_CLAIM_MS = 2 * 60 * 1000;
+
+// How long the app should wait before replaying an action that is still being handled
+const IN_PROGRESS_RETRY_SECONDS = 5;
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+  retryAfterSeconds?: number; // Set when the action is still being handled and should be retried
+}
+
+// Requests that claimed their key, so the onSend hook knows which responses to store
+const claimedKeys = new WeakMap<FastifyRequest, string>();
+
+/**
+ * Store the response of every request that claimed an idempotency key. Server errors
+ * release the key so the app can retry the action.
+ */
+export function registerIdempotency(app: App) {
+  app.fastify.addHook('onSend', async (request: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+    const key = claimedKeys.get(request);
+    if (!key) return payload;
+    claimedKeys.delete(request);
+
+    try {
+      if (reply.statusCode >= 500) {
+        await app.db.delete(schema.clientActions).where(eq(schema.clientActions.idempotencyKey, key));
+      } else {
+        await app.db
+          .update(schema.clientActions)
+          .set({ statusCode: reply.statusCode, responseBody: typeof payload === 'string' ? payload : null })
+          .where(eq(schema.clientActions.idempotencyKey, key));
+      }
+    } catch (error) {
+      app.logger.error({ err: error, key }, 'Failed to store idempotent response');
+    }
+
+    return payload;
+  });
+}
+
+const inProgress = (): StoredResponse => ({
+  statusCode: 503,
+  body: { error: 'This action is still being processed, please try again' },
+  retryAfterSeconds: IN_PROGRESS_RETRY_SECONDS,
+});
+
+/**
+ * Claim the request's idempotency key for the user. Returns null when the request should be
+ * handled (no key, first use of the key, or a stale claim taken over) and the stored response
+ * when it is a replay. A key still being handled gets a retryable 503.
+ * Throws if the key belongs to another user or endpoint.
+ */
+export async function claim(app: App, request: FastifyRequest, userId: string): Promise<StoredResponse | null> {
+  const header = request.headers[IDEMPOTENCY_HEADER];
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key) return null;
+
+  const requestPath = `${request.method} ${request.url}`;
+
+  const inserted = await app.db
+    .insert(schema.clientActions)
+    .values({ idempotencyKey: key, userId, requestPath })
+    .onConflictDoNothing()
+    .returning();
+
+  if (inserted.length > 0) {
+    claimedKeys.set(request, key);
+    return null;
+  }
+
+  const existing = await app.db.query.clientActions.findFirst({
+    where: eq(schema.clientActions.idempotencyKey, key),
+  });
+
+  if (!existing) {
+    // Released by a failed request since the insert
+    return inProgress();
+  }
+
+  if (existing.userId !== userId || existing.requestPath !== requestPath) {
+    throw new Error('This idempotency key was used for a different request');
+  }
+
+  if (existing.statusCode === null) {
+    // The claim's time is reset on takeover, so only one replay can take over a stale claim
+    const [taken] = await app.db
+      .update(schema.clientActions)
+      .set({ createdAt: new Date() })
+      .where(and(
+        eq(schema.clientActions.idempotencyKey, key),
+        isNull(schema.clientActions.statusCode),
+        lt(schema.clientActions.createdAt, new Date(Date.now() - STALE_CLAIM_MS)),
+      ))
+      .returning();
+
+    if (taken) {
+      claimedKeys.set(request, key);
+      return null;
+    }
+    return inProgress();
+  }
+
+  return {
+    statusCode: existing.statusCode,
+    body: existing.responseBody ? JSON.parse(existing.responseBody) : null,
+  };
+}
+
+/**
+ * Claim the request's key, sending the stored response when the action has already been
+ * handled. Returns true once a reply has been sent.
+ */
+export async function sendIfReplayed(app: App, request: FastifyRequest, reply: FastifyReply, userId: string): Promise<boolean> {
+  try {
+    const stored = await claim(app, request, userId);
+    if (!stored) return false;
+    if (stored.retryAfterSeconds) {
+      reply.header('Retry-After', String(stored.retryAfterSeconds));
+    }
+    reply.status(stored.statusCode).send(stored.body);
+  } catch (error) {
+    reply.status(409).send({ error: (error as Error).message });
+  }
+  return true;
+}
+
+/**
+ * When the device says an action happened: now, or the device time sent with an action that
+ * was queued offline. Throws if the device time is in the future or older than the offline window.
+ */
+export function deviceTime(occurredAt: string | undefined, now: Date = new Date()): Date {
+  if (!occurredAt) return now;
+
+  const time = new Date(occurredAt);
+  if (isNaN(time.getTime())) {
+    throw new Error('Invalid occurredAt time');
+  }
+  if (time.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new Error('occurredAt can\'t be in the future');
+  }
+  if (now.getTime() - time.getTime() > MAX_OFFLINE_HOURS * 60 * 60 * 1000) {
+    throw new Error(`Actions recorded offline must sync within ${MAX_OFFLINE_HOURS} hours`);
+  }
+
+  return time > now ? now : time;
+}
+
+/**
+ * Why a punch needs review when its device time is too far from when the server received it, or null
+ */
+export function deviceTimeFlag(label: string, occurredAt: Date, receivedAt: Date): string | null {
+  const minutes = Math.round(Math.abs(receivedAt.getTime() - occurredAt.getTime()) / 60000);
+  if (minutes <= DEVICE_TIME_TOLERANCE_MINUTES) return null;
+  return `${label} was recorded on the device ${minutes} minutes ${occurredAt < receivedAt ? 'before' : 'after'} the server received it`;
+}
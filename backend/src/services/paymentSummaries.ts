@@ -0,0 +1,179 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as timeZones from './timeZone.js';
+import type { App } from '../index.js';
+
+/**
+ * Money totals for one payslip, or summed over several
+ */
+export interface PayTotals {
+  gross: number;
+  tax: number;
+  super: number;
+  deductions: number;
+  reimbursements: number;
+  net: number;
+}
+
+export interface PaymentSummary {
+  financialYear: number; // The year the financial year ends, e.g. 2026 for 2025-26
+  label: string;
+  startDate: Date;
+  endDate: Date;
+  payslips: { id: string; payPeriodStartDate: Date; payPeriodEndDate: Date; status: string; totals: PayTotals }[];
+  totals: PayTotals;
+}
+
+const ZERO_TOTALS: PayTotals = { gross: 0, tax: 0, super: 0, deductions: 0, reimbursements: 0, net: 0 };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The Australian financial year (1 July to 30 June) a date falls in, in the provider's time zone,
+ * named by the year it ends
+ */
+export function financialYear(date: Date, timeZone: string): number {
+  const { year, month } = timeZones.localTime(date, timeZone);
+  return month >= 7 ? year + 1 : year;
+}
+
+/**
+ * A financial year as it's usually written, e.g. "2025-26"
+ */
+export function financialYearLabel(year: number): string {
+  return `${year - 1}-${String(year % 100).padStart(2, '0')}`;
+}
+
+/**
+ * First and last instants of a financial year in the provider's time zone
+ */
+export function financialYearRange(year: number, timeZone: string): { startDate: Date; endDate: Date } {
+  return {
+    startDate: timeZones.zonedTime(timeZone, year - 1, 7, 1),
+    endDate: new Date(timeZones.zonedTime(timeZone, year, 7, 1).getTime() - 1),
+  };
+}
+
+/**
+ * Totals for a payslip from its row and line items
+ */
+export function payslipTotals(payslip: any, items: any[]): PayTotals {
+  const sum = (itemType: string) => items
+    .filter((item) => item.itemType === itemType)
+    .reduce((total, item) => total + parseFloat(item.amount), 0);
+
+  return {
+    gross: parseFloat(payslip.grossPay),
+    tax: sum('tax'),
+    super: sum('super'),
+    deductions: parseFloat(payslip.deductions ?? '0'),
+    reimbursements: sum('reimbursement'),
+    net: parseFloat(payslip.netPay),
+  };
+}
+
+export function addTotals(a: PayTotals, b: PayTotals): PayTotals {
+  return {
+    gross: roundCents(a.gross + b.gross),
+    tax: roundCents(a.tax + b.tax),
+    super: roundCents(a.super + b.super),
+    deductions: roundCents(a.deductions + b.deductions),
+    reimbursements: roundCents(a.reimbursements + b.reimbursements),
+    net: roundCents(a.net + b.net),
+  };
+}
+
+/**
+ * All of a worker's payslips from a provider, with their totals
+ */
+async function getPayslipsWithTotals(app: App, supportWorkerId: string, serviceProviderId: string) {
+  const payslips = await app.db.query.payslips.findMany({
+    where: and(
+      eq(schema.payslips.supportWorkerId, supportWorkerId),
+      eq(schema.payslips.serviceProviderId, serviceProviderId),
+    ),
+  });
+  if (payslips.length === 0) return [];
+
+  const items = await app.db.query.payslipItems.findMany({
+    where: inArray(schema.payslipItems.payslipId, payslips.map((payslip: any) => payslip.id)),
+  });
+
+  return payslips.map((payslip: any) => ({
+    payslip,
+    totals: payslipTotals(payslip, items.filter((item: any) => item.payslipId === payslip.id)),
+  }));
+}
+
+/**
+ * Year-to-date totals for each payslip: issued and paid payslips from the same provider
+ * ending in the same financial year up to and including its pay period, plus itself
+ */
+export async function getYearToDate(app: App, payslips: any[]): Promise<Map<string, PayTotals>> {
+  const ytd = new Map<string, PayTotals>();
+
+  const pairs = new Map<string, any[]>();
+  for (const payslip of payslips) {
+    const key = `${payslip.supportWorkerId}:${payslip.serviceProviderId}`;
+    pairs.set(key, [...(pairs.get(key) ?? []), payslip]);
+  }
+
+  for (const group of pairs.values()) {
+    const history = await getPayslipsWithTotals(app, group[0].supportWorkerId, group[0].serviceProviderId);
+    const timeZone = await timeZones.getProviderTimeZone(app, group[0].serviceProviderId);
+
+    for (const payslip of group) {
+      const end = new Date(payslip.payPeriodEndDate);
+      const year = financialYear(end, timeZone);
+
+      const totals = history
+        .filter(({ payslip: other }: any) => {
+          const otherEnd = new Date(other.payPeriodEndDate);
+          return financialYear(otherEnd, timeZone) === year
+            && otherEnd <= end
+            && (other.status !== 'draft' || other.id === payslip.id);
+        })
+        .reduce((sum: PayTotals, { totals: other }: any) => addTotals(sum, other), ZERO_TOTALS);
+
+      ytd.set(payslip.id, totals);
+    }
+  }
+
+  return ytd;
+}
+
+/**
+ * Issued and paid payslips from a provider ending in a financial year, with their totals
+ */
+export async function getPaymentSummary(
+  app: App,
+  supportWorkerId: string,
+  serviceProviderId: string,
+  year: number,
+): Promise<PaymentSummary> {
+  const timeZone = await timeZones.getProviderTimeZone(app, serviceProviderId);
+  const { startDate, endDate } = financialYearRange(year, timeZone);
+  const history = await getPayslipsWithTotals(app, supportWorkerId, serviceProviderId);
+
+  const payslips: PaymentSummary['payslips'] = history
+    .filter(({ payslip }: any) => payslip.status !== 'draft'
+      && financialYear(new Date(payslip.payPeriodEndDate), timeZone) === year)
+    .sort((a: any, b: any) =>
+      new Date(a.payslip.payPeriodEndDate).getTime() - new Date(b.payslip.payPeriodEndDate).getTime())
+    .map(({ payslip, totals }: any) => ({
+      id: payslip.id,
+      payPeriodStartDate: payslip.payPeriodStartDate,
+      payPeriodEndDate: payslip.payPeriodEndDate,
+      status: payslip.status,
+      totals,
+    }));
+
+  return {
+    financialYear: year,
+    label: financialYearLabel(year),
+    startDate,
+    endDate,
+    payslips,
+    totals: payslips.reduce((sum, payslip) => addTotals(sum, payslip.totals), ZERO_TOTALS),
+  };
+}
@@ -0,0 +1,127 @@
+import * as taxTables from './taxTables.js';
+
+export type TaxResidency = 'resident' | 'foreign';
+
+/**
+ * What the worker told this provider on their TFN declaration
+ */
+export interface TaxDeclaration {
+  tfnProvided: boolean;
+  taxResidency: TaxResidency;
+  claimsTaxFreeThreshold: boolean;
+  hasStudyLoan: boolean; // HELP, VSL, SFSS, SSL or TSL debt
+}
+
+export interface TaxLine {
+  description: string;
+  amount: number;
+}
+
+// Allowances that count as ordinary time earnings; expense allowances like travel don't
+const OTE_ALLOWANCE_RULES = ['broken_shift', 'sleepover'];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Check a TFN declaration is one the ATO allows, throwing on the first problem
+ */
+export function validateDeclaration(declaration: TaxDeclaration): void {
+  if (declaration.taxResidency === 'foreign' && declaration.claimsTaxFreeThreshold) {
+    throw new Error('Foreign residents cannot claim the tax-free threshold');
+  }
+}
+
+/**
+ * Weeks in a pay period, counting both the start and end dates
+ */
+export function periodWeeks(start: Date, end: Date): number {
+  const first = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  const days = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1;
+  return Math.max(1, days) / 7;
+}
+
+/**
+ * Weekly withholding from a Schedule 1 scale. Earnings are taken in whole dollars
+ * plus 99 cents and the result is rounded to the nearest dollar.
+ */
+function weeklyWithholding(weeklyEarnings: number, scale: taxTables.WithholdingBracket[]): number {
+  const x = Math.floor(weeklyEarnings) + 0.99;
+  const bracket = scale.find((b) => b.below === null || x < b.below)!;
+  return Math.max(0, Math.round(bracket.a * x - bracket.b));
+}
+
+/**
+ * Weekly study and training support loan component, worked out on annualised earnings.
+ * Without the tax-free threshold the worker likely has other income, so the threshold is added.
+ */
+function weeklyStudyLoan(weeklyEarnings: number, declaration: TaxDeclaration, table: taxTables.TaxTable): number {
+  const annual = (Math.floor(weeklyEarnings) + 0.99) * 52
+    + (declaration.claimsTaxFreeThreshold ? 0 : table.taxFreeThreshold);
+  const band = [...table.studyLoanBands].reverse().find((b) => annual >= b.from);
+  if (!band) return 0;
+
+  const annualAmount = band.marginal ? band.base + band.rate * (annual - band.from) : band.rate * annual;
+  return Math.round(annualAmount / 52);
+}
+
+/**
+ * PAYG withholding for a pay period's gross earnings, as payslip lines. Weekly amounts
+ * are worked out on average weekly earnings and multiplied by the weeks in the period.
+ */
+export function calculateWithholding(
+  grossPay: number,
+  weeks: number,
+  declaration: TaxDeclaration,
+  table: taxTables.TaxTable,
+): TaxLine[] {
+  if (grossPay <= 0) return [];
+
+  if (!declaration.tfnProvided) {
+    const rate = table.noTfnRates[declaration.taxResidency];
+    return [{
+      description: `PAYG withholding, no TFN provided (${Math.round(rate * 100)}%)`,
+      amount: Math.floor(Math.floor(grossPay) * rate),
+    }];
+  }
+
+  const weekly = grossPay / weeks;
+  const scale = declaration.taxResidency === 'foreign'
+    ? table.scales.foreignResident
+    : declaration.claimsTaxFreeThreshold ? table.scales.taxFreeThreshold : table.scales.noTaxFreeThreshold;
+  const scaleName = declaration.taxResidency === 'foreign'
+    ? 'foreign resident'
+    : declaration.claimsTaxFreeThreshold ? 'tax-free threshold claimed' : 'no tax-free threshold';
+
+  const lines: TaxLine[] = [{
+    description: `PAYG withholding (${table.version} tables, ${scaleName})`,
+    amount: Math.round(weeklyWithholding(weekly, scale) * weeks),
+  }];
+
+  if (declaration.hasStudyLoan && declaration.taxResidency === 'resident') {
+    const studyLoan = Math.round(weeklyStudyLoan(weekly, declaration, table) * weeks);
+    if (studyLoan > 0) {
+      lines.push({ description: 'Study and training support loan repayment', amount: studyLoan });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Ordinary time earnings from payslip lines: ordinary and penalty hours plus award
+ * allowances, but not overtime, expense allowances or reimbursements
+ */
+export function ordinaryTimeEarnings(items: { itemType: string; awardRule?: string | null; amount: number | string }[]): number {
+  return items
+    .filter((item) => item.itemType === 'shift_hours'
+      || (item.itemType === 'allowance' && !!item.awardRule && OTE_ALLOWANCE_RULES.includes(item.awardRule)))
+    .reduce((sum, item) => sum + parseFloat(item.amount.toString()), 0);
+}
+
+/**
+ * Superannuation guarantee on ordinary time earnings, to the cent
+ */
+export function superGuarantee(ordinaryTimeEarnings: number, table: taxTables.TaxTable): number {
+  return Math.round(ordinaryTimeEarnings * table.superGuaranteeRate * 100) / 100;
+}
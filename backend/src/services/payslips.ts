@@ -0,0 +1,444 @@
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as timesheetVariance from './timesheetVariance.js';
+import * as award from './award.js';
+import * as publicHolidays from './publicHolidays.js';
+import * as payroll from './payroll.js';
+import * as taxTables from './taxTables.js';
+import * as timeZones from './timeZone.js';
+import * as travel from './travel.js';
+import * as expenseClaims from './expenseClaims.js';
+import * as paymentSummaries from './paymentSummaries.js';
+import * as reportGenerator from './reportGenerator.js';
+import * as authSchema from '../db/auth-schema.js';
+import type { App } from '../index.js';
+
+export interface PayslipRequest {
+  serviceProviderId: string;
+  supportWorkerId: string;
+  startDate: Date;
+  endDate: Date;
+  hourlyRate: string;
+  deductions: string;
+  notes?: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * A worker's approved timesheets for a provider's shifts starting in a period that aren't on a payslip yet
+ */
+export async function getUnpaidApprovedTimesheets(
+  app: App,
+  serviceProviderId: string,
+  supportWorkerId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<any[]> {
+  const rows = await app.db
+    .select({ timesheet: schema.timesheets })
+    .from(schema.timesheets)
+    .innerJoin(schema.shifts, eq(schema.timesheets.shiftId, schema.shifts.id))
+    .where(
+      and(
+        eq(schema.shifts.serviceProviderId, serviceProviderId),
+        eq(schema.timesheets.supportWorkerId, supportWorkerId),
+        eq(schema.timesheets.status, 'approved' as any),
+        isNull(schema.timesheets.payslipId),
+      ),
+    );
+
+  return rows
+    .map((row: any) => row.timesheet)
+    .filter((ts: any) => {
+      const tsDate = new Date(ts.startTime);
+      return tsDate >= startDate && tsDate <= endDate;
+    });
+}
+
+/**
+ * Count sleepover shifts among the given shifts, grouped by allowance rate
+ */
+async function getSleepoverAllowances(app: App, shiftIds: string[]) {
+  const uniqueIds = [...new Set(shiftIds)];
+  if (uniqueIds.length === 0) return [];
+
+  const sleepovers = await app.db.query.shifts.findMany({
+    where: and(
+      inArray(schema.shifts.id, uniqueIds),
+      eq(schema.shifts.shiftType, 'sleepover' as any),
+    ),
+  });
+
+  const countsByRate = new Map<number, number>();
+  for (const shift of sleepovers as any[]) {
+    let rate = shift.sleepoverAllowance;
+    if (rate === null) {
+      const provider = await app.db.query.serviceProviders.findFirst({
+        where: eq(schema.serviceProviders.userId, shift.serviceProviderId),
+      });
+      rate = (provider as any)?.sleepoverAllowance ?? '0';
+    }
+    const parsed = parseFloat(rate);
+    countsByRate.set(parsed, (countsByRate.get(parsed) || 0) + 1);
+  }
+
+  return [...countsByRate.entries()].map(([rate, count]) => ({ rate, count }));
+}
+
+/**
+ * Lock rows to a payslip with a conditional update, so only rows not already on a payslip are
+ * taken. Throws if another payslip took any of them first, rolling back the caller's transaction
+ * rather than paying the work twice.
+ */
+async function claimForPayslip(tx: any, table: any, ids: string[], payslipId: string, label: string): Promise<void> {
+  if (ids.length === 0) return;
+
+  const claimed = await tx
+    .update(table)
+    .set({ payslipId })
+    .where(and(inArray(table.id, ids), isNull(table.payslipId)))
+    .returning({ id: table.id });
+
+  if (claimed.length !== ids.length) {
+    throw new Error(`Some ${label} were paid on another payslip in the meantime; try again`);
+  }
+}
+
+/**
+ * Add PAYG withholding and superannuation guarantee lines to a payslip.
+ * Runs against a db or transaction handle.
+ */
+export async function insertTaxAndSuper(
+  db: any,
+  payslipId: string,
+  taxLines: payroll.TaxLine[],
+  ordinaryTimeEarnings: number,
+  table: taxTables.TaxTable,
+): Promise<void> {
+  for (const line of taxLines) {
+    await db
+      .insert(schema.payslipItems)
+      .values({
+        payslipId,
+        itemType: 'tax' as const,
+        description: line.description,
+        amount: line.amount.toFixed(2),
+      });
+  }
+
+  // Super is paid to the worker's fund on top of their pay, so it isn't taken from net pay
+  await db
+    .insert(schema.payslipItems)
+    .values({
+      payslipId,
+      itemType: 'super' as const,
+      description: `Superannuation guarantee (${(table.superGuaranteeRate * 100).toFixed(1)}% of ordinary time earnings)`,
+      quantity: ordinaryTimeEarnings.toFixed(2),
+      amount: payroll.superGuarantee(ordinaryTimeEarnings, table).toFixed(2),
+    });
+}
+
+/**
+ * Work out a draft payslip from a worker's approved timesheets for a pay period without
+ * writing anything. Hours are interpreted under the award, approved travel and expense
+ * claims are added, and PAYG withholding and super are calculated.
+ * Throws if there's no worker relationship or tax table for the period.
+ */
+export async function preparePayslip(app: App, request: PayslipRequest) {
+  const { serviceProviderId, supportWorkerId, startDate, endDate, hourlyRate, deductions } = request;
+
+  const relationship = await app.db.query.workerProviderRelationships.findFirst({
+    where: and(
+      eq(schema.workerProviderRelationships.supportWorkerId, supportWorkerId),
+      eq(schema.workerProviderRelationships.serviceProviderId, serviceProviderId),
+    ),
+  });
+  if (!relationship) {
+    throw new Error('Worker not assigned to this provider');
+  }
+
+  // Pay hours worked or rostered hours, depending on the provider's policy
+  const provider = await app.db.query.serviceProviders.findFirst({
+    where: eq(schema.serviceProviders.userId, serviceProviderId),
+  });
+  const hoursPolicy: timesheetVariance.PayHoursPolicy = (provider as any)?.payHoursPolicy || 'actual';
+  const timeZone: string = (provider as any)?.timezone ?? timeZones.DEFAULT_TIME_ZONE;
+
+  const table = taxTables.tableFor(publicHolidays.dateKey(endDate, timeZone));
+  const periodTimesheets = await getUnpaidApprovedTimesheets(app, serviceProviderId, supportWorkerId, startDate, endDate);
+  const rate = parseFloat(hourlyRate);
+
+  // Split hours into award segments, each priced at its multiplier of the base rate
+  const holidays = await publicHolidays.getHolidayDates(app, serviceProviderId, startDate, endDate);
+  const interpretation = await award.interpretTimesheets(app, periodTimesheets, hoursPolicy, new Set(holidays.keys()), timeZone);
+  const hoursLines = interpretation.segments.map((segment) => {
+    const quantity = roundCents(segment.hours);
+    const lineRate = roundCents(rate * segment.multiplier);
+    return { ...segment, quantity, rate: lineRate, amount: roundCents(quantity * lineRate) };
+  });
+  const totalHours = hoursLines.reduce((sum, line) => sum + line.quantity, 0);
+  const hoursPay = hoursLines.reduce((sum, line) => sum + line.amount, 0);
+
+  // Sleepovers are paid a flat allowance per shift rather than hourly
+  const sleepoverAllowances = await getSleepoverAllowances(app, periodTimesheets.map((ts: any) => ts.shiftId));
+
+  // Approved travel claims are paid as kilometre and travel time allowances
+  const travelEntries = await travel.getUnpaidApprovedTravel(app, serviceProviderId, supportWorkerId, endDate);
+  const travelAllowances = travel.travelAllowances(
+    travelEntries,
+    parseFloat((provider as any)?.kmAllowanceRate ?? '0'),
+    rate,
+  );
+
+  const allowanceTotal = sleepoverAllowances.reduce((sum, item) => sum + item.count * item.rate, 0)
+    + travelAllowances.reduce((sum, item) => sum + item.amount, 0)
+    + interpretation.allowances.reduce((sum, item) => sum + item.amount, 0);
+
+  const grossPay = hoursPay + allowanceTotal;
+  const deductionsAmount = parseFloat(deductions);
+
+  // PAYG withholding per the worker's TFN declaration, and super on ordinary time earnings
+  const taxLines = payroll.calculateWithholding(
+    grossPay,
+    payroll.periodWeeks(startDate, endDate),
+    relationship as payroll.TaxDeclaration,
+    table,
+  );
+  const taxTotal = taxLines.reduce((sum, line) => sum + line.amount, 0);
+  const ordinaryTimeEarnings = payroll.ordinaryTimeEarnings([
+    ...hoursLines,
+    ...interpretation.allowances.map((allowance) => ({ itemType: 'allowance', awardRule: allowance.rule, amount: allowance.amount })),
+    ...sleepoverAllowances.map((item) => ({ itemType: 'allowance', awardRule: 'sleepover', amount: item.count * item.rate })),
+  ]);
+
+  // Reimbursed expenses aren't earnings, so they're added to net pay only
+  const claims = await expenseClaims.getUnpaidApprovedClaims(app, supportWorkerId, serviceProviderId, endDate);
+  const reimbursementTotal = claims.reduce((sum: number, claim: any) => sum + parseFloat(claim.amount), 0);
+
+  const netPay = grossPay - taxTotal - deductionsAmount + reimbursementTotal;
+
+  return {
+    request,
+    table,
+    timeZone,
+    periodTimesheets,
+    travelEntries,
+    claims,
+    hoursLines,
+    awardAllowances: interpretation.allowances,
+    sleepoverAllowances,
+    travelAllowances,
+    totalHours,
+    grossPay,
+    deductionsAmount,
+    netPay,
+    taxLines,
+    ordinaryTimeEarnings,
+  };
+}
+
+export type PreparedPayslip = Awaited<ReturnType<typeof preparePayslip>>;
+
+/**
+ * Write a prepared payslip and its line items, and lock its timesheets and claims to it.
+ * Runs against a db or transaction handle; use a transaction so a payslip is never half written.
+ * Throws if another payslip claimed any of the same timesheets or claims first.
+ */
+export async function savePayslip(tx: any, prepared: PreparedPayslip, payRunId?: string): Promise<any> {
+  const { request, table, timeZone, periodTimesheets, travelEntries, claims, hoursLines, sleepoverAllowances, travelAllowances } = prepared;
+  const { serviceProviderId, supportWorkerId, startDate, endDate, hourlyRate, deductions, notes } = request;
+
+  // Create payslip
+  const newPayslip = await tx
+    .insert(schema.payslips)
+    .values({
+      supportWorkerId,
+      serviceProviderId,
+      payRunId,
+      payPeriodStartDate: startDate,
+      payPeriodEndDate: endDate,
+      totalHours: prepared.totalHours.toFixed(2),
+      hourlyRate: hourlyRate,
+      grossPay: prepared.grossPay.toFixed(2),
+      deductions: deductions,
+      netPay: prepared.netPay.toFixed(2),
+      notes,
+      status: 'draft',
+      taxTableVersion: table.version,
+    })
+    .returning();
+
+  // Paid timesheets are locked from further edits and amendments
+  await claimForPayslip(tx, schema.timesheets, periodTimesheets.map((ts: any) => ts.id), newPayslip[0].id, 'timesheets');
+  await claimForPayslip(tx, schema.travelEntries, travelEntries.map((entry: any) => entry.id), newPayslip[0].id, 'travel claims');
+  await claimForPayslip(tx, schema.expenseClaims, claims.map((claim: any) => claim.id), newPayslip[0].id, 'expense claims');
+
+  // Create payslip line items, one per timesheet and award rule
+  for (const line of hoursLines) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: line.itemType,
+        description: award.describeSegment(line, timeZone),
+        quantity: line.quantity.toFixed(2),
+        rate: line.rate.toFixed(2),
+        amount: line.amount.toFixed(2),
+        timesheetId: line.timesheetId,
+        awardRule: line.rule,
+        rateMultiplier: line.multiplier.toString(),
+      });
+  }
+
+  for (const allowance of prepared.awardAllowances) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: 'allowance' as const,
+        description: award.describeSegment(allowance, timeZone),
+        quantity: '1',
+        rate: allowance.amount.toFixed(2),
+        amount: allowance.amount.toFixed(2),
+        timesheetId: allowance.timesheetId,
+        awardRule: allowance.rule,
+      });
+  }
+
+  for (const allowance of sleepoverAllowances) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: 'allowance' as const,
+        description: `Sleepover allowance (${allowance.count} sleepover${allowance.count === 1 ? '' : 's'})`,
+        quantity: allowance.count.toString(),
+        rate: allowance.rate.toFixed(2),
+        amount: (allowance.count * allowance.rate).toFixed(2),
+        awardRule: 'sleepover', // Counts towards ordinary time earnings for super
+      });
+  }
+
+  for (const allowance of travelAllowances) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: 'allowance' as const,
+        description: allowance.description,
+        quantity: allowance.quantity.toFixed(2),
+        rate: allowance.rate.toFixed(2),
+        amount: allowance.amount.toFixed(2),
+        rateMultiplier: allowance.rateMultiplier?.toString() ?? null, // Travel time is repriced with the hourly rate
+      });
+  }
+
+  for (const claim of claims) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: 'reimbursement' as const,
+        description: expenseClaims.describeClaim(claim),
+        amount: claim.amount,
+      });
+  }
+
+  if (prepared.deductionsAmount > 0) {
+    await tx
+      .insert(schema.payslipItems)
+      .values({
+        payslipId: newPayslip[0].id,
+        itemType: 'deduction' as const,
+        description: 'Deductions',
+        amount: deductions,
+      });
+  }
+
+  await insertTaxAndSuper(tx, newPayslip[0].id, prepared.taxLines, prepared.ordinaryTimeEarnings, table);
+
+  return newPayslip[0];
+}
+
+/**
+ * Create a draft payslip for a worker's pay period in one transaction. The timesheets
+ * and claims are locked to the payslip, so they can't be paid again. Throws if there's
+ * no worker relationship or tax table for the period, or the work was paid meanwhile.
+ */
+export async function generatePayslip(app: App, request: PayslipRequest): Promise<any> {
+  const prepared = await preparePayslip(app, request);
+  return app.db.transaction((tx: any) => savePayslip(tx, prepared));
+}
+
+/**
+ * Render an issued payslip as a PDF, upload it to storage and record its key on the payslip
+ */
+export async function storePayslipPdf(app: App, payslipId: string): Promise<string> {
+  const payslip = await app.db.query.payslips.findFirst({
+    where: eq(schema.payslips.id, payslipId),
+  });
+  if (!payslip) {
+    throw new Error('Payslip not found');
+  }
+
+  const items = await app.db.query.payslipItems.findMany({
+    where: eq(schema.payslipItems.payslipId, payslipId),
+  });
+  const provider = await app.db.query.serviceProviders.findFirst({
+    where: eq(schema.serviceProviders.userId, payslip.serviceProviderId),
+  });
+  const workerUser = await app.db.query.user.findFirst({
+    where: eq(authSchema.user.id, payslip.supportWorkerId),
+  });
+  const ytd = (await paymentSummaries.getYearToDate(app, [payslip])).get(payslip.id)!;
+
+  const pdfBuffer = await reportGenerator.generatePayslipPDF({
+    companyName: (provider as any)?.companyName || 'Service Provider',
+    companyABN: (provider as any)?.companyABN ?? null,
+    workerName: workerUser?.name || 'Unknown',
+    workerEmail: workerUser?.email || 'Unknown',
+    payPeriodStartDate: new Date(payslip.payPeriodStartDate),
+    payPeriodEndDate: new Date(payslip.payPeriodEndDate),
+    issuedDate: payslip.issuedDate ? new Date(payslip.issuedDate) : null,
+    hourlyRate: parseFloat(payslip.hourlyRate),
+    totalHours: parseFloat(payslip.totalHours),
+    items: items.map((item: any) => ({
+      itemType: item.itemType,
+      description: item.description,
+      quantity: item.quantity !== null ? parseFloat(item.quantity) : null,
+      rate: item.rate !== null ? parseFloat(item.rate) : null,
+      amount: parseFloat(item.amount),
+    })),
+    grossPay: parseFloat(payslip.grossPay),
+    netPay: parseFloat(payslip.netPay),
+    ytd,
+  });
+
+  const key = `payslips/${payslip.serviceProviderId}/${payslip.supportWorkerId}/${payslip.id}.pdf`;
+  const uploadedKey = await app.storage.upload(key, pdfBuffer);
+
+  await app.db
+    .update(schema.payslips)
+    .set({ pdfStorageKey: uploadedKey })
+    .where(eq(schema.payslips.id, payslip.id));
+
+  return uploadedKey;
+}
+
+/**
+ * Mark issued payslips as paid. Payslips in any other status are left as they are.
+ * Runs against a db or transaction handle.
+ */
+export async function markPayslipsPaid(db: any, payslipIds: string[], paidDate: Date = new Date()): Promise<any[]> {
+  if (payslipIds.length === 0) return [];
+
+  return db
+    .update(schema.payslips)
+    .set({ status: 'paid', paidDate })
+    .where(and(
+      inArray(schema.payslips.id, payslipIds),
+      eq(schema.payslips.status, 'issued'),
+    ))
+    .returning();
+}
@@ -0,0 +1,342 @@
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { parseCsv } from './rosterImport.js';
+import * as icalendar from './icalendar.js';
+import * as timeZones from './timeZone.js';
+import type { App } from '../index.js';
+
+export type AuState = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
+
+export const AU_STATES: AuState[] = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface PublicHoliday extends Holiday {
+  id: string | null; // Null for bundled holidays
+  source: 'bundled' | 'import' | 'manual';
+}
+
+/**
+ * Calendar date of an instant in a time zone as YYYY-MM-DD, the form holidays are matched on
+ */
+export function dateKey(date: Date, timeZone: string): string {
+  return timeZones.localDateKey(date, timeZone);
+}
+
+// The calendar below works on UTC midnights, so it doesn't depend on the server's time zone
+const calendarDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const calendarKey = (date: Date) => date.toISOString().slice(0, 10);
+
+function addDays(date: Date, days: number): Date {
+  return calendarDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+/**
+ * The nth given weekday (0 = Sunday) of a month, e.g. the second Monday of June
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = calendarDate(year, month, 1);
+  return calendarDate(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = calendarDate(year, month + 1, 0);
+  return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+}
+
+function mondayOnOrAfter(date: Date): Date {
+  return addDays(date, (8 - date.getUTCDay()) % 7);
+}
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return calendarDate(year, month - 1, day);
+}
+
+/**
+ * Public holidays bundled with the app for a year and state. Without a state only national
+ * holidays are included. Holidays falling on a weekend are also observed on the next free weekday.
+ * Proclaimed and regional holidays (e.g. the AFL Grand Final eve or show days) aren't bundled;
+ * import the state's calendar or add them as local holidays.
+ */
+export function bundledHolidays(year: number, state: AuState | null): Holiday[] {
+  const holidays: { date: Date; name: string }[] = [];
+  const observed = new Set<string>();
+  const withSubstitute = (date: Date, name: string) => {
+    holidays.push({ date, name });
+    let substitute = date;
+    while (substitute.getUTCDay() === 0 || substitute.getUTCDay() === 6 || observed.has(calendarKey(substitute))) {
+      substitute = addDays(substitute, 1);
+    }
+    observed.add(calendarKey(substitute));
+    if (substitute.getTime() !== date.getTime()) {
+      holidays.push({ date: substitute, name: `${name} (observed)` });
+    }
+  };
+
+  const easter = easterSunday(year);
+  withSubstitute(calendarDate(year, 0, 1), "New Year's Day");
+  withSubstitute(calendarDate(year, 0, 26), 'Australia Day');
+  holidays.push({ date: addDays(easter, -2), name: 'Good Friday' });
+  holidays.push({ date: addDays(easter, 1), name: 'Easter Monday' });
+
+  const anzacDay = calendarDate(year, 3, 25);
+  holidays.push({ date: anzacDay, name: 'Anzac Day' });
+  if ((state === 'WA' || state === 'ACT') && (anzacDay.getUTCDay() === 0 || anzacDay.getUTCDay() === 6)) {
+    holidays.push({ date: mondayOnOrAfter(anzacDay), name: 'Anzac Day (observed)' });
+  }
+
+  if (state && state !== 'TAS' && state !== 'WA') {
+    holidays.push({ date: addDays(easter, -1), name: 'Easter Saturday' });
+  }
+  if (state && ['ACT', 'NSW', 'QLD', 'VIC', 'WA'].includes(state)) {
+    holidays.push({ date: easter, name: 'Easter Sunday' });
+  }
+
+  switch (state) {
+    case 'ACT':
+      holidays.push(
+        { date: nthWeekday(year, 2, 1, 2), name: 'Canberra Day' },
+        { date: mondayOnOrAfter(calendarDate(year, 4, 27)), name: 'Reconciliation Day' },
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+        { date: nthWeekday(year, 9, 1, 1), name: 'Labour Day' },
+      );
+      break;
+    case 'NSW':
+      holidays.push(
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+        { date: nthWeekday(year, 9, 1, 1), name: 'Labour Day' },
+      );
+      break;
+    case 'NT':
+      holidays.push(
+        { date: nthWeekday(year, 4, 1, 1), name: 'May Day' },
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+        { date: nthWeekday(year, 7, 1, 1), name: 'Picnic Day' },
+      );
+      break;
+    case 'QLD':
+      holidays.push(
+        { date: nthWeekday(year, 4, 1, 1), name: 'Labour Day' },
+        { date: nthWeekday(year, 9, 1, 1), name: "King's Birthday" },
+      );
+      break;
+    case 'SA':
+      holidays.push(
+        { date: nthWeekday(year, 2, 1, 2), name: 'Adelaide Cup Day' },
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+        { date: nthWeekday(year, 9, 1, 1), name: 'Labour Day' },
+      );
+      break;
+    case 'TAS':
+      holidays.push(
+        { date: nthWeekday(year, 2, 1, 2), name: 'Eight Hours Day' },
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+      );
+      break;
+    case 'VIC':
+      holidays.push(
+        { date: nthWeekday(year, 2, 1, 2), name: 'Labour Day' },
+        { date: nthWeekday(year, 5, 1, 2), name: "King's Birthday" },
+        { date: nthWeekday(year, 10, 2, 1), name: 'Melbourne Cup Day' },
+      );
+      break;
+    case 'WA':
+      holidays.push(
+        { date: nthWeekday(year, 2, 1, 1), name: 'Labour Day' },
+        { date: nthWeekday(year, 5, 1, 1), name: 'Western Australia Day' },
+        { date: lastWeekday(year, 8, 1), name: "King's Birthday" },
+      );
+      break;
+  }
+
+  withSubstitute(calendarDate(year, 11, 25), 'Christmas Day');
+  withSubstitute(calendarDate(year, 11, 26), state === 'SA' ? 'Proclamation Day' : 'Boxing Day');
+
+  return holidays
+    .map((holiday) => ({ date: calendarKey(holiday.date), name: holiday.name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parse a holiday date: YYYY-MM-DD, YYYYMMDD or DD/MM/YYYY. Returns null if it isn't a real date.
+ */
+export function parseHolidayDate(value: string): string | null {
+  const trimmed = value.trim();
+  let parts: RegExpMatchArray | null;
+  let year: number, month: number, day: number;
+
+  if ((parts = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})$/))) {
+    [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  } else if ((parts = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [day, month, year] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  } else {
+    return null;
+  }
+
+  const date = calendarDate(year, month - 1, day);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return calendarKey(date);
+}
+
+/**
+ * All-day events from an iCalendar file
+ */
+export function parseIcs(text: string): Holiday[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: Holiday[] = [];
+  let event: Partial<Holiday> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'BEGIN' && value.trim() === 'VEVENT') {
+      event = {};
+    } else if (property === 'END' && value.trim() === 'VEVENT') {
+      if (event?.date && event.name) holidays.push(event as Holiday);
+      event = null;
+    } else if (event && property === 'DTSTART') {
+      event.date = parseHolidayDate(value.slice(0, 8)) ?? undefined;
+    } else if (event && property === 'SUMMARY') {
+      event.name = icalendar.unescapeText(value).trim();
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Holidays from a CSV with date and name columns. A header row is optional; with one, a
+ * jurisdiction or state column (as in the data.gov.au dataset) keeps only the given state's rows.
+ */
+export function parseHolidayCsv(text: string, state: AuState | null): Holiday[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, '')).filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (rows.length === 0) return [];
+
+  let dateColumn = 0;
+  let nameColumn = 1;
+  let stateColumn = -1;
+  let dataRows = rows;
+
+  if (parseHolidayDate(rows[0][0] ?? '') === null) {
+    const header = rows[0].map((cell) => cell.trim().toLowerCase());
+    dateColumn = header.findIndex((cell) => cell === 'date');
+    nameColumn = header.findIndex((cell) => ['name', 'holiday name', 'holiday', 'summary'].includes(cell));
+    stateColumn = header.findIndex((cell) => ['jurisdiction', 'state'].includes(cell));
+    if (dateColumn === -1 || nameColumn === -1) {
+      throw new Error('CSV needs a Date column and a Name or Holiday Name column');
+    }
+    dataRows = rows.slice(1);
+  }
+
+  const holidays: Holiday[] = [];
+  dataRows.forEach((row, index) => {
+    if (stateColumn !== -1) {
+      const jurisdiction = (row[stateColumn] ?? '').trim().toUpperCase();
+      if (jurisdiction && jurisdiction !== 'NATIONAL' && jurisdiction !== state) return;
+    }
+
+    const date = parseHolidayDate(row[dateColumn] ?? '');
+    if (!date) {
+      throw new Error(`Row ${index + (dataRows === rows ? 1 : 2)}: "${row[dateColumn] ?? ''}" is not a date`);
+    }
+    holidays.push({ date, name: (row[nameColumn] ?? '').trim() || 'Public holiday' });
+  });
+
+  return holidays;
+}
+
+/**
+ * Read an uploaded holiday calendar, by file extension or MIME type
+ */
+export function readHolidayFile(buffer: Buffer, filename: string, mimetype: string, state: AuState | null): Holiday[] {
+  const text = buffer.toString('utf8');
+  const isIcs = filename.toLowerCase().endsWith('.ics') || mimetype === 'text/calendar';
+  const holidays = isIcs ? parseIcs(text) : parseHolidayCsv(text, state);
+
+  if (holidays.length === 0) {
+    throw new Error('No holidays found in the file');
+  }
+
+  // One entry per date
+  const byDate = new Map(holidays.map((holiday) => [holiday.date, holiday]));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * A provider's public holidays for a range of years. The bundled calendar for the provider's
+ * state is used for each year unless the provider imported a calendar covering that year;
+ * local holidays are always added.
+ */
+export async function getHolidays(
+  app: App,
+  serviceProviderId: string,
+  fromYear: number,
+  toYear: number,
+): Promise<PublicHoliday[]> {
+  const provider = await app.db.query.serviceProviders.findFirst({
+    where: eq(schema.serviceProviders.userId, serviceProviderId),
+  });
+  const state: AuState | null = (provider as any)?.state ?? null;
+
+  const saved = await app.db.query.publicHolidays.findMany({
+    where: eq(schema.publicHolidays.serviceProviderId, serviceProviderId),
+  });
+  const importedYears = new Set(
+    (saved as any[]).filter((row) => row.source === 'import').map((row) => Number(row.date.slice(0, 4))),
+  );
+
+  const holidays: PublicHoliday[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    if (importedYears.has(year)) continue;
+    holidays.push(...bundledHolidays(year, state).map((holiday) => ({ ...holiday, id: null, source: 'bundled' as const })));
+  }
+
+  for (const row of saved as any[]) {
+    const year = Number(row.date.slice(0, 4));
+    if (year < fromYear || year > toYear) continue;
+    holidays.push({ id: row.id, date: row.date, name: row.name, source: row.source });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * A provider's public holidays between two instants, as date → name, by the years they
+ * fall in in the provider's time zone
+ */
+export async function getHolidayDates(app: App, serviceProviderId: string, from: Date, to: Date): Promise<Map<string, string>> {
+  const timeZone = await timeZones.getProviderTimeZone(app, serviceProviderId);
+  const holidays = await getHolidays(
+    app,
+    serviceProviderId,
+    timeZones.localTime(from, timeZone).year,
+    timeZones.localTime(to, timeZone).year,
+  );
+  return new Map(holidays.map((holiday) => [holiday.date, holiday.name]));
+}
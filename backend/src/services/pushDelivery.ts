@@ -0,0 +1,96 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as expoService from './expo.js';
+import type { App } from '../index.js';
+
+export interface BulkPushRequest {
+  userIds: string[];
+  title: string;
+  message: string;
+  data?: Record<string, string>;
+  priority?: 'default' | 'high';
+  notificationType?: 'shift' | 'document' | 'reminder' | 'general';
+}
+
+export interface BulkPushResult {
+  totalSent: number;
+  totalFailed: number;
+  usersReached: number;
+  invalidTokens: string[];
+}
+
+/**
+ * Send a push notification to every registered device of the given users.
+ * Invalid tokens are marked and every attempt is logged.
+ */
+export async function sendBulkPush(app: App, request: BulkPushRequest): Promise<BulkPushResult> {
+  const { userIds, title, message, data, priority, notificationType = 'general' } = request;
+
+  if (userIds.length === 0) {
+    return { totalSent: 0, totalFailed: 0, usersReached: 0, invalidTokens: [] };
+  }
+
+  // Get all tokens for the users
+  const allTokens = await app.db.query.pushNotificationTokens.findMany({
+    where: and(
+      inArray(schema.pushNotificationTokens.userId, userIds),
+      eq(schema.pushNotificationTokens.isValid, true),
+    ),
+  });
+
+  if (allTokens.length === 0) {
+    return { totalSent: 0, totalFailed: 0, usersReached: 0, invalidTokens: [] };
+  }
+
+  const tokenStrings = allTokens.map((t: any) => t.token);
+
+  // Send notifications
+  const result = await expoService.sendPushNotifications({
+    tokens: tokenStrings,
+    title,
+    message,
+    data,
+    priority,
+  });
+
+  // Handle invalid tokens
+  if (result.invalidTokens && result.invalidTokens.length > 0) {
+    for (const invalidToken of result.invalidTokens) {
+      await app.db
+        .update(schema.pushNotificationTokens)
+        .set({ isValid: false, updatedAt: new Date() })
+        .where(eq(schema.pushNotificationTokens.token, invalidToken));
+    }
+  }
+
+  // Log notification attempts and update last used time
+  for (const token of allTokens) {
+    const tokenStr = (token as any).token;
+    const isInvalidToken = result.invalidTokens?.includes(tokenStr);
+
+    await app.db.insert(schema.pushNotificationAttempts).values({
+      userId: (token as any).userId,
+      token: tokenStr,
+      title,
+      message,
+      notificationType: notificationType as any,
+      status: isInvalidToken ? ('invalid_token' as any) : ('sent' as any),
+      data: JSON.stringify(data || {}),
+    });
+
+    // Update last used time for valid tokens
+    if (!isInvalidToken) {
+      await app.db
+        .update(schema.pushNotificationTokens)
+        .set({ lastUsedAt: new Date(), updatedAt: new Date() })
+        .where(eq(schema.pushNotificationTokens.token, tokenStr));
+    }
+  }
+
+  return {
+    totalSent: result.sent,
+    totalFailed: result.failed,
+    usersReached: new Set(allTokens.map((t: any) => t.userId)).size,
+    invalidTokens: result.invalidTokens || [],
+  };
+}
@@ -0,0 +1,221 @@
+import * as timeZones from './timeZone.js';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'fortnightly' | 'custom';
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: number[]; // Day of week, 0 = Sunday
+  count: number | null;
+  until: Date | null;
+}
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Upper bound on materialised occurrences per series
+ */
+export const MAX_OCCURRENCES = 366;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse an RRULE-style string (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10")
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, COUNT and UNTIL.
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, byDay: [], count: null, until: null };
+  let hasFreq = false;
+
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+
+    switch (key.toUpperCase()) {
+      case 'FREQ': {
+        const freq = value.toUpperCase();
+        if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+          throw new Error(`Unsupported recurrence frequency: ${value}`);
+        }
+        rule.freq = freq;
+        hasFreq = true;
+        break;
+      }
+      case 'INTERVAL': {
+        const interval = parseInt(value, 10);
+        if (isNaN(interval) || interval < 1) {
+          throw new Error(`Invalid recurrence interval: ${value}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        rule.byDay = value.split(',').map((code) => {
+          const day = WEEKDAY_CODES.indexOf(code.trim().toUpperCase());
+          if (day === -1) {
+            throw new Error(`Invalid weekday in recurrence rule: ${code}`);
+          }
+          return day;
+        }).sort((a, b) => a - b);
+        break;
+      }
+      case 'COUNT': {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 1) {
+          throw new Error(`Invalid recurrence count: ${value}`);
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseRuleDate(value);
+        if (!until) {
+          throw new Error(`Invalid recurrence end date: ${value}`);
+        }
+        rule.until = until;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error('Recurrence rule must specify FREQ');
+  }
+
+  if (rule.count === null && rule.until === null) {
+    throw new Error('Recurrence rule must specify an end date (UNTIL) or a count (COUNT)');
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a recurrence rule back to its RRULE string form
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval}`];
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${formatRuleDate(rule.until)}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Build a recurrence rule from one of the preset frequencies
+ */
+export function buildRecurrenceRule(
+  frequency: Exclude<RecurrenceFrequency, 'custom'>,
+  options: { byWeekday?: string[]; interval?: number; until?: Date | null; count?: number | null },
+): RecurrenceRule {
+  const byDay = (options.byWeekday || []).map((code) => {
+    const day = WEEKDAY_CODES.indexOf(code.toUpperCase());
+    if (day === -1) {
+      throw new Error(`Invalid weekday: ${code}`);
+    }
+    return day;
+  }).sort((a, b) => a - b);
+
+  const rule: RecurrenceRule = {
+    freq: frequency === 'daily' ? 'DAILY' : 'WEEKLY',
+    interval: frequency === 'fortnightly' ? 2 : options.interval || 1,
+    byDay: frequency === 'daily' ? [] : byDay,
+    count: options.count ?? null,
+    until: options.until ?? null,
+  };
+
+  if (rule.count === null && rule.until === null) {
+    throw new Error('A recurring shift needs an end date or an occurrence count');
+  }
+
+  return rule;
+}
+
+/**
+ * Expand a recurrence rule into concrete occurrences in the provider's time zone.
+ * The first occurrence's start and end define the time of day and duration of every occurrence.
+ * Weekdays and dates are the provider's, and each start is placed on the wall clock so it
+ * survives daylight saving changes whatever time zone the server runs in.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  firstStartTime: Date,
+  firstEndTime: Date,
+  timeZone: string,
+): Occurrence[] {
+  const durationMs = firstEndTime.getTime() - firstStartTime.getTime();
+  if (durationMs <= 0) {
+    throw new Error('Shift end time must be after start time');
+  }
+
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const occurrences: Occurrence[] = [];
+  const first = timeZones.localTime(firstStartTime, timeZone);
+
+  // Out of range days and months roll over, so these can step freely from the first occurrence
+  const startOn = (month: number, day: number) =>
+    timeZones.zonedTime(timeZone, first.year, month, day, first.hour, first.minute);
+
+  const push = (start: Date): boolean => {
+    if (rule.until && start.getTime() > rule.until.getTime()) return false;
+    occurrences.push({ startTime: start, endTime: new Date(start.getTime() + durationMs) });
+    return occurrences.length < limit;
+  };
+
+  if (rule.freq === 'DAILY') {
+    for (let i = 0; ; i++) {
+      if (!push(startOn(first.month, first.day + i * rule.interval))) break;
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const byDay = rule.byDay.length > 0 ? rule.byDay : [first.weekday];
+    const weekStartDay = first.day - first.weekday;
+
+    outer:
+    for (let week = 0; ; week++) {
+      const base = weekStartDay + week * 7 * rule.interval;
+      for (const day of byDay) {
+        if (week === 0 && day < first.weekday) continue;
+        if (!push(startOn(first.month, base + day))) break outer;
+      }
+    }
+  } else {
+    for (let i = 0; i < MAX_OCCURRENCES * rule.interval; i++) {
+      const month = first.month + i * rule.interval;
+      // Skip months that do not contain the day (e.g. the 31st)
+      const daysInMonth = new Date(Date.UTC(first.year, month, 0)).getUTCDate();
+      if (first.day > daysInMonth) continue;
+      if (!push(startOn(month, first.day))) break;
+    }
+  }
+
+  return occurrences;
+}
+
+function parseRuleDate(value: string): Date | null {
+  // RRULE basic format: YYYYMMDD or YYYYMMDDTHHMMSSZ
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (match) {
+    const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
@@ -13,6 +13,59 @@ export interface ShiftReportData {
   totalHours: number;
 }
 
+export interface PaymentSummaryReport {
+  companyName: string;
+  companyABN: string | null;
+  workerName: string;
+  workerEmail: string;
+  financialYearLabel: string;
+  startDate: Date;
+  endDate: Date;
+  payslips: {
+    payPeriodStartDate: Date;
+    payPeriodEndDate: Date;
+    gross: number;
+    tax: number;
+    super: number;
+    net: number;
+  }[];
+  totals: {
+    gross: number;
+    tax: number;
+    super: number;
+    deductions: number;
+    reimbursements: number;
+    net: number;
+  };
+}
+
+export interface PayslipReport {
+  companyName: string;
+  companyABN: string | null;
+  workerName: string;
+  workerEmail: string;
+  payPeriodStartDate: Date;
+  payPeriodEndDate: Date;
+  issuedDate: Date | null;
+  hourlyRate: number;
+  totalHours: number;
+  items: {
+    itemType: string;
+    description: string;
+    quantity: number | null;
+    rate: number | null;
+    amount: number;
+  }[];
+  grossPay: number;
+  netPay: number;
+  ytd: {
+    gross: number;
+    tax: number;
+    super: number;
+    net: number;
+  };
+}
+
 export interface ShiftReportSummary {
   companyName: string;
   startDate: Date;
@@ -201,3 +254,268 @@ export async function generateShiftReportPDF(report: ShiftReportSummary): Promis
     }
   });
 }
+
+/**
+ * Format an amount as dollars (e.g., "$1,234.50")
+ */
+export function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Generate a worker's end-of-year payment summary PDF as a buffer
+ */
+export async function generatePaymentSummaryPDF(report: PaymentSummaryReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        bufferPages: true,
+        margin: 50,
+      });
+
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+
+      doc.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+
+      doc.on('error', (err) => {
+        reject(err);
+      });
+
+      // Header
+      doc.fontSize(24).font('Helvetica-Bold').text(report.companyName, { align: 'center' });
+      if (report.companyABN) {
+        doc.fontSize(10).font('Helvetica').text(`ABN ${report.companyABN}`, { align: 'center' });
+      }
+      doc.moveDown(0.5);
+      doc.fontSize(14).font('Helvetica').text(`Payment Summary ${report.financialYearLabel}`, { align: 'center' });
+      doc.moveDown(1);
+
+      doc
+        .fontSize(11)
+        .font('Helvetica')
+        .text(`Payee: ${report.workerName} (${report.workerEmail})`)
+        .text(`Period: ${formatDate(report.startDate)} to ${formatDate(report.endDate)}`);
+      doc.moveDown(1);
+
+      // Totals
+      doc.fontSize(12).font('Helvetica-Bold').text('Totals for the Year', { underline: true });
+      doc.moveDown(0.5);
+
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Gross payments: ${formatMoney(report.totals.gross)}`);
+      doc.text(`PAYG tax withheld: ${formatMoney(report.totals.tax)}`);
+      doc.text(`Deductions: ${formatMoney(report.totals.deductions)}`);
+      doc.text(`Reimbursements: ${formatMoney(report.totals.reimbursements)}`);
+      doc.text(`Net payments: ${formatMoney(report.totals.net)}`);
+      doc.text(`Superannuation guarantee: ${formatMoney(report.totals.super)}`);
+      doc.moveDown(1);
+
+      if (report.payslips.length === 0) {
+        doc.fontSize(12).font('Helvetica').text('No payslips were issued in this financial year.', {
+          align: 'center',
+        });
+        doc.end();
+        return;
+      }
+
+      // Table header
+      const tableTop = doc.y;
+      const col1 = 50;
+      const col2 = 250;
+      const col3 = 330;
+      const col4 = 410;
+      const col5 = 490;
+      const rowHeight = 20;
+
+      doc.rect(col1 - 5, tableTop, 510, rowHeight).fillAndStroke('#E0E0E0', '#000000');
+
+      doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
+      doc.text('Pay Period', col1, tableTop + 5, { width: 190, align: 'left' });
+      doc.text('Gross', col2, tableTop + 5, { width: 70, align: 'right' });
+      doc.text('Tax', col3, tableTop + 5, { width: 70, align: 'right' });
+      doc.text('Super', col4, tableTop + 5, { width: 70, align: 'right' });
+      doc.text('Net', col5, tableTop + 5, { width: 60, align: 'right' });
+
+      // Table rows
+      let currentY = tableTop + rowHeight + 5;
+      let rowCount = 0;
+
+      for (const payslip of report.payslips) {
+        // Add new page if needed
+        if (currentY > doc.page.height - 100) {
+          doc.addPage();
+          currentY = 50;
+        }
+
+        const rowBg = rowCount % 2 === 0 ? '#FFFFFF' : '#F5F5F5';
+        doc.rect(col1 - 5, currentY - 5, 510, rowHeight).fill(rowBg);
+
+        doc.fillColor('#000000').fontSize(8).font('Helvetica');
+        doc.text(
+          `${formatDate(payslip.payPeriodStartDate)} - ${formatDate(payslip.payPeriodEndDate)}`,
+          col1,
+          currentY,
+          { width: 190, align: 'left' },
+        );
+        doc.text(formatMoney(payslip.gross), col2, currentY, { width: 70, align: 'right' });
+        doc.text(formatMoney(payslip.tax), col3, currentY, { width: 70, align: 'right' });
+        doc.text(formatMoney(payslip.super), col4, currentY, { width: 70, align: 'right' });
+        doc.text(formatMoney(payslip.net), col5, currentY, { width: 60, align: 'right' });
+
+        currentY += rowHeight;
+        rowCount++;
+      }
+
+      doc.moveDown(2);
+      doc.fontSize(8).font('Helvetica').fillColor('#666666');
+      doc.text(
+        `Summary generated on ${formatDate(new Date())} at ${new Date().toLocaleTimeString('en-US')}`,
+        50,
+        doc.y,
+        {
+          align: 'center',
+        },
+      );
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Generate a payslip PDF as a buffer, with the content Fair Work requires: employer and
+ * ABN, pay period, hours and rates, each line item, super and year-to-date totals
+ */
+export async function generatePayslipPDF(report: PayslipReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        bufferPages: true,
+        margin: 50,
+      });
+
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+
+      doc.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+
+      doc.on('error', (err) => {
+        reject(err);
+      });
+
+      const col1 = 50;
+      const col2 = 330;
+      const col3 = 400;
+      const col4 = 480;
+      const rowHeight = 18;
+
+      // One titled table of line items, followed by its total
+      const drawSection = (title: string, itemTypes: string[], totalLabel: string | null) => {
+        const rows = report.items.filter((item) => itemTypes.includes(item.itemType));
+        if (rows.length === 0) return;
+
+        if (doc.y > doc.page.height - 150) {
+          doc.addPage();
+        }
+
+        const tableTop = doc.y;
+        doc.rect(col1 - 5, tableTop, 510, rowHeight).fillAndStroke('#E0E0E0', '#000000');
+        doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
+        doc.text(title, col1, tableTop + 5, { width: 270, align: 'left' });
+        doc.text('Qty/Hours', col2, tableTop + 5, { width: 60, align: 'right' });
+        doc.text('Rate', col3, tableTop + 5, { width: 70, align: 'right' });
+        doc.text('Amount', col4, tableTop + 5, { width: 75, align: 'right' });
+
+        let currentY = tableTop + rowHeight + 5;
+        doc.fontSize(8).font('Helvetica');
+        for (const item of rows) {
+          // Add new page if needed
+          if (currentY > doc.page.height - 100) {
+            doc.addPage();
+            currentY = 50;
+          }
+
+          doc.text(item.description, col1, currentY, { width: 270, align: 'left' });
+          doc.text(item.quantity !== null ? item.quantity.toFixed(2) : '', col2, currentY, { width: 60, align: 'right' });
+          doc.text(item.rate !== null ? formatMoney(item.rate) : '', col3, currentY, { width: 70, align: 'right' });
+          doc.text(formatMoney(item.amount), col4, currentY, { width: 75, align: 'right' });
+          currentY = Math.max(currentY + rowHeight, doc.y + 4);
+        }
+
+        if (totalLabel) {
+          const total = rows.reduce((sum, item) => sum + item.amount, 0);
+          doc.font('Helvetica-Bold');
+          doc.text(totalLabel, col1, currentY, { width: 420, align: 'left' });
+          doc.text(formatMoney(total), col4, currentY, { width: 75, align: 'right' });
+          currentY += rowHeight;
+        }
+
+        doc.x = col1;
+        doc.y = currentY + 10;
+      };
+
+      // Header
+      doc.fontSize(24).font('Helvetica-Bold').text(report.companyName, { align: 'center' });
+      if (report.companyABN) {
+        doc.fontSize(10).font('Helvetica').text(`ABN ${report.companyABN}`, { align: 'center' });
+      }
+      doc.moveDown(0.5);
+      doc.fontSize(14).font('Helvetica').text('Payslip', { align: 'center' });
+      doc.moveDown(1);
+
+      doc
+        .fontSize(10)
+        .font('Helvetica')
+        .text(`Employee: ${report.workerName} (${report.workerEmail})`)
+        .text(`Pay period: ${formatDate(report.payPeriodStartDate)} to ${formatDate(report.payPeriodEndDate)}`)
+        .text(`Date issued: ${report.issuedDate ? formatDate(report.issuedDate) : 'Not yet issued'}`)
+        .text(`Ordinary hourly rate: ${formatMoney(report.hourlyRate)}`)
+        .text(`Hours paid: ${formatHours(report.totalHours)}`);
+      doc.moveDown(1);
+
+      drawSection('Earnings', ['shift_hours', 'overtime', 'allowance', 'other'], 'Gross pay');
+      drawSection('Tax and Deductions', ['tax', 'deduction'], 'Total withheld');
+      drawSection('Reimbursements', ['reimbursement'], 'Total reimbursed');
+
+      doc.fontSize(12).font('Helvetica-Bold').text(`Net pay: ${formatMoney(report.netPay)}`, col1, doc.y);
+      doc.moveDown(1);
+
+      drawSection('Employer Superannuation', ['super'], null);
+
+      // Year to date
+      doc.fontSize(12).font('Helvetica-Bold').text('Year to Date', col1, doc.y, { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Gross: ${formatMoney(report.ytd.gross)}`);
+      doc.text(`Tax withheld: ${formatMoney(report.ytd.tax)}`);
+      doc.text(`Net: ${formatMoney(report.ytd.net)}`);
+      doc.text(`Superannuation: ${formatMoney(report.ytd.super)}`);
+
+      doc.moveDown(1);
+      doc.fontSize(8).font('Helvetica').fillColor('#666666');
+      doc.text(
+        `Payslip generated on ${formatDate(new Date())} at ${new Date().toLocaleTimeString('en-US')}`,
+        {
+          align: 'center',
+        },
+      );
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,536 @@
+import ExcelJS from 'exceljs';
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as conflicts from './conflicts.js';
+import * as availability from './availability.js';
+import type { App } from '../index.js';
+
+export type ImportField =
+  | 'workerEmail'
+  | 'clientName'
+  | 'date'
+  | 'start'
+  | 'end'
+  | 'rate'
+  | 'tasks'
+  | 'title'
+  | 'specialRequirements';
+
+type CellValue = string | Date | null;
+
+export interface ImportRowResult {
+  rowNumber: number;
+  workerEmail: string;
+  clientName: string;
+  startTime: string | null;
+  endTime: string | null;
+  hourlyRate: string | null;
+  taskDescription: string | null;
+  specialRequirements: string | null;
+  title: string;
+  supportWorkerId: string | null;
+  workerName: string | null;
+  clientId: string | null;
+  errors: string[];
+  warnings: string[];
+  conflicts: conflicts.ShiftConflict[];
+}
+
+export interface ImportValidation {
+  columns: Partial<Record<ImportField, string>>;
+  rows: ImportRowResult[];
+  summary: {
+    totalRows: number;
+    validRows: number;
+    errorRows: number;
+    warningRows: number;
+  };
+}
+
+const REQUIRED_FIELDS: ImportField[] = ['workerEmail', 'clientName', 'start', 'end'];
+
+// Header spellings accepted for each field, compared lowercase with punctuation removed
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  workerEmail: ['workeremail', 'worker', 'email', 'staffemail', 'supportworker', 'supportworkeremail'],
+  clientName: ['clientname', 'client', 'participant', 'participantname'],
+  date: ['date', 'shiftdate'],
+  start: ['start', 'starttime', 'shiftstart', 'from'],
+  end: ['end', 'endtime', 'finish', 'finishtime', 'shiftend', 'to'],
+  rate: ['rate', 'hourlyrate', 'payrate'],
+  tasks: ['tasks', 'task', 'taskdescription', 'duties'],
+  title: ['title', 'shifttitle', 'shiftname'],
+  specialRequirements: ['specialrequirements', 'requirements'],
+};
+
+const MAX_ROWS = 1000;
+const DEFAULT_TITLE = 'Support shift';
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function normaliseHeader(value: CellValue): string {
+  return String(value ?? '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function cellText(value: CellValue): string {
+  if (value instanceof Date) return value.toISOString();
+  return (value ?? '').trim();
+}
+
+/**
+ * Split CSV text into rows, handling quoted fields, escaped quotes and CRLF line endings
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Cell values from the first worksheet of an XLSX workbook. Date cells stay as dates.
+ */
+async function parseXlsx(buffer: Buffer): Promise<CellValue[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: CellValue[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row: any, rowNumber: number) => {
+    const values: CellValue[] = [];
+    row.eachCell({ includeEmpty: true }, (cell: any, column: number) => {
+      let value = cell.value;
+      // Formulas, hyperlinks and rich text wrap the displayed value
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('result' in value) value = value.result;
+        else if ('richText' in value) value = value.richText.map((part: any) => part.text).join('');
+        else if ('text' in value) value = value.text;
+      }
+      values[column - 1] = value instanceof Date ? value : value === null || value === undefined ? null : String(value);
+    });
+    rows[rowNumber - 1] = values;
+  });
+
+  return Array.from(rows, (row) => row || []);
+}
+
+/**
+ * Read a roster spreadsheet into rows of cells, choosing the parser from the file name or type
+ */
+export async function readSpreadsheet(buffer: Buffer, filename: string, mimetype?: string): Promise<CellValue[][]> {
+  const lower = filename.toLowerCase();
+
+  if (lower.endsWith('.xlsx') || mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    try {
+      return await parseXlsx(buffer);
+    } catch (error) {
+      throw new Error('Could not read the XLSX file');
+    }
+  }
+
+  if (lower.endsWith('.csv') || mimetype === 'text/csv' || mimetype === 'text/plain') {
+    // Strip the byte order mark Excel adds when saving as CSV
+    return parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  }
+
+  throw new Error('Roster must be a .csv or .xlsx file');
+}
+
+/**
+ * Match header cells to import fields
+ */
+export function mapColumns(header: CellValue[]): Partial<Record<ImportField, number>> {
+  const mapping: Partial<Record<ImportField, number>> = {};
+
+  header.forEach((cell, index) => {
+    const normalised = normaliseHeader(cell);
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [ImportField, string[]][]) {
+      if (mapping[field] === undefined && aliases.includes(normalised)) {
+        mapping[field] = index;
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Date and/or time of day from a cell. Strings may be ISO (2024-07-01 09:00)
+ * or Australian day-first (1/7/2024 9:00 am); XLSX date cells hold the wall clock in UTC.
+ */
+function parseWallClock(value: CellValue): Partial<WallClock> | null {
+  if (value instanceof Date) {
+    const time = { hour: value.getUTCHours(), minute: value.getUTCMinutes() };
+    // Time-only cells are stored against Excel's 1899-12-30 epoch
+    if (value.getUTCFullYear() < 1900) return time;
+    return { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate(), ...time };
+  }
+
+  const text = (value ?? '').trim();
+  if (!text) return null;
+
+  const parseTime = (hourText?: string, minuteText?: string, meridiem?: string) => {
+    if (hourText === undefined) return {};
+    let hour = parseInt(hourText, 10);
+    const minute = parseInt(minuteText || '0', 10);
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) return null;
+    return { hour, minute };
+  };
+
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(am|pm)?)?$/i.exec(text);
+  let date: { year: number; month: number; day: number } | null = null;
+  let time: ReturnType<typeof parseTime> = {};
+
+  if (match) {
+    date = { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+    time = parseTime(match[4], match[5], match[6]);
+  } else if ((match = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)?$/i.exec(text))) {
+    const year = parseInt(match[3], 10);
+    date = { year: year < 100 ? 2000 + year : year, month: parseInt(match[2], 10), day: parseInt(match[1], 10) };
+    time = parseTime(match[4], match[5], match[6]);
+  } else if ((match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm)?$/i.exec(text)) && (match[2] || match[3])) {
+    time = parseTime(match[1], match[2], match[3]);
+  } else {
+    return null;
+  }
+
+  if (time === null) return null;
+  if (date) {
+    const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+    if (check.getUTCMonth() !== date.month - 1 || check.getUTCDate() !== date.day) return null;
+  }
+
+  return { ...date, ...time };
+}
+
+/**
+ * Convert a spreadsheet wall clock time to an instant. timezoneOffset is in minutes
+ * behind UTC, as returned by Date.prototype.getTimezoneOffset on the coordinator's device.
+ */
+function toInstant(clock: WallClock, timezoneOffset: number): Date {
+  return new Date(
+    Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute) + timezoneOffset * 60 * 1000,
+  );
+}
+
+/**
+ * Resolve a row's start and end. A separate date column may supply the day for time-only
+ * start/end cells, and an end time earlier than the start rolls over to the next day.
+ */
+function resolveTimes(
+  dateCell: CellValue,
+  startCell: CellValue,
+  endCell: CellValue,
+  timezoneOffset: number,
+): { startTime: Date; endTime: Date } | string {
+  const date = dateCell === null ? null : parseWallClock(dateCell);
+  const start = parseWallClock(startCell);
+  const end = parseWallClock(endCell);
+
+  if (dateCell !== null && cellText(dateCell) !== '' && (!date || date.year === undefined)) {
+    return `Could not read date "${cellText(dateCell)}"`;
+  }
+  if (!start || start.hour === undefined) return `Could not read start "${cellText(startCell)}"`;
+  if (!end || end.hour === undefined) return `Could not read end "${cellText(endCell)}"`;
+
+  const startClock = { ...date, ...start } as Partial<WallClock>;
+  if (startClock.year === undefined) return 'Start needs a date, either in the start column or a date column';
+
+  const endHasDate = end.year !== undefined;
+  const endClock = { ...startClock, ...end } as WallClock;
+
+  const startTime = toInstant(startClock as WallClock, timezoneOffset);
+  let endTime = toInstant(endClock, timezoneOffset);
+
+  if (!endHasDate && endTime <= startTime) {
+    endTime = new Date(endTime.getTime() + 24 * 60 * 60 * 1000);
+  }
+  if (endTime <= startTime) return 'End must be after start';
+
+  return { startTime, endTime };
+}
+
+/**
+ * Dry-run validation of roster rows for a service provider: resolve workers by email and
+ * clients by name, parse times and rates, and check each shift against the worker's roster
+ * and the other rows in the file. Nothing is saved.
+ */
+export async function validateRoster(
+  app: App,
+  serviceProviderId: string,
+  cells: CellValue[][],
+  timezoneOffset: number,
+): Promise<ImportValidation> {
+  const [header, ...body] = cells;
+  if (!header) {
+    throw new Error('The roster is empty');
+  }
+
+  const mapping = mapColumns(header);
+  const missing = REQUIRED_FIELDS.filter((field) => mapping[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing required columns: ${missing.join(', ')}`);
+  }
+
+  // Keep spreadsheet row numbers (header is row 1) and drop blank lines
+  const dataRows = body
+    .map((row, index) => ({ row, rowNumber: index + 2 }))
+    .filter(({ row }) => row.some((cell) => cellText(cell) !== ''));
+
+  if (dataRows.length === 0) {
+    throw new Error('The roster has no shifts');
+  }
+  if (dataRows.length > MAX_ROWS) {
+    throw new Error(`Rosters are limited to ${MAX_ROWS} shifts per import`);
+  }
+
+  const relationships = await app.db.query.workerProviderRelationships.findMany({
+    where: and(
+      eq(schema.workerProviderRelationships.serviceProviderId, serviceProviderId),
+      eq(schema.workerProviderRelationships.status, 'active' as any),
+    ),
+  });
+  const workerIds = relationships.map((relationship: any) => relationship.supportWorkerId);
+  const workers = workerIds.length > 0
+    ? await app.db.query.user.findMany({ where: inArray(authSchema.user.id, workerIds) })
+    : [];
+  const workersByEmail = new Map(workers.map((worker: any) => [worker.email.toLowerCase(), worker]));
+
+  const clients = await app.db.query.clients.findMany({
+    where: eq(schema.clients.serviceProviderId, serviceProviderId),
+  });
+  const clientsByName = new Map<string, any[]>();
+  for (const client of clients as any[]) {
+    const key = client.name.trim().toLowerCase();
+    clientsByName.set(key, [...(clientsByName.get(key) || []), client]);
+  }
+
+  const get = (row: CellValue[], field: ImportField): CellValue => {
+    const index = mapping[field];
+    return index === undefined ? null : row[index] ?? null;
+  };
+
+  // Rows already accepted in this file, per worker, so later rows are checked against them
+  const pendingByWorker = new Map<string, conflicts.BookedShift[]>();
+  const results: ImportRowResult[] = [];
+
+  for (const { row, rowNumber } of dataRows) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const workerEmail = cellText(get(row, 'workerEmail'));
+    const clientName = cellText(get(row, 'clientName'));
+    const rateText = cellText(get(row, 'rate')).replace(/^\$/, '');
+    const tasks = cellText(get(row, 'tasks'));
+    const specialRequirements = cellText(get(row, 'specialRequirements'));
+    const title = cellText(get(row, 'title')) || DEFAULT_TITLE;
+
+    const worker: any = workerEmail ? workersByEmail.get(workerEmail.toLowerCase()) : null;
+    if (!workerEmail) {
+      errors.push('Worker email is required');
+    } else if (!worker) {
+      errors.push(`Unknown worker: no active worker with email ${workerEmail} is linked to your organisation`);
+    }
+
+    const clientMatches = clientName ? clientsByName.get(clientName.toLowerCase()) || [] : [];
+    if (!clientName) {
+      errors.push('Client name is required');
+    } else if (clientMatches.length === 0) {
+      errors.push(`Unknown client: ${clientName}`);
+    } else if (clientMatches.length > 1) {
+      errors.push(`More than one client is named ${clientName}`);
+    }
+    const client = clientMatches.length === 1 ? clientMatches[0] : null;
+
+    if (rateText && (isNaN(Number(rateText)) || Number(rateText) < 0)) {
+      errors.push(`Invalid rate "${rateText}"`);
+    }
+
+    const times = resolveTimes(get(row, 'date'), get(row, 'start'), get(row, 'end'), timezoneOffset);
+    if (typeof times === 'string') {
+      errors.push(times);
+    }
+
+    let rowConflicts: conflicts.ShiftConflict[] = [];
+    if (worker && typeof times !== 'string') {
+      const pending = pendingByWorker.get(worker.id) || [];
+
+      rowConflicts = await conflicts.checkShiftConflicts(app, {
+        supportWorkerId: worker.id,
+        serviceProviderId,
+        startTime: times.startTime,
+        endTime: times.endTime,
+        additionalShifts: pending,
+      });
+
+      for (const conflict of rowConflicts) {
+        const fromFile = conflict.shiftId?.startsWith('row-');
+        const message = fromFile
+          ? `${conflict.message} (row ${conflict.shiftId!.slice(4)} of this file)`
+          : conflict.message;
+        (conflict.severity === 'error' ? errors : warnings).push(message);
+      }
+
+      const availabilityWarnings = await availability.checkAvailability(app, {
+        supportWorkerId: worker.id,
+        serviceProviderId,
+        startTime: times.startTime,
+        endTime: times.endTime,
+      });
+      warnings.push(...availabilityWarnings.map((warning) => warning.message));
+
+      if (errors.length === 0) {
+        pendingByWorker.set(worker.id, [
+          ...pending,
+          { id: `row-${rowNumber}`, startTime: times.startTime, endTime: times.endTime },
+        ]);
+      }
+    }
+
+    results.push({
+      rowNumber,
+      workerEmail,
+      clientName,
+      startTime: typeof times === 'string' ? null : times.startTime.toISOString(),
+      endTime: typeof times === 'string' ? null : times.endTime.toISOString(),
+      hourlyRate: rateText ? Number(rateText).toFixed(2) : null,
+      taskDescription: tasks || null,
+      specialRequirements: specialRequirements || null,
+      title,
+      supportWorkerId: worker?.id || null,
+      workerName: worker?.name || null,
+      clientId: client?.id || null,
+      errors,
+      warnings,
+      conflicts: rowConflicts,
+    });
+  }
+
+  const columns: Partial<Record<ImportField, string>> = {};
+  for (const [field, index] of Object.entries(mapping) as [ImportField, number][]) {
+    columns[field] = cellText(header[index]);
+  }
+
+  return {
+    columns,
+    rows: results,
+    summary: {
+      totalRows: results.length,
+      validRows: results.filter((row) => row.errors.length === 0).length,
+      errorRows: results.filter((row) => row.errors.length > 0).length,
+      warningRows: results.filter((row) => row.errors.length === 0 && row.warnings.length > 0).length,
+    },
+  };
+}
+
+/**
+ * Create shifts and their shift notes for every row of a validated roster in a single
+ * transaction. Callers must check the validation has no errors first.
+ */
+export async function commitRoster(
+  app: App,
+  serviceProviderId: string,
+  importedBy: string,
+  validation: ImportValidation,
+  overrideReason?: string,
+): Promise<string[]> {
+  const clientIds = [...new Set(validation.rows.map((row) => row.clientId).filter(Boolean))] as string[];
+  const clients = clientIds.length > 0
+    ? await app.db.query.clients.findMany({ where: inArray(schema.clients.id, clientIds) })
+    : [];
+  const clientsById = new Map(clients.map((client: any) => [client.id, client]));
+
+  return app.db.transaction(async (tx: any) => {
+    const shiftIds: string[] = [];
+
+    for (const row of validation.rows) {
+      const client: any = clientsById.get(row.clientId!);
+
+      const [shift] = await tx
+        .insert(schema.shifts)
+        .values({
+          supportWorkerId: row.supportWorkerId,
+          serviceProviderId,
+          title: row.title,
+          startTime: new Date(row.startTime!),
+          endTime: new Date(row.endTime!),
+          location: client?.address,
+          hourlyRate: row.hourlyRate,
+          clientId: row.clientId,
+        })
+        .returning();
+
+      await tx.insert(schema.shiftNotes).values({
+        shiftId: shift.id,
+        clientId: row.clientId,
+        clientName: client?.name || row.clientName,
+        taskDescription: row.taskDescription,
+        specialRequirements: row.specialRequirements,
+      });
+
+      if (row.conflicts.length > 0) {
+        await tx.insert(schema.shiftConflictOverrides).values({
+          shiftId: shift.id,
+          overriddenBy: importedBy,
+          conflicts: JSON.stringify(row.conflicts),
+          reason: overrideReason,
+        });
+      }
+
+      shiftIds.push(shift.id);
+    }
+
+    return shiftIds;
+  });
+}
@@ -0,0 +1,329 @@
+import { eq, and, ne, lt, gte, lte, count } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import * as availability from './availability.js';
+import * as conflicts from './conflicts.js';
+import * as timeZones from './timeZone.js';
+import { geocodeAddress, distanceKm } from './geocoding.js';
+import type { App } from '../index.js';
+
+export type ScoreFactor = 'availability' | 'bookings' | 'compliance' | 'distance' | 'continuity' | 'weeklyHours';
+
+export interface FactorScore {
+  score: number; // 0 to 1
+  weight: number;
+  points: number; // score * weight
+  detail: string;
+}
+
+export interface WorkerSuggestion {
+  supportWorkerId: string;
+  workerName: string;
+  eligible: boolean;
+  totalScore: number; // 0 to 100
+  breakdown: Record<ScoreFactor, FactorScore>;
+  conflicts: conflicts.ShiftConflict[];
+  availabilityWarnings: availability.AvailabilityWarning[];
+}
+
+/**
+ * Factor weights, summing to 100
+ */
+export const SCORE_WEIGHTS: Record<ScoreFactor, number> = {
+  availability: 25,
+  bookings: 15,
+  compliance: 20,
+  distance: 15,
+  continuity: 15,
+  weeklyHours: 10,
+};
+
+// Travel beyond this scores zero for distance
+const MAX_TRAVEL_KM = 50;
+// Shifts with the client at which continuity is fully rewarded
+const FULL_CONTINUITY_SHIFTS = 5;
+// Documents expiring within this many days of the shift count as expiring soon
+const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface CandidateFacts {
+  availabilityWarnings: availability.AvailabilityWarning[];
+  conflicts: conflicts.ShiftConflict[];
+  complianceDocuments: { documentName: string; expiryDate: Date | null }[];
+  distanceKm: number | null;
+  pastShiftsWithClient: number | null; // Null when no client was given
+  weeklyHours: number;
+  maxWeeklyHours: number;
+}
+
+function factor(weight: number, score: number, detail: string): FactorScore {
+  const clamped = Math.min(1, Math.max(0, score));
+  return { score: clamped, weight, points: parseFloat((clamped * weight).toFixed(2)), detail };
+}
+
+/**
+ * Score one candidate from the facts gathered about them.
+ * A candidate with an overlapping booking or approved leave is ineligible but still scored.
+ */
+export function scoreCandidate(facts: CandidateFacts, shiftStart: Date): {
+  eligible: boolean;
+  totalScore: number;
+  breakdown: Record<ScoreFactor, FactorScore>;
+} {
+  const onLeave = facts.availabilityWarnings.some((w) => w.type === 'on_leave');
+  const pendingLeave = facts.availabilityWarnings.some((w) => w.type === 'leave_pending');
+  const outsideWindows = facts.availabilityWarnings.some((w) => w.type === 'outside_availability');
+
+  let availabilityScore = factor(SCORE_WEIGHTS.availability, 1, 'Available');
+  if (onLeave) {
+    availabilityScore = factor(SCORE_WEIGHTS.availability, 0, 'On approved leave');
+  } else if (outsideWindows) {
+    availabilityScore = factor(SCORE_WEIGHTS.availability, 0.25, 'Outside weekly availability');
+  } else if (pendingLeave) {
+    availabilityScore = factor(SCORE_WEIGHTS.availability, 0.5, 'Has a pending leave request');
+  }
+
+  const overlaps = facts.conflicts.filter((c) => c.severity === 'error');
+  const warnings = facts.conflicts.filter((c) => c.severity === 'warning');
+  const bookingsScore = overlaps.length > 0
+    ? factor(SCORE_WEIGHTS.bookings, 0, 'Already booked at this time')
+    : factor(
+      SCORE_WEIGHTS.bookings,
+      1 - warnings.length * 0.5,
+      warnings.length > 0 ? warnings.map((w) => w.message).join('; ') : 'No rostering conflicts',
+    );
+
+  const warningCutoff = new Date(shiftStart.getTime() + EXPIRY_WARNING_DAYS * DAY_MS);
+  const expired = facts.complianceDocuments.filter((doc) => doc.expiryDate && doc.expiryDate < shiftStart);
+  const expiring = facts.complianceDocuments.filter((doc) =>
+    doc.expiryDate && doc.expiryDate >= shiftStart && doc.expiryDate < warningCutoff,
+  );
+  let complianceScore: FactorScore;
+  if (facts.complianceDocuments.length === 0) {
+    complianceScore = factor(SCORE_WEIGHTS.compliance, 0.5, 'No compliance documents on file');
+  } else if (expired.length > 0) {
+    complianceScore = factor(
+      SCORE_WEIGHTS.compliance,
+      0,
+      `Expired by shift date: ${expired.map((doc) => doc.documentName).join(', ')}`,
+    );
+  } else if (expiring.length > 0) {
+    complianceScore = factor(
+      SCORE_WEIGHTS.compliance,
+      0.6,
+      `Expiring soon: ${expiring.map((doc) => doc.documentName).join(', ')}`,
+    );
+  } else {
+    complianceScore = factor(SCORE_WEIGHTS.compliance, 1, 'All documents current');
+  }
+
+  const distanceScore = facts.distanceKm === null
+    ? factor(SCORE_WEIGHTS.distance, 0.5, 'Distance unknown')
+    : factor(
+      SCORE_WEIGHTS.distance,
+      1 - facts.distanceKm / MAX_TRAVEL_KM,
+      `${facts.distanceKm.toFixed(1)} km from the client`,
+    );
+
+  const continuityScore = facts.pastShiftsWithClient === null
+    ? factor(SCORE_WEIGHTS.continuity, 0, 'No client specified')
+    : factor(
+      SCORE_WEIGHTS.continuity,
+      facts.pastShiftsWithClient / FULL_CONTINUITY_SHIFTS,
+      facts.pastShiftsWithClient === 0
+        ? 'Has not worked with this client'
+        : `Worked ${facts.pastShiftsWithClient} previous shift${facts.pastShiftsWithClient === 1 ? '' : 's'} with this client`,
+    );
+
+  const weeklyHoursScore = factor(
+    SCORE_WEIGHTS.weeklyHours,
+    1 - facts.weeklyHours / facts.maxWeeklyHours,
+    `${facts.weeklyHours.toFixed(1)} of ${facts.maxWeeklyHours} hours rostered this week`,
+  );
+
+  const breakdown: Record<ScoreFactor, FactorScore> = {
+    availability: availabilityScore,
+    bookings: bookingsScore,
+    compliance: complianceScore,
+    distance: distanceScore,
+    continuity: continuityScore,
+    weeklyHours: weeklyHoursScore,
+  };
+
+  const totalScore = Object.values(breakdown).reduce((sum, f) => sum + f.points, 0);
+
+  return {
+    eligible: overlaps.length === 0 && !onLeave,
+    totalScore: parseFloat(totalScore.toFixed(2)),
+    breakdown,
+  };
+}
+
+/**
+ * Worker coordinates, geocoding and saving them on first use if only an address is stored
+ */
+async function getWorkerLocation(app: App, supportWorkerId: string) {
+  const worker = await app.db.query.supportWorkers.findFirst({
+    where: eq(schema.supportWorkers.userId, supportWorkerId),
+  });
+
+  if (!worker) return null;
+
+  if ((worker as any).latitude !== null && (worker as any).longitude !== null) {
+    return { latitude: (worker as any).latitude, longitude: (worker as any).longitude };
+  }
+
+  if (!(worker as any).address) return null;
+
+  const coordinates = await geocodeAddress((worker as any).address);
+  if (coordinates) {
+    await app.db
+      .update(schema.supportWorkers)
+      .set(coordinates)
+      .where(eq(schema.supportWorkers.id, (worker as any).id));
+  }
+  return coordinates;
+}
+
+/**
+ * Hours of the worker's non-cancelled shifts in the Monday-based week containing the date,
+ * in the provider's time zone
+ */
+async function getWeeklyHours(app: App, supportWorkerId: string, date: Date, timeZone: string): Promise<number> {
+  const { weekday } = timeZones.localTime(date, timeZone);
+  const weekStart = timeZones.startOfLocalDay(date, timeZone, -((weekday + 6) % 7));
+  const weekEnd = timeZones.startOfLocalDay(weekStart, timeZone, 7);
+
+  const shifts = await app.db.query.shifts.findMany({
+    where: and(
+      eq(schema.shifts.supportWorkerId, supportWorkerId),
+      ne(schema.shifts.status, 'cancelled' as any),
+      lt(schema.shifts.startTime, weekEnd),
+      gte(schema.shifts.endTime, weekStart),
+    ),
+  });
+
+  return shifts.reduce((sum: number, shift: any) => {
+    const start = Math.max(new Date(shift.startTime).getTime(), weekStart.getTime());
+    const end = Math.min(new Date(shift.endTime).getTime(), weekEnd.getTime());
+    return sum + Math.max(0, end - start) / (1000 * 60 * 60);
+  }, 0);
+}
+
+/**
+ * Count the worker's past shifts with the client, matched through shift notes
+ */
+async function countPastShiftsWithClient(app: App, supportWorkerId: string, clientId: string, before: Date) {
+  const [result] = await app.db
+    .select({ total: count() })
+    .from(schema.shiftNotes)
+    .innerJoin(schema.shifts, eq(schema.shiftNotes.shiftId, schema.shifts.id))
+    .where(
+      and(
+        eq(schema.shiftNotes.clientId, clientId),
+        eq(schema.shifts.supportWorkerId, supportWorkerId),
+        ne(schema.shifts.status, 'cancelled' as any),
+        lte(schema.shifts.endTime, before),
+      ),
+    );
+
+  return Number(result?.total || 0);
+}
+
+/**
+ * Rank a provider's active workers for a proposed shift, best fit first.
+ * Ineligible workers are listed after eligible ones so coordinators can see why.
+ */
+export async function suggestWorkers(
+  app: App,
+  params: {
+    serviceProviderId: string;
+    startTime: Date;
+    endTime: Date;
+    clientId?: string;
+    excludeShiftId?: string;
+  },
+): Promise<WorkerSuggestion[]> {
+  const relationships = await app.db.query.workerProviderRelationships.findMany({
+    where: and(
+      eq(schema.workerProviderRelationships.serviceProviderId, params.serviceProviderId),
+      eq(schema.workerProviderRelationships.status, 'active' as any),
+    ),
+  });
+
+  const client = params.clientId
+    ? await app.db.query.clients.findFirst({ where: eq(schema.clients.id, params.clientId) })
+    : null;
+  const clientLocation = client && (client as any).latitude !== null && (client as any).longitude !== null
+    ? { latitude: (client as any).latitude, longitude: (client as any).longitude }
+    : null;
+
+  const limits = await conflicts.getRosteringLimits(app, params.serviceProviderId);
+  const timeZone = await timeZones.getProviderTimeZone(app, params.serviceProviderId);
+
+  const suggestions: WorkerSuggestion[] = await Promise.all(
+    relationships.map(async (rel: any): Promise<WorkerSuggestion> => {
+      const supportWorkerId = rel.supportWorkerId;
+
+      const workerUser = await app.db.query.user.findFirst({
+        where: eq(authSchema.user.id, supportWorkerId),
+      });
+
+      const availabilityWarnings = await availability.checkAvailability(app, {
+        supportWorkerId,
+        serviceProviderId: params.serviceProviderId,
+        startTime: params.startTime,
+        endTime: params.endTime,
+      });
+
+      const shiftConflicts = await conflicts.checkShiftConflicts(app, {
+        supportWorkerId,
+        serviceProviderId: params.serviceProviderId,
+        startTime: params.startTime,
+        endTime: params.endTime,
+        excludeShiftId: params.excludeShiftId,
+      });
+
+      const documents = await app.db.query.complianceDocuments.findMany({
+        where: and(
+          eq(schema.complianceDocuments.supportWorkerId, supportWorkerId),
+          eq(schema.complianceDocuments.serviceProviderId, params.serviceProviderId),
+        ),
+      });
+
+      const workerLocation = clientLocation ? await getWorkerLocation(app, supportWorkerId) : null;
+
+      const facts: CandidateFacts = {
+        availabilityWarnings,
+        conflicts: shiftConflicts,
+        complianceDocuments: documents.map((doc: any) => ({
+          documentName: doc.documentName,
+          expiryDate: doc.expiryDate ? new Date(doc.expiryDate) : null,
+        })),
+        distanceKm: clientLocation && workerLocation ? distanceKm(workerLocation, clientLocation) : null,
+        pastShiftsWithClient: params.clientId
+          ? await countPastShiftsWithClient(app, supportWorkerId, params.clientId, params.startTime)
+          : null,
+        weeklyHours: await getWeeklyHours(app, supportWorkerId, params.startTime, timeZone),
+        maxWeeklyHours: limits.maxWeeklyHours,
+      };
+
+      const { eligible, totalScore, breakdown } = scoreCandidate(facts, params.startTime);
+
+      return {
+        supportWorkerId,
+        workerName: workerUser?.name || 'Unknown',
+        eligible,
+        totalScore,
+        breakdown,
+        conflicts: shiftConflicts,
+        availabilityWarnings,
+      };
+    }),
+  );
+
+  return suggestions.sort((a, b) =>
+    Number(b.eligible) - Number(a.eligible) || b.totalScore - a.totalScore,
+  );
+}
@@ -0,0 +1,58 @@
+import { eq, and, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+export type HolderChangeReason = 'assigned' | 'cover' | 'swap';
+
+/**
+ * Record a shift changing hands in its holder history. Runs against a db or transaction handle,
+ * and should share the transaction that reassigns the shift so the two can't disagree.
+ * Closes the current holder's entry, backfilling the original assignment on the first change,
+ * then opens one for the new worker unless the shift is left without one.
+ */
+export async function recordHolderChange(
+  db: any,
+  params: {
+    shift: { id: string; supportWorkerId: string | null; createdAt: Date };
+    toWorkerId: string | null;
+    changeReason: HolderChangeReason;
+    swapRequestId?: string;
+    now?: Date;
+  },
+): Promise<void> {
+  const { shift, toWorkerId, changeReason, swapRequestId } = params;
+  const now = params.now ?? new Date();
+  if (shift.supportWorkerId === toWorkerId) return;
+
+  const currentHolder = await db.query.shiftHolderHistory.findFirst({
+    where: and(
+      eq(schema.shiftHolderHistory.shiftId, shift.id),
+      isNull(schema.shiftHolderHistory.heldUntil),
+    ),
+  });
+
+  if (currentHolder) {
+    await db
+      .update(schema.shiftHolderHistory)
+      .set({ heldUntil: now })
+      .where(eq(schema.shiftHolderHistory.id, currentHolder.id));
+  } else if (shift.supportWorkerId) {
+    // First change of holder: backfill the original assignment
+    await db.insert(schema.shiftHolderHistory).values({
+      shiftId: shift.id,
+      supportWorkerId: shift.supportWorkerId,
+      heldFrom: shift.createdAt,
+      heldUntil: now,
+      changeReason: 'assigned',
+    });
+  }
+
+  if (toWorkerId) {
+    await db.insert(schema.shiftHolderHistory).values({
+      shiftId: shift.id,
+      supportWorkerId: toWorkerId,
+      heldFrom: now,
+      changeReason,
+      swapRequestId: swapRequestId ?? null,
+    });
+  }
+}
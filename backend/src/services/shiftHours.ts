@@ -0,0 +1,256 @@
+import { eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export type ShiftType = 'standard' | 'sleepover' | 'active_overnight' | 'split';
+
+export const SHIFT_TYPES: ShiftType[] = ['standard', 'sleepover', 'active_overnight', 'split'];
+
+export interface ShiftSegment {
+  segmentType: 'work' | 'sleepover';
+  startTime: Date;
+  endTime: Date;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+function overlapMs(a: Interval, b: Interval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * Check segments make sense for the shift type, throwing on the first problem.
+ * Split shifts need two or more work segments; sleepovers may give one sleep period
+ * (without it the whole shift is the sleep period); other types take no segments.
+ */
+export function validateSegments(
+  shiftType: ShiftType,
+  startTime: Date,
+  endTime: Date,
+  segments: ShiftSegment[],
+): void {
+  if (shiftType === 'standard' || shiftType === 'active_overnight') {
+    if (segments.length > 0) {
+      throw new Error(`${shiftType} shifts do not take segments`);
+    }
+    return;
+  }
+
+  const sorted = [...segments].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  for (let i = 0; i < sorted.length; i++) {
+    const segment = sorted[i];
+    if (segment.endTime <= segment.startTime) {
+      throw new Error('Each segment must end after it starts');
+    }
+    if (segment.startTime < startTime || segment.endTime > endTime) {
+      throw new Error('Segments must fall within the shift start and end times');
+    }
+    if (i > 0 && segment.startTime < sorted[i - 1].endTime) {
+      throw new Error('Segments must not overlap');
+    }
+  }
+
+  if (shiftType === 'split') {
+    if (sorted.some((s) => s.segmentType !== 'work') || sorted.length < 2) {
+      throw new Error('Split shifts need at least two work segments');
+    }
+  }
+
+  if (shiftType === 'sleepover' && sorted.filter((s) => s.segmentType === 'sleepover').length > 1) {
+    throw new Error('Sleepover shifts have a single sleepover segment');
+  }
+}
+
+/**
+ * Periods within the shift that are not paid hourly:
+ * the gaps between split shift segments, or a sleepover's sleep period
+ */
+function unpaidIntervals(
+  shiftType: ShiftType,
+  startTime: Date,
+  endTime: Date,
+  segments: ShiftSegment[],
+): Interval[] {
+  if (shiftType === 'split') {
+    const work = segments
+      .filter((s) => s.segmentType === 'work')
+      .map((s) => ({ start: s.startTime.getTime(), end: s.endTime.getTime() }))
+      .sort((a, b) => a.start - b.start);
+
+    const gaps: Interval[] = [];
+    let cursor = startTime.getTime();
+    for (const segment of work) {
+      if (segment.start > cursor) gaps.push({ start: cursor, end: segment.start });
+      cursor = Math.max(cursor, segment.end);
+    }
+    if (cursor < endTime.getTime()) gaps.push({ start: cursor, end: endTime.getTime() });
+    return gaps;
+  }
+
+  if (shiftType === 'sleepover') {
+    const sleep = segments.filter((s) => s.segmentType === 'sleepover');
+    if (sleep.length === 0) {
+      return [{ start: startTime.getTime(), end: endTime.getTime() }];
+    }
+    return sleep.map((s) => ({ start: s.startTime.getTime(), end: s.endTime.getTime() }));
+  }
+
+  return [];
+}
+
+/**
+ * Paid hours for a rostered shift, excluding split gaps and sleep periods
+ */
+export function scheduledHours(
+  shift: { shiftType: ShiftType; startTime: Date; endTime: Date },
+  segments: ShiftSegment[],
+): number {
+  return workedHours(shift, segments, shift.startTime, shift.endTime, 0);
+}
+
+/**
+ * Paid hours for a worked period (e.g. a timesheet) against the shift's type.
+ * Breaks and any overlap with unpaid periods are taken off.
+ */
+export function workedHours(
+  shift: { shiftType: ShiftType; startTime: Date; endTime: Date },
+  segments: ShiftSegment[],
+  workedStart: Date,
+  workedEnd: Date,
+  breakMinutes: number,
+): number {
+  const worked = { start: workedStart.getTime(), end: workedEnd.getTime() };
+  const unpaidMs = unpaidIntervals(shift.shiftType, shift.startTime, shift.endTime, segments)
+    .reduce((sum, interval) => sum + overlapMs(worked, interval), 0);
+
+  const paidMs = worked.end - worked.start - unpaidMs - breakMinutes * 60 * 1000;
+  return Math.max(0, paidMs / HOUR_MS);
+}
+
+/**
+ * Remove a period from a list of intervals
+ */
+function cutInterval(intervals: Interval[], cut: Interval): Interval[] {
+  return intervals.flatMap((interval) => {
+    if (cut.end <= interval.start || cut.start >= interval.end) return [interval];
+    const pieces: Interval[] = [];
+    if (cut.start > interval.start) pieces.push({ start: interval.start, end: cut.start });
+    if (cut.end < interval.end) pieces.push({ start: cut.end, end: interval.end });
+    return pieces;
+  });
+}
+
+/**
+ * The paid periods within a worked period, with unpaid periods and recorded breaks cut out.
+ * Break minutes not covered by recorded breaks (e.g. entered by hand) come off the end.
+ */
+export function paidPeriods(
+  shift: { shiftType: ShiftType; startTime: Date; endTime: Date },
+  segments: ShiftSegment[],
+  workedStart: Date,
+  workedEnd: Date,
+  breaks: { startTime: Date; endTime: Date }[],
+  breakMinutes: number,
+): { startTime: Date; endTime: Date }[] {
+  const totalMs = (intervals: Interval[]) => intervals.reduce((sum, i) => sum + i.end - i.start, 0);
+
+  let periods: Interval[] = [{ start: workedStart.getTime(), end: workedEnd.getTime() }];
+  for (const unpaid of unpaidIntervals(shift.shiftType, shift.startTime, shift.endTime, segments)) {
+    periods = cutInterval(periods, unpaid);
+  }
+
+  const beforeBreaks = totalMs(periods);
+  for (const recorded of breaks) {
+    periods = cutInterval(periods, { start: recorded.startTime.getTime(), end: recorded.endTime.getTime() });
+  }
+
+  let remainingMs = breakMinutes * 60 * 1000 - (beforeBreaks - totalMs(periods));
+  while (remainingMs > 0 && periods.length > 0) {
+    const last = periods[periods.length - 1];
+    const trim = Math.min(remainingMs, last.end - last.start);
+    remainingMs -= trim;
+    if (trim === last.end - last.start) {
+      periods = periods.slice(0, -1);
+    } else {
+      periods = [...periods.slice(0, -1), { start: last.start, end: last.end - trim }];
+    }
+  }
+
+  return periods
+    .filter((interval) => interval.end > interval.start)
+    .map((interval) => ({ startTime: new Date(interval.start), endTime: new Date(interval.end) }));
+}
+
+/**
+ * Load segments for a set of shifts, keyed by shift ID
+ */
+export async function getSegmentsByShift(app: App, shiftIds: string[]): Promise<Map<string, ShiftSegment[]>> {
+  const byShift = new Map<string, ShiftSegment[]>();
+  if (shiftIds.length === 0) return byShift;
+
+  const rows = await app.db.query.shiftSegments.findMany({
+    where: inArray(schema.shiftSegments.shiftId, shiftIds),
+  });
+
+  for (const row of rows as any[]) {
+    const list = byShift.get(row.shiftId) || [];
+    list.push({
+      segmentType: row.segmentType,
+      startTime: new Date(row.startTime),
+      endTime: new Date(row.endTime),
+    });
+    byShift.set(row.shiftId, list);
+  }
+
+  return byShift;
+}
+
+/**
+ * Paid hours for a timesheet on the given shift, loading the shift's segments
+ */
+export async function calculateTimesheetHours(
+  app: App,
+  shiftId: string,
+  startTime: Date,
+  endTime: Date,
+  breakMinutes: number,
+): Promise<number> {
+  const shift = await app.db.query.shifts.findFirst({
+    where: eq(schema.shifts.id, shiftId),
+  });
+
+  if (!shift) {
+    return Math.max(0, (endTime.getTime() - startTime.getTime()) / HOUR_MS - breakMinutes / 60);
+  }
+
+  const segments = (await getSegmentsByShift(app, [shiftId])).get(shiftId) || [];
+  return workedHours(
+    {
+      shiftType: (shift as any).shiftType,
+      startTime: new Date((shift as any).startTime),
+      endTime: new Date((shift as any).endTime),
+    },
+    segments,
+    startTime,
+    endTime,
+    breakMinutes,
+  );
+}
+
+/**
+ * Replace a shift's segments
+ */
+export async function saveSegments(db: any, shiftId: string, segments: ShiftSegment[]): Promise<void> {
+  await db.delete(schema.shiftSegments).where(eq(schema.shiftSegments.shiftId, shiftId));
+
+  if (segments.length > 0) {
+    await db.insert(schema.shiftSegments).values(
+      segments.map((segment) => ({ shiftId, ...segment })),
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+export type ShiftStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+export type ShiftStatusEvent = 'clock_in' | 'clock_out' | 'cancel';
+
+export type CancellationReasonCode =
+  | 'client_cancelled'
+  | 'client_unwell'
+  | 'client_hospitalised'
+  | 'worker_unavailable'
+  | 'provider_cancelled'
+  | 'rostering_error'
+  | 'other';
+
+export const CANCELLATION_REASON_CODES: CancellationReasonCode[] = [
+  'client_cancelled',
+  'client_unwell',
+  'client_hospitalised',
+  'worker_unavailable',
+  'provider_cancelled',
+  'rostering_error',
+  'other',
+];
+
+/**
+ * The only allowed moves: each event takes a shift from one of its source statuses
+ * to a single target. Completed and cancelled shifts are final.
+ */
+const TRANSITIONS: Record<ShiftStatusEvent, { from: ShiftStatus[]; to: ShiftStatus }> = {
+  clock_in: { from: ['scheduled'], to: 'in_progress' },
+  clock_out: { from: ['in_progress'], to: 'completed' },
+  cancel: { from: ['scheduled'], to: 'cancelled' },
+};
+
+/**
+ * Status a shift moves to for an event, or null if the event isn't allowed from its current status
+ */
+export function nextStatus(current: ShiftStatus, event: ShiftStatusEvent): ShiftStatus | null {
+  const transition = TRANSITIONS[event];
+  return transition.from.includes(current) ? transition.to : null;
+}
+
+/**
+ * Check a cancellation reason, throwing if the code is missing or unknown,
+ * or if 'other' is given without an explanation
+ */
+export function validateCancellationReason(reasonCode?: string, reason?: string): void {
+  if (!reasonCode) {
+    throw new Error('A reason code is required to cancel a shift');
+  }
+  if (!CANCELLATION_REASON_CODES.includes(reasonCode as CancellationReasonCode)) {
+    throw new Error(`Unknown cancellation reason code: ${reasonCode}`);
+  }
+  if (reasonCode === 'other' && !reason?.trim()) {
+    throw new Error('Explain the reason when cancelling for "other"');
+  }
+}
+
+/**
+ * Apply an event to shifts and record each transition. Runs against a db or transaction handle.
+ * The update is conditional on the current status so concurrent changes can't skip a step.
+ * Throws if any shift is missing or can't make the transition.
+ */
+export async function transitionShifts(
+  db: any,
+  params: {
+    shiftIds: string[];
+    event: ShiftStatusEvent;
+    changedBy: string;
+    reasonCode?: CancellationReasonCode;
+    reason?: string;
+  },
+): Promise<void> {
+  if (params.shiftIds.length === 0) return;
+
+  if (params.event === 'cancel') {
+    validateCancellationReason(params.reasonCode, params.reason);
+  }
+
+  const shifts = await db.query.shifts.findMany({
+    where: inArray(schema.shifts.id, params.shiftIds),
+  });
+
+  if (shifts.length !== params.shiftIds.length) {
+    throw new Error('Shift not found');
+  }
+
+  for (const shift of shifts) {
+    const to = nextStatus(shift.status, params.event);
+    if (!to) {
+      throw new Error(`Cannot ${params.event.replace('_', ' ')} a shift that is ${shift.status.replace('_', ' ')}`);
+    }
+
+    const updated = await db
+      .update(schema.shifts)
+      .set({ status: to })
+      .where(and(eq(schema.shifts.id, shift.id), eq(schema.shifts.status, shift.status)))
+      .returning();
+
+    if (updated.length === 0) {
+      throw new Error('Shift status changed while updating, please try again');
+    }
+
+    await db.insert(schema.shiftStatusHistory).values({
+      shiftId: shift.id,
+      fromStatus: shift.status,
+      toStatus: to,
+      event: params.event,
+      changedBy: params.changedBy,
+      reasonCode: params.reasonCode,
+      reason: params.reason,
+    });
+  }
+}
+
+/**
+ * Apply an event to a single shift. See transitionShifts.
+ */
+export async function transitionShift(
+  db: any,
+  params: {
+    shiftId: string;
+    event: ShiftStatusEvent;
+    changedBy: string;
+    reasonCode?: CancellationReasonCode;
+    reason?: string;
+  },
+): Promise<void> {
+  const { shiftId, ...rest } = params;
+  await transitionShifts(db, { shiftIds: [shiftId], ...rest });
+}
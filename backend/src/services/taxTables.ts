@@ -0,0 +1,111 @@
+/**
+ * ATO tax tables, one entry per version. Payslips use the newest version in effect on the
+ * pay period's end date; add a new entry (rather than editing one) when the ATO publishes new tables.
+ */
+
+/**
+ * One bracket of a Schedule 1 withholding scale: for weekly earnings x below `below`,
+ * weekly withholding is a * x - b
+ */
+export interface WithholdingBracket {
+  below: number | null; // Null for the top bracket
+  a: number;
+  b: number;
+}
+
+/**
+ * One band of the study and training support loan component, on annual repayment income
+ * from `from`. Total bands charge `rate` on the whole income; marginal bands charge
+ * `base` plus `rate` on the income above `from`.
+ */
+export interface StudyLoanBand {
+  from: number;
+  rate: number;
+  base: number;
+  marginal: boolean;
+}
+
+export interface TaxTable {
+  version: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  scales: {
+    noTaxFreeThreshold: WithholdingBracket[]; // Scale 1
+    taxFreeThreshold: WithholdingBracket[]; // Scale 2
+    foreignResident: WithholdingBracket[]; // Scale 3
+  };
+  noTfnRates: { resident: number; foreign: number }; // Scale 4, on the whole amount
+  taxFreeThreshold: number; // Annual
+  studyLoanBands: StudyLoanBand[];
+  superGuaranteeRate: number; // Of ordinary time earnings
+}
+
+// Schedule 1 coefficients, unchanged since the 1 July 2024 tax cuts
+const SCALE_1: WithholdingBracket[] = [
+  { below: 150, a: 0.16, b: 0.16 },
+  { below: 371, a: 0.2117, b: 7.755 },
+  { below: 515, a: 0.189, b: -0.6702 },
+  { below: 932, a: 0.3227, b: 68.2367 },
+  { below: 2246, a: 0.32, b: 65.7202 },
+  { below: 3303, a: 0.39, b: 222.951 },
+  { below: null, a: 0.47, b: 487.2587 },
+];
+
+const SCALE_2: WithholdingBracket[] = [
+  { below: 361, a: 0, b: 0 },
+  { below: 500, a: 0.16, b: 57.8462 },
+  { below: 625, a: 0.26, b: 107.8462 },
+  { below: 721, a: 0.18, b: 57.8462 },
+  { below: 865, a: 0.189, b: 64.3365 },
+  { below: 1282, a: 0.3227, b: 180.0385 },
+  { below: 2596, a: 0.32, b: 176.5769 },
+  { below: 3653, a: 0.39, b: 358.3077 },
+  { below: null, a: 0.47, b: 650.6154 },
+];
+
+const SCALE_3: WithholdingBracket[] = [
+  { below: 2596, a: 0.3, b: 0.3 },
+  { below: 3653, a: 0.37, b: 181.7308 },
+  { below: null, a: 0.45, b: 474.0385 },
+];
+
+export const TAX_TABLES: TaxTable[] = [
+  {
+    version: '2024-25',
+    effectiveFrom: '2024-07-01',
+    scales: { noTaxFreeThreshold: SCALE_1, taxFreeThreshold: SCALE_2, foreignResident: SCALE_3 },
+    noTfnRates: { resident: 0.47, foreign: 0.45 },
+    taxFreeThreshold: 18200,
+    studyLoanBands: [
+      [54435, 0.01], [62851, 0.02], [66621, 0.025], [70619, 0.03], [74856, 0.035], [79347, 0.04],
+      [84108, 0.045], [89155, 0.05], [94504, 0.055], [100175, 0.06], [106186, 0.065], [112557, 0.07],
+      [119310, 0.075], [126468, 0.08], [134057, 0.085], [142101, 0.09], [150627, 0.095], [159664, 0.1],
+    ].map(([from, rate]) => ({ from, rate, base: 0, marginal: false })),
+    superGuaranteeRate: 0.115,
+  },
+  {
+    version: '2025-26',
+    effectiveFrom: '2025-07-01',
+    scales: { noTaxFreeThreshold: SCALE_1, taxFreeThreshold: SCALE_2, foreignResident: SCALE_3 },
+    noTfnRates: { resident: 0.47, foreign: 0.45 },
+    taxFreeThreshold: 18200,
+    studyLoanBands: [
+      { from: 67000, rate: 0.15, base: 0, marginal: true },
+      { from: 125000, rate: 0.17, base: 8700, marginal: true },
+    ],
+    superGuaranteeRate: 0.12,
+  },
+];
+
+/**
+ * The newest table in effect on a date
+ */
+export function tableFor(date: string, tables: TaxTable[] = TAX_TABLES): TaxTable {
+  const inEffect = tables
+    .filter((table) => table.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  if (inEffect.length === 0) {
+    throw new Error(`No tax table in effect on ${date}`);
+  }
+  return inEffect[0];
+}
@@ -0,0 +1,130 @@
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { AuState } from './publicHolidays.js';
+import type { App } from '../index.js';
+
+/**
+ * Australian time zones a provider can roster in
+ */
+export const AU_TIME_ZONES = [
+  'Australia/Sydney',
+  'Australia/Melbourne',
+  'Australia/Brisbane',
+  'Australia/Adelaide',
+  'Australia/Darwin',
+  'Australia/Hobart',
+  'Australia/Perth',
+] as const;
+
+export type AuTimeZone = typeof AU_TIME_ZONES[number];
+
+export const DEFAULT_TIME_ZONE: AuTimeZone = 'Australia/Sydney';
+
+/**
+ * Each state's capital, used as the provider's time zone when they pick a state without one
+ */
+export const STATE_TIME_ZONES: Record<AuState, AuTimeZone> = {
+  ACT: 'Australia/Sydney',
+  NSW: 'Australia/Sydney',
+  NT: 'Australia/Darwin',
+  QLD: 'Australia/Brisbane',
+  SA: 'Australia/Adelaide',
+  TAS: 'Australia/Hobart',
+  VIC: 'Australia/Melbourne',
+  WA: 'Australia/Perth',
+};
+
+/**
+ * Wall clock date and time at an instant in a time zone. Month is 1-12; weekday is 0 (Sunday) to 6.
+ */
+export interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-AU', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }));
+  }
+  return formatters.get(timeZone)!;
+};
+
+export function localTime(date: Date, timeZone: string): LocalTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at an instant
+ */
+function offsetAt(date: Date, timeZone: string): number {
+  const local = localTime(date, timeZone);
+  const seconds = date.getUTCSeconds() * 1000 + date.getUTCMilliseconds();
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) + seconds - date.getTime();
+}
+
+/**
+ * The instant a wall clock in the time zone shows the given date and time. Out of range days
+ * and hours roll over, so day + 1 at hour 0 is the next midnight. Times skipped by a daylight
+ * saving change resolve to the instant after the change.
+ */
+export function zonedTime(timeZone: string, year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - offsetAt(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetAt(new Date(guess), timeZone));
+}
+
+/**
+ * Calendar date in the time zone as YYYY-MM-DD
+ */
+export function localDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = localTime(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Midnight at the start of the day an instant falls on in the time zone, plus a number of days
+ */
+export function startOfLocalDay(date: Date, timeZone: string, addDays = 0): Date {
+  const { year, month, day } = localTime(date, timeZone);
+  return zonedTime(timeZone, year, month, day + addDays);
+}
+
+export function isAuTimeZone(value: string): value is AuTimeZone {
+  return (AU_TIME_ZONES as readonly string[]).includes(value);
+}
+
+/**
+ * The time zone a provider rosters and pays in
+ */
+export async function getProviderTimeZone(app: App, serviceProviderId: string): Promise<string> {
+  const provider = await app.db.query.serviceProviders.findFirst({
+    where: eq(schema.serviceProviders.userId, serviceProviderId),
+  });
+  return (provider as any)?.timezone ?? DEFAULT_TIME_ZONE;
+}
@@ -0,0 +1,163 @@
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as shiftHours from './shiftHours.js';
+import * as timesheetVariance from './timesheetVariance.js';
+import type { App } from '../index.js';
+
+export type VersionSource = 'original' | 'amendment' | 'provider_edit';
+
+export interface TimesheetChange {
+  field: 'startTime' | 'endTime' | 'breakMinutes' | 'totalHours';
+  original: string | number | null;
+  current: string | number | null;
+}
+
+export const LOCKED_MESSAGE = 'This timesheet has been paid on a payslip and can no longer be changed';
+
+/**
+ * Whether a timesheet has been included in a payslip and so can't change
+ */
+export function isLocked(timesheet: { payslipId?: string | null }): boolean {
+  return !!timesheet.payslipId;
+}
+
+/**
+ * Snapshot a timesheet's current times as its next version.
+ * Runs against a db or transaction handle.
+ */
+export async function recordVersion(
+  db: any,
+  timesheetId: string,
+  params: { source: VersionSource; changedBy: string | null; amendmentId?: string },
+): Promise<void> {
+  const timesheet = await db.query.timesheets.findFirst({
+    where: eq(schema.timesheets.id, timesheetId),
+  });
+  if (!timesheet) {
+    throw new Error('Timesheet not found');
+  }
+
+  const latest = await db.query.timesheetVersions.findFirst({
+    where: eq(schema.timesheetVersions.timesheetId, timesheetId),
+    orderBy: [desc(schema.timesheetVersions.version)],
+  });
+
+  await db.insert(schema.timesheetVersions).values({
+    timesheetId,
+    version: (latest?.version ?? 0) + 1,
+    startTime: timesheet.startTime,
+    endTime: timesheet.endTime,
+    breakMinutes: timesheet.breakMinutes,
+    totalHours: timesheet.totalHours,
+    source: params.source,
+    amendmentId: params.amendmentId,
+    changedBy: params.changedBy,
+  });
+}
+
+/**
+ * Keep the timesheet as the worker recorded it before its first correction
+ */
+export async function ensureOriginalVersion(db: any, timesheetId: string): Promise<void> {
+  const existing = await db.query.timesheetVersions.findFirst({
+    where: eq(schema.timesheetVersions.timesheetId, timesheetId),
+  });
+  if (existing) return;
+
+  const timesheet = await db.query.timesheets.findFirst({
+    where: eq(schema.timesheets.id, timesheetId),
+  });
+  await recordVersion(db, timesheetId, { source: 'original', changedBy: timesheet?.supportWorkerId ?? null });
+}
+
+/**
+ * Fields that differ between two versions of a timesheet
+ */
+export function diffVersions(original: any, current: any): TimesheetChange[] {
+  const normalise = (field: TimesheetChange['field'], value: any) => {
+    if (value === null || value === undefined) return null;
+    if (field === 'startTime' || field === 'endTime') return new Date(value).toISOString();
+    if (field === 'totalHours') return parseFloat(value.toString());
+    return value;
+  };
+
+  const fields: TimesheetChange['field'][] = ['startTime', 'endTime', 'breakMinutes', 'totalHours'];
+  return fields
+    .map((field) => ({
+      field,
+      original: normalise(field, original[field]),
+      current: normalise(field, current[field]),
+    }))
+    .filter((change) => change.original !== change.current);
+}
+
+/**
+ * Apply a pending amendment to its timesheet, keeping the prior times as a version.
+ * Throws if the amendment was already reviewed or the timesheet is locked.
+ */
+export async function approveAmendment(
+  app: App,
+  amendmentId: string,
+  reviewedBy: string,
+  reviewNote?: string,
+): Promise<void> {
+  const amendment = await app.db.query.timesheetAmendments.findFirst({
+    where: eq(schema.timesheetAmendments.id, amendmentId),
+  });
+  if (!amendment) {
+    throw new Error('Amendment not found');
+  }
+
+  const timesheet = await app.db.query.timesheets.findFirst({
+    where: eq(schema.timesheets.id, amendment.timesheetId),
+  });
+  if (!timesheet) {
+    throw new Error('Timesheet not found');
+  }
+  if (isLocked(timesheet as any)) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+
+  const totalHours = await shiftHours.calculateTimesheetHours(
+    app,
+    timesheet.shiftId,
+    amendment.proposedStartTime,
+    amendment.proposedEndTime,
+    amendment.proposedBreakMinutes,
+  );
+
+  await app.db.transaction(async (tx: any) => {
+    const reviewed = await tx
+      .update(schema.timesheetAmendments)
+      .set({ status: 'approved', reviewedBy, reviewedAt: new Date(), reviewNote })
+      .where(and(
+        eq(schema.timesheetAmendments.id, amendmentId),
+        eq(schema.timesheetAmendments.status, 'pending'),
+      ))
+      .returning();
+
+    if (reviewed.length === 0) {
+      throw new Error('This amendment has already been reviewed');
+    }
+
+    await ensureOriginalVersion(tx, timesheet.id);
+
+    const updated = await tx
+      .update(schema.timesheets)
+      .set({
+        startTime: amendment.proposedStartTime,
+        endTime: amendment.proposedEndTime,
+        breakMinutes: amendment.proposedBreakMinutes,
+        totalHours: totalHours.toString(),
+      })
+      .where(and(eq(schema.timesheets.id, timesheet.id), isNull(schema.timesheets.payslipId)))
+      .returning();
+
+    if (updated.length === 0) {
+      throw new Error(LOCKED_MESSAGE);
+    }
+
+    await recordVersion(tx, timesheet.id, { source: 'amendment', changedBy: reviewedBy, amendmentId });
+    await timesheetVariance.refreshShiftVariance(tx, timesheet.shiftId);
+  });
+}
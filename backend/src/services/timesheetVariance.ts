@@ -0,0 +1,105 @@
+import { eq, and, lt, gte, lte, inArray, isNotNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export type PayHoursPolicy = 'actual' | 'scheduled';
+
+export const DEFAULT_VARIANCE_TOLERANCE_MINUTES = 15;
+
+export interface TimesheetVariance {
+  lateStartMinutes: number;
+  earlyFinishMinutes: number | null; // Null while the timesheet is open
+  overtimeMinutes: number | null;
+}
+
+const MINUTE_MS = 1000 * 60;
+
+function minutesAfter(later: Date, earlier: Date): number {
+  return Math.max(0, Math.round((later.getTime() - earlier.getTime()) / MINUTE_MS));
+}
+
+/**
+ * Compare actual times to the scheduled window. Each figure is zero or more minutes:
+ * starting early doesn't offset finishing early, and overtime only counts past the scheduled end.
+ */
+export function calculateVariance(
+  scheduled: { startTime: Date; endTime: Date },
+  actual: { startTime: Date; endTime: Date | null },
+): TimesheetVariance {
+  return {
+    lateStartMinutes: minutesAfter(actual.startTime, scheduled.startTime),
+    earlyFinishMinutes: actual.endTime ? minutesAfter(scheduled.endTime, actual.endTime) : null,
+    overtimeMinutes: actual.endTime ? minutesAfter(actual.endTime, scheduled.endTime) : null,
+  };
+}
+
+/**
+ * Whether any part of a timesheet's variance is over the tolerance
+ */
+export function exceedsTolerance(variance: TimesheetVariance, toleranceMinutes: number): boolean {
+  return [variance.lateStartMinutes, variance.earlyFinishMinutes, variance.overtimeMinutes]
+    .some((minutes) => minutes !== null && minutes > toleranceMinutes);
+}
+
+/**
+ * Recalculate and store the variance for every timesheet on a shift.
+ * Runs against a db or transaction handle; call after timesheet or shift times change.
+ */
+export async function refreshShiftVariance(db: any, shiftId: string): Promise<void> {
+  const shift = await db.query.shifts.findFirst({
+    where: eq(schema.shifts.id, shiftId),
+  });
+  if (!shift) return;
+
+  const timesheets = await db.query.timesheets.findMany({
+    where: eq(schema.timesheets.shiftId, shiftId),
+  });
+
+  for (const timesheet of timesheets) {
+    const variance = calculateVariance(
+      { startTime: new Date(shift.startTime), endTime: new Date(shift.endTime) },
+      {
+        startTime: new Date(timesheet.startTime),
+        endTime: timesheet.endTime ? new Date(timesheet.endTime) : null,
+      },
+    );
+
+    await db
+      .update(schema.timesheets)
+      .set(variance)
+      .where(eq(schema.timesheets.id, timesheet.id));
+  }
+}
+
+/**
+ * Rostered shifts for the provider that ended without anyone clocking in
+ */
+export async function findNoShows(
+  app: App,
+  serviceProviderId: string,
+  range: { from?: Date; to?: Date } = {},
+): Promise<any[]> {
+  let whereCondition: any = and(
+    eq(schema.shifts.serviceProviderId, serviceProviderId),
+    eq(schema.shifts.status, 'scheduled' as any),
+    isNotNull(schema.shifts.supportWorkerId),
+    lt(schema.shifts.endTime, new Date()),
+  );
+
+  if (range.from) {
+    whereCondition = and(whereCondition, gte(schema.shifts.startTime, range.from));
+  }
+  if (range.to) {
+    whereCondition = and(whereCondition, lte(schema.shifts.startTime, range.to));
+  }
+
+  const shifts = await app.db.query.shifts.findMany({ where: whereCondition });
+  if (shifts.length === 0) return [];
+
+  const timesheets = await app.db.query.timesheets.findMany({
+    where: inArray(schema.timesheets.shiftId, shifts.map((shift: any) => shift.id)),
+  });
+  const clockedShiftIds = new Set(timesheets.map((ts: any) => ts.shiftId));
+
+  return shifts.filter((shift: any) => !clockedShiftIds.has(shift.id));
+}
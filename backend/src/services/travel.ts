@@ -0,0 +1,181 @@
+import { eq, and, lt, lte, desc, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { distanceKm } from './geocoding.js';
+import * as timeZones from './timeZone.js';
+import type { App } from '../index.js';
+
+export type TravelType = 'between_clients' | 'client_transport';
+
+export const TRAVEL_TYPES: TravelType[] = ['between_clients', 'client_transport'];
+
+export interface TravelSuggestion {
+  fromClientId: string | null;
+  fromClientName: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  suggestedKilometres: number | null; // Straight-line distance, so usually shorter than the road distance
+  suggestedMinutes: number | null; // Gap between the previous shift's clock-out and this clock-in
+}
+
+export interface TravelAllowance {
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  rateMultiplier: number | null; // Of the hourly rate, for travel time; null for the kilometre rate
+}
+
+/**
+ * Client for a shift, through its shift notes
+ */
+async function getShiftClient(app: App, shiftId: string) {
+  const notes = await app.db.query.shiftNotes.findFirst({
+    where: eq(schema.shiftNotes.shiftId, shiftId),
+  });
+  if (!notes?.clientId) return null;
+
+  const client = await app.db.query.clients.findFirst({
+    where: eq(schema.clients.id, notes.clientId),
+  });
+  return client || null;
+}
+
+/**
+ * Suggest a claim for a timesheet. Travel between clients starts from the client of the
+ * worker's previous shift that day; transport during a shift has nothing to measure against.
+ */
+export async function suggestTravel(app: App, timesheet: any, travelType: TravelType): Promise<TravelSuggestion> {
+  const client: any = await getShiftClient(app, timesheet.shiftId);
+  const suggestion: TravelSuggestion = {
+    fromClientId: null,
+    fromClientName: null,
+    clientId: client?.id ?? null,
+    clientName: client?.name ?? null,
+    suggestedKilometres: null,
+    suggestedMinutes: null,
+  };
+
+  if (travelType !== 'between_clients') return suggestion;
+
+  // The previous shift must be on the same day in the provider's time zone
+  const shift = await app.db.query.shifts.findFirst({
+    where: eq(schema.shifts.id, timesheet.shiftId),
+  });
+  const timeZone = shift
+    ? await timeZones.getProviderTimeZone(app, shift.serviceProviderId)
+    : timeZones.DEFAULT_TIME_ZONE;
+  const startOfDay = timeZones.startOfLocalDay(new Date(timesheet.startTime), timeZone);
+
+  const previous = await app.db.query.timesheets.findFirst({
+    where: and(
+      eq(schema.timesheets.supportWorkerId, timesheet.supportWorkerId),
+      lt(schema.timesheets.startTime, new Date(timesheet.startTime)),
+    ),
+    orderBy: [desc(schema.timesheets.startTime)],
+  });
+
+  if (!previous || !previous.endTime || new Date(previous.endTime) < startOfDay) {
+    return suggestion;
+  }
+
+  suggestion.suggestedMinutes = Math.max(0, Math.round(
+    (new Date(timesheet.startTime).getTime() - new Date(previous.endTime).getTime()) / (1000 * 60),
+  ));
+
+  const fromClient: any = await getShiftClient(app, previous.shiftId);
+  suggestion.fromClientId = fromClient?.id ?? null;
+  suggestion.fromClientName = fromClient?.name ?? null;
+
+  if (fromClient?.latitude != null && fromClient?.longitude != null
+    && client?.latitude != null && client?.longitude != null) {
+    suggestion.suggestedKilometres = Math.round(distanceKm(fromClient, client) * 10) / 10;
+  }
+
+  return suggestion;
+}
+
+/**
+ * Check a claim, throwing if the kilometres or minutes are unusable or an override
+ * of the suggested distance has no reason
+ */
+export function validateClaim(claim: {
+  kilometres: number;
+  travelMinutes: number;
+  suggestedKilometres: number | null;
+  overrideReason?: string | null;
+}): void {
+  if (!Number.isFinite(claim.kilometres) || claim.kilometres < 0) {
+    throw new Error('Kilometres must be zero or more');
+  }
+  if (!Number.isInteger(claim.travelMinutes) || claim.travelMinutes < 0) {
+    throw new Error('Travel minutes must be a whole number of zero or more');
+  }
+  if (claim.kilometres === 0 && claim.travelMinutes === 0) {
+    throw new Error('Claim some kilometres or travel time');
+  }
+  if (claim.suggestedKilometres !== null
+    && Math.abs(claim.kilometres - claim.suggestedKilometres) >= 0.05
+    && !claim.overrideReason?.trim()) {
+    throw new Error('Explain why the kilometres differ from the suggested distance');
+  }
+}
+
+/**
+ * Approved travel for a worker that hasn't been paid yet, on a provider's timesheets starting before
+ * the end of the pay period. Travel approved after its timesheet was paid goes on the next payslip.
+ */
+export async function getUnpaidApprovedTravel(
+  app: App,
+  serviceProviderId: string,
+  supportWorkerId: string,
+  periodEnd: Date,
+): Promise<any[]> {
+  const rows = await app.db
+    .select({ entry: schema.travelEntries })
+    .from(schema.travelEntries)
+    .innerJoin(schema.timesheets, eq(schema.travelEntries.timesheetId, schema.timesheets.id))
+    .innerJoin(schema.shifts, eq(schema.timesheets.shiftId, schema.shifts.id))
+    .where(
+      and(
+        eq(schema.shifts.serviceProviderId, serviceProviderId),
+        eq(schema.travelEntries.supportWorkerId, supportWorkerId),
+        eq(schema.travelEntries.status, 'approved' as any),
+        isNull(schema.travelEntries.payslipId),
+        lte(schema.timesheets.startTime, periodEnd),
+      ),
+    );
+
+  return rows.map((row: any) => row.entry);
+}
+
+/**
+ * Payslip allowances for travel: kilometres at the provider's rate and travel time at the hourly rate
+ */
+export function travelAllowances(entries: any[], kmRate: number, hourlyRate: number): TravelAllowance[] {
+  const kilometres = entries.reduce((sum, entry) => sum + parseFloat(entry.kilometres), 0);
+  const minutes = entries.reduce((sum, entry) => sum + (entry.travelMinutes || 0), 0);
+  const allowances: TravelAllowance[] = [];
+
+  if (kilometres > 0) {
+    allowances.push({
+      description: `Kilometre allowance (${kilometres.toFixed(1)} km)`,
+      quantity: kilometres,
+      rate: kmRate,
+      amount: Math.round(kilometres * kmRate * 100) / 100,
+      rateMultiplier: null,
+    });
+  }
+
+  if (minutes > 0) {
+    const hours = minutes / 60;
+    allowances.push({
+      description: `Travel time between clients (${minutes} min)`,
+      quantity: hours,
+      rate: hourlyRate,
+      amount: Math.round(hours * hourlyRate * 100) / 100,
+      rateMultiplier: 1,
+    });
+  }
+
+  return allowances;
+}
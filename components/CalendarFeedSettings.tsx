@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, Linking, Share, ActivityIndicator } from 'react-native';
+import { IconSymbol } from './IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { authenticatedGet, authenticatedPost, authenticatedDelete } from '@/utils/api';
+
+interface CalendarFeed {
+  feedType: 'worker' | 'provider';
+  feedUrl: string | null;
+  webcalUrl: string | null;
+  lastAccessedAt?: string | null;
+}
+
+export function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const loadFeed = async () => {
+    try {
+      setLoading(true);
+      // GET /api/calendar-feed - Current calendar subscription, if any
+      const response = await authenticatedGet<CalendarFeed>('/api/calendar-feed');
+      console.log('[CalendarFeed] Feed response:', response);
+      setFeed(response);
+    } catch (error) {
+      console.error('[CalendarFeed] Error loading feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createFeed = async () => {
+    try {
+      setWorking(true);
+      // POST /api/calendar-feed - Create or regenerate the feed token
+      const response = await authenticatedPost<CalendarFeed>('/api/calendar-feed', {});
+      console.log('[CalendarFeed] Created feed:', response.feedType);
+      setFeed(response);
+    } catch (error) {
+      console.error('[CalendarFeed] Error creating feed:', error);
+      Alert.alert('Error', 'Failed to create calendar link. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    Alert.alert(
+      'Regenerate Link',
+      'Calendars subscribed with the old link will stop updating. You will need to subscribe again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Regenerate', style: 'destructive', onPress: createFeed },
+      ]
+    );
+  };
+
+  const handleRevoke = () => {
+    Alert.alert(
+      'Turn Off Calendar Sync',
+      'Subscribed calendars will stop receiving your shifts.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setWorking(true);
+              // DELETE /api/calendar-feed - Revoke the feed token
+              await authenticatedDelete('/api/calendar-feed');
+              setFeed(feed ? { ...feed, feedUrl: null, webcalUrl: null } : null);
+            } catch (error) {
+              console.error('[CalendarFeed] Error revoking feed:', error);
+              Alert.alert('Error', 'Failed to turn off calendar sync. Please try again.');
+            } finally {
+              setWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSubscribe = async () => {
+    if (!feed?.webcalUrl) return;
+
+    const supported = await Linking.canOpenURL(feed.webcalUrl);
+    if (supported) {
+      await Linking.openURL(feed.webcalUrl);
+    } else {
+      handleShare();
+    }
+  };
+
+  const handleShare = async () => {
+    if (!feed?.feedUrl) return;
+    await Share.share({ message: feed.feedUrl });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  const isEnabled = !!feed?.feedUrl;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <IconSymbol
+          ios_icon_name="calendar.badge.plus"
+          android_material_icon_name="event"
+          size={24}
+          color={isEnabled ? colors.primary : colors.textSecondary}
+        />
+        <View style={styles.textContainer}>
+          <Text style={styles.title}>Calendar Sync</Text>
+          <Text style={styles.subtitle}>
+            {isEnabled
+              ? `${feed?.feedType === 'provider' ? 'All shifts' : 'Your shifts'} in Google or Apple Calendar`
+              : 'Subscribe to your shifts from your phone\'s calendar'}
+          </Text>
+        </View>
+        {!isEnabled && (
+          <TouchableOpacity style={styles.button} onPress={createFeed} disabled={working}>
+            <Text style={styles.buttonText}>Enable</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isEnabled && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.button} onPress={handleSubscribe} disabled={working}>
+            <Text style={styles.buttonText}>Subscribe</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleShare} disabled={working}>
+            <Text style={styles.secondaryButtonText}>Share Link</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleRegenerate} disabled={working}>
+            <Text style={styles.linkText}>Regenerate</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleRevoke} disabled={working}>
+            <Text style={[styles.linkText, { color: colors.danger }]}>Turn Off</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,38 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  QueuedAction,
+  getQueuedActions,
+  subscribeToQueue,
+  processQueue,
+  discardAction,
+} from '@/utils/offlineQueue';
+
+export function useOfflineQueue(shiftId?: string) {
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    getQueuedActions().then(setActions);
+    return subscribeToQueue(setActions);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      await processQueue();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const visible = shiftId ? actions.filter((action) => action.shiftId === shiftId) : actions;
+
+  return {
+    actions: visible,
+    pendingCount: visible.filter((action) => !action.error).length,
+    failedActions: visible.filter((action) => !!action.error),
+    syncing,
+    syncNow,
+    discard: discardAction,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Offline Action Queue
+ *
+ * Keeps clock-ins, clock-outs, breaks and shift notes on the device when there is no
+ * connection, and replays them in order once the app is back online.
+ *
+ * Features:
+ * - Actions keep the device time they happened at (sent as `occurredAt`)
+ * - Every action carries an Idempotency-Key, so a replay is never recorded twice
+ * - Network failures leave actions queued; rejected actions are kept for the worker to discard
+ *
+ * Usage:
+ * 1. Call submitAction() instead of authenticatedPost() for punches and notes
+ * 2. Call processQueue() when connectivity returns
+ * 3. Use subscribeToQueue() (or the useOfflineQueue hook) to show pending sync state
+ */
+
+import { Platform } from "react-native";
+import * as SecureStore from "expo-secure-store";
+import { File, Paths } from "expo-file-system";
+import { BACKEND_URL, getBearerToken } from "@/utils/api";
+
+export type QueuedActionType = 'clock_in' | 'clock_out' | 'break_start' | 'break_end' | 'note';
+
+export interface QueuedAction {
+  id: string; // Also the Idempotency-Key
+  type: QueuedActionType;
+  shiftId: string;
+  endpoint: string;
+  body: Record<string, any>;
+  occurredAt: string;
+  attempts: number;
+  error: string | null; // Set when the server rejected the action; it won't be retried
+}
+
+export interface SubmitResult<T = any> {
+  queued: boolean;
+  data: T | null;
+}
+
+const QUEUE_STORAGE_KEY = "offline_action_queue";
+
+// SecureStore values are capped at about 2KB, far less than a few days of queued punches and notes
+const queueFile = () => new File(Paths.document, `${QUEUE_STORAGE_KEY}.json`);
+
+type Listener = (actions: QueuedAction[]) => void;
+const listeners = new Set<Listener>();
+let syncing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Queue writes run one at a time so a sync can't overwrite an action queued meanwhile
+let queueLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Thrown for responses from the server, as opposed to failures to reach it
+ */
+class RejectedActionError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when the server asks for the action to be sent again later,
+ * e.g. while an earlier attempt with the same key is still being handled
+ */
+class RetryLaterError extends Error {
+  constructor(public retryAfterMs: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Random v4 UUID for idempotency keys
+ */
+const createActionId = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Read the native queue file, moving over a queue left in SecureStore by earlier versions
+ */
+const readQueueFile = async (): Promise<string | null> => {
+  const file = queueFile();
+  if (file.exists) {
+    return file.text();
+  }
+
+  const legacy = await SecureStore.getItemAsync(QUEUE_STORAGE_KEY);
+  if (legacy) {
+    file.create();
+    file.write(legacy);
+    await SecureStore.deleteItemAsync(QUEUE_STORAGE_KEY);
+  }
+  return legacy;
+};
+
+/**
+ * Read the queue from platform-specific storage
+ * Web: localStorage
+ * Native: a file in the app's document directory
+ */
+export const getQueuedActions = async (): Promise<QueuedAction[]> => {
+  try {
+    const stored = Platform.OS === "web"
+      ? localStorage.getItem(QUEUE_STORAGE_KEY)
+      : await readQueueFile();
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("[OfflineQueue] Error reading queue:", error);
+    return [];
+  }
+};
+
+const saveQueue = async (actions: QueuedAction[]): Promise<void> => {
+  const value = JSON.stringify(actions);
+  if (Platform.OS === "web") {
+    localStorage.setItem(QUEUE_STORAGE_KEY, value);
+  } else {
+    const file = queueFile();
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(value);
+  }
+  listeners.forEach((listener) => listener(actions));
+};
+
+/**
+ * Apply a change to the latest stored queue
+ */
+const updateQueue = (update: (actions: QueuedAction[]) => QueuedAction[]): Promise<QueuedAction[]> => {
+  const run = queueLock.then(async () => {
+    const next = update(await getQueuedActions());
+    await saveQueue(next);
+    return next;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Listen for changes to the queue. Returns a function that stops listening.
+ */
+export const subscribeToQueue = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Whether a sync is in progress
+ */
+export const isSyncing = (): boolean => syncing !== null;
+
+/**
+ * Send one action with its idempotency key.
+ * Throws RejectedActionError when the server refuses the action, RetryLaterError when the server
+ * says when to send it again, and a plain Error when it should be retried once back online.
+ */
+const sendAction = async (action: QueuedAction): Promise<any> => {
+  const token = await getBearerToken();
+  const response = await fetch(`${BACKEND_URL}${action.endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": action.id,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ ...action.body, occurredAt: action.occurredAt }),
+  });
+
+  const text = await response.text();
+  // Expired sessions and rate limits are retried like network failures
+  const retryable = [401, 408, 429].includes(response.status);
+  if (response.status >= 400 && response.status < 500 && !retryable) {
+    let message = text;
+    try {
+      message = JSON.parse(text).error || text;
+    } catch {
+      // Not JSON, use the raw text
+    }
+    throw new RejectedActionError(response.status, message);
+  }
+  const retryAfterSeconds = Number(response.headers.get("Retry-After"));
+  if (response.status === 503 && retryAfterSeconds > 0) {
+    throw new RetryLaterError(retryAfterSeconds * 1000, `Server busy: ${response.status}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Server error: ${response.status}`);
+  }
+
+  return text ? JSON.parse(text) : null;
+};
+
+/**
+ * Record an action, sending it now when possible and queueing it otherwise.
+ * Actions are queued behind anything already waiting so they replay in order.
+ * Throws if the server rejects the action.
+ */
+export const submitAction = async <T = any>(
+  type: QueuedActionType,
+  shiftId: string,
+  endpoint: string,
+  body: Record<string, any> = {}
+): Promise<SubmitResult<T>> => {
+  const action: QueuedAction = {
+    id: createActionId(),
+    type,
+    shiftId,
+    endpoint,
+    body,
+    occurredAt: new Date().toISOString(),
+    attempts: 0,
+    error: null,
+  };
+
+  let queuedBehind = false;
+  await updateQueue((queue) => {
+    queuedBehind = queue.some((queued) => !queued.error);
+    return queuedBehind ? [...queue, action] : queue;
+  });
+
+  if (queuedBehind) {
+    console.log("[OfflineQueue] Queued behind pending actions:", type, shiftId);
+    processQueue();
+    return { queued: true, data: null };
+  }
+
+  try {
+    const data = await sendAction(action);
+    return { queued: false, data };
+  } catch (error) {
+    if (error instanceof RejectedActionError) {
+      throw error;
+    }
+    console.log("[OfflineQueue] Offline, queueing action:", type, shiftId);
+    await updateQueue((queue) => [...queue, action]);
+    return { queued: true, data: null };
+  }
+};
+
+/**
+ * Replay queued actions in order. Stops at the first action that can't reach the server;
+ * actions the server rejects are kept with their error and skipped.
+ */
+export const processQueue = (): Promise<void> => {
+  if (syncing) return syncing;
+
+  syncing = (async () => {
+    try {
+      // Re-read after each action so anything queued meanwhile is replayed too
+      let action = (await getQueuedActions()).find((queued) => !queued.error);
+      while (action) {
+        const current = action;
+        try {
+          console.log("[OfflineQueue] Replaying action:", current.type, current.id);
+          await sendAction(current);
+          await updateQueue((queue) => queue.filter((queued) => queued.id !== current.id));
+        } catch (error) {
+          if (!(error instanceof RejectedActionError)) {
+            await updateQueue((queue) => queue.map((queued) =>
+              queued.id === current.id ? { ...queued, attempts: queued.attempts + 1 } : queued));
+            if (error instanceof RetryLaterError) {
+              console.log("[OfflineQueue] Action still being handled, retrying in", error.retryAfterMs, "ms");
+              retryTimer = retryTimer ?? setTimeout(() => {
+                retryTimer = null;
+                processQueue();
+              }, error.retryAfterMs);
+            } else {
+              console.log("[OfflineQueue] Still offline, stopping sync");
+            }
+            break;
+          }
+          console.error("[OfflineQueue] Action rejected:", current.type, error.message);
+          await updateQueue((queue) => queue.map((queued) =>
+            queued.id === current.id ? { ...queued, attempts: queued.attempts + 1, error: error.message } : queued));
+        }
+        action = (await getQueuedActions()).find((queued) => !queued.error);
+      }
+    } finally {
+      syncing = null;
+    }
+  })();
+
+  return syncing;
+};
+
+/**
+ * Remove an action from the queue, e.g. one the server rejected
+ */
+export const discardAction = async (actionId: string): Promise<void> => {
+  await updateQueue((queue) => queue.filter((action) => action.id !== actionId));
+};
@@ -0,0 +1,56 @@
+/**
+ * Payroll helpers shared by the payslip screens
+ */
+
+import { Linking } from 'react-native';
+import { authenticatedGet } from './api';
+
+/**
+ * Money totals for a payslip, year to date or a financial year
+ */
+export interface PayTotals {
+  gross: number;
+  tax: number;
+  super: number;
+  deductions: number;
+  reimbursements: number;
+  net: number;
+}
+
+/**
+ * The Australian financial year (1 July to 30 June) a date falls in, named by the year it ends
+ */
+export const financialYearOf = (date: Date = new Date()): number =>
+  date.getMonth() >= 6 ? date.getFullYear() + 1 : date.getFullYear();
+
+/**
+ * A financial year as it's usually written, e.g. "2025-26"
+ */
+export const financialYearLabel = (year: number): string =>
+  `${year - 1}-${String(year % 100).padStart(2, '0')}`;
+
+export const formatMoney = (amount: number | string): string =>
+  `$${parseFloat(amount.toString()).toFixed(2)}`;
+
+/**
+ * Generate a payment summary PDF and open it. Providers pass the worker; workers pass the provider.
+ */
+export const openPaymentSummaryPdf = async (params: { workerId?: string; providerId?: string; financialYear: number }) => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  // GET /api/payment-summaries/pdf - Signed URL for the generated PDF
+  const { url } = await authenticatedGet<{ url: string }>(`/api/payment-summaries/pdf?${query}`);
+  await Linking.openURL(url);
+};
+
+/**
+ * Open the PDF of an issued or paid payslip
+ */
+export const openPayslipPdf = async (payslipId: string) => {
+  // GET /api/payslips/:payslipId/pdf - Signed URL for the stored PDF
+  const { url } = await authenticatedGet<{ url: string }>(`/api/payslips/${payslipId}/pdf`);
+  await Linking.openURL(url);
+};